@@ -12,11 +12,24 @@ async function main() {
   await prisma.productionItem.deleteMany()
   await prisma.productionOrder.deleteMany()
   await prisma.quote.deleteMany()
+  await prisma.letterheadProfile.deleteMany()
   await prisma.approval.deleteMany()
+  await prisma.approvalPolicy.deleteMany()
+  await prisma.costMaterialLine.deleteMany()
+  await prisma.costRoutingStep.deleteMany()
+  await prisma.laborOperation.deleteMany()
+  await prisma.exchangeRate.deleteMany()
+  await prisma.materialPrice.deleteMany()
+  await prisma.material.deleteMany()
+  await prisma.costCalculationRevision.deleteMany()
   await prisma.costCalculation.deleteMany()
+  await prisma.costingTemplate.deleteMany()
   await prisma.inquiryItem.deleteMany()
   await prisma.inquiry.deleteMany()
   await prisma.customer.deleteMany()
+  await prisma.taxProfile.deleteMany()
+  await prisma.numberingCounter.deleteMany()
+  await prisma.numberingSequence.deleteMany()
   await prisma.user.deleteMany()
 
   console.log('🗑️  Cleared existing data')
@@ -120,6 +133,59 @@ async function main() {
 
   console.log(`👥 Created ${users.length} users`)
 
+  // Create Tax Profiles
+  const defaultTaxProfile = await prisma.taxProfile.create({
+    data: {
+      name: 'PDV 17%',
+      rate: 0.17,
+      isDefault: true,
+    },
+  })
+  const croatianTaxProfile = await prisma.taxProfile.create({
+    data: {
+      name: 'PDV 25%',
+      rate: 0.25,
+    },
+  })
+
+  console.log('🧾 Created tax profiles')
+
+  // Create Letterhead Profiles
+  const defaultLetterhead = await prisma.letterheadProfile.create({
+    data: {
+      name: 'GS Istanbul',
+      companyName: 'GS Manufacturing Solutions',
+      address: '123 Industrial District, Manufacturing Zone, Istanbul, Turkey',
+      phone: '+90 212 555 0123',
+      email: 'info@gsmanufacturing.com',
+      website: 'www.gsmanufacturing.com',
+      vatId: 'TR1234567890',
+      bankAccounts: [
+        { bankName: 'Garanti BBVA', iban: 'TR330006100519786457841326', swift: 'TGBATRIS', currency: 'EUR' },
+      ],
+      footerText: 'Registered with the Istanbul Trade Registry',
+      isDefault: true,
+    },
+  })
+  await prisma.letterheadProfile.create({
+    data: {
+      name: 'GS Sarajevo',
+      companyName: 'GS Manufacturing d.o.o. Sarajevo',
+      address: 'Industrijska zona bb, 71000 Sarajevo, Bosnia and Herzegovina',
+      postalAddress: 'P.O. Box 12, 71000 Sarajevo',
+      phone: '+387 33 555 012',
+      email: 'sarajevo@gsmanufacturing.com',
+      vatId: '4200000000001',
+      bankAccounts: [
+        { bankName: 'UniCredit Bank d.d.', iban: 'BA391290079401028494', swift: 'UNCRBA22', currency: 'BAM' },
+        { bankName: 'UniCredit Bank d.d.', iban: 'BA391290079401028500', swift: 'UNCRBA22', currency: 'EUR' },
+      ],
+      defaultTerms: 'Payment within 30 days of invoice\nDelivery EXW Sarajevo\nPrices exclude transport and insurance',
+    },
+  })
+
+  console.log('🏢 Created letterhead profiles')
+
   // Create Customers
   const customers = await Promise.all([
     prisma.customer.create({
@@ -136,6 +202,7 @@ async function main() {
         email: 'procurement@techstart.com',
         phone: '+1-555-0202',
         address: '456 Innovation Blvd, Tech Valley, TV 67890',
+        preferredCurrency: 'USD',
       },
     }),
     prisma.customer.create({
@@ -144,6 +211,7 @@ async function main() {
         email: 'contact@globalmanuf.com',
         phone: '+1-555-0303',
         address: '789 Industrial Park, Manufacturing District, MD 11111',
+        taxTreatment: 'EU_REVERSE_CHARGE',
       },
     }),
     prisma.customer.create({
@@ -152,6 +220,7 @@ async function main() {
         email: 'sales@precisioneng.com',
         phone: '+1-555-0404',
         address: '321 Quality Street, Engineering Town, ET 22222',
+        taxProfileId: croatianTaxProfile.id,
       },
     }),
     prisma.customer.create({
@@ -174,9 +243,12 @@ async function main() {
   const vpUser = users.find(u => u.email === 'vp@al-star.im')!
   const managerUser = users.find(u => u.role === UserRole.MANAGER)!
 
-  // Create Inquiries with Items
+  // Create Inquiries with Items, numbered like the default INQUIRY pattern
+  // so the numbering counters carry on from them
+  const year = new Date().getFullYear()
   const inquiry1 = await prisma.inquiry.create({
     data: {
+      inquiryNumber: `INQ-${year}-00001`,
       title: 'Custom Machinery Components',
       description: 'Need custom precision-machined components for new production line',
       status: InquiryStatus.ASSIGNED,
@@ -217,6 +289,7 @@ async function main() {
 
   const inquiry2 = await prisma.inquiry.create({
     data: {
+      inquiryNumber: `INQ-${year}-00002`,
       title: 'Prototype Development Parts',
       description: 'Components needed for R&D prototype testing',
       status: InquiryStatus.COSTING,
@@ -250,6 +323,7 @@ async function main() {
 
   const inquiry3 = await prisma.inquiry.create({
     data: {
+      inquiryNumber: `INQ-${year}-00003`,
       title: 'Production Line Upgrade Components',
       description: 'Various components for production line modernization',
       status: InquiryStatus.SUBMITTED,
@@ -302,6 +376,7 @@ async function main() {
         notes: 'Includes material, machining, and finishing operations',
         inquiryItemId: inquiry1Items[0].id,
         calculatedById: vpUser.id,
+        revision: 1,
         isApproved: true,
         approvedAt: new Date(),
       },
@@ -320,6 +395,7 @@ async function main() {
         notes: 'CNC machining with precision tolerances +/- 0.001"',
         inquiryItemId: inquiry1Items[1].id,
         calculatedById: vpUser.id,
+        revision: 1,
         isApproved: false,
       },
     })
@@ -337,6 +413,7 @@ async function main() {
         notes: 'High-strength carbon fiber with custom length cutting',
         inquiryItemId: inquiry2Items[1].id,
         calculatedById: vpUser.id,
+        revision: 1,
         isApproved: true,
         approvedAt: new Date(),
       },
@@ -350,13 +427,33 @@ async function main() {
   const approvals = []
 
   for (const costCalc of costCalculations) {
+    // Each seeded calculation was submitted once, in the default main currency
+    const revision = await prisma.costCalculationRevision.create({
+      data: {
+        costCalculationId: costCalc.id,
+        revision: 1,
+        materialCost: costCalc.materialCost,
+        laborCost: costCalc.laborCost,
+        overheadCost: costCalc.overheadCost,
+        totalCost: costCalc.totalCost,
+        notes: costCalc.notes,
+        materialLines: [],
+        routingSteps: [],
+        mainCurrency: 'EUR',
+        exchangeRates: { EUR: 1 },
+        createdById: vpUser.id,
+      },
+    })
+
     const approval = await prisma.approval.create({
       data: {
         type: 'COST_CALCULATION',
         status: costCalc.isApproved ? 'APPROVED' : 'PENDING',
         comments: costCalc.isApproved ? 'Cost calculation approved - reasonable pricing' : null,
         approverId: managerUser.id,
+        requiredRole: UserRole.MANAGER,
         costCalculationId: costCalc.id,
+        revisionId: revision.id,
         approvedAt: costCalc.isApproved ? new Date() : null,
       },
     })
@@ -365,25 +462,128 @@ async function main() {
 
   console.log(`✅ Created ${approvals.length} approvals`)
 
+  // Default approval policies: one manager below 50,000, manager then admin above
+  await prisma.approvalPolicy.createMany({
+    data: [
+      {
+        name: 'Standard cost calculation',
+        type: 'COST_CALCULATION',
+        minAmount: 0,
+        maxAmount: 50000,
+        steps: [UserRole.MANAGER],
+      },
+      {
+        name: 'High value cost calculation',
+        type: 'COST_CALCULATION',
+        minAmount: 50000,
+        maxAmount: null,
+        steps: [UserRole.MANAGER, UserRole.ADMIN],
+      },
+    ],
+  })
+
+  console.log('✅ Created approval policies')
+
+  // Material catalog starter set, each with its first price entry
+  const catalog = [
+    { code: 'S235-SHEET-5', name: 'Hot rolled sheet 5 mm', category: 'STEEL', grade: 'S235JR', form: 'SHEET', dimensions: '2000x1000x5', density: 7850, priceUnit: 'KG', price: 1.15 },
+    { code: 'S355-PLATE-20', name: 'Plate 20 mm', category: 'STEEL', grade: 'S355J2', form: 'PLATE', dimensions: '3000x1500x20', density: 7850, priceUnit: 'KG', price: 1.35 },
+    { code: 'S235-IPE-200', name: 'IPE 200 beam', category: 'STEEL', grade: 'S235JR', form: 'PROFILE', dimensions: '12000 mm', density: 7850, priceUnit: 'M', price: 27.4 },
+    { code: 'S235-TUBE-60x3', name: 'Round tube 60.3x3', category: 'STEEL', grade: 'S235JRH', form: 'TUBE', dimensions: '6000 mm', density: 7850, priceUnit: 'M', price: 6.9 },
+    { code: '304-SHEET-2', name: 'Stainless sheet 2 mm, 2B', category: 'STAINLESS_STEEL', grade: 'AISI 304', form: 'SHEET', dimensions: '2000x1000x2', density: 7900, priceUnit: 'KG', price: 4.2 },
+    { code: '5754-SHEET-3', name: 'Aluminium sheet 3 mm', category: 'ALUMINIUM', grade: 'EN AW-5754 H111', form: 'SHEET', dimensions: '2000x1000x3', density: 2670, priceUnit: 'KG', price: 4.85 },
+  ] as const
+
+  for (const entry of catalog) {
+    const { price, ...fields } = entry
+    await prisma.material.create({
+      data: {
+        ...fields,
+        currentPrice: price,
+        currency: 'EUR',
+        prices: {
+          create: { price, currency: 'EUR', source: 'seed' }
+        }
+      }
+    })
+  }
+
+  console.log('✅ Created material catalog')
+
+  // Shop operations with hourly rates in the main currency
+  await prisma.laborOperation.createMany({
+    data: [
+      { code: 'LASER', name: 'Laser cutting', hourlyRate: 90, defaultSetupMinutes: 15, cuttingSpeed: 3000, pierceSeconds: 1 },
+      { code: 'PLASMA', name: 'Plasma cutting', hourlyRate: 70, defaultSetupMinutes: 15, cuttingSpeed: 1800, pierceSeconds: 2 },
+      { code: 'BEND', name: 'Press brake bending', hourlyRate: 60, defaultSetupMinutes: 20 },
+      { code: 'MIG', name: 'MIG welding', hourlyRate: 45, defaultSetupMinutes: 10 },
+      { code: 'TIG', name: 'TIG welding', hourlyRate: 55, defaultSetupMinutes: 10 },
+      { code: 'PAINT', name: 'Painting', hourlyRate: 40, defaultSetupMinutes: 30 },
+      { code: 'ASSY', name: 'Assembly', hourlyRate: 35, defaultSetupMinutes: 0 },
+    ],
+  })
+
+  console.log('✅ Created labor operations')
+
+  // Reference rates against the euro; BAM is pegged, HRK at its conversion rate
+  await prisma.exchangeRate.createMany({
+    data: [
+      { currency: 'BAM', rate: 1.95583, effectiveDate: new Date('2002-01-01'), source: 'manual', createdById: adminUser.id },
+      { currency: 'HRK', rate: 7.5345, effectiveDate: new Date('2023-01-01'), source: 'manual', createdById: adminUser.id },
+      { currency: 'USD', rate: 1.0321, effectiveDate: new Date('2025-01-02'), source: 'import: eurofxref-daily.xml', createdById: adminUser.id },
+      { currency: 'GBP', rate: 0.82713, effectiveDate: new Date('2025-01-02'), source: 'import: eurofxref-daily.xml', createdById: adminUser.id },
+      { currency: 'CHF', rate: 0.9385, effectiveDate: new Date('2025-01-02'), source: 'import: eurofxref-daily.xml', createdById: adminUser.id },
+      { currency: 'RSD', rate: 117.15, effectiveDate: new Date('2025-01-02'), source: 'manual', createdById: adminUser.id },
+    ],
+  })
+
+  console.log('✅ Created exchange rates')
+
+  // Formula template for a simple bent bracket, priced from its dimensions
+  await prisma.costingTemplate.create({
+    data: {
+      name: 'Wall bracket',
+      productFamily: 'Brackets',
+      description: 'Laser cut and bent bracket from 5 mm sheet',
+      variables: [
+        { name: 'length_mm', label: 'Length', unit: 'mm', min: 50, max: 2000, defaultValue: 200 },
+        { name: 'width_mm', label: 'Width', unit: 'mm', min: 20, max: 1000, defaultValue: 100 },
+        { name: 'thickness_mm', label: 'Thickness', unit: 'mm', min: 1, max: 20, defaultValue: 5 },
+        { name: 'holes', label: 'Holes', min: 0, max: 50, defaultValue: 4 },
+      ],
+      materialFormula: 'length_mm * width_mm * thickness_mm / 1e9 * density("S235-SHEET-5") * material("S235-SHEET-5")',
+      laborFormula: '(10 + holes * 0.5) / 60 * rate("LASER") + 15 / 60 * rate("BEND")',
+      overheadFormula: '0.15 * (material + labor)',
+    },
+  })
+
+  console.log('✅ Created costing templates')
+
   // Create a Quote for approved items
   const approvedCostCalcs = costCalculations.filter(cc => cc.isApproved)
   if (approvedCostCalcs.length > 0) {
     const totalCost = approvedCostCalcs.reduce((sum, cc) => sum + Number(cc.totalCost), 0)
     const margin = 0.25 // 25% margin
-    const quoteTotal = totalCost * (1 + margin)
+    const quoteTotal = Math.round(totalCost * (1 + margin) * 100) / 100
+    const quoteTax = Math.round(quoteTotal * Number(defaultTaxProfile.rate) * 100) / 100
 
     const quote = await prisma.quote.create({
       data: {
-        quoteNumber: 'QUO-2024-001',
+        quoteNumber: `Q-${year}-00001`,
         title: 'Custom Machinery Components Quote',
         description: 'Quote for precision-machined components as per inquiry requirements',
         subtotal: totalCost,
         margin: margin,
         total: quoteTotal,
+        taxName: defaultTaxProfile.name,
+        taxRate: defaultTaxProfile.rate,
+        taxAmount: quoteTax,
+        grossTotal: quoteTotal + quoteTax,
         validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days validity
         status: 'SENT',
         terms: 'Net 30 days payment terms. 50% deposit required before production.',
         notes: 'All components manufactured to customer specifications with quality certification.',
+        letterheadProfileId: defaultLetterhead.id,
         inquiryId: inquiry1.id,
         createdById: salesUser.id,
       },
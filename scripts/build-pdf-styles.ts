@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+/**
+ * Build the stylesheet embedded in generated PDF documents
+ *
+ * Compiles the Tailwind classes used by src/lib/pdf-templates.ts and the
+ * Noto Sans fonts (Latin and Latin Extended, so č, ć, đ, š and ž render) into
+ * src/lib/pdf-styles.generated.ts. Documents then render without network
+ * access. Runs before dev, build and type-check; run it again after adding
+ * classes to the templates.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import postcss from 'postcss'
+import tailwindcss from 'tailwindcss'
+
+const CONFIG = {
+  templates: path.join(process.cwd(), 'src/lib/pdf-templates.ts'),
+  fontDir: path.join(process.cwd(), 'node_modules/@fontsource/noto-sans/files'),
+  output: path.join(process.cwd(), 'src/lib/pdf-styles.generated.ts'),
+  // Medium text falls back to regular and semibold to bold
+  fontWeights: [400, 700],
+  fontSubsets: ['latin', 'latin-ext']
+}
+
+function buildFontFaces(): string {
+  // Character ranges of each subset, as published with the font files
+  const unicodeRanges: Record<string, string> = JSON.parse(
+    fs.readFileSync(path.join(CONFIG.fontDir, '../unicode.json'), 'utf-8')
+  )
+
+  const faces: string[] = []
+  for (const weight of CONFIG.fontWeights) {
+    for (const subset of CONFIG.fontSubsets) {
+      const file = path.join(CONFIG.fontDir, `noto-sans-${subset}-${weight}-normal.woff2`)
+      const font = fs.readFileSync(file).toString('base64')
+      faces.push(`@font-face {
+  font-family: 'Noto Sans';
+  font-style: normal;
+  font-weight: ${weight};
+  src: url(data:font/woff2;base64,${font}) format('woff2');
+  unicode-range: ${unicodeRanges[subset]};
+}`)
+    }
+  }
+  return faces.join('\n')
+}
+
+async function buildTailwind(): Promise<string> {
+  const result = await postcss([
+    tailwindcss({
+      content: [CONFIG.templates],
+      theme: {
+        extend: {
+          fontFamily: {
+            sans: ['"Noto Sans"', 'Arial', 'sans-serif']
+          }
+        }
+      }
+    })
+  ]).process('@tailwind base;\n@tailwind components;\n@tailwind utilities;', { from: undefined })
+  return result.css
+}
+
+async function main() {
+  const css = `${buildFontFaces()}\n${await buildTailwind()}`
+  const source = `// Generated by scripts/build-pdf-styles.ts; do not edit\n\nexport const PDF_DOCUMENT_CSS = ${JSON.stringify(css)}\n`
+  fs.writeFileSync(CONFIG.output, source)
+  console.log(`PDF styles written to ${path.relative(process.cwd(), CONFIG.output)} (${Math.round(css.length / 1024)} KB)`)
+}
+
+main().catch(error => {
+  console.error('Failed to build PDF styles:', error)
+  process.exit(1)
+})
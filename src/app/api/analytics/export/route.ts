@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
 import { db } from '@/lib/db/index'
+import { quoteTotalInMainCurrency } from '@/lib/quote-service'
 
 // Simple CSV export functionality
 export async function GET(request: NextRequest) {
@@ -165,10 +166,10 @@ async function generateFinancialCSV(startDate: Date): Promise<string> {
     orderBy: { createdAt: 'desc' }
   }) as any[]
 
-  let csv = 'Date,Quote Number,Customer,Total Amount,Status,Created By,Valid Until\n'
+  let csv = 'Date,Quote Number,Customer,Total Amount,Tax Treatment,Tax Amount,Gross Amount,Currency,Exchange Rate,Rate Date,Total in Main Currency,Status,Created By,Valid Until\n'
   
   quotes.forEach(quote => {
-    csv += `"${quote.createdAt.toISOString().split('T')[0]}","${quote.quoteNumber}","${quote.inquiry?.customer?.name || 'N/A'}","${quote.total}","${quote.status}","${quote.createdBy?.name || 'N/A'}","${quote.validUntil.toISOString().split('T')[0]}"\n`
+    csv += `"${quote.createdAt.toISOString().split('T')[0]}","${quote.quoteNumber}","${quote.inquiry?.customer?.name || 'N/A'}","${quote.total}","${quote.taxTreatment}","${quote.taxAmount}","${quote.grossTotal}","${quote.currency}","${quote.exchangeRate}","${quote.exchangeRateDate ? quote.exchangeRateDate.toISOString().split('T')[0] : ''}","${quoteTotalInMainCurrency(quote)}","${quote.status}","${quote.createdBy?.name || 'N/A'}","${quote.validUntil.toISOString().split('T')[0]}"\n`
   })
 
   return csv
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
 import { db } from '@/lib/db/index'
 import { optimizeApiRoute } from '@/lib/api-optimization'
+import { quoteTotalInMainCurrency } from '@/lib/quote-service'
 
 const getHandler = async (request: NextRequest) => {
   try {
@@ -183,7 +184,8 @@ async function getFinancialAnalytics(startDate: Date) {
     where: { createdAt: { gte: startDate } }
   }) as any[]
 
-  const totalValue = quotes.reduce((sum, quote) => sum + (parseFloat(quote.total) || 0), 0)
+  // Quotes in other currencies count at the rate they were priced at
+  const totalValue = quotes.reduce((sum, quote) => sum + quoteTotalInMainCurrency(quote), 0)
   const averageQuoteValue = quotes.length > 0 ? totalValue / quotes.length : 0
 
   return {
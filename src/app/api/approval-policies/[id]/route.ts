@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { approvalPolicySchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = approvalPolicySchema.parse(body)
+
+    const existing = await db.approvalPolicy.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Approval policy not found' },
+        { status: 404 }
+      )
+    }
+
+    // Chains already routed keep their steps, changes apply to new ones
+    const policy = await db.approvalPolicy.update({
+      where: { id },
+      data: {
+        ...validatedData,
+        maxAmount: validatedData.maxAmount ?? null
+      }
+    })
+
+    await db.auditLog.create({
+      data: {
+        action: 'UPDATE',
+        entity: 'APPROVAL_POLICY',
+        entityId: policy.id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: {
+          name: existing.name,
+          type: existing.type,
+          minAmount: Number(existing.minAmount),
+          maxAmount: existing.maxAmount === null ? null : Number(existing.maxAmount),
+          steps: existing.steps,
+          isActive: existing.isActive
+        },
+        newData: validatedData,
+        metadata: { name: policy.name }
+      }
+    })
+
+    return NextResponse.json(policy)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update approval policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to update approval policy' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existing = await db.approvalPolicy.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Approval policy not found' },
+        { status: 404 }
+      )
+    }
+
+    // Policies that routed approvals stay for the record, they are only switched off
+    const usedBy = await db.approval.count!({ where: { policyId: id } })
+    if (usedBy > 0) {
+      await db.approvalPolicy.update({
+        where: { id },
+        data: { isActive: false }
+      })
+    } else {
+      await db.approvalPolicy.delete({ where: { id } })
+    }
+
+    await db.auditLog.create({
+      data: {
+        action: 'DELETE',
+        entity: 'APPROVAL_POLICY',
+        entityId: id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: { name: existing.name, steps: existing.steps },
+        newData: usedBy > 0 ? { isActive: false } : {},
+        metadata: { name: existing.name }
+      }
+    })
+
+    return NextResponse.json({ success: true, deactivated: usedBy > 0 })
+  } catch (error) {
+    console.error('Failed to delete approval policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete approval policy' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { approvalPolicySchema } from '@/lib/validations'
+import { getAuthenticatedUser, canApprove } from '@/utils/supabase/api-auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canApprove(user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+
+    const policies = await db.approvalPolicy.findMany({
+      where: type ? { type } : {},
+      orderBy: [{ type: 'asc' }, { minAmount: 'asc' }]
+    })
+
+    return NextResponse.json(policies)
+  } catch (error) {
+    console.error('Failed to fetch approval policies:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch approval policies' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Only admins configure who approves what
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validatedData = approvalPolicySchema.parse(body)
+
+    const policy = await db.approvalPolicy.create({
+      data: {
+        ...validatedData,
+        maxAmount: validatedData.maxAmount ?? null
+      }
+    })
+
+    await db.auditLog.create({
+      data: {
+        action: 'CREATE',
+        entity: 'APPROVAL_POLICY',
+        entityId: policy.id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: {},
+        newData: validatedData,
+        metadata: { name: policy.name }
+      }
+    })
+
+    return NextResponse.json(policy, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to create approval policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to create approval policy' },
+      { status: 500 }
+    )
+  }
+}
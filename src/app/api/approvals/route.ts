@@ -1,8 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/index'
 import { createApprovalSchema } from '@/lib/validations'
-import { getAuthenticatedUser, canApprove } from '@/utils/supabase/api-auth'
+import { getAuthenticatedUser, canApprove, type AuthenticatedUser } from '@/utils/supabase/api-auth'
 import { sendNotificationEmail } from '@/lib/email'
+import { decideApprovalStep, canActOnApprovalStep } from '@/lib/approval-service'
+import { formatQuoteRevision, quoteTotalInMainCurrency } from '@/lib/quote-service'
+import { applyAutomaticInquiryTransition, applyAutomaticItemTransition, type InquiryStatusChange } from '@/lib/inquiry-workflow'
+import { onApprovalRequired, onInquiryStatusChanged } from '@/lib/automation/hooks'
+import { summarizeCostOutliers } from '@/lib/cost-outlier-service'
+import { AppError } from '@/types'
+
+// Steps of the chain an approval belongs to
+const chainSelect = {
+  select: {
+    id: true,
+    status: true,
+    stepOrder: true,
+    requiredRole: true,
+    approverId: true,
+    approver: { select: { id: true, name: true } }
+  },
+  orderBy: { stepOrder: 'asc' as const }
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,7 +38,10 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status')
     const type = searchParams.get('type')
 
-    const where: any = {}
+    // Steps of superseded cost calculation revisions only show in its history
+    const where: any = {
+      NOT: { type: 'COST_CALCULATION', costCalculationId: null }
+    }
 
     // Apply role-based filtering
     if (user.role === 'MANAGER') {
@@ -42,6 +64,19 @@ export async function GET(request: NextRequest) {
       where,
       include: {
         approver: { select: { id: true, name: true, email: true } },
+        // Figures the step was routed for; the calculation may have moved on
+        revision: {
+          select: {
+            id: true,
+            revision: true,
+            materialCost: true,
+            laborCost: true,
+            overheadCost: true,
+            totalCost: true,
+            notes: true,
+            outlierFlags: true
+          }
+        },
         costCalculation: {
           include: {
             inquiryItem: {
@@ -53,16 +88,52 @@ export async function GET(request: NextRequest) {
                 }
               }
             },
-            calculatedBy: { select: { id: true, name: true, email: true } }
+            calculatedBy: { select: { id: true, name: true, email: true } },
+            approvals: chainSelect
+          }
+        },
+        quote: {
+          include: {
+            inquiry: {
+              include: {
+                customer: { select: { id: true, name: true } }
+              }
+            },
+            createdBy: { select: { id: true, name: true, email: true } },
+            approvals: chainSelect
+          }
+        },
+        productionOrder: {
+          include: {
+            quote: {
+              include: {
+                inquiry: {
+                  include: {
+                    customer: { select: { id: true, name: true } }
+                  }
+                }
+              }
+            },
+            approvals: chainSelect
           }
         }
       },
       orderBy: { createdAt: 'desc' }
     })
 
+    // Flag the steps this user can decide right now
+    const data = approvals.map((approval: any) => {
+      const subject = approval.costCalculation ?? approval.quote ?? approval.productionOrder
+      return {
+        ...approval,
+        canAct: approval.status === 'PENDING' &&
+          canActOnApprovalStep(approval, subject?.approvals ?? [approval], user)
+      }
+    })
+
     return NextResponse.json({
       success: true,
-      data: approvals,
+      data,
     })
   } catch (error) {
     console.error('Get approvals error:', error)
@@ -87,9 +158,30 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validatedData = createApprovalSchema.parse(body)
 
+    // Decisions from the approval queue name the step; quote and production
+    // order steps don't share the cost calculation flow below
+    let costCalculationId = validatedData.costCalculationId
+    if (validatedData.approvalId) {
+      const step = await db.approval.findUnique({
+        where: { id: validatedData.approvalId }
+      })
+
+      if (!step) {
+        return NextResponse.json(
+          { error: 'Approval not found' },
+          { status: 404 }
+        )
+      }
+
+      if (step.type !== 'COST_CALCULATION') {
+        return await decideEntityApproval(step, validatedData, user)
+      }
+      costCalculationId = step.costCalculationId!
+    }
+
     // Verify the cost calculation exists
     const costCalculation = await db.costCalculation.findUnique({
-      where: { id: validatedData.costCalculationId },
+      where: { id: costCalculationId },
       include: {
         inquiryItem: {
           include: {
@@ -103,7 +195,11 @@ export async function POST(request: NextRequest) {
           }
         },
         calculatedBy: { select: { id: true, name: true, email: true } },
-        approvals: { select: { id: true, status: true } }
+        revisions: {
+          select: { id: true, outlierFlags: true },
+          orderBy: { revision: 'desc' },
+          take: 1
+        }
       }
     }) as any
 
@@ -114,64 +210,81 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if there's already an active approval
-    const existingApproval = costCalculation.approvals.find((a: any) => 
-      a.status === 'PENDING' || a.status === 'APPROVED'
-    )
-
-    if (existingApproval) {
+    if (costCalculation.isApproved) {
       return NextResponse.json(
-        { error: 'Cost calculation already has an active approval' },
+        { error: 'Cost calculation is already approved' },
         { status: 400 }
       )
     }
 
-    // Create approval in a transaction
+    // Record the decision in a transaction
     const result = await db.$transaction ? await db.$transaction(async (tx: any) => {
-      // Create the approval
-      const approval = await tx.approval.create({
-        data: {
+      let inquiryChange: InquiryStatusChange | null = null
+
+      // Decide the current step of the approval chain
+      const { approval, chainComplete, nextStep } = await decideApprovalStep(
+        tx,
+        {
           type: 'COST_CALCULATION',
-          status: validatedData.status,
-          comments: validatedData.comments,
-          approverId: user.id,
-          costCalculationId: validatedData.costCalculationId,
-          ...(validatedData.status === 'APPROVED' && { approvedAt: new Date() })
+          id: costCalculation.id,
+          amount: Number(costCalculation.totalCost),
+          revisionId: costCalculation.revisions[0]?.id
         },
-        include: {
-          approver: { select: { id: true, name: true, email: true } },
-          costCalculation: {
-            include: {
-              inquiryItem: {
-                include: {
-                  inquiry: {
-                    include: {
-                      customer: { select: { id: true, name: true } }
-                    }
-                  }
-                }
-              },
-              calculatedBy: { select: { id: true, name: true, email: true } }
+        { status: validatedData.status, comments: validatedData.comments },
+        user
+      )
+
+      if (nextStep) {
+        // Hand over to the next approver in the chain
+        const outlierFlags = costCalculation.revisions[0]?.outlierFlags ?? []
+        await tx.notification.create({
+          data: {
+            type: 'APPROVAL_REQUIRED',
+            title: 'Cost calculation needs approval',
+            message: `Cost calculation for "${costCalculation.inquiryItem.name}" was approved by ${user.name} and now requires your approval (step ${nextStep.stepOrder})` +
+              (outlierFlags.length > 0 ? `. ${summarizeCostOutliers(outlierFlags)}` : ''),
+            userId: nextStep.approverId,
+            isRead: false,
+            readAt: null,
+            data: {
+              approvalId: nextStep.id,
+              costCalculationId: costCalculation.id,
+              inquiryItemId: costCalculation.inquiryItem.id,
+              inquiryId: costCalculation.inquiryItem.inquiry.id,
+              totalCost: costCalculation.totalCost,
+              outlierFlags
             }
           }
+        })
+
+        try {
+          await sendNotificationEmail(
+            'approval_required',
+            [nextStep.approver.email],
+            {
+              managerName: nextStep.approver.name,
+              itemName: costCalculation.inquiryItem.name,
+              vpName: costCalculation.calculatedBy.name,
+              totalCost: Number(costCalculation.totalCost),
+              inquiryTitle: costCalculation.inquiryItem.inquiry.title
+            }
+          )
+        } catch (emailError) {
+          console.error('Failed to send approval notification email:', emailError)
         }
-      })
+      }
 
-      // Update cost calculation if approved
-      if (validatedData.status === 'APPROVED') {
+      // Update cost calculation once the whole chain has approved
+      if (chainComplete) {
         await tx.costCalculation.update({
-          where: { id: validatedData.costCalculationId },
+          where: { id: costCalculation.id },
           data: {
             isApproved: true,
             approvedAt: new Date()
           }
         })
 
-        // Update inquiry item status
-        await tx.inquiryItem.update({
-          where: { id: costCalculation.inquiryItem.id },
-          data: { status: 'APPROVED' }
-        })
+        await applyAutomaticItemTransition(tx, costCalculation.inquiryItem.id, 'APPROVED')
 
         // Check if all items in the inquiry are approved
         const inquiryItems = await tx.inquiryItem.findMany({
@@ -184,10 +297,8 @@ export async function POST(request: NextRequest) {
         )
 
         if (allApproved) {
-          await tx.inquiry.update({
-            where: { id: costCalculation.inquiryItem.inquiry.id },
-            data: { status: 'COSTING' } // Ready for quote generation
-          })
+          // Ready for quote generation
+          inquiryChange = await applyAutomaticInquiryTransition(tx, costCalculation.inquiryItem.inquiry.id, 'COSTING')
 
           // Notify sales team
           const salesUsers = await tx.user.findMany({
@@ -261,11 +372,8 @@ export async function POST(request: NextRequest) {
           console.error('Failed to send approval status email:', emailError)
         }
       } else if (validatedData.status === 'REJECTED') {
-        // Update inquiry item status back to assigned for recalculation
-        await tx.inquiryItem.update({
-          where: { id: costCalculation.inquiryItem.id },
-          data: { status: 'ASSIGNED' }
-        })
+        // Back to the assignee for recalculation
+        await applyAutomaticItemTransition(tx, costCalculation.inquiryItem.id, 'ASSIGNED')
 
         // Notify the VP about rejection
         await tx.notification.create({
@@ -310,24 +418,54 @@ export async function POST(request: NextRequest) {
           newData: {
             approvalStatus: validatedData.status,
             approvedBy: user.name,
-            comments: validatedData.comments
+            comments: validatedData.comments,
+            stepOrder: approval.stepOrder,
+            revision: costCalculation.revision,
+            chainComplete
           },
           userId: user.id,
           inquiryId: costCalculation.inquiryItem.inquiry.id,
         }
       })
 
-      return approval
+      return { approval, chainComplete, nextStep, inquiryChange }
     }) : (() => {
       throw new Error('Database transactions not supported')
     })()
 
+    if (result.nextStep) {
+      try {
+        await onApprovalRequired(result.nextStep.id, result.nextStep, 'COST_CALCULATION', costCalculation, user.id)
+      } catch (hookError) {
+        console.error('Failed to run approval automation rules:', hookError)
+      }
+    }
+
+    if (result.inquiryChange) {
+      const { from, to } = result.inquiryChange
+      const inquiry = costCalculation.inquiryItem.inquiry
+      try {
+        await onInquiryStatusChanged(inquiry.id, from, to, { ...inquiry, status: to }, user.id)
+      } catch (hookError) {
+        console.error('Failed to run inquiry status automation rules:', hookError)
+      }
+    }
+
     return NextResponse.json({
       success: true,
-      data: result,
-      message: `Cost calculation ${validatedData.status.toLowerCase()} successfully`,
+      data: result.approval,
+      message: result.nextStep
+        ? `Approval step ${result.approval.stepOrder} recorded, waiting for step ${result.nextStep.stepOrder}`
+        : `Cost calculation ${validatedData.status.toLowerCase()} successfully`,
     })
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Create approval error:', error)
     
     if (error instanceof Error && error.message.includes('validation')) {
@@ -342,4 +480,122 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Decide a quote or production order approval step. The next approver is
+ * notified, or the requester once the chain is finished.
+ */
+async function decideEntityApproval(
+  step: any,
+  decision: { status: 'APPROVED' | 'REJECTED'; comments?: string },
+  user: AuthenticatedUser
+) {
+  const isQuote = step.type === 'QUOTE'
+  const entity = isQuote
+    ? await db.quote.findUnique({
+        where: { id: step.quoteId },
+        include: { inquiry: { include: { customer: true } } }
+      }) as any
+    : await db.productionOrder.findUnique({
+        where: { id: step.productionOrderId },
+        include: { quote: { include: { inquiry: { include: { customer: true } } } } }
+      }) as any
+
+  if (!entity) {
+    return NextResponse.json(
+      { error: isQuote ? 'Quote not found' : 'Production order not found' },
+      { status: 404 }
+    )
+  }
+
+  const subject = {
+    type: step.type,
+    id: entity.id,
+    amount: isQuote ? quoteTotalInMainCurrency(entity) : Number(entity.totalValue)
+  }
+  const description = isQuote
+    ? `Quote ${formatQuoteRevision(entity)}`
+    : `Production order ${entity.orderNumber}`
+  const inquiry = isQuote ? entity.inquiry : entity.quote.inquiry
+  // Quotes go back to their author, production orders to the sales rep
+  const requesterId = isQuote ? entity.createdById : inquiry.createdById
+
+  const result = await db.$transaction(async (tx) => {
+    const result = await decideApprovalStep(tx, subject, decision, user)
+
+    if (result.nextStep) {
+      await tx.notification.create({
+        data: {
+          type: 'APPROVAL_REQUIRED',
+          title: `${description} needs approval`,
+          message: `${description} was approved by ${user.name} and now requires your approval (step ${result.nextStep.stepOrder})`,
+          userId: result.nextStep.approverId,
+          isRead: false,
+          readAt: null,
+          data: {
+            approvalId: result.nextStep.id,
+            relatedId: entity.id,
+            relatedType: step.type
+          }
+        }
+      })
+    } else {
+      const outcome = decision.status === 'APPROVED' ? 'approved' : 'rejected'
+      await tx.notification.create({
+        data: {
+          type: 'STATUS_UPDATE',
+          title: `${description} ${outcome}`,
+          message: `${description} for ${inquiry.customer.name} was ${outcome} by ${user.name}` +
+            (decision.comments ? `: ${decision.comments}` : ''),
+          userId: requesterId,
+          isRead: false,
+          readAt: null,
+          data: {
+            approvalId: result.approval.id,
+            approvalStatus: decision.status,
+            relatedId: entity.id,
+            relatedType: step.type
+          }
+        }
+      })
+    }
+
+    await tx.auditLog.create({
+      data: {
+        action: decision.status === 'APPROVED' ? 'APPROVE' : 'REJECT',
+        entity: isQuote ? 'QUOTE' : 'PRODUCTION_ORDER',
+        entityId: entity.id,
+        userId: user.id,
+        inquiryId: inquiry.id,
+        oldData: { approvalStatus: 'PENDING' },
+        newData: {
+          approvalStatus: decision.status,
+          approvedBy: user.name,
+          comments: decision.comments ?? null,
+          stepOrder: result.approval.stepOrder,
+          chainComplete: result.chainComplete
+        },
+        metadata: { description }
+      }
+    })
+
+    return result
+  })
+
+  if (result.nextStep) {
+    try {
+      await onApprovalRequired(result.nextStep.id, result.nextStep, step.type, entity, user.id)
+    } catch (hookError) {
+      console.error('Failed to run approval automation rules:', hookError)
+    }
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: result.approval,
+    message: result.nextStep
+      ? `Approval step ${result.approval.stepOrder} recorded, waiting for step ${result.nextStep.stepOrder}`
+      : `${description} ${decision.status.toLowerCase()} successfully`,
+  })
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { getAuthenticatedUser, canCalculateCosts } from '@/utils/supabase/api-auth'
+import { evaluateCostingTemplate } from '@/lib/costing-template-service'
+import { AppError } from '@/types'
+
+const evaluateSchema = z.object({
+  inputs: z.record(z.number()),
+})
+
+// Preview of a template's amounts; nothing is saved
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canCalculateCosts(user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { inputs } = evaluateSchema.parse(await request.json())
+
+    const template = await db.costingTemplate.findUnique({ where: { id } })
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Costing template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(await evaluateCostingTemplate(template, inputs))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Evaluate costing template error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
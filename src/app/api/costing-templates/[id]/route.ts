@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { costingTemplateSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = costingTemplateSchema.parse(body)
+
+    const existing = await db.costingTemplate.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Costing template not found' },
+        { status: 404 }
+      )
+    }
+
+    // Saved calculations keep their amounts and inputs until recalculated
+    const template = await db.costingTemplate.update({
+      where: { id },
+      data: validatedData
+    })
+
+    await db.auditLog.create({
+      data: {
+        action: 'UPDATE',
+        entity: 'COSTING_TEMPLATE',
+        entityId: id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: {
+          name: existing.name,
+          productFamily: existing.productFamily,
+          variables: existing.variables,
+          materialFormula: existing.materialFormula,
+          laborFormula: existing.laborFormula,
+          overheadFormula: existing.overheadFormula,
+          isActive: existing.isActive
+        },
+        newData: validatedData,
+        metadata: { name: template.name }
+      }
+    })
+
+    return NextResponse.json(template)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update costing template:', error)
+    return NextResponse.json(
+      { error: 'Failed to update costing template' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existing = await db.costingTemplate.findUnique({
+      where: { id },
+      include: { _count: { select: { costCalculations: true } } }
+    }) as any
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Costing template not found' },
+        { status: 404 }
+      )
+    }
+
+    // Templates behind saved calculations stay for traceability
+    const usedBy = existing._count.costCalculations
+    if (usedBy > 0) {
+      await db.costingTemplate.update({
+        where: { id },
+        data: { isActive: false }
+      })
+    } else {
+      await db.costingTemplate.delete({ where: { id } })
+    }
+
+    await db.auditLog.create({
+      data: {
+        action: 'DELETE',
+        entity: 'COSTING_TEMPLATE',
+        entityId: id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: { name: existing.name, productFamily: existing.productFamily },
+        newData: usedBy > 0 ? { isActive: false } : {},
+        metadata: { name: existing.name }
+      }
+    })
+
+    return NextResponse.json({ success: true, deactivated: usedBy > 0 })
+  } catch (error) {
+    console.error('Failed to delete costing template:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete costing template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { costingTemplateSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const templates = await db.costingTemplate.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: [{ productFamily: 'asc' }, { name: 'asc' }]
+    })
+
+    return NextResponse.json(templates)
+  } catch (error) {
+    console.error('Failed to fetch costing templates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch costing templates' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Templates are defined by admins, calculators only fill them in
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validatedData = costingTemplateSchema.parse(body)
+
+    const template = await db.costingTemplate.create({ data: validatedData })
+
+    await db.auditLog.create({
+      data: {
+        action: 'CREATE',
+        entity: 'COSTING_TEMPLATE',
+        entityId: template.id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: {},
+        newData: validatedData,
+        metadata: { name: template.name }
+      }
+    })
+
+    return NextResponse.json(template, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to create costing template:', error)
+    return NextResponse.json(
+      { error: 'Failed to create costing template' },
+      { status: 500 }
+    )
+  }
+}
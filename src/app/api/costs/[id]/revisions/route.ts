@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { getAuthenticatedUser, hasPermission, canApprove } from '@/utils/supabase/api-auth'
+
+// Every submitted version of a cost calculation, newest first, with the
+// approval steps that decided on it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(user.role, 'inquiry-items', 'read') && !canApprove(user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const costCalculation = await db.costCalculation.findUnique({
+      where: { id },
+      include: {
+        inquiryItem: { select: { assignedToId: true } }
+      }
+    }) as any
+
+    if (!costCalculation) {
+      return NextResponse.json(
+        { error: 'Cost calculation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (user.role === 'VP' && costCalculation.inquiryItem.assignedToId !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const revisions = await db.costCalculationRevision.findMany({
+      where: { costCalculationId: id },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        approvals: {
+          select: {
+            id: true,
+            status: true,
+            stepOrder: true,
+            requiredRole: true,
+            approvedAt: true,
+            approver: { select: { id: true, name: true } }
+          },
+          orderBy: { stepOrder: 'asc' }
+        }
+      },
+      orderBy: { revision: 'desc' }
+    })
+
+    return NextResponse.json(revisions)
+  } catch (error) {
+    console.error('Get cost calculation revisions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
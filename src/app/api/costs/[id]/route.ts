@@ -0,0 +1,330 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db, database } from '@/lib/db/index'
+import { z } from 'zod'
+import { costCalculationSchema } from '@/lib/validations'
+import { getAuthenticatedUser, canCalculateCosts } from '@/utils/supabase/api-auth'
+import { getApprovalChain, getApprovalState, routeApprovalChain, supersedeApprovalChain } from '@/lib/approval-service'
+import { getMaterialLineRates, priceMaterialLines, sumMaterialLines } from '@/lib/bom-service'
+import { getExchangeRatesAsOf } from '@/lib/exchange-rate-service'
+import { assertCatalogMaterials } from '@/lib/material-service'
+import { priceRoutingSteps, sumRoutingSteps } from '@/lib/routing-service'
+import { costFromTemplate } from '@/lib/costing-template-service'
+import { buildCostRevision } from '@/lib/cost-revision-service'
+import { costCurrencyFields } from '@/lib/cost-currency'
+import { findCostOutliers, summarizeCostOutliers } from '@/lib/cost-outlier-service'
+import { applyAutomaticItemTransition } from '@/lib/inquiry-workflow'
+import { AppError } from '@/types'
+import { Prisma } from '@prisma/client'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canCalculateCosts(user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const {
+      materialLines: materialLineInput,
+      routingSteps: routingStepInput,
+      templateId,
+      templateInputs,
+      ...costFields
+    } = costCalculationSchema.parse(body)
+
+    const existing = await db.costCalculation.findUnique({
+      where: { id },
+      include: {
+        inquiryItem: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            unit: true,
+            quantity: true,
+            assignedToId: true,
+            inquiryId: true
+          }
+        },
+        template: { select: { name: true } },
+        materialLines: { orderBy: { sortOrder: 'asc' } },
+        routingSteps: { orderBy: { sortOrder: 'asc' } }
+      }
+    }) as any
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Cost calculation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (user.role === 'VP' && existing.inquiryItem.assignedToId !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only calculate costs for items assigned to you' },
+        { status: 403 }
+      )
+    }
+
+    // Approved figures may already be on a quote
+    if (existing.isApproved) {
+      return NextResponse.json(
+        { error: 'Approved cost calculations cannot be changed' },
+        { status: 409 }
+      )
+    }
+
+    // Rates are recorded with the revision even when no line needs them
+    const [settings, asOf] = await Promise.all([
+      database.getSystemSettings(),
+      getExchangeRatesAsOf(new Date())
+    ])
+    const rates = getMaterialLineRates(settings.mainCurrency, asOf.rates)
+    let materialLines: ReturnType<typeof priceMaterialLines> = []
+    let materialCost = costFields.materialCost
+    if (materialLineInput?.length) {
+      await assertCatalogMaterials(materialLineInput)
+      materialLines = priceMaterialLines(materialLineInput, rates)
+      materialCost = sumMaterialLines(materialLines)
+    }
+
+    // With a routing the labor cost comes from the operations' rates
+    let routingSteps: ReturnType<typeof priceRoutingSteps> = []
+    let laborCost = costFields.laborCost
+    if (routingStepInput?.length) {
+      const operations = await db.laborOperation.findMany({
+        where: { id: { in: routingStepInput.map(step => step.operationId) } }
+      })
+      routingSteps = priceRoutingSteps(routingStepInput, operations)
+      laborCost = sumRoutingSteps(routingSteps)
+    }
+
+    // A template computes all three amounts from its formulas
+    let overheadCost = costFields.overheadCost
+    let resolvedInputs: Record<string, number> | null = null
+    let templateName: string | null = null
+    if (templateId) {
+      const templateCosts = await costFromTemplate(templateId, templateInputs ?? {}, existing.templateId)
+      materialCost = templateCosts.materialCost
+      laborCost = templateCosts.laborCost
+      overheadCost = templateCosts.overheadCost
+      resolvedInputs = templateCosts.inputs
+      templateName = templateCosts.templateName
+    }
+    const totalCost = materialCost + laborCost + overheadCost
+
+    // Amounts entered in another currency keep their original figures
+    const currencyFields = costCurrencyFields(
+      { materialCost, laborCost, overheadCost },
+      costFields,
+      {
+        materialCost: materialLines.length > 0 || !!templateId,
+        laborCost: routingSteps.length > 0 || !!templateId,
+        overheadCost: !!templateId
+      },
+      settings.mainCurrency
+    )
+
+    // Checks against approved history, stored with the revision for approvers
+    const outlierFlags = await findCostOutliers(existing.inquiryItem, user.id, {
+      materialCost,
+      laborCost,
+      totalCost,
+      templateId: templateId ?? null,
+      templateName,
+      materialLines
+    }, { mainCurrency: settings.mainCurrency, rates })
+
+    // Calculations saved before revisions existed keep their figures as
+    // the first revision, so their first save becomes the second
+    const revisionNumber = existing.revision === 0 ? 2 : existing.revision + 1
+
+    const costCalculation = await db.$transaction(async (tx) => {
+      // Claim the revision number; a save that read the same revision loses
+      const { count } = await tx.costCalculation.updateMany!({
+        where: { id, revision: existing.revision, isApproved: false },
+        data: { revision: revisionNumber }
+      })
+      if (count !== 1) {
+        throw new AppError('The cost calculation was changed by someone else; reload it and try again', 409)
+      }
+
+      // The legacy figures are kept with the rates their lines were priced at
+      if (existing.revision === 0) {
+        await tx.costCalculationRevision.create({
+          data: {
+            ...buildCostRevision({
+              costCalculationId: id,
+              revision: 1,
+              createdById: existing.calculatedById,
+              materialCost: Number(existing.materialCost),
+              laborCost: Number(existing.laborCost),
+              overheadCost: Number(existing.overheadCost),
+              totalCost: Number(existing.totalCost),
+              notes: existing.notes,
+              materialLines: existing.materialLines,
+              routingSteps: existing.routingSteps,
+              templateName: existing.template?.name,
+              templateInputs: existing.templateInputs,
+              mainCurrency: settings.mainCurrency,
+              exchangeRates: existing.materialLines.reduce((used: Record<string, number>, line: any) => {
+                used[line.currency] = Number(line.exchangeRate)
+                return used
+              }, { [settings.mainCurrency]: 1 })
+            }),
+            createdAt: existing.updatedAt
+          }
+        })
+      }
+
+      const revision = await tx.costCalculationRevision.create({
+        data: buildCostRevision({
+          costCalculationId: id,
+          revision: revisionNumber,
+          createdById: user.id,
+          materialCost,
+          laborCost,
+          overheadCost,
+          totalCost,
+          notes: costFields.notes,
+          materialLines,
+          routingSteps,
+          templateName,
+          templateInputs: resolvedInputs,
+          mainCurrency: settings.mainCurrency,
+          exchangeRates: rates,
+          outlierFlags
+        })
+      })
+      const subject = { type: 'COST_CALCULATION' as const, id, amount: totalCost, revisionId: revision.id }
+
+      const updated = await tx.costCalculation.update({
+        where: { id },
+        data: {
+          materialCost,
+          laborCost,
+          overheadCost,
+          totalCost,
+          ...currencyFields,
+          notes: costFields.notes,
+          templateId: templateId ?? null,
+          templateInputs: resolvedInputs ?? Prisma.DbNull,
+          materialLines: {
+            deleteMany: {},
+            create: materialLines
+          },
+          routingSteps: {
+            deleteMany: {},
+            create: routingSteps
+          }
+        },
+        include: {
+          calculatedBy: { select: { id: true, name: true, email: true } },
+          materialLines: { orderBy: { sortOrder: 'asc' } },
+          routingSteps: { orderBy: { sortOrder: 'asc' } }
+        }
+      })
+
+      // Approvals decide on one revision, so a pending or rejected chain is
+      // routed again from the first step for the new one; the new amount may
+      // also fall under a different policy
+      const approvalState = getApprovalState(await getApprovalChain(tx, subject))
+      if (approvalState === 'PENDING' || approvalState === 'REJECTED') {
+        await supersedeApprovalChain(tx, subject)
+        const [firstStep] = await routeApprovalChain(tx, subject)
+
+        // A rejected item is back in costing once it has been recalculated
+        if (approvalState === 'REJECTED') {
+          await applyAutomaticItemTransition(tx, existing.inquiryItem.id, 'COSTED')
+        }
+
+        await tx.notification.create({
+          data: {
+            type: 'APPROVAL_REQUIRED',
+            title: 'Cost calculation needs approval',
+            message: `Cost calculation for "${existing.inquiryItem.name}" was updated and requires your approval` +
+              (outlierFlags.length > 0 ? `. ${summarizeCostOutliers(outlierFlags)}` : ''),
+            userId: firstStep.approverId,
+            isRead: false,
+            readAt: null,
+            data: {
+              approvalId: firstStep.id,
+              costCalculationId: id,
+              inquiryItemId: existing.inquiryItem.id,
+              inquiryId: existing.inquiryItem.inquiryId,
+              totalCost,
+              outlierFlags
+            }
+          }
+        })
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action: 'UPDATE',
+          entity: 'CostCalculation',
+          entityId: id,
+          oldData: {
+            materialCost: Number(existing.materialCost),
+            laborCost: Number(existing.laborCost),
+            overheadCost: Number(existing.overheadCost),
+            totalCost: Number(existing.totalCost),
+            templateId: existing.templateId,
+            templateInputs: existing.templateInputs,
+            revision: existing.revision
+          },
+          newData: {
+            materialCost,
+            laborCost,
+            overheadCost,
+            totalCost,
+            materialLines: materialLines.length,
+            routingSteps: routingSteps.length,
+            templateId: templateId ?? null,
+            templateInputs: resolvedInputs,
+            revision: revisionNumber
+          },
+          metadata: {},
+          userId: user.id,
+          inquiryId: existing.inquiryItem.inquiryId
+        }
+      })
+
+      return updated
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: costCalculation,
+      message: 'Cost calculation updated successfully',
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Update cost calculation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db } from '@/lib/db/index'
+import { db, database } from '@/lib/db/index'
+import { z } from 'zod'
 import { costCalculationSchema } from '@/lib/validations'
 import { canCalculateCosts } from '@/utils/supabase/api-auth'
 import { sendNotificationEmail } from '@/lib/email'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { routeApprovalChain } from '@/lib/approval-service'
+import { getMaterialLineRates, priceMaterialLines, sumMaterialLines } from '@/lib/bom-service'
+import { getExchangeRatesAsOf } from '@/lib/exchange-rate-service'
+import { assertCatalogMaterials } from '@/lib/material-service'
+import { priceRoutingSteps, sumRoutingSteps } from '@/lib/routing-service'
+import { costFromTemplate } from '@/lib/costing-template-service'
+import { buildCostRevision } from '@/lib/cost-revision-service'
+import { costCurrencyFields } from '@/lib/cost-currency'
+import { findCostOutliers, summarizeCostOutliers } from '@/lib/cost-outlier-service'
+import { applyAutomaticInquiryTransition, applyAutomaticItemTransition } from '@/lib/inquiry-workflow'
+import { onApprovalRequired, onInquiryStatusChanged } from '@/lib/automation/hooks'
+import { AppError } from '@/types'
 
 export async function GET(request: NextRequest) {
   try {
@@ -50,6 +63,8 @@ export async function GET(request: NextRequest) {
           }
         },
         calculatedBy: { select: { id: true, name: true, email: true } },
+        materialLines: { orderBy: { sortOrder: 'asc' } },
+        routingSteps: { orderBy: { sortOrder: 'asc' } },
         approvals: {
           include: {
             approver: { select: { id: true, name: true, email: true } }
@@ -136,21 +151,99 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // With a bill of materials the material cost is the sum of its lines
+    const {
+      materialLines: materialLineInput,
+      routingSteps: routingStepInput,
+      templateId,
+      templateInputs,
+      ...costFields
+    } = validatedData
+    // Rates are recorded with the revision even when no line needs them
+    const [settings, asOf] = await Promise.all([
+      database.getSystemSettings(),
+      getExchangeRatesAsOf(new Date())
+    ])
+    const rates = getMaterialLineRates(settings.mainCurrency, asOf.rates)
+    let materialLines: ReturnType<typeof priceMaterialLines> = []
+    let materialCost = costFields.materialCost
+    if (materialLineInput?.length) {
+      await assertCatalogMaterials(materialLineInput)
+      materialLines = priceMaterialLines(materialLineInput, rates)
+      materialCost = sumMaterialLines(materialLines)
+    }
+
+    // With a routing the labor cost comes from the operations' rates
+    let routingSteps: ReturnType<typeof priceRoutingSteps> = []
+    let laborCost = costFields.laborCost
+    if (routingStepInput?.length) {
+      const operations = await db.laborOperation.findMany({
+        where: { id: { in: routingStepInput.map(step => step.operationId) } }
+      })
+      routingSteps = priceRoutingSteps(routingStepInput, operations)
+      laborCost = sumRoutingSteps(routingSteps)
+    }
+
+    // A template computes all three amounts from its formulas
+    let overheadCost = costFields.overheadCost
+    let resolvedInputs: Record<string, number> | null = null
+    let templateName: string | null = null
+    if (templateId) {
+      const templateCosts = await costFromTemplate(templateId, templateInputs ?? {})
+      materialCost = templateCosts.materialCost
+      laborCost = templateCosts.laborCost
+      overheadCost = templateCosts.overheadCost
+      resolvedInputs = templateCosts.inputs
+      templateName = templateCosts.templateName
+    }
+
     // Calculate total cost
-    const totalCost = validatedData.materialCost + validatedData.laborCost + validatedData.overheadCost
+    const totalCost = materialCost + laborCost + overheadCost
+
+    // Amounts entered in another currency keep their original figures
+    const currencyFields = costCurrencyFields(
+      { materialCost, laborCost, overheadCost },
+      costFields,
+      {
+        materialCost: materialLines.length > 0 || !!templateId,
+        laborCost: routingSteps.length > 0 || !!templateId,
+        overheadCost: !!templateId
+      },
+      settings.mainCurrency
+    )
+
+    // Checks against approved history, stored with the revision for approvers
+    const outlierFlags = await findCostOutliers(inquiryItem, user.id, {
+      materialCost,
+      laborCost,
+      totalCost,
+      templateId: templateId ?? null,
+      templateName,
+      materialLines
+    }, { mainCurrency: settings.mainCurrency, rates })
 
     // Create cost calculation in a transaction
     const result = await db.$transaction(async (tx) => {
       // Create the cost calculation
       const costCalculation = await tx.costCalculation.create({
         data: {
-          materialCost: validatedData.materialCost,
-          laborCost: validatedData.laborCost,
-          overheadCost: validatedData.overheadCost,
+          materialCost: materialCost,
+          laborCost,
+          overheadCost,
           totalCost: totalCost,
-          notes: validatedData.notes,
+          ...currencyFields,
+          notes: costFields.notes,
+          templateId: templateId ?? null,
+          templateInputs: resolvedInputs ?? undefined,
+          revision: 1,
           inquiryItemId: inquiryItemId,
           calculatedById: user.id,
+          materialLines: {
+            create: materialLines
+          },
+          routingSteps: {
+            create: routingSteps
+          }
         },
         include: {
           inquiryItem: {
@@ -162,32 +255,36 @@ export async function POST(request: NextRequest) {
               }
             }
           },
-          calculatedBy: { select: { id: true, name: true, email: true } }
+          calculatedBy: { select: { id: true, name: true, email: true } },
+          materialLines: { orderBy: { sortOrder: 'asc' } },
+          routingSteps: { orderBy: { sortOrder: 'asc' } }
         }
       })
 
-      // Update the inquiry item status
-      await tx.inquiryItem.update({
-        where: { id: inquiryItemId },
-        data: { status: 'COSTED' }
-      })
-
-      // Update inquiry status if all items are costed
-      const inquiryItems = await tx.inquiryItem.findMany({
-        where: { inquiryId: inquiryItem.inquiry.id },
-        select: { status: true }
+      // First revision; approvals are routed for exactly these figures
+      const revision = await tx.costCalculationRevision.create({
+        data: buildCostRevision({
+          costCalculationId: costCalculation.id,
+          revision: 1,
+          createdById: user.id,
+          materialCost,
+          laborCost,
+          overheadCost,
+          totalCost,
+          notes: costFields.notes,
+          materialLines,
+          routingSteps,
+          templateName,
+          templateInputs: resolvedInputs,
+          mainCurrency: settings.mainCurrency,
+          exchangeRates: rates,
+          outlierFlags
+        })
       })
 
-      const allCosted = inquiryItems.every(item => 
-        ['COSTED', 'APPROVED', 'QUOTED'].includes(item.status)
-      )
-
-      if (allCosted) {
-        await tx.inquiry.update({
-          where: { id: inquiryItem.inquiry.id },
-          data: { status: 'COSTING' }
-        })
-      }
+      // The item is costed; the inquiry moves on once all its items are
+      await applyAutomaticItemTransition(tx, inquiryItemId, 'COSTED')
+      const inquiryChange = await applyAutomaticInquiryTransition(tx, inquiryItem.inquiry.id, 'COSTING')
 
       // Create audit log
       await tx.auditLog.create({
@@ -202,6 +299,11 @@ export async function POST(request: NextRequest) {
             overheadCost: costCalculation.overheadCost,
             totalCost: costCalculation.totalCost,
             inquiryItemId: inquiryItemId,
+            materialLines: materialLines.length,
+            routingSteps: routingSteps.length,
+            templateId: templateId ?? null,
+            templateInputs: resolvedInputs,
+            revision: 1,
           },
           metadata: {},
           userId: user.id,
@@ -209,60 +311,93 @@ export async function POST(request: NextRequest) {
         }
       })
 
-      // Create notification for managers (approval needed)
-      const managers = await tx.user.findMany({
-        where: { role: 'MANAGER', isActive: true },
-        select: { id: true, name: true, email: true }
+      // Route the approval chain for this amount; the first step's approver
+      // is asked now, later steps once the one before them is approved
+      const approvalSteps = await routeApprovalChain(tx, {
+        type: 'COST_CALCULATION',
+        id: costCalculation.id,
+        amount: totalCost,
+        revisionId: revision.id
       })
+      const firstStep = approvalSteps[0]
 
-      for (const manager of managers) {
-        await tx.notification.create({
+      await tx.notification.create({
+        data: {
+          type: 'APPROVAL_REQUIRED',
+          title: 'Cost calculation needs approval',
+          message: `Cost calculation for "${inquiryItem.name}" in inquiry "${inquiryItem.inquiry.title}" requires your approval` +
+            (approvalSteps.length > 1 ? ` (step 1 of ${approvalSteps.length})` : '') +
+            (outlierFlags.length > 0 ? `. ${summarizeCostOutliers(outlierFlags)}` : ''),
+          userId: firstStep.approverId,
+          isRead: false,
+          readAt: null,
           data: {
-            type: 'APPROVAL_REQUIRED',
-            title: 'Cost calculation needs approval',
-            message: `Cost calculation for "${inquiryItem.name}" in inquiry "${inquiryItem.inquiry.title}" requires your approval`,
-            userId: manager.id,
-            isRead: false,
-            readAt: null,
-            data: {
-              costCalculationId: costCalculation.id,
-              inquiryItemId: inquiryItemId,
-              inquiryId: inquiryItem.inquiry.id,
-              totalCost: totalCost
-            }
+            approvalId: firstStep.id,
+            costCalculationId: costCalculation.id,
+            inquiryItemId: inquiryItemId,
+            inquiryId: inquiryItem.inquiry.id,
+            totalCost: totalCost,
+            outlierFlags
           }
-        })
-      }
-
-      // Send email notifications to managers
-      if (managers.length > 0) {
-        try {
-          await sendNotificationEmail(
-            'approval_required',
-            managers.map(m => m.email),
-            {
-              managerName: managers.map(m => m.name).join(', '), // For multiple managers
-              itemName: inquiryItem.name,
-              vpName: user.name,
-              totalCost: totalCost,
-              inquiryTitle: inquiryItem.inquiry.title
-            }
-          )
-        } catch (emailError) {
-          console.error('Failed to send approval notification email:', emailError)
-          // Don't fail the main transaction if email fails
         }
+      })
+
+      // Send email notification to the approver
+      try {
+        await sendNotificationEmail(
+          'approval_required',
+          [firstStep.approver.email],
+          {
+            managerName: firstStep.approver.name,
+            itemName: inquiryItem.name,
+            vpName: user.name,
+            totalCost: totalCost,
+            inquiryTitle: inquiryItem.inquiry.title
+          }
+        )
+      } catch (emailError) {
+        console.error('Failed to send approval notification email:', emailError)
+        // Don't fail the main transaction if email fails
       }
 
-      return costCalculation
+      return { costCalculation, firstStep, inquiryChange }
     })
 
+    try {
+      await onApprovalRequired(result.firstStep.id, result.firstStep, 'COST_CALCULATION', result.costCalculation, user.id)
+    } catch (hookError) {
+      console.error('Failed to run approval automation rules:', hookError)
+    }
+
+    if (result.inquiryChange) {
+      const { from, to } = result.inquiryChange
+      try {
+        await onInquiryStatusChanged(inquiryItem.inquiry.id, from, to, { ...inquiryItem.inquiry, status: to }, user.id)
+      } catch (hookError) {
+        console.error('Failed to run inquiry status automation rules:', hookError)
+      }
+    }
+
     return NextResponse.json({
       success: true,
-      data: result,
+      data: result.costCalculation,
       message: 'Cost calculation created successfully',
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Create cost calculation error:', error)
     
     if (error instanceof Error && error.message.includes('validation')) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/index'
 import { UserRole } from '@/lib/db/types'
 import { z } from 'zod'
+import { Currency, TaxTreatment } from '@prisma/client'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
 
 // Schema for updating customers
@@ -9,7 +10,11 @@ const updateCustomerSchema = z.object({
   name: z.string().min(1),
   email: z.string().email(),
   phone: z.string().optional().nullable(),
-  address: z.string().optional().nullable()
+  address: z.string().optional().nullable(),
+  preferredCurrency: z.nativeEnum(Currency).optional().nullable(),
+  taxTreatment: z.nativeEnum(TaxTreatment).optional(),
+  // None: the default tax profile applies
+  taxProfileId: z.string().optional().nullable()
 })
 
 export async function PUT(
@@ -3,6 +3,7 @@ import { hasPermission } from '@/utils/supabase/api-auth'
 import { db } from '@/lib/db/index'
 import { UserRole } from '@/lib/db/types'
 import { z } from 'zod'
+import { Currency, TaxTreatment } from '@prisma/client'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
 import { optimizeApiRoute } from '@/lib/api-optimization'
 
@@ -11,7 +12,11 @@ const customerSchema = z.object({
   name: z.string().min(1),
   email: z.string().email(),
   phone: z.string().optional().nullable(),
-  address: z.string().optional().nullable()
+  address: z.string().optional().nullable(),
+  preferredCurrency: z.nativeEnum(Currency).optional().nullable(),
+  taxTreatment: z.nativeEnum(TaxTreatment).optional(),
+  // None: the default tax profile applies
+  taxProfileId: z.string().optional().nullable()
 })
 
 const getHandler = async (request: NextRequest) => {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/index'
-import { ExcelService, DEFAULT_EXCEL_COMPANY_INFO } from '@/lib/excel'
+import { ExcelService } from '@/lib/excel'
+import { getLetterhead } from '@/lib/letterhead-service'
 import { z } from 'zod'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
 
@@ -95,7 +96,7 @@ export async function POST(request: NextRequest) {
     const excelBuffer = await ExcelService.exportCustomersToExcel(filteredCustomers as any, {
       fileName: validatedData.fileName || `customers-export-${new Date().toISOString().split('T')[0]}.xlsx`,
       includeFormatting: true,
-      companyInfo: DEFAULT_EXCEL_COMPANY_INFO
+      companyInfo: await getLetterhead()
     })
 
     // Generate filename
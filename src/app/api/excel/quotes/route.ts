@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { ExcelService } from '@/lib/excel'
+import { getLetterhead } from '@/lib/letterhead-service'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { toQuoteDocumentLines, toQuoteDocumentCurrency, formatQuoteRevision } from '@/lib/quote-service'
+import { toQuoteTax } from '@/lib/tax-rules'
+
+// A saved quote (`?quoteId=`) as a workbook, in the quote currency with its tax
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check user permissions
+    if (!['SUPERUSER', 'ADMIN', 'MANAGER', 'SALES'].includes(user.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const quoteId = new URL(request.url).searchParams.get('quoteId')
+    if (!quoteId) {
+      return NextResponse.json({ error: 'Quote ID is required' }, { status: 400 })
+    }
+
+    const quote = await db.quote.findUnique({
+      where: { id: quoteId },
+      include: {
+        inquiry: {
+          include: {
+            customer: { select: { name: true } }
+          }
+        },
+        lines: {
+          include: { inquiryItem: true },
+          orderBy: { sortOrder: 'asc' }
+        }
+      }
+    }) as any
+
+    if (!quote) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    const quoteNumber = formatQuoteRevision(quote)
+    const excelBuffer = await ExcelService.exportQuoteToExcel(
+      {
+        quoteNumber,
+        title: quote.title,
+        customerName: quote.inquiry.customer.name,
+        validUntil: new Date(quote.validUntil),
+        total: Number(quote.total)
+      },
+      toQuoteDocumentLines(quote.lines),
+      toQuoteDocumentCurrency(quote),
+      toQuoteTax(quote),
+      { includeFormatting: true, companyInfo: await getLetterhead(quote.letterheadProfileId) }
+    )
+
+    // Set response headers for Excel download
+    const headers = new Headers()
+    headers.set('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+    headers.set('Content-Disposition', `attachment; filename="quote-${quoteNumber}.xlsx"`)
+    headers.set('Content-Length', excelBuffer.length.toString())
+
+    return new NextResponse(excelBuffer as any, { headers })
+  } catch (error) {
+    console.error('Quote Excel export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate Excel export', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { toRateDate } from '@/lib/exchange-rate-parser'
+
+// Remove a wrong entry; the previous rate for the currency applies again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existing = await db.exchangeRate.findUnique({ where: { id } })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Exchange rate not found' },
+        { status: 404 }
+      )
+    }
+
+    await db.exchangeRate.delete({ where: { id } })
+
+    await db.auditLog.create({
+      data: {
+        action: 'DELETE',
+        entity: 'EXCHANGE_RATE',
+        entityId: id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: {
+          currency: existing.currency,
+          rate: Number(existing.rate),
+          effectiveDate: toRateDate(existing.effectiveDate)
+        },
+        newData: {},
+        metadata: { source: existing.source }
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete exchange rate:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete exchange rate' },
+      { status: 500 }
+    )
+  }
+}
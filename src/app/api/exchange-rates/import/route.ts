@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { parseExchangeRateFile, ExchangeRateParseError } from '@/lib/exchange-rate-parser'
+import { importExchangeRates } from '@/lib/exchange-rate-service'
+
+// Import an ECB reference rate file (XML or CSV) uploaded by an admin
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'An .xml or .csv rate file is required' },
+        { status: 400 }
+      )
+    }
+
+    let parsed
+    try {
+      parsed = parseExchangeRateFile(await file.text())
+    } catch (parseError) {
+      if (parseError instanceof ExchangeRateParseError) {
+        return NextResponse.json({ error: parseError.message }, { status: 400 })
+      }
+      throw parseError
+    }
+
+    const result = await importExchangeRates(
+      parsed.rates,
+      user.id,
+      `import: ${file.name}`,
+      parsed.ignoredCurrencies
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Failed to import exchange rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to import exchange rates' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { Currency } from '@prisma/client'
+import { UserRole } from '@/lib/db/types'
+import { exchangeRateSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { getExchangeRatesAsOf, importExchangeRates } from '@/lib/exchange-rate-service'
+import { parseRateDate } from '@/lib/exchange-rate-parser'
+
+// Most recent entries listed when browsing the history
+const HISTORY_LIMIT = 500
+
+// With ?date=YYYY-MM-DD the rates in force that day, otherwise the history
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const date = searchParams.get('date')
+    const currency = searchParams.get('currency')
+
+    if (date) {
+      const day = parseRateDate(date)
+      if (!day) {
+        return NextResponse.json({ error: 'Date must be YYYY-MM-DD' }, { status: 400 })
+      }
+      return NextResponse.json(await getExchangeRatesAsOf(day))
+    }
+
+    const where: any = {}
+    if (currency && (Object.values(Currency) as string[]).includes(currency)) {
+      where.currency = currency
+    }
+
+    const rates = await db.exchangeRate.findMany({
+      where,
+      include: {
+        createdBy: { select: { id: true, name: true } }
+      },
+      orderBy: [{ effectiveDate: 'desc' }, { currency: 'asc' }],
+      take: HISTORY_LIMIT
+    })
+
+    return NextResponse.json(rates)
+  } catch (error) {
+    console.error('Failed to fetch exchange rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch exchange rates' },
+      { status: 500 }
+    )
+  }
+}
+
+// Enter or correct a single rate
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validatedData = exchangeRateSchema.parse(body)
+
+    const result = await importExchangeRates([validatedData], user.id, 'manual')
+
+    return NextResponse.json(result, { status: result.created ? 201 : 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to save exchange rate:', error)
+    return NextResponse.json(
+      { error: 'Failed to save exchange rate' },
+      { status: 500 }
+    )
+  }
+}
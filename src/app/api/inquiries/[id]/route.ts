@@ -3,6 +3,9 @@ import { db } from '@/lib/db/index'
 import { updateInquirySchema, idSchema } from '@/lib/validations'
 import { hasPermission } from '@/utils/supabase/api-auth'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { assertInquiryTransition } from '@/lib/inquiry-workflow'
+import { onInquiryStatusChanged } from '@/lib/automation/hooks'
+import { AppError } from '@/types'
 
 export async function GET(
   request: NextRequest,
@@ -119,8 +122,9 @@ export async function PUT(
         deadline: true,
         assignedToId: true,
         createdById: true,
+        items: { select: { status: true, assignedToId: true } },
       }
-    })
+    }) as any
 
     if (!existingInquiry) {
       return NextResponse.json({ error: 'Inquiry not found' }, { status: 404 })
@@ -131,6 +135,11 @@ export async function PUT(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
+    const statusChanged = !!validatedData.status && validatedData.status !== existingInquiry.status
+    if (statusChanged) {
+      assertInquiryTransition(existingInquiry.status, validatedData.status!, user.role, existingInquiry)
+    }
+
     const inquiry = await db.inquiry.update({
       where: { id },
       data: {
@@ -177,12 +186,27 @@ export async function PUT(
       }
     })
 
+    if (statusChanged) {
+      try {
+        await onInquiryStatusChanged(inquiry.id, existingInquiry.status, inquiry.status, inquiry, user.id)
+      } catch (hookError) {
+        console.error('Failed to run inquiry status automation rules:', hookError)
+      }
+    }
+
     return NextResponse.json({
       success: true,
       data: inquiry,
       message: 'Inquiry updated successfully',
     })
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Update inquiry error:', error)
     
     if (error instanceof Error && error.message.includes('validation')) {
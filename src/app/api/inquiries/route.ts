@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/index'
 import { createInquirySchema, inquiryFiltersSchema } from '@/lib/validations'
 import { onInquiryCreated } from '@/lib/automation/hooks'
+import { nextDocumentNumber } from '@/lib/numbering-service'
 import { cache, cacheKeys } from '@/lib/upstash-redis'
 import { optimizedAuth } from '@/utils/supabase/optimized-auth'
 
@@ -68,6 +69,7 @@ export async function GET(request: NextRequest) {
       where.OR = [
         ...(where.OR || []),
         { description: { contains: filters.search, mode: 'insensitive' } },
+        { inquiryNumber: { contains: filters.search, mode: 'insensitive' } },
         { customer: { name: { contains: filters.search, mode: 'insensitive' } } }
       ]
     }
@@ -131,7 +133,7 @@ export async function GET(request: NextRequest) {
                 name: true
               }
             },
-            costs: true
+            costCalculation: true
           }
         }
       }
@@ -177,19 +179,12 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validatedData = createInquirySchema.parse(body)
 
-    // Get next sequential number
-    const latestInquiry = await db.inquiry.findFirst({
-      orderBy: { sequentialNumber: 'desc' },
-      select: { sequentialNumber: true }
-    })
-    
-    const nextNumber = (latestInquiry?.sequentialNumber || 0) + 1
-
-    // Create inquiry with sequential number
-    const inquiry = await db.inquiry.create({
+    // Numbered in the same transaction so the number is only used when
+    // the inquiry is created
+    const inquiry = await db.$transaction(async (tx) => tx.inquiry.create({
       data: {
         ...validatedData,
-        sequentialNumber: nextNumber,
+        inquiryNumber: await nextDocumentNumber(tx, 'INQUIRY'),
         createdById: user.id,
         status: 'DRAFT'
       },
@@ -198,7 +193,7 @@ export async function POST(request: NextRequest) {
         createdBy: true,
         items: true
       }
-    })
+    }))
 
     // Trigger automation hooks
     await onInquiryCreated(inquiry)
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { getAuthenticatedUser, hasPermission } from '@/utils/supabase/api-auth'
+import { analyzeAttachment, getItemDrawings } from '@/lib/drawing-service'
+
+const reanalyzeSchema = z.object({
+  attachmentId: z.string().min(1),
+})
+
+async function findReadableItem(request: NextRequest, id: string) {
+  const user = await getAuthenticatedUser(request)
+  if (!user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (!hasPermission(user.role, 'inquiry-items', 'read')) {
+    return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  const item = await db.inquiryItem.findUnique({
+    where: { id },
+    select: { id: true, inquiryId: true, assignedToId: true }
+  })
+
+  if (!item) {
+    return { error: NextResponse.json({ error: 'Item not found' }, { status: 404 }) }
+  }
+
+  if (user.role === 'VP' && item.assignedToId !== user.id) {
+    return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+
+  return { item }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { item, error } = await findReadableItem(request, id)
+    if (error) return error
+
+    return NextResponse.json(await getItemDrawings(item))
+  } catch (error) {
+    console.error('Get item drawings error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Measure a drawing again, e.g. after the parser learned a new entity type
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { item, error } = await findReadableItem(request, id)
+    if (error) return error
+
+    const { attachmentId } = reanalyzeSchema.parse(await request.json())
+    const drawings = await getItemDrawings(item)
+    if (!drawings.some(drawing => drawing.attachment.id === attachmentId)) {
+      return NextResponse.json({ error: 'Drawing not found' }, { status: 404 })
+    }
+
+    const attachment = await db.fileAttachment.findUnique({ where: { id: attachmentId } })
+    return NextResponse.json(await analyzeAttachment(attachment!))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Analyze drawing error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
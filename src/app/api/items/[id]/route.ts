@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/index'
 import { hasPermission } from '@/utils/supabase/api-auth'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { ItemStatus } from '@prisma/client'
+import { assertItemTransition } from '@/lib/inquiry-workflow'
+import { AppError } from '@/types'
 
 export async function GET(
   request: NextRequest,
@@ -47,6 +50,15 @@ export async function GET(
                 id: true,
                 name: true
               }
+            },
+            materialLines: {
+              orderBy: { sortOrder: 'asc' }
+            },
+            routingSteps: {
+              orderBy: { sortOrder: 'asc' }
+            },
+            template: {
+              select: { id: true, name: true, productFamily: true, variables: true }
             }
           }
         }
@@ -90,11 +102,19 @@ export async function PUT(
     const body = await request.json()
     const { name, description, quantity, unit, status, notes, requestedDelivery, assignedToId } = body
 
+    if (status !== undefined && !Object.values(ItemStatus).includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
     // Get existing item to check permissions
     const existingItem = await db.inquiryItem.findUnique({
       where: { id: params.id },
-      select: { assignedToId: true }
-    })
+      select: {
+        status: true,
+        assignedToId: true,
+        costCalculation: { select: { isApproved: true } }
+      }
+    }) as any
 
     if (!existingItem) {
       return NextResponse.json({ error: 'Item not found' }, { status: 404 })
@@ -105,6 +125,14 @@ export async function PUT(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
+    if (status && status !== existingItem.status) {
+      // An assignee sent in the same request counts towards the precondition
+      assertItemTransition(existingItem.status, status, user.role, {
+        ...existingItem,
+        ...(assignedToId !== undefined && { assignedToId })
+      })
+    }
+
     const item = await db.inquiryItem.update({
       where: { id: params.id },
       data: {
@@ -152,6 +180,13 @@ export async function PUT(
 
     return NextResponse.json(item)
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Update item error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
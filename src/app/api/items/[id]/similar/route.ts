@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { getAuthenticatedUser, canCalculateCosts } from '@/utils/supabase/api-auth'
+import { findSimilarItems } from '@/lib/item-similarity'
+
+// Approved calculations searched, most recent first
+const CANDIDATE_LIMIT = 1000
+
+// Past items like this one with the approved calculation they were quoted from
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canCalculateCosts(user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const item = await db.inquiryItem.findUnique({
+      where: { id },
+      select: { id: true, name: true, description: true, unit: true, quantity: true }
+    })
+
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+    }
+
+    const calculations = await db.costCalculation.findMany({
+      where: { isApproved: true, inquiryItemId: { not: id } },
+      include: {
+        inquiryItem: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            unit: true,
+            quantity: true,
+            inquiry: {
+              select: {
+                id: true,
+                title: true,
+                customer: { select: { id: true, name: true } }
+              }
+            }
+          }
+        },
+        materialLines: { orderBy: { sortOrder: 'asc' } },
+        routingSteps: { orderBy: { sortOrder: 'asc' } },
+        template: {
+          select: { id: true, name: true, productFamily: true, variables: true }
+        }
+      },
+      orderBy: { approvedAt: 'desc' },
+      take: CANDIDATE_LIMIT
+    }) as any[]
+
+    const matches = findSimilarItems(
+      item,
+      calculations.map(calculation => ({
+        id: calculation.id,
+        name: calculation.inquiryItem.name,
+        description: calculation.inquiryItem.description,
+        unit: calculation.inquiryItem.unit,
+        quantity: calculation.inquiryItem.quantity
+      }))
+    )
+
+    return NextResponse.json(matches.map(match => {
+      const { inquiryItem, ...costCalculation } = calculations.find(calculation => calculation.id === match.id)
+      return { score: match.score, item: inquiryItem, costCalculation }
+    }))
+  } catch (error) {
+    console.error('Get similar items error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
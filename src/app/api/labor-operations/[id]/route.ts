@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { laborOperationSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = laborOperationSchema.parse(body)
+
+    const existing = await db.laborOperation.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Labor operation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (validatedData.code !== existing.code) {
+      const duplicate = await db.laborOperation.findFirst({ where: { code: validatedData.code } })
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `An operation with code ${validatedData.code} already exists` },
+          { status: 409 }
+        )
+      }
+    }
+
+    // Saved routings keep the rate they were priced with until recalculated
+    const operation = await db.laborOperation.update({
+      where: { id },
+      data: validatedData
+    })
+
+    await db.auditLog.create({
+      data: {
+        action: 'UPDATE',
+        entity: 'LABOR_OPERATION',
+        entityId: id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: {
+          code: existing.code,
+          name: existing.name,
+          hourlyRate: Number(existing.hourlyRate),
+          defaultSetupMinutes: existing.defaultSetupMinutes,
+          isActive: existing.isActive
+        },
+        newData: validatedData,
+        metadata: { code: operation.code }
+      }
+    })
+
+    return NextResponse.json(operation)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update labor operation:', error)
+    return NextResponse.json(
+      { error: 'Failed to update labor operation' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existing = await db.laborOperation.findUnique({
+      where: { id },
+      include: { _count: { select: { routingSteps: true } } }
+    }) as any
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Labor operation not found' },
+        { status: 404 }
+      )
+    }
+
+    // Operations on saved routings are only switched off
+    const usedBy = existing._count.routingSteps
+    if (usedBy > 0) {
+      await db.laborOperation.update({
+        where: { id },
+        data: { isActive: false }
+      })
+    } else {
+      await db.laborOperation.delete({ where: { id } })
+    }
+
+    await db.auditLog.create({
+      data: {
+        action: 'DELETE',
+        entity: 'LABOR_OPERATION',
+        entityId: id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: { code: existing.code, name: existing.name },
+        newData: usedBy > 0 ? { isActive: false } : {},
+        metadata: { code: existing.code }
+      }
+    })
+
+    return NextResponse.json({ success: true, deactivated: usedBy > 0 })
+  } catch (error) {
+    console.error('Failed to delete labor operation:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete labor operation' },
+      { status: 500 }
+    )
+  }
+}
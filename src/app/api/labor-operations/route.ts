@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { laborOperationSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const operations = await db.laborOperation.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { code: 'asc' }
+    })
+
+    return NextResponse.json(operations)
+  } catch (error) {
+    console.error('Failed to fetch labor operations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch labor operations' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Rates are set by admins, calculators only pick operations
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validatedData = laborOperationSchema.parse(body)
+
+    const existing = await db.laborOperation.findFirst({ where: { code: validatedData.code } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `An operation with code ${validatedData.code} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const operation = await db.laborOperation.create({ data: validatedData })
+
+    await db.auditLog.create({
+      data: {
+        action: 'CREATE',
+        entity: 'LABOR_OPERATION',
+        entityId: operation.id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: {},
+        newData: validatedData,
+        metadata: { code: operation.code }
+      }
+    })
+
+    return NextResponse.json(operation, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to create labor operation:', error)
+    return NextResponse.json(
+      { error: 'Failed to create labor operation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { letterheadProfileSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { setDefaultLetterheadProfile, toLetterheadProfileData } from '@/lib/letterhead-service'
+
+// Documents are rendered from their profile when downloaded, so an edit shows
+// on every quote issued under the profile
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = letterheadProfileSchema.parse(body)
+
+    const existing = await db.letterheadProfile.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Letterhead profile not found' },
+        { status: 404 }
+      )
+    }
+
+    const duplicate = await db.letterheadProfile.findFirst({ where: { name: validatedData.name, id: { not: id } } })
+    if (duplicate) {
+      return NextResponse.json(
+        { error: 'A letterhead profile with this name already exists' },
+        { status: 400 }
+      )
+    }
+
+    // Another profile has to be made the default instead of clearing it here
+    const isDefault = existing.isDefault || !!validatedData.isDefault
+    const isActive = validatedData.isActive ?? existing.isActive
+    if (isDefault && !isActive) {
+      return NextResponse.json(
+        { error: 'The default letterhead profile cannot be deactivated' },
+        { status: 400 }
+      )
+    }
+
+    const profile = await db.$transaction(async (tx) => {
+      const updated = await tx.letterheadProfile.update({
+        where: { id },
+        data: {
+          ...toLetterheadProfileData(validatedData),
+          isDefault,
+          isActive
+        }
+      })
+      if (isDefault && !existing.isDefault) {
+        await setDefaultLetterheadProfile(tx, id)
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action: 'UPDATE',
+          entity: 'LETTERHEAD_PROFILE',
+          entityId: id,
+          userId: user.id,
+          inquiryId: null,
+          oldData: {
+            name: existing.name,
+            companyName: existing.companyName,
+            vatId: existing.vatId,
+            isDefault: existing.isDefault,
+            isActive: existing.isActive
+          },
+          newData: {
+            name: updated.name,
+            companyName: updated.companyName,
+            vatId: updated.vatId,
+            isDefault,
+            isActive
+          },
+          metadata: {}
+        }
+      })
+
+      return updated
+    })
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update letterhead profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to update letterhead profile' },
+      { status: 500 }
+    )
+  }
+}
+
+// Quotes issued under a profile would lose their company details, so such a
+// profile can only be deactivated
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existing = await db.letterheadProfile.findUnique({ where: { id } })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Letterhead profile not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existing.isDefault) {
+      return NextResponse.json(
+        { error: 'Make another letterhead profile the default before deleting this one' },
+        { status: 400 }
+      )
+    }
+
+    const quoteCount = await db.quote.count!({ where: { letterheadProfileId: id } })
+    if (quoteCount > 0) {
+      return NextResponse.json(
+        { error: `${quoteCount} quote(s) were issued under this letterhead; deactivate it instead` },
+        { status: 400 }
+      )
+    }
+
+    await db.letterheadProfile.delete({ where: { id } })
+
+    await db.auditLog.create({
+      data: {
+        action: 'DELETE',
+        entity: 'LETTERHEAD_PROFILE',
+        entityId: id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: { name: existing.name, companyName: existing.companyName },
+        newData: {},
+        metadata: {}
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete letterhead profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete letterhead profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { letterheadProfileSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { setDefaultLetterheadProfile, toLetterheadProfileData } from '@/lib/letterhead-service'
+
+// All profiles, with ?active=true only those new documents can be issued under
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const activeOnly = new URL(request.url).searchParams.get('active') === 'true'
+
+    const profiles = await db.letterheadProfile.findMany({
+      where: activeOnly ? { isActive: true } : {},
+      include: {
+        _count: { select: { quotes: true } }
+      },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }]
+    })
+
+    return NextResponse.json(profiles)
+  } catch (error) {
+    console.error('Failed to fetch letterhead profiles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch letterhead profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validatedData = letterheadProfileSchema.parse(body)
+
+    const duplicate = await db.letterheadProfile.findFirst({ where: { name: validatedData.name } })
+    if (duplicate) {
+      return NextResponse.json(
+        { error: 'A letterhead profile with this name already exists' },
+        { status: 400 }
+      )
+    }
+
+    // The first profile is the default whatever was asked for
+    const isDefault = validatedData.isDefault || await db.letterheadProfile.count!({ where: { isDefault: true } }) === 0
+
+    const profile = await db.$transaction(async (tx) => {
+      const created = await tx.letterheadProfile.create({
+        data: {
+          ...toLetterheadProfileData(validatedData),
+          isDefault,
+          isActive: validatedData.isActive ?? true
+        }
+      })
+      if (isDefault) {
+        await setDefaultLetterheadProfile(tx, created.id)
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action: 'CREATE',
+          entity: 'LETTERHEAD_PROFILE',
+          entityId: created.id,
+          userId: user.id,
+          inquiryId: null,
+          oldData: {},
+          newData: { name: created.name, companyName: created.companyName, isDefault },
+          metadata: {}
+        }
+      })
+
+      return created
+    })
+
+    return NextResponse.json(profile, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to create letterhead profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to create letterhead profile' },
+      { status: 500 }
+    )
+  }
+}
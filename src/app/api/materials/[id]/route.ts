@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { materialSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { updateMaterial } from '@/lib/material-service'
+import { AppError } from '@/types'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const material = await db.material.findUnique({
+      where: { id },
+      include: {
+        prices: {
+          include: {
+            createdBy: { select: { id: true, name: true } }
+          },
+          orderBy: { validFrom: 'desc' }
+        },
+        _count: { select: { costLines: true } }
+      }
+    })
+
+    if (!material) {
+      return NextResponse.json(
+        { error: 'Material not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(material)
+  } catch (error) {
+    console.error('Failed to fetch material:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch material' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = materialSchema.parse(body)
+
+    const material = await updateMaterial(id, validatedData, user.id)
+
+    return NextResponse.json(material)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Failed to update material:', error)
+    return NextResponse.json(
+      { error: 'Failed to update material' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existing = await db.material.findUnique({
+      where: { id },
+      include: { _count: { select: { costLines: true } } }
+    }) as any
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Material not found' },
+        { status: 404 }
+      )
+    }
+
+    // Materials used in calculations stay for their price history
+    const usedBy = existing._count.costLines
+    if (usedBy > 0) {
+      await db.material.update({
+        where: { id },
+        data: { isActive: false }
+      })
+    } else {
+      await db.material.delete({ where: { id } })
+    }
+
+    await db.auditLog.create({
+      data: {
+        action: 'DELETE',
+        entity: 'MATERIAL',
+        entityId: id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: { code: existing.code, name: existing.name },
+        newData: usedBy > 0 ? { isActive: false } : {},
+        metadata: { code: existing.code }
+      }
+    })
+
+    return NextResponse.json({ success: true, deactivated: usedBy > 0 })
+  } catch (error) {
+    console.error('Failed to delete material:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete material' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { ExcelService } from '@/lib/excel'
+import { importMaterials } from '@/lib/material-service'
+
+// Template workbook with the expected columns and an example row
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const buffer = await ExcelService.createMaterialImportTemplate()
+
+    const headers = new Headers()
+    headers.set('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+    headers.set('Content-Disposition', 'attachment; filename="material-catalog-template.xlsx"')
+    headers.set('Content-Length', buffer.length.toString())
+
+    return new NextResponse(buffer as any, { headers })
+  } catch (error) {
+    console.error('Failed to create material import template:', error)
+    return NextResponse.json(
+      { error: 'Failed to create import template' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'An .xlsx file is required' },
+        { status: 400 }
+      )
+    }
+
+    let rows
+    try {
+      rows = await ExcelService.parseMaterialCatalog(await file.arrayBuffer())
+    } catch (parseError) {
+      console.error('Failed to read material workbook:', parseError)
+      return NextResponse.json(
+        { error: 'The file could not be read as an Excel workbook' },
+        { status: 400 }
+      )
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: 'The workbook contains no material rows' },
+        { status: 400 }
+      )
+    }
+
+    const result = await importMaterials(rows, user.id, file.name)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Failed to import materials:', error)
+    return NextResponse.json(
+      { error: 'Failed to import materials' },
+      { status: 500 }
+    )
+  }
+}
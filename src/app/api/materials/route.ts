@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { materialSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { createMaterial } from '@/lib/material-service'
+import { AppError } from '@/types'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get('search')
+    const category = searchParams.get('category')
+    const form = searchParams.get('form')
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const where: any = {}
+    if (!includeInactive) where.isActive = true
+    if (category) where.category = category
+    if (form) where.form = form
+    if (search) {
+      where.OR = [
+        { code: { contains: search, mode: 'insensitive' } },
+        { name: { contains: search, mode: 'insensitive' } },
+        { grade: { contains: search, mode: 'insensitive' } }
+      ]
+    }
+
+    const materials = await db.material.findMany({
+      where,
+      orderBy: [{ category: 'asc' }, { grade: 'asc' }, { name: 'asc' }]
+    })
+
+    return NextResponse.json(materials)
+  } catch (error) {
+    console.error('Failed to fetch materials:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch materials' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validatedData = materialSchema.parse(body)
+
+    const material = await createMaterial(validatedData, user.id)
+
+    return NextResponse.json(material, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Failed to create material:', error)
+    return NextResponse.json(
+      { error: 'Failed to create material' },
+      { status: 500 }
+    )
+  }
+}
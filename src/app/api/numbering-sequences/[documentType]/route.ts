@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { NumberedDocument } from '@prisma/client'
+import { UserRole } from '@/lib/db/types'
+import { numberingSequenceSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { getNumberingSequence, peekDocumentNumber } from '@/lib/numbering-service'
+
+// A new pattern applies to documents created afterwards; issued numbers keep
+// theirs and the counter carries on
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentType: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { documentType } = await params
+    if (!(Object.values(NumberedDocument) as string[]).includes(documentType)) {
+      return NextResponse.json(
+        { error: 'Unknown document type' },
+        { status: 404 }
+      )
+    }
+    const type = documentType as NumberedDocument
+
+    const body = await request.json()
+    const validatedData = numberingSequenceSchema.parse(body)
+
+    const existing = await getNumberingSequence(type)
+    if (existing.isDefault) {
+      await db.numberingSequence.create({
+        data: { documentType: type, ...validatedData }
+      })
+    } else {
+      await db.numberingSequence.update({
+        where: { documentType: type },
+        data: validatedData
+      })
+    }
+
+    await db.auditLog.create({
+      data: {
+        action: 'UPDATE',
+        entity: 'NUMBERING_SEQUENCE',
+        entityId: type,
+        userId: user.id,
+        inquiryId: null,
+        oldData: { pattern: existing.pattern, resetYearly: existing.resetYearly },
+        newData: validatedData,
+        metadata: {}
+      }
+    })
+
+    return NextResponse.json({
+      ...await getNumberingSequence(type),
+      nextNumber: await peekDocumentNumber(type)
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update numbering sequence:', error)
+    return NextResponse.json(
+      { error: 'Failed to update numbering sequence' },
+      { status: 500 }
+    )
+  }
+}
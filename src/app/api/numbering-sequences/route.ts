@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NumberedDocument } from '@prisma/client'
+import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { getNumberingSequence, peekDocumentNumber } from '@/lib/numbering-service'
+
+// Pattern of every numbered document type with the number it issues next
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const sequences = await Promise.all(
+      Object.values(NumberedDocument).map(async documentType => ({
+        ...await getNumberingSequence(documentType),
+        nextNumber: await peekDocumentNumber(documentType)
+      }))
+    )
+
+    return NextResponse.json(sequences)
+  } catch (error) {
+    console.error('Failed to fetch numbering sequences:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch numbering sequences' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db } from '@/lib/db/index'
-import { PDFService, generateQuoteNumber, getQuoteValidityDate } from '@/lib/pdf'
+import { db, database } from '@/lib/db/index'
+import { PDFService, getQuoteValidityDate } from '@/lib/pdf'
 import { generateQuoteHTML } from '@/lib/pdf-templates'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import {
+  buildQuoteLines,
+  summarizeQuoteLines,
+  toQuoteDocumentLines,
+  toQuoteDocumentCurrency,
+  formatQuoteRevision
+} from '@/lib/quote-service'
+import { costInCurrency } from '@/lib/cost-currency'
+import { getCurrencyPricing } from '@/lib/exchange-rate-service'
+import { calculateCustomerQuoteTax } from '@/lib/tax-service'
+import { peekDocumentNumber } from '@/lib/numbering-service'
+import { toQuoteTax } from '@/lib/tax-rules'
+import { getLetterhead } from '@/lib/letterhead-service'
+import { AppError } from '@/types'
+
+async function renderQuotePDF(htmlContent: string, quoteNumber: string) {
+  const pdfBuffer = await PDFService.generatePDFFromHTML(htmlContent, {
+    format: 'A4',
+    orientation: 'portrait',
+    printBackground: true,
+    margin: {
+      top: '20mm',
+      right: '15mm',
+      bottom: '20mm',
+      left: '15mm'
+    }
+  })
+
+  // Set response headers for PDF download
+  const headers = new Headers()
+  headers.set('Content-Type', 'application/pdf')
+  headers.set('Content-Disposition', `attachment; filename="quote-${quoteNumber}.pdf"`)
+  headers.set('Content-Length', pdfBuffer.length.toString())
+
+  return new NextResponse(pdfBuffer, { headers })
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,7 +47,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { inquiryId, includeDetails = true, validityDays = 30 } = await request.json()
+    const {
+      inquiryId,
+      includeDetails = true,
+      validityDays = 30,
+      margin = 0,
+      currency,
+      letterheadProfileId
+    } = await request.json()
 
     if (!inquiryId) {
       return NextResponse.json({ error: 'Inquiry ID is required' }, { status: 400 })
@@ -29,7 +72,7 @@ export async function POST(request: NextRequest) {
           }
         }
       }
-    })
+    }) as any
 
     if (!inquiry) {
       return NextResponse.json({ error: 'Inquiry not found' }, { status: 404 })
@@ -53,34 +96,54 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Generate quote details
-    const quoteNumber = generateQuoteNumber()
+    // A preview issues no number; it shows the one the next quote would get
+    const quoteNumber = await peekDocumentNumber('QUOTE')
     const validUntil = getQuoteValidityDate(validityDays)
 
-    // Generate HTML content
-    const htmlContent = generateQuoteHTML(inquiry, quoteNumber, validUntil)
-
-    // Generate PDF
-    const pdfBuffer = await PDFService.generatePDFFromHTML(htmlContent, {
-      format: 'A4',
-      orientation: 'portrait',
-      printBackground: true,
-      margin: {
-        top: '20mm',
-        right: '15mm',
-        bottom: '20mm',
-        left: '15mm'
+    // Preview prices every item at the requested margin, in the customer's
+    // currency unless another is asked for
+    const settings = await database.getSystemSettings()
+    const pricing = await getCurrencyPricing(
+      currency ?? inquiry.customer.preferredCurrency ?? settings.mainCurrency,
+      settings.mainCurrency
+    )
+    const pricedLines = buildQuoteLines(
+      inquiry.items,
+      Number(margin),
+      undefined,
+      calculation => costInCurrency(calculation, pricing.currency, pricing.mainCurrency, pricing.rates)
+    )
+    const tax = await calculateCustomerQuoteTax(inquiry.customer, summarizeQuoteLines(pricedLines).total)
+    const lines = pricedLines.map(line => {
+      const item = inquiry.items.find((i: any) => i.id === line.inquiryItemId)!
+      return {
+        name: item.name,
+        description: item.description,
+        unit: item.unit,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        discount: line.discount,
+        lineTotal: line.lineTotal
       }
     })
 
-    // Set response headers for PDF download
-    const headers = new Headers()
-    headers.set('Content-Type', 'application/pdf')
-    headers.set('Content-Disposition', `attachment; filename="quote-${quoteNumber}.pdf"`)
-    headers.set('Content-Length', pdfBuffer.length.toString())
+    // Generate HTML content
+    const htmlContent = generateQuoteHTML(
+      inquiry,
+      quoteNumber,
+      validUntil,
+      lines,
+      pricing,
+      tax,
+      await getLetterhead(letterheadProfileId)
+    )
 
-    return new NextResponse(pdfBuffer, { headers })
+    return renderQuotePDF(htmlContent, quoteNumber)
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+
     console.error('PDF generation error:', error)
     return NextResponse.json(
       { error: 'Failed to generate PDF', details: error instanceof Error ? error.message : 'Unknown error' },
@@ -97,8 +160,50 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url)
+    const quoteId = searchParams.get('quoteId')
     const inquiryId = searchParams.get('inquiryId')
 
+    // A saved quote is rendered from its own lines and totals
+    if (quoteId) {
+      if (!['SUPERUSER', 'ADMIN', 'MANAGER', 'SALES'].includes(user.role)) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+      }
+
+      const quote = await db.quote.findUnique({
+        where: { id: quoteId },
+        include: {
+          inquiry: {
+            include: {
+              customer: true,
+              createdBy: true,
+              items: true
+            }
+          },
+          lines: {
+            include: { inquiryItem: true },
+            orderBy: { sortOrder: 'asc' }
+          }
+        }
+      }) as any
+
+      if (!quote) {
+        return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+      }
+
+      const htmlContent = generateQuoteHTML(
+        quote.inquiry,
+        formatQuoteRevision(quote),
+        new Date(quote.validUntil),
+        toQuoteDocumentLines(quote.lines),
+        toQuoteDocumentCurrency(quote),
+        toQuoteTax(quote),
+        await getLetterhead(quote.letterheadProfileId),
+        quote.terms
+      )
+
+      return renderQuotePDF(htmlContent, formatQuoteRevision(quote))
+    }
+
     if (!inquiryId) {
       return NextResponse.json({ error: 'Inquiry ID is required' }, { status: 400 })
     }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/index'
 import { PDFService } from '@/lib/pdf'
 import { generateReportHTML } from '@/lib/pdf-templates'
+import { getLetterhead } from '@/lib/letterhead-service'
 import { z } from 'zod'
 import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
 
@@ -162,7 +163,8 @@ export async function POST(request: NextRequest) {
       validatedData.subtitle,
       reportData,
       validatedData.dateRange,
-      validatedData.filters || {}
+      validatedData.filters || {},
+      await getLetterhead()
     )
 
     // Generate PDF
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { requestApproval } from '@/lib/approval-service'
+import { AppError } from '@/types'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER &&
+        user.role !== UserRole.ADMIN &&
+        user.role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const order = await db.productionOrder.findUnique({ where: { id } })
+
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Production order not found' },
+        { status: 404 }
+      )
+    }
+
+    // Approval releases an order into production; it may be held before then
+    if (order.startDate || !['PENDING', 'ON_HOLD'].includes(order.status)) {
+      return NextResponse.json(
+        { error: 'Only production orders that have not started can be submitted for approval' },
+        { status: 400 }
+      )
+    }
+
+    const steps = await requestApproval(
+      { type: 'PRODUCTION_ORDER', id: order.id, amount: Number(order.totalValue) },
+      `Production order ${order.orderNumber}`,
+      user.id
+    )
+
+    return NextResponse.json(steps, { status: 201 })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Failed to request production order approval:', error)
+    return NextResponse.json(
+      { error: 'Failed to request production order approval' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/index'
 import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { convertQuoteToProductionOrder } from '@/lib/production-order-service'
+import { summarizeApproval } from '@/lib/approval-service'
+import { AppError } from '@/types'
 
 export async function GET(request: NextRequest) {
   try {
@@ -50,12 +54,23 @@ export async function GET(request: NextRequest) {
         },
         _count: {
           select: { items: true }
+        },
+        approvals: {
+          select: { status: true },
+          orderBy: { stepOrder: 'asc' }
         }
       },
       orderBy: { createdAt: 'desc' }
     })
 
-    return NextResponse.json(orders)
+    const orderPolicies = await db.approvalPolicy.findMany({
+      where: { type: 'PRODUCTION_ORDER', isActive: true }
+    })
+
+    return NextResponse.json(orders.map((order: any) => ({
+      ...order,
+      approvalStatus: summarizeApproval(orderPolicies, Number(order.totalValue), order.approvals)
+    })))
   } catch (error) {
     console.error('Failed to fetch production orders:', error)
     return NextResponse.json(
@@ -82,119 +97,24 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { quoteId } = body
 
-    // Check if quote exists and is accepted
-    const quote = await db.quote.findUnique({
-      where: { id: quoteId },
-      include: {
-        inquiry: {
-          include: {
-            customer: true,
-            items: true
-          }
-        }
-      }
-    })
-
-    if (!quote) {
+    if (!quoteId) {
       return NextResponse.json(
-        { error: 'Quote not found' },
-        { status: 404 }
-      )
-    }
-
-    if (quote.status !== 'ACCEPTED') {
-      return NextResponse.json(
-        { error: 'Only accepted quotes can be converted to production orders' },
+        { error: 'Quote ID is required' },
         { status: 400 }
       )
     }
 
-    // Check if production order already exists for this quote
-    const existingOrder = await db.productionOrder.findUnique({
-      where: { quoteId }
-    })
+    const order = await convertQuoteToProductionOrder(quoteId, user.id)
 
-    if (existingOrder) {
+    return NextResponse.json(order)
+  } catch (error) {
+    if (error instanceof AppError) {
       return NextResponse.json(
-        { error: 'Production order already exists for this quote' },
-        { status: 400 }
+        { error: error.message },
+        { status: error.statusCode }
       )
     }
 
-    // Generate order number
-    const orderCount = await db.productionOrder.count()
-    const orderNumber = `PO-${new Date().getFullYear()}-${String(orderCount + 1).padStart(5, '0')}`
-
-    // Create production order
-    const order = await db.productionOrder.create({
-      data: {
-        orderNumber,
-        title: quote.title,
-        totalValue: quote.total,
-        quoteId,
-        status: 'PENDING',
-        items: {
-          create: quote.inquiry.items.map(item => ({
-            name: item.name,
-            description: item.description,
-            quantity: item.quantity,
-            unit: item.unit,
-            inquiryItemId: item.id,
-            status: 'PENDING'
-          }))
-        }
-      },
-      include: {
-        quote: {
-          include: {
-            inquiry: {
-              include: {
-                customer: true
-              }
-            }
-          }
-        },
-        _count: {
-          select: { items: true }
-        }
-      }
-    })
-
-    // Create notification
-    await db.notification.create({
-      data: {
-        userId: user.id!,
-        type: 'PRODUCTION_ORDER_CREATED',
-        title: 'Production Order Created',
-        message: `Production order ${orderNumber} has been created for ${quote.inquiry.customer.name}`,
-        data: {
-          orderId: order.id,
-          orderNumber: orderNumber,
-          relatedId: order.id,
-          relatedType: 'PRODUCTION_ORDER'
-        }
-      }
-    })
-
-    // Create audit log
-    await db.auditLog.create({
-      data: {
-        action: 'CREATE',
-        entity: 'PRODUCTION_ORDER',
-        entityId: order.id,
-        userId: user.id!,
-        newData: order as any,
-        metadata: {
-          orderNumber,
-          quoteNumber: quote.quoteNumber,
-          customer: quote.inquiry.customer.name,
-          amount: quote.total
-        }
-      }
-    })
-
-    return NextResponse.json(order)
-  } catch (error) {
     console.error('Failed to create production order:', error)
     return NextResponse.json(
       { error: 'Failed to create production order' },
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { quoteResponseSchema } from '@/lib/validations'
+import { verifyQuoteResponseToken } from '@/lib/quote-link'
+import { generateQuoteHTML } from '@/lib/pdf-templates'
+import { toQuoteDocumentLines, toQuoteDocumentCurrency, formatQuoteRevision } from '@/lib/quote-service'
+import { toQuoteTax } from '@/lib/tax-rules'
+import { getLetterhead } from '@/lib/letterhead-service'
+
+// Public endpoints: access is granted by the signed token, not a session
+
+const responseQuoteInclude = {
+  inquiry: {
+    include: {
+      customer: true,
+      createdBy: true,
+      items: true
+    }
+  },
+  lines: {
+    include: { inquiryItem: true },
+    orderBy: { sortOrder: 'asc' as const }
+  }
+}
+
+async function findQuoteByToken(token: string) {
+  const verified = verifyQuoteResponseToken(token)
+  if (!verified) return null
+
+  return await db.quote.findUnique({
+    where: { id: verified.quoteId },
+    include: responseQuoteInclude
+  }) as any
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const quote = await findQuoteByToken(token)
+
+    if (!quote) {
+      return NextResponse.json(
+        { error: 'This quote link is invalid or has expired' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      quote: {
+        quoteNumber: formatQuoteRevision(quote),
+        title: quote.title,
+        status: quote.status,
+        total: quote.total,
+        taxAmount: quote.taxAmount,
+        grossTotal: quote.grossTotal,
+        currency: quote.currency,
+        validUntil: quote.validUntil,
+        customerName: quote.inquiry.customer.name,
+        isLatest: quote.isLatest,
+        respondedAt: quote.respondedAt,
+        respondedByName: quote.respondedByName
+      },
+      html: generateQuoteHTML(
+        quote.inquiry,
+        formatQuoteRevision(quote),
+        new Date(quote.validUntil),
+        toQuoteDocumentLines(quote.lines),
+        toQuoteDocumentCurrency(quote),
+        toQuoteTax(quote),
+        await getLetterhead(quote.letterheadProfileId),
+        quote.terms
+      )
+    })
+  } catch (error) {
+    console.error('Failed to load quote for response:', error)
+    return NextResponse.json(
+      { error: 'Failed to load quote' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const body = await request.json()
+    const validatedData = quoteResponseSchema.parse(body)
+
+    const quote = await findQuoteByToken(token)
+    if (!quote) {
+      return NextResponse.json(
+        { error: 'This quote link is invalid or has expired' },
+        { status: 404 }
+      )
+    }
+
+    if (!quote.isLatest) {
+      return NextResponse.json(
+        { error: 'This quote has been superseded by a newer revision' },
+        { status: 409 }
+      )
+    }
+
+    if (quote.status !== 'SENT') {
+      return NextResponse.json(
+        { error: 'This quote is no longer open for a response' },
+        { status: 409 }
+      )
+    }
+
+    if (new Date(quote.validUntil) < new Date()) {
+      return NextResponse.json(
+        { error: 'This quote has expired' },
+        { status: 410 }
+      )
+    }
+
+    const newStatus = validatedData.decision === 'ACCEPT' ? 'ACCEPTED' : 'REJECTED'
+    const reason = validatedData.reason?.trim() || null
+    const quoteLabel = formatQuoteRevision(quote)
+
+    // A second response or the expiry job may have closed the quote since it was read
+    const recorded = await db.$transaction(async (tx) => {
+      const { count } = await tx.quote.updateMany!({
+        where: { id: quote.id, status: 'SENT' },
+        data: {
+          status: newStatus,
+          respondedAt: new Date(),
+          respondedByName: validatedData.name,
+          responseReason: reason
+        }
+      })
+      if (count !== 1) return false
+
+      await tx.auditLog.create({
+        data: {
+          action: 'UPDATE',
+          entity: 'QUOTE',
+          entityId: quote.id,
+          userId: null,
+          inquiryId: quote.inquiryId,
+          oldData: { status: quote.status },
+          newData: { status: newStatus },
+          metadata: {
+            action: newStatus === 'ACCEPTED' ? 'customer_accepted' : 'customer_rejected',
+            quoteNumber: quoteLabel,
+            respondedByName: validatedData.name,
+            reason,
+            ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+          }
+        }
+      })
+      return true
+    })
+
+    if (!recorded) {
+      return NextResponse.json(
+        { error: 'This quote is no longer open for a response' },
+        { status: 409 }
+      )
+    }
+
+    // Let the quote creator know straight away
+    try {
+      await db.notification.create({
+        data: {
+          userId: quote.createdById,
+          type: 'STATUS_UPDATE',
+          title: newStatus === 'ACCEPTED' ? 'Quote Accepted' : 'Quote Rejected',
+          message: newStatus === 'ACCEPTED'
+            ? `${quote.inquiry.customer.name} accepted quote ${quoteLabel} (${validatedData.name})`
+            : `${quote.inquiry.customer.name} rejected quote ${quoteLabel} (${validatedData.name}): ${reason}`,
+          data: {
+            quoteId: quote.id,
+            quoteNumber: quoteLabel,
+            relatedId: quote.id,
+            relatedType: 'QUOTE'
+          },
+          isRead: false,
+          readAt: null
+        }
+      })
+    } catch (notificationError) {
+      console.error('Failed to notify quote creator:', notificationError)
+    }
+
+    return NextResponse.json({
+      message: newStatus === 'ACCEPTED' ? 'Quote accepted' : 'Quote rejected',
+      status: newStatus
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to record quote response:', error)
+    return NextResponse.json(
+      { error: 'Failed to record quote response' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser, canCreateQuotes } from '@/utils/supabase/api-auth'
+import { formatQuoteRevision, quoteTotalInMainCurrency } from '@/lib/quote-service'
+import { requestApproval } from '@/lib/approval-service'
+import { AppError } from '@/types'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canCreateQuotes(user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const quote = await db.quote.findUnique({ where: { id } })
+
+    if (!quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      )
+    }
+
+    if (user.role === UserRole.SALES && quote.createdById !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Approval covers what will be sent, so only the current draft qualifies
+    if (!quote.isLatest || quote.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: 'Only the latest draft of a quote can be submitted for approval' },
+        { status: 400 }
+      )
+    }
+
+    const steps = await requestApproval(
+      { type: 'QUOTE', id: quote.id, amount: quoteTotalInMainCurrency(quote) },
+      `Quote ${formatQuoteRevision(quote)}`,
+      user.id
+    )
+
+    return NextResponse.json(steps, { status: 201 })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Failed to request quote approval:', error)
+    return NextResponse.json(
+      { error: 'Failed to request quote approval' },
+      { status: 500 }
+    )
+  }
+}
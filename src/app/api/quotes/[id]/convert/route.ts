@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { convertQuoteToProductionOrder } from '@/lib/production-order-service'
+import { AppError } from '@/types'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Only certain roles can create production orders
+    if (user.role !== UserRole.SUPERUSER &&
+        user.role !== UserRole.ADMIN &&
+        user.role !== UserRole.MANAGER) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const order = await convertQuoteToProductionOrder(id, user.id)
+
+    return NextResponse.json(order, { status: 201 })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Failed to convert quote to production order:', error)
+    return NextResponse.json(
+      { error: 'Failed to convert quote to production order' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { diffQuoteRevisions } from '@/lib/quote-service'
+
+const diffInclude = {
+  lines: {
+    include: {
+      inquiryItem: {
+        select: { id: true, name: true }
+      }
+    },
+    orderBy: { sortOrder: 'asc' as const }
+  }
+}
+
+/**
+ * Line-by-line diff of this revision against another revision of the same
+ * quote (`?against=<quoteId>`), defaulting to the previous revision.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Only certain roles can view quotes
+    if (user.role !== UserRole.SUPERUSER &&
+        user.role !== UserRole.ADMIN &&
+        user.role !== UserRole.MANAGER &&
+        user.role !== UserRole.SALES) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const againstId = searchParams.get('against')
+
+    const quote = await db.quote.findUnique({
+      where: { id },
+      include: diffInclude
+    }) as any
+
+    if (!quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      )
+    }
+
+    const other = againstId
+      ? await db.quote.findUnique({ where: { id: againstId }, include: diffInclude }) as any
+      : await db.quote.findFirst({
+          where: { quoteNumber: quote.quoteNumber, revision: quote.revision - 1 },
+          include: diffInclude
+        }) as any
+
+    if (!other) {
+      return NextResponse.json(
+        { error: 'No revision to compare against' },
+        { status: 404 }
+      )
+    }
+
+    if (other.quoteNumber !== quote.quoteNumber) {
+      return NextResponse.json(
+        { error: 'Only revisions of the same quote can be compared' },
+        { status: 400 }
+      )
+    }
+
+    // Always diff from the older revision to the newer one
+    const [from, to] = other.revision < quote.revision ? [other, quote] : [quote, other]
+
+    return NextResponse.json(diffQuoteRevisions(from, to))
+  } catch (error) {
+    console.error('Failed to diff quote revisions:', error)
+    return NextResponse.json(
+      { error: 'Failed to diff quote revisions' },
+      { status: 500 }
+    )
+  }
+}
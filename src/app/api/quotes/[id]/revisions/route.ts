@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { UserRole } from '@/lib/db/types'
+import { getAuthenticatedUser, canCreateQuotes } from '@/utils/supabase/api-auth'
+import { formatQuoteRevision, revisionValidUntil } from '@/lib/quote-service'
+
+const revisionInclude = {
+  createdBy: {
+    select: { id: true, name: true, email: true }
+  },
+  lines: {
+    include: {
+      inquiryItem: {
+        select: { id: true, name: true, description: true, unit: true }
+      }
+    },
+    orderBy: { sortOrder: 'asc' as const }
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Only certain roles can view quotes
+    if (user.role !== UserRole.SUPERUSER &&
+        user.role !== UserRole.ADMIN &&
+        user.role !== UserRole.MANAGER &&
+        user.role !== UserRole.SALES) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const quote = await db.quote.findUnique({ where: { id } })
+    if (!quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      )
+    }
+
+    const revisions = await db.quote.findMany({
+      where: { quoteNumber: quote.quoteNumber },
+      include: revisionInclude,
+      orderBy: { revision: 'asc' }
+    })
+
+    return NextResponse.json(revisions)
+  } catch (error) {
+    console.error('Failed to fetch quote revisions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch quote revisions' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Start a new revision from the latest one. The new revision is a DRAFT copy
+ * of the previous lines and terms, offered for the same period from today.
+ * A previous revision still awaiting the customer is superseded, so its
+ * response link and follow-ups stop; the rest keep their outcome.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canCreateQuotes(user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const source = await db.quote.findUnique({
+      where: { id },
+      include: { lines: { orderBy: { sortOrder: 'asc' } } }
+    }) as any
+
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      )
+    }
+
+    if (user.role === UserRole.SALES && source.createdById !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!source.isLatest) {
+      return NextResponse.json(
+        { error: 'New revisions can only be created from the latest revision' },
+        { status: 400 }
+      )
+    }
+
+    // A draft is still being negotiated internally - edit it instead
+    if (source.status === 'DRAFT') {
+      return NextResponse.json(
+        { error: 'Draft quotes can be edited directly' },
+        { status: 400 }
+      )
+    }
+
+    if (source.status === 'ACCEPTED' || source.status === 'CONVERTED') {
+      return NextResponse.json(
+        { error: `Cannot revise a ${source.status.toLowerCase()} quote` },
+        { status: 400 }
+      )
+    }
+
+    const revision = await db.$transaction(async (tx) => {
+      // The customer may have responded, or someone else revised it, since it was read
+      const { count } = await tx.quote.updateMany!({
+        where: { id: source.id, isLatest: true, status: source.status },
+        data: {
+          isLatest: false,
+          ...(source.status === 'SENT' && { status: 'SUPERSEDED' })
+        }
+      })
+      if (count !== 1) return null
+
+      const created = await tx.quote.create({
+        data: {
+          quoteNumber: source.quoteNumber,
+          revision: source.revision + 1,
+          isLatest: true,
+          title: source.title,
+          description: source.description,
+          subtotal: source.subtotal,
+          margin: source.margin,
+          total: source.total,
+          currency: source.currency,
+          mainCurrency: source.mainCurrency,
+          exchangeRate: source.exchangeRate,
+          exchangeRateDate: source.exchangeRateDate,
+          taxTreatment: source.taxTreatment,
+          taxName: source.taxName,
+          taxRate: source.taxRate,
+          taxAmount: source.taxAmount,
+          grossTotal: source.grossTotal,
+          taxNote: source.taxNote,
+          validUntil: revisionValidUntil(source),
+          terms: source.terms,
+          letterheadProfileId: source.letterheadProfileId,
+          notes: source.notes,
+          status: 'DRAFT',
+          inquiryId: source.inquiryId,
+          // The quote stays with its owner; the audit log records who revised it
+          createdById: source.createdById,
+          lines: {
+            create: source.lines.map((line: any) => ({
+              inquiryItemId: line.inquiryItemId,
+              sortOrder: line.sortOrder,
+              quantity: line.quantity,
+              unitCost: line.unitCost,
+              marginOverride: line.marginOverride,
+              discount: line.discount,
+              unitPrice: line.unitPrice,
+              lineTotal: line.lineTotal
+            }))
+          }
+        },
+        include: revisionInclude
+      })
+
+      await tx.auditLog.create({
+        data: {
+          action: 'CREATE',
+          entity: 'QUOTE',
+          entityId: created.id,
+          userId: user.id,
+          inquiryId: source.inquiryId,
+          oldData: {
+            revision: source.revision,
+            status: source.status,
+            total: source.total
+          },
+          newData: {
+            quoteNumber: created.quoteNumber,
+            revision: created.revision,
+            total: created.total
+          },
+          metadata: {
+            action: 'revised',
+            previousQuoteId: source.id,
+            previousRevision: formatQuoteRevision(source)
+          }
+        }
+      })
+
+      return created
+    })
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'The quote changed while the revision was being created' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(revision, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create quote revision:', error)
+    return NextResponse.json(
+      { error: 'Failed to create quote revision' },
+      { status: 500 }
+    )
+  }
+}
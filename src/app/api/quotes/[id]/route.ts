@@ -0,0 +1,284 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db, database } from '@/lib/db/index'
+import { UserRole } from '@/lib/db/types'
+import { z } from 'zod'
+import { updateQuoteSchema } from '@/lib/validations'
+import { getAuthenticatedUser, canCreateQuotes } from '@/utils/supabase/api-auth'
+import {
+  buildQuoteLines,
+  summarizeQuoteLines,
+  findQuoteLineProblems
+} from '@/lib/quote-service'
+import { costInCurrency } from '@/lib/cost-currency'
+import { getCurrencyPricing } from '@/lib/exchange-rate-service'
+import { calculateCustomerQuoteTax } from '@/lib/tax-service'
+import { resolveLetterheadProfile } from '@/lib/letterhead-service'
+import { resetApprovalChain } from '@/lib/approval-service'
+import { AppError } from '@/types'
+
+const quoteInclude = {
+  inquiry: {
+    include: {
+      customer: {
+        select: { id: true, name: true, email: true, taxTreatment: true, taxProfileId: true }
+      },
+      items: {
+        include: {
+          costCalculation: true
+        }
+      }
+    }
+  },
+  createdBy: {
+    select: { id: true, name: true, email: true }
+  },
+  lines: {
+    include: {
+      inquiryItem: {
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          unit: true,
+          costCalculation: {
+            select: {
+              materialLines: { orderBy: { sortOrder: 'asc' as const } }
+            }
+          }
+        }
+      }
+    },
+    orderBy: { sortOrder: 'asc' as const }
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Only certain roles can view quotes
+    if (user.role !== UserRole.SUPERUSER &&
+        user.role !== UserRole.ADMIN &&
+        user.role !== UserRole.MANAGER &&
+        user.role !== UserRole.SALES) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const quote = await db.quote.findUnique({
+      where: { id },
+      include: quoteInclude
+    })
+
+    if (!quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(quote)
+  } catch (error) {
+    console.error('Failed to fetch quote:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch quote' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canCreateQuotes(user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateQuoteSchema.parse(body)
+
+    const existing = await db.quote.findUnique({
+      where: { id },
+      include: quoteInclude
+    }) as any
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      )
+    }
+
+    if (user.role === UserRole.SALES && existing.createdById !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Sending creates the customer's response link and email, so the status
+    // only changes through /api/quotes/[id]/send
+    if (body.status !== undefined && body.status !== existing.status) {
+      return NextResponse.json(
+        { error: 'Quote status cannot be changed by editing; send the quote instead' },
+        { status: 400 }
+      )
+    }
+
+    const hasContentChanges = Object.values(validatedData).some(value => value !== undefined)
+
+    // Earlier revisions are a frozen record of what the customer was sent
+    if (!existing.isLatest && hasContentChanges) {
+      return NextResponse.json(
+        { error: 'Only the latest revision of a quote can be changed' },
+        { status: 400 }
+      )
+    }
+
+    // Once a quote has left DRAFT its content is what the customer received
+    if (hasContentChanges && existing.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: 'Only draft quotes can be edited' },
+        { status: 400 }
+      )
+    }
+
+    const updateData: any = {
+      ...(validatedData.title && { title: validatedData.title }),
+      ...(validatedData.description !== undefined && { description: validatedData.description }),
+      ...(validatedData.validUntil && { validUntil: validatedData.validUntil }),
+      ...(validatedData.terms !== undefined && { terms: validatedData.terms }),
+      ...(validatedData.notes !== undefined && { notes: validatedData.notes })
+    }
+
+    // Null moves the quote onto the current default letterhead
+    if (validatedData.letterheadProfileId !== undefined) {
+      const letterheadProfile = await resolveLetterheadProfile(validatedData.letterheadProfileId)
+      updateData.letterheadProfileId = letterheadProfile?.id ?? null
+    }
+
+    // Re-price drafts from the current approved costs at today's rates.
+    // Supplied lines replace the existing ones; otherwise the existing lines
+    // keep their quantities, overrides and discounts.
+    if (hasContentChanges) {
+      const margin = validatedData.margin ?? Number(existing.margin)
+      const lineInputs = validatedData.lines ?? existing.lines.map((line: any) => ({
+        inquiryItemId: line.inquiryItemId,
+        quantity: line.quantity,
+        marginOverride: line.marginOverride === null ? null : Number(line.marginOverride),
+        discount: Number(line.discount)
+      }))
+
+      const lineProblems = findQuoteLineProblems(
+        existing.inquiry.items,
+        lineInputs.map((line: any) => line.inquiryItemId)
+      )
+      if (lineProblems) {
+        return NextResponse.json(
+          { error: lineProblems.error, items: lineProblems.items },
+          { status: 400 }
+        )
+      }
+
+      const settings = await database.getSystemSettings()
+      const pricing = await getCurrencyPricing(validatedData.currency ?? existing.currency, settings.mainCurrency)
+      const lines = buildQuoteLines(
+        existing.inquiry.items,
+        margin,
+        lineInputs,
+        calculation => costInCurrency(calculation, pricing.currency, pricing.mainCurrency, pricing.rates)
+      )
+      const { subtotal, total } = summarizeQuoteLines(lines)
+      Object.assign(updateData, await calculateCustomerQuoteTax(existing.inquiry.customer, total))
+      updateData.currency = pricing.currency
+      updateData.mainCurrency = pricing.mainCurrency
+      updateData.exchangeRate = pricing.exchangeRate
+      updateData.exchangeRateDate = new Date(pricing.exchangeRateDate)
+      updateData.margin = margin
+      updateData.subtotal = subtotal
+      updateData.total = total
+      updateData.lines = {
+        deleteMany: {},
+        create: lines
+      }
+
+      // An approval covers the content that was approved
+      await resetApprovalChain(db, { type: 'QUOTE', id })
+    }
+
+    const quote = await db.quote.update({
+      where: { id },
+      data: updateData,
+      include: quoteInclude
+    })
+
+    await db.auditLog.create({
+      data: {
+        action: 'UPDATE',
+        entity: 'QUOTE',
+        entityId: quote.id,
+        userId: user.id,
+        inquiryId: existing.inquiryId,
+        oldData: {
+          title: existing.title,
+          margin: existing.margin,
+          subtotal: existing.subtotal,
+          total: existing.total,
+          grossTotal: existing.grossTotal,
+          currency: existing.currency,
+          validUntil: existing.validUntil,
+          status: existing.status
+        },
+        newData: {
+          title: quote.title,
+          margin: quote.margin,
+          subtotal: quote.subtotal,
+          total: quote.total,
+          grossTotal: quote.grossTotal,
+          currency: quote.currency,
+          validUntil: quote.validUntil,
+          status: quote.status
+        },
+        metadata: {
+          quoteNumber: quote.quoteNumber,
+          revision: quote.revision,
+          lineCount: (quote as any).lines?.length
+        }
+      }
+    })
+
+    return NextResponse.json(quote)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Failed to update quote:', error)
+    return NextResponse.json(
+      { error: 'Failed to update quote' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,20 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/index'
 import { UserRole } from '@/lib/db/types'
 import { emailService } from '@/lib/email'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import {
+  formatQuoteRevision,
+  quoteTotalInMainCurrency,
+  toQuoteDocumentCurrency,
+  describeQuoteRate
+} from '@/lib/quote-service'
+import { formatCurrency } from '@/lib/currency'
+import { describeQuoteTax, toQuoteTax } from '@/lib/tax-rules'
+import { createQuoteResponseToken, getQuoteResponseUrl } from '@/lib/quote-link'
+import { assertApprovalGranted } from '@/lib/approval-service'
+import { getLetterhead } from '@/lib/letterhead-service'
+import { escapeHtml } from '@/lib/letterhead'
+import { AppError } from '@/types'
 
 export async function POST(
   request: NextRequest,
@@ -45,6 +59,13 @@ export async function POST(
       )
     }
 
+    if (!quote.isLatest) {
+      return NextResponse.json(
+        { error: 'Only the latest revision of a quote can be sent' },
+        { status: 400 }
+      )
+    }
+
     if (quote.status !== 'DRAFT') {
       return NextResponse.json(
         { error: 'Only draft quotes can be sent' },
@@ -52,30 +73,53 @@ export async function POST(
       )
     }
 
+    // Quotes covered by an approval policy only go out once approved
+    await assertApprovalGranted(db, { type: 'QUOTE', id: quote.id, amount: quoteTotalInMainCurrency(quote) }, 'sent')
+
     // Update quote status to SENT
     await db.quote.update({
       where: { id },
       data: { 
-        status: 'SENT'
+        status: 'SENT',
+        sentAt: new Date(),
+        followUpsSent: 0
       }
     })
 
+    // The link lets the customer accept or reject until the quote expires
+    const responseUrl = getQuoteResponseUrl(
+      createQuoteResponseToken(quote.id, new Date(quote.validUntil)),
+      new URL(request.url).origin
+    )
+
+    const tax = toQuoteTax(quote)
+    const netAmount = formatCurrency(Number(quote.total), quote.currency)
+    const taxAmount = formatCurrency(tax.taxAmount, quote.currency)
+    const totalAmount = formatCurrency(tax.grossTotal, quote.currency)
+    const rate = describeQuoteRate(toQuoteDocumentCurrency(quote))
+    const currencyNote = `All prices in ${quote.currency}${rate ? `, converted at ${rate}` : ''}`
+    const { companyName } = await getLetterhead(quote.letterheadProfileId)
+
     // Send email to customer if they have an email
     if (quote.inquiry.customer.email) {
       await emailService.sendEmail(
         quote.inquiry.customer.email,
         {
-          subject: `Quote ${quote.quoteNumber} - ${quote.inquiry.title}`,
+          subject: `Quote ${formatQuoteRevision(quote)} - ${quote.inquiry.title}`,
           html: `
-            <h2>Quote ${quote.quoteNumber}</h2>
-            <p>Dear ${quote.inquiry.customer.name},</p>
-            <p>Please find attached your quote for: ${quote.inquiry.title}</p>
-            <p><strong>Total Amount: $${quote.total.toFixed(2)}</strong></p>
+            <h2>Quote ${escapeHtml(formatQuoteRevision(quote))}</h2>
+            <p>Dear ${escapeHtml(quote.inquiry.customer.name)},</p>
+            <p>Please find attached your quote for: ${escapeHtml(quote.inquiry.title)}</p>
+            <p>Net Amount: ${netAmount}<br>${escapeHtml(describeQuoteTax(tax))}: ${taxAmount}</p>
+            <p><strong>Total Amount: ${totalAmount}</strong></p>
+            <p>${currencyNote}</p>
+            ${tax.taxNote ? `<p>${escapeHtml(tax.taxNote)}</p>` : ''}
             <p>This quote is valid until: ${new Date(quote.validUntil).toLocaleDateString()}</p>
+            <p><a href="${escapeHtml(responseUrl)}">View the quote and accept or reject it online</a></p>
             <p>If you have any questions, please don't hesitate to contact us.</p>
-            <p>Best regards,<br>${quote.inquiry.createdBy.name}</p>
+            <p>Best regards,<br>${escapeHtml(quote.inquiry.createdBy.name)}<br>${escapeHtml(companyName)}</p>
           `,
-          text: `Quote ${quote.quoteNumber}\n\nDear ${quote.inquiry.customer.name},\n\nPlease find your quote for: ${quote.inquiry.title}\n\nTotal Amount: $${quote.total.toFixed(2)}\n\nThis quote is valid until: ${new Date(quote.validUntil).toLocaleDateString()}\n\nIf you have any questions, please don't hesitate to contact us.\n\nBest regards,\n${quote.inquiry.createdBy.name}`
+          text: `Quote ${formatQuoteRevision(quote)}\n\nDear ${quote.inquiry.customer.name},\n\nPlease find your quote for: ${quote.inquiry.title}\n\nNet Amount: ${netAmount}\n${describeQuoteTax(tax)}: ${taxAmount}\nTotal Amount: ${totalAmount}\n${currencyNote}${tax.taxNote ? `\n${tax.taxNote}` : ''}\n\nThis quote is valid until: ${new Date(quote.validUntil).toLocaleDateString()}\n\nView the quote and accept or reject it online: ${responseUrl}\n\nIf you have any questions, please don't hesitate to contact us.\n\nBest regards,\n${quote.inquiry.createdBy.name}\n${companyName}`
         }
       )
     }
@@ -86,7 +130,7 @@ export async function POST(
         userId: quote.inquiry.createdById,
         type: 'QUOTE_GENERATED',
         title: 'Quote Sent',
-        message: `Quote ${quote.quoteNumber} has been sent to ${quote.inquiry.customer.name}`,
+        message: `Quote ${formatQuoteRevision(quote)} has been sent to ${quote.inquiry.customer.name}`,
         data: {
           quoteId: quote.id,
           quoteNumber: quote.quoteNumber,
@@ -109,16 +153,25 @@ export async function POST(
           action: 'sent',
           quoteNumber: quote.quoteNumber,
           customer: quote.inquiry.customer.name,
-          amount: quote.total
+          amount: quote.total,
+          currency: quote.currency
         }
       }
     })
 
     return NextResponse.json({ 
       message: 'Quote sent successfully',
-      quote: { ...quote, status: 'SENT' }
+      quote: { ...quote, status: 'SENT' },
+      responseUrl
     })
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Failed to send quote:', error)
     return NextResponse.json(
       { error: 'Failed to send quote' },
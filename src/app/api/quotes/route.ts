@@ -1,6 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db } from '@/lib/db/index'
+import { db, database } from '@/lib/db/index'
 import { UserRole } from '@/lib/db/types'
+import { z } from 'zod'
+import { createQuoteSchema } from '@/lib/validations'
+import { getAuthenticatedUser, canCreateQuotes } from '@/utils/supabase/api-auth'
+import {
+  buildQuoteLines,
+  summarizeQuoteLines,
+  getQuotableItems,
+  findQuoteLineProblems,
+  quoteTotalInMainCurrency
+} from '@/lib/quote-service'
+import { costInCurrency } from '@/lib/cost-currency'
+import { getCurrencyPricing } from '@/lib/exchange-rate-service'
+import { calculateCustomerQuoteTax } from '@/lib/tax-service'
+import { nextDocumentNumber } from '@/lib/numbering-service'
+import { resolveLetterheadProfile } from '@/lib/letterhead-service'
+import { applyAutomaticInquiryTransition, applyAutomaticItemTransition } from '@/lib/inquiry-workflow'
+import { onInquiryStatusChanged, onQuoteCreated } from '@/lib/automation/hooks'
+import { summarizeApproval } from '@/lib/approval-service'
+import { AppError } from '@/types'
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,8 +39,10 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const search = searchParams.get('search')
     const status = searchParams.get('status')
+    const includeRevisions = searchParams.get('includeRevisions') === 'true'
 
-    const where: any = {}
+    // Superseded revisions are history; the list shows the current one per quote
+    const where: any = includeRevisions ? {} : { isLatest: true }
     
     if (search) {
       where.OR = [
@@ -47,12 +68,26 @@ export async function GET(request: NextRequest) {
         },
         createdBy: {
           select: { id: true, name: true, email: true }
+        },
+        _count: {
+          select: { lines: true }
+        },
+        approvals: {
+          select: { status: true },
+          orderBy: { stepOrder: 'asc' }
         }
       },
       orderBy: { createdAt: 'desc' }
     })
 
-    return NextResponse.json(quotes)
+    const quotePolicies = await db.approvalPolicy.findMany({
+      where: { type: 'QUOTE', isActive: true }
+    })
+
+    return NextResponse.json(quotes.map((quote: any) => ({
+      ...quote,
+      approvalStatus: summarizeApproval(quotePolicies, quoteTotalInMainCurrency(quote), quote.approvals)
+    })))
   } catch (error) {
     console.error('Failed to fetch quotes:', error)
     return NextResponse.json(
@@ -60,4 +95,201 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canCreateQuotes(user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validatedData = createQuoteSchema.parse(body)
+
+    const inquiry = await db.inquiry.findUnique({
+      where: { id: validatedData.inquiryId },
+      include: {
+        customer: true,
+        items: {
+          include: {
+            costCalculation: true
+          }
+        }
+      }
+    }) as any
+
+    if (!inquiry) {
+      return NextResponse.json(
+        { error: 'Inquiry not found' },
+        { status: 404 }
+      )
+    }
+
+    if (user.role === UserRole.SALES && inquiry.createdById !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (['REJECTED', 'CONVERTED'].includes(inquiry.status)) {
+      return NextResponse.json(
+        { error: `Cannot create a quote for a ${inquiry.status.toLowerCase()} inquiry` },
+        { status: 400 }
+      )
+    }
+
+    // Without explicit lines the whole inquiry is quoted; with lines only the
+    // listed items are. Either way each one needs an approved cost calculation.
+    const requestedItemIds: string[] = validatedData.lines
+      ? validatedData.lines.map(line => line.inquiryItemId)
+      : inquiry.items.map((item: any) => item.id)
+
+    const lineProblems = findQuoteLineProblems(inquiry.items, requestedItemIds)
+    if (lineProblems) {
+      return NextResponse.json(
+        { error: lineProblems.error, items: lineProblems.items },
+        { status: 400 }
+      )
+    }
+
+    // Priced in the customer's currency at today's rates unless another is asked for
+    const settings = await database.getSystemSettings()
+    const pricing = await getCurrencyPricing(
+      validatedData.currency ?? inquiry.customer.preferredCurrency ?? settings.mainCurrency,
+      settings.mainCurrency
+    )
+
+    const quotableItems = getQuotableItems(inquiry.items)
+    const lines = buildQuoteLines(
+      quotableItems,
+      validatedData.margin,
+      validatedData.lines,
+      calculation => costInCurrency(calculation, pricing.currency, pricing.mainCurrency, pricing.rates)
+    )
+    const { subtotal, total } = summarizeQuoteLines(lines)
+    const tax = await calculateCustomerQuoteTax(inquiry.customer, total)
+    const letterheadProfile = await resolveLetterheadProfile(validatedData.letterheadProfileId)
+
+    const { quote, inquiryChange } = await db.$transaction(async (tx) => {
+      const quoteNumber = await nextDocumentNumber(tx, 'QUOTE')
+      const created = await tx.quote.create({
+        data: {
+          quoteNumber,
+          title: validatedData.title,
+          description: validatedData.description,
+          subtotal,
+          margin: validatedData.margin,
+          total,
+          currency: pricing.currency,
+          mainCurrency: pricing.mainCurrency,
+          exchangeRate: pricing.exchangeRate,
+          exchangeRateDate: new Date(pricing.exchangeRateDate),
+          ...tax,
+          validUntil: validatedData.validUntil,
+          terms: validatedData.terms ?? letterheadProfile?.defaultTerms,
+          notes: validatedData.notes,
+          letterheadProfileId: letterheadProfile?.id,
+          status: 'DRAFT',
+          inquiryId: inquiry.id,
+          createdById: user.id,
+          lines: {
+            create: lines
+          }
+        },
+        include: {
+          lines: {
+            include: {
+              inquiryItem: {
+                select: { id: true, name: true, description: true, unit: true }
+              }
+            },
+            orderBy: { sortOrder: 'asc' }
+          },
+          inquiry: {
+            include: {
+              customer: {
+                select: { id: true, name: true, email: true }
+              }
+            }
+          },
+          createdBy: {
+            select: { id: true, name: true, email: true }
+          }
+        }
+      })
+
+      for (const line of lines) {
+        await applyAutomaticItemTransition(tx, line.inquiryItemId, 'QUOTED')
+      }
+      const inquiryChange = await applyAutomaticInquiryTransition(tx, inquiry.id, 'QUOTED')
+
+      await tx.auditLog.create({
+        data: {
+          action: 'CREATE',
+          entity: 'QUOTE',
+          entityId: created.id,
+          userId: user.id,
+          inquiryId: inquiry.id,
+          oldData: {},
+          newData: {
+            quoteNumber,
+            subtotal,
+            margin: validatedData.margin,
+            total,
+            currency: pricing.currency,
+            exchangeRate: pricing.exchangeRate,
+            taxTreatment: tax.taxTreatment,
+            taxRate: tax.taxRate,
+            grossTotal: tax.grossTotal
+          },
+          metadata: {
+            quoteNumber,
+            customer: inquiry.customer.name,
+            lineCount: lines.length
+          }
+        }
+      })
+
+      return { quote: created, inquiryChange }
+    })
+
+    try {
+      await onQuoteCreated(quote.id, quote, user.id)
+    } catch (hookError) {
+      console.error('Failed to run quote automation rules:', hookError)
+    }
+
+    if (inquiryChange) {
+      try {
+        await onInquiryStatusChanged(inquiry.id, inquiryChange.from, inquiryChange.to, { ...inquiry, status: inquiryChange.to }, user.id)
+      } catch (hookError) {
+        console.error('Failed to run inquiry status automation rules:', hookError)
+      }
+    }
+
+    return NextResponse.json(quote, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Failed to create quote:', error)
+    return NextResponse.json(
+      { error: 'Failed to create quote' },
+      { status: 500 }
+    )
+  }
+}
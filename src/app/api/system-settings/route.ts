@@ -18,6 +18,9 @@ const systemSettingsSchema = z.object({
   localStoragePath: z.string().optional().nullable(),
   maxFileSize: z.number().min(1048576).max(104857600).optional(), // 1MB to 100MB
   allowedFileTypes: z.array(z.string()).min(1).optional(),
+  // Quote follow-up settings
+  quoteFollowUpDays: z.array(z.number().int().min(1).max(365)).max(10).optional(),
+  quoteFollowUpEmails: z.boolean().optional(),
 }).refine((data) => {
   // Only validate currency relationships if mainCurrency is being updated
   if (data.mainCurrency !== undefined) {
@@ -98,6 +101,9 @@ export async function GET(request: NextRequest) {
       localStoragePath: settings.localStoragePath,
       maxFileSize: settings.maxFileSize,
       allowedFileTypes: settings.allowedFileTypes,
+      // Quote follow-up settings
+      quoteFollowUpDays: settings.quoteFollowUpDays,
+      quoteFollowUpEmails: settings.quoteFollowUpEmails,
       updatedAt: settings.updatedAt,
       updatedBy: settings.updatedById ? await db.user.findUnique({
         where: { id: settings.updatedById }
@@ -173,6 +179,9 @@ export async function PUT(request: NextRequest) {
           localStoragePath: data.localStoragePath || './uploads',
           maxFileSize: data.maxFileSize || 16777216,
           allowedFileTypes: data.allowedFileTypes || ['image/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+          // Quote follow-up settings - use defaults if not provided
+          quoteFollowUpDays: data.quoteFollowUpDays || [3, 7],
+          quoteFollowUpEmails: data.quoteFollowUpEmails ?? true,
           updatedById: user.id,
         }
       })
@@ -194,6 +203,9 @@ export async function PUT(request: NextRequest) {
           localStoragePath: data.localStoragePath !== undefined ? data.localStoragePath : settings.localStoragePath,
           maxFileSize: data.maxFileSize !== undefined ? data.maxFileSize : settings.maxFileSize,
           allowedFileTypes: data.allowedFileTypes !== undefined ? data.allowedFileTypes : settings.allowedFileTypes,
+          // Quote follow-up settings - only update if provided
+          quoteFollowUpDays: data.quoteFollowUpDays !== undefined ? [...data.quoteFollowUpDays].sort((a, b) => a - b) : settings.quoteFollowUpDays,
+          quoteFollowUpEmails: data.quoteFollowUpEmails !== undefined ? data.quoteFollowUpEmails : settings.quoteFollowUpEmails,
           updatedById: user.id,
         }
         console.log('[SystemSettings] Update data:', JSON.stringify(updateData, null, 2))
@@ -237,6 +249,9 @@ export async function PUT(request: NextRequest) {
       localStoragePath: settings.localStoragePath,
       maxFileSize: settings.maxFileSize,
       allowedFileTypes: settings.allowedFileTypes,
+      // Quote follow-up settings
+      quoteFollowUpDays: settings.quoteFollowUpDays,
+      quoteFollowUpEmails: settings.quoteFollowUpEmails,
       updatedAt: settings.updatedAt,
       updatedBy: {
         name: user.name || '',
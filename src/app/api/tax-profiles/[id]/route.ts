@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { taxProfileSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { setDefaultTaxProfile } from '@/lib/tax-service'
+
+// Quotes keep the rate they were priced at, so editing a profile only
+// affects quotes priced afterwards
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = taxProfileSchema.parse(body)
+
+    const existing = await db.taxProfile.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Tax profile not found' },
+        { status: 404 }
+      )
+    }
+
+    const duplicate = await db.taxProfile.findFirst({ where: { name: validatedData.name, id: { not: id } } })
+    if (duplicate) {
+      return NextResponse.json(
+        { error: 'A tax profile with this name already exists' },
+        { status: 400 }
+      )
+    }
+
+    // Another profile has to be made the default instead of clearing it here
+    const isDefault = existing.isDefault || !!validatedData.isDefault
+    const isActive = validatedData.isActive ?? existing.isActive
+    if (isDefault && !isActive) {
+      return NextResponse.json(
+        { error: 'The default tax profile cannot be deactivated' },
+        { status: 400 }
+      )
+    }
+
+    const profile = await db.$transaction(async (tx) => {
+      const updated = await tx.taxProfile.update({
+        where: { id },
+        data: {
+          name: validatedData.name,
+          rate: validatedData.rate,
+          note: validatedData.note || null,
+          isDefault,
+          isActive
+        }
+      })
+      if (isDefault && !existing.isDefault) {
+        await setDefaultTaxProfile(tx, id)
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action: 'UPDATE',
+          entity: 'TAX_PROFILE',
+          entityId: id,
+          userId: user.id,
+          inquiryId: null,
+          oldData: {
+            name: existing.name,
+            rate: Number(existing.rate),
+            isDefault: existing.isDefault,
+            isActive: existing.isActive
+          },
+          newData: { name: updated.name, rate: validatedData.rate, isDefault, isActive },
+          metadata: {}
+        }
+      })
+
+      return updated
+    })
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update tax profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to update tax profile' },
+      { status: 500 }
+    )
+  }
+}
+
+// Customers on a deleted profile fall back to the default
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existing = await db.taxProfile.findUnique({ where: { id } })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Tax profile not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existing.isDefault) {
+      return NextResponse.json(
+        { error: 'Make another tax profile the default before deleting this one' },
+        { status: 400 }
+      )
+    }
+
+    await db.taxProfile.delete({ where: { id } })
+
+    await db.auditLog.create({
+      data: {
+        action: 'DELETE',
+        entity: 'TAX_PROFILE',
+        entityId: id,
+        userId: user.id,
+        inquiryId: null,
+        oldData: { name: existing.name, rate: Number(existing.rate) },
+        newData: {},
+        metadata: {}
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete tax profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete tax profile' },
+      { status: 500 }
+    )
+  }
+}
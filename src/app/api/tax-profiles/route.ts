@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/index'
+import { z } from 'zod'
+import { UserRole } from '@/lib/db/types'
+import { taxProfileSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { setDefaultTaxProfile } from '@/lib/tax-service'
+
+// All profiles, with ?active=true only those customers can be assigned
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const activeOnly = new URL(request.url).searchParams.get('active') === 'true'
+
+    const profiles = await db.taxProfile.findMany({
+      where: activeOnly ? { isActive: true } : {},
+      include: {
+        _count: { select: { customers: true } }
+      },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }]
+    })
+
+    return NextResponse.json(profiles)
+  } catch (error) {
+    console.error('Failed to fetch tax profiles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch tax profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.role !== UserRole.SUPERUSER && user.role !== UserRole.ADMIN) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validatedData = taxProfileSchema.parse(body)
+
+    const duplicate = await db.taxProfile.findFirst({ where: { name: validatedData.name } })
+    if (duplicate) {
+      return NextResponse.json(
+        { error: 'A tax profile with this name already exists' },
+        { status: 400 }
+      )
+    }
+
+    // The first profile is the default whatever was asked for
+    const isDefault = validatedData.isDefault || await db.taxProfile.count!({ where: { isDefault: true } }) === 0
+
+    const profile = await db.$transaction(async (tx) => {
+      const created = await tx.taxProfile.create({
+        data: {
+          name: validatedData.name,
+          rate: validatedData.rate,
+          note: validatedData.note || null,
+          isDefault,
+          isActive: validatedData.isActive ?? true
+        }
+      })
+      if (isDefault) {
+        await setDefaultTaxProfile(tx, created.id)
+      }
+
+      await tx.auditLog.create({
+        data: {
+          action: 'CREATE',
+          entity: 'TAX_PROFILE',
+          entityId: created.id,
+          userId: user.id,
+          inquiryId: null,
+          oldData: {},
+          newData: { name: created.name, rate: validatedData.rate, isDefault },
+          metadata: {}
+        }
+      })
+
+      return created
+    })
+
+    return NextResponse.json(profile, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to create tax profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to create tax profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { weightCalculationSchema } from '@/lib/validations'
+import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+import { calculateWeight, profileTables } from '@/lib/weight-service'
+import { AppError } from '@/types'
+
+// Standard profile tables for the calculator's profile picker
+export async function GET(request: NextRequest) {
+  const user = await getAuthenticatedUser(request)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return NextResponse.json(profileTables.map(table => ({
+    series: table.series,
+    description: table.description,
+    profiles: table.profiles
+  })))
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const input = weightCalculationSchema.parse(body)
+
+    return NextResponse.json(calculateWeight(input))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Weight calculation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -38,9 +38,61 @@ import {
   MessageSquare
 } from 'lucide-react'
 import { formatDate, formatCurrency } from '@/lib/utils'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import type { CostOutlierFlag } from '@/lib/cost-outlier-service'
 import { apiClient } from '@/lib/api-client'
 import { useTranslations } from 'next-intl'
 
+interface ApprovalStep {
+  id: string
+  status: string
+  stepOrder: number
+  requiredRole?: string | null
+  approver?: {
+    id: string
+    name: string
+  }
+}
+
+interface QuoteForApproval {
+  id: string
+  quoteNumber: string
+  revision: number
+  title: string
+  total: number
+  approvals?: ApprovalStep[]
+  createdBy?: {
+    id: string
+    name: string
+  }
+  inquiry: {
+    id: string
+    title: string
+    customer: {
+      id: string
+      name: string
+    }
+  }
+}
+
+interface ProductionOrderForApproval {
+  id: string
+  orderNumber: string
+  title: string
+  totalValue: number
+  approvals?: ApprovalStep[]
+  quote: {
+    inquiry: {
+      id: string
+      title: string
+      customer: {
+        id: string
+        name: string
+      }
+    }
+  }
+}
+
 interface ApprovalWithRelations {
   id: string
   type: string
@@ -48,11 +100,25 @@ interface ApprovalWithRelations {
   comments?: string
   approvedAt?: string
   createdAt: string
+  stepOrder: number
+  requiredRole?: string | null
+  canAct: boolean
   approver?: {
     id: string
     name: string
     email: string
   }
+  // Cost calculation revision the step decides on
+  revision?: {
+    id: string
+    revision: number
+    materialCost: number
+    laborCost: number
+    overheadCost: number
+    totalCost: number
+    notes?: string | null
+    outlierFlags?: CostOutlierFlag[] | null
+  } | null
   costCalculation?: {
     id: string
     materialCost: number
@@ -60,6 +126,7 @@ interface ApprovalWithRelations {
     overheadCost: number
     totalCost: number
     notes?: string
+    approvals?: ApprovalStep[]
     calculatedBy: {
       id: string
       name: string
@@ -81,6 +148,55 @@ interface ApprovalWithRelations {
       }
     }
   }
+  quote?: QuoteForApproval
+  productionOrder?: ProductionOrderForApproval
+}
+
+const approvalTypeLabels: Record<string, string> = {
+  COST_CALCULATION: 'Cost calculation',
+  QUOTE: 'Quote',
+  PRODUCTION_ORDER: 'Production order'
+}
+
+// Common view of what an approval is about, whatever its type
+function describeApproval(approval: ApprovalWithRelations) {
+  const { costCalculation, quote, productionOrder, revision } = approval
+
+  if (quote) {
+    return {
+      title: quote.title,
+      reference: `${quote.quoteNumber}-R${quote.revision}`,
+      inquiryTitle: quote.inquiry.title,
+      customerName: quote.inquiry.customer.name,
+      amount: Number(quote.total),
+      requestedBy: quote.createdBy?.name,
+      chain: quote.approvals ?? []
+    }
+  }
+
+  if (productionOrder) {
+    return {
+      title: productionOrder.title,
+      reference: productionOrder.orderNumber,
+      inquiryTitle: productionOrder.quote.inquiry.title,
+      customerName: productionOrder.quote.inquiry.customer.name,
+      amount: Number(productionOrder.totalValue),
+      requestedBy: undefined,
+      chain: productionOrder.approvals ?? []
+    }
+  }
+
+  return {
+    title: costCalculation?.inquiryItem.name,
+    reference: costCalculation
+      ? `${costCalculation.inquiryItem.quantity} ${costCalculation.inquiryItem.unit ?? ''}`.trim()
+      : undefined,
+    inquiryTitle: costCalculation?.inquiryItem.inquiry.title,
+    customerName: costCalculation?.inquiryItem.inquiry.customer.name,
+    amount: Number((revision ?? costCalculation)?.totalCost || 0),
+    requestedBy: costCalculation?.calculatedBy.name,
+    chain: costCalculation?.approvals ?? []
+  }
 }
 
 export default function ApprovalsPage() {
@@ -113,16 +229,16 @@ export default function ApprovalsPage() {
   }
 
   const handleApprovalAction = async (action: 'APPROVED' | 'REJECTED') => {
-    if (!selectedApproval?.costCalculation) return
+    if (!selectedApproval) return
 
     try {
       setApprovalLoading(true)
       
-      await apiClient.createApproval({
-        costCalculationId: selectedApproval.costCalculation.id,
+      const response = await apiClient.createApproval({
+        approvalId: selectedApproval.id,
         status: action,
         comments: comments || undefined
-      })
+      }) as any
 
       // Reset state
       setSelectedApproval(null)
@@ -133,7 +249,7 @@ export default function ApprovalsPage() {
       // Refresh data
       await fetchApprovals()
       
-      alert(`Cost calculation ${action.toLowerCase()} successfully!`)
+      alert(response?.message || `${approvalTypeLabels[selectedApproval.type] ?? 'Approval'} ${action.toLowerCase()} successfully!`)
     } catch (error) {
       console.error('Failed to process approval:', error)
       alert('Failed to process approval. Please try again.')
@@ -142,6 +258,13 @@ export default function ApprovalsPage() {
     }
   }
 
+  const getStepLabel = (approval: ApprovalWithRelations) => {
+    const stepCount = describeApproval(approval).chain.length || 1
+    return stepCount > 1
+      ? `Step ${approval.stepOrder} of ${stepCount}${approval.requiredRole ? ` · ${approval.requiredRole}` : ''}`
+      : null
+  }
+
   const getStatusBadge = (status: string) => {
     const statusMap = {
       PENDING: { variant: 'warning' as const, icon: Clock, label: t("common.status.pending") },
@@ -168,7 +291,7 @@ export default function ApprovalsPage() {
           <div>
             <h1 className="text-3xl font-bold tracking-tight">Approvals</h1>
             <p className="text-muted-foreground">
-              Review and approve cost calculations
+              Review and approve cost calculations, quotes and production orders
             </p>
           </div>
         </div>
@@ -195,7 +318,9 @@ export default function ApprovalsPage() {
     )
   }
 
-  const pendingApprovals = approvals.filter(a => a.status === 'PENDING')
+  // Steps waiting on this user; later steps of a chain show up once the
+  // earlier ones are approved
+  const pendingApprovals = approvals.filter(a => a.canAct)
   const approvedCount = approvals.filter(a => a.status === 'APPROVED').length
   const rejectedCount = approvals.filter(a => a.status === 'REJECTED').length
 
@@ -260,13 +385,11 @@ export default function ApprovalsPage() {
           <CardContent>
             <div className="text-2xl font-bold">
               {formatCurrency(
-                approvals
-                  .filter(a => a.costCalculation)
-                  .reduce((sum, a) => sum + Number(a.costCalculation!.totalCost), 0)
+                approvals.reduce((sum, a) => sum + describeApproval(a).amount, 0)
               )}
             </div>
             <p className="text-xs text-muted-foreground">
-              Total cost value
+              Total value
             </p>
           </CardContent>
         </Card>
@@ -278,7 +401,7 @@ export default function ApprovalsPage() {
           <CardHeader>
             <CardTitle>Pending Approvals</CardTitle>
             <CardDescription>
-              {pendingApprovals.length} cost calculations need your approval
+              {pendingApprovals.length} items need your approval
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -289,11 +412,23 @@ export default function ApprovalsPage() {
                     <div className="flex-1 space-y-2">
                       <div className="flex items-center space-x-2">
                         <h4 className="font-medium">
-                          {approval.costCalculation?.inquiryItem.name}
+                          {describeApproval(approval).title}
                         </h4>
+                        <Badge variant="secondary">{approvalTypeLabels[approval.type] ?? approval.type}</Badge>
                         <Badge variant="warning">Needs Review</Badge>
+                        {getStepLabel(approval) && (
+                          <Badge variant="outline">{getStepLabel(approval)}</Badge>
+                        )}
+                        {approval.revision && (
+                          <Badge variant="outline">Revision {approval.revision.revision}</Badge>
+                        )}
+                        {approval.revision?.outlierFlags?.length ? (
+                          <Badge variant="destructive">Outlier</Badge>
+                        ) : null}
                       </div>
                       
+                      {approval.costCalculation ? (
+                      <>
                       <div className="text-sm text-muted-foreground">
                         <p>{approval.costCalculation?.inquiryItem.description}</p>
                         <div className="flex items-center space-x-4 mt-1">
@@ -310,24 +445,24 @@ export default function ApprovalsPage() {
                         <div>
                           <span className="text-muted-foreground">Material: </span>
                           <span className="font-medium">
-                            {formatCurrency(Number(approval.costCalculation?.materialCost || 0))}
+                            {formatCurrency(Number((approval.revision ?? approval.costCalculation)?.materialCost || 0))}
                           </span>
                         </div>
                         <div>
                           <span className="text-muted-foreground">Labor: </span>
                           <span className="font-medium">
-                            {formatCurrency(Number(approval.costCalculation?.laborCost || 0))}
+                            {formatCurrency(Number((approval.revision ?? approval.costCalculation)?.laborCost || 0))}
                           </span>
                         </div>
                         <div>
                           <span className="text-muted-foreground">Overhead: </span>
                           <span className="font-medium">
-                            {formatCurrency(Number(approval.costCalculation?.overheadCost || 0))}
+                            {formatCurrency(Number((approval.revision ?? approval.costCalculation)?.overheadCost || 0))}
                           </span>
                         </div>
                         <div className="font-bold text-lg">
                           <span className="text-muted-foreground">Total: </span>
-                          {formatCurrency(Number(approval.costCalculation?.totalCost || 0))}
+                          {formatCurrency(Number((approval.revision ?? approval.costCalculation)?.totalCost || 0))}
                         </div>
                       </div>
 
@@ -336,9 +471,52 @@ export default function ApprovalsPage() {
                         {formatDate(approval.createdAt)}
                       </div>
 
-                      {approval.costCalculation?.notes && (
+                      {(approval.revision ?? approval.costCalculation)?.notes && (
                         <div className="p-3 bg-muted rounded text-sm">
-                          <strong>Notes:</strong> {approval.costCalculation.notes}
+                          <strong>Notes:</strong> {(approval.revision ?? approval.costCalculation)?.notes}
+                        </div>
+                      )}
+
+                      {approval.revision?.outlierFlags?.length ? (
+                        <Alert variant="destructive">
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertTitle>Check these figures before approving</AlertTitle>
+                          <AlertDescription>
+                            <ul className="list-disc pl-4 space-y-1">
+                              {approval.revision.outlierFlags.map((flag, index) => (
+                                <li key={index}>{flag.message}</li>
+                              ))}
+                            </ul>
+                          </AlertDescription>
+                        </Alert>
+                      ) : null}
+                      </>
+                      ) : (
+                        <div className="space-y-1 text-sm text-muted-foreground">
+                          <div className="flex items-center space-x-4">
+                            <span>{describeApproval(approval).reference}</span>
+                            <span>Customer: {describeApproval(approval).customerName}</span>
+                          </div>
+                          <div className="font-bold text-lg text-foreground">
+                            <span className="text-muted-foreground">Total: </span>
+                            {formatCurrency(describeApproval(approval).amount)}
+                          </div>
+                          <div>Requested on {formatDate(approval.createdAt)}</div>
+                        </div>
+                      )}
+
+                      {describeApproval(approval).chain.length > 1 && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <span className="text-muted-foreground">Approval chain:</span>
+                          {describeApproval(approval).chain.map((step) => (
+                            <Badge
+                              key={step.id}
+                              variant={step.status === 'APPROVED' ? 'success' : step.id === approval.id ? 'warning' : 'outline'}
+                            >
+                              {step.stepOrder}. {step.requiredRole ?? 'Approver'}
+                              {step.status === 'APPROVED' && step.approver ? ` · ${step.approver.name}` : ''}
+                            </Badge>
+                          ))}
                         </div>
                       )}
                     </div>
@@ -389,26 +567,32 @@ export default function ApprovalsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Item</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Subject</TableHead>
                   <TableHead>Inquiry</TableHead>
                   <TableHead>Customer</TableHead>
-                  <TableHead>Total Cost</TableHead>
-                  <TableHead>Calculated By</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Requested By</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead>Approved By</TableHead>
+                  <TableHead>Approver</TableHead>
                   <TableHead>Date</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {approvals.map((approval) => (
+                {approvals.map((approval) => {
+                  const subject = describeApproval(approval)
+                  return (
                   <TableRow key={approval.id}>
+                    <TableCell>
+                      <Badge variant="secondary">{approvalTypeLabels[approval.type] ?? approval.type}</Badge>
+                    </TableCell>
                     <TableCell>
                       <div>
                         <div className="font-medium">
-                          {approval.costCalculation?.inquiryItem.name}
+                          {subject.title}
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          {approval.costCalculation?.inquiryItem.quantity} {approval.costCalculation?.inquiryItem.unit}
+                          {subject.reference}
                         </div>
                       </div>
                     </TableCell>
@@ -416,28 +600,39 @@ export default function ApprovalsPage() {
                       <div className="flex items-center space-x-2">
                         <FileText className="h-4 w-4 text-muted-foreground" />
                         <span className="truncate max-w-[150px]">
-                          {approval.costCalculation?.inquiryItem.inquiry.title}
+                          {subject.inquiryTitle}
                         </span>
                       </div>
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center space-x-2">
                         <Building2 className="h-4 w-4 text-muted-foreground" />
-                        <span>{approval.costCalculation?.inquiryItem.inquiry.customer.name}</span>
+                        <span>{subject.customerName}</span>
                       </div>
                     </TableCell>
                     <TableCell>
                       <span className="font-medium">
-                        {formatCurrency(Number(approval.costCalculation?.totalCost || 0))}
+                        {formatCurrency(subject.amount)}
                       </span>
                     </TableCell>
                     <TableCell>
-                      <div className="flex items-center space-x-2">
-                        <User className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-sm">{approval.costCalculation?.calculatedBy.name}</span>
+                      {subject.requestedBy ? (
+                        <div className="flex items-center space-x-2">
+                          <User className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-sm">{subject.requestedBy}</span>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {getStatusBadge(approval.status)}
+                        {getStepLabel(approval) && (
+                          <div className="text-xs text-muted-foreground">{getStepLabel(approval)}</div>
+                        )}
                       </div>
                     </TableCell>
-                    <TableCell>{getStatusBadge(approval.status)}</TableCell>
                     <TableCell>
                       {approval.approver ? (
                         <div className="flex items-center space-x-2">
@@ -454,7 +649,8 @@ export default function ApprovalsPage() {
                       </div>
                     </TableCell>
                   </TableRow>
-                ))}
+                  )
+                })}
               </TableBody>
             </Table>
           </div>
@@ -476,12 +672,13 @@ export default function ApprovalsPage() {
         <DialogContent>
           <DialogHeader>
             <DialogTitle>
-              {approvalAction === 'APPROVED' ? 'Approve' : 'Reject'} Cost Calculation
+              {approvalAction === 'APPROVED' ? 'Approve' : 'Reject'}{' '}
+              {approvalTypeLabels[selectedApproval?.type ?? ''] ?? 'Approval'}
             </DialogTitle>
             <DialogDescription>
               {approvalAction === 'APPROVED' 
-                ? 'Approve this cost calculation to proceed with quote generation.'
-                : 'Reject this cost calculation and provide feedback for revision.'
+                ? 'Approve this step so the request can move on.'
+                : 'Reject this request and provide feedback for revision.'
               }
             </DialogDescription>
           </DialogHeader>
@@ -489,15 +686,19 @@ export default function ApprovalsPage() {
           {selectedApproval && (
             <div className="space-y-4">
               <div className="p-4 bg-muted rounded-lg">
-                <h4 className="font-medium">{selectedApproval.costCalculation?.inquiryItem.name}</h4>
-                <p className="text-sm text-muted-foreground mt-1">
-                  {selectedApproval.costCalculation?.inquiryItem.description}
-                </p>
+                <h4 className="font-medium">{describeApproval(selectedApproval).title}</h4>
+                {selectedApproval.costCalculation && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {selectedApproval.costCalculation.inquiryItem.description}
+                  </p>
+                )}
                 <div className="mt-2 text-sm">
-                  <div>Customer: {selectedApproval.costCalculation?.inquiryItem.inquiry.customer.name}</div>
-                  <div>Quantity: {selectedApproval.costCalculation?.inquiryItem.quantity} {selectedApproval.costCalculation?.inquiryItem.unit}</div>
+                  <div>Customer: {describeApproval(selectedApproval).customerName}</div>
+                  <div>
+                    {selectedApproval.costCalculation ? 'Quantity' : 'Reference'}: {describeApproval(selectedApproval).reference}
+                  </div>
                   <div className="font-bold text-lg mt-2">
-                    Total Cost: {formatCurrency(Number(selectedApproval.costCalculation?.totalCost || 0))}
+                    Total: {formatCurrency(describeApproval(selectedApproval).amount)}
                   </div>
                 </div>
               </div>
@@ -513,7 +714,7 @@ export default function ApprovalsPage() {
                   placeholder={
                     approvalAction === 'APPROVED' 
                       ? 'Add any additional comments...'
-                      : 'Please explain why this cost calculation is being rejected...'
+                      : 'Please explain why this is being rejected...'
                   }
                   className="w-full px-3 py-2 border rounded-md min-h-[100px]"
                   required={approvalAction === 'REJECTED'}
@@ -0,0 +1,502 @@
+'use client'
+
+export const dynamic = 'force-dynamic'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Sigma, Plus, Edit, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface TemplateVariable {
+  name: string
+  label: string
+  unit?: string
+  min?: number
+  max?: number
+  defaultValue?: number
+}
+
+interface CostingTemplate {
+  id: string
+  name: string
+  productFamily: string
+  description: string | null
+  variables: TemplateVariable[]
+  materialFormula: string
+  laborFormula: string
+  overheadFormula: string
+  isActive: boolean
+}
+
+interface VariableDraft {
+  name: string
+  label: string
+  unit: string
+  min: string
+  max: string
+  defaultValue: string
+}
+
+const emptyVariable: VariableDraft = { name: '', label: '', unit: '', min: '', max: '', defaultValue: '' }
+
+const emptyTemplateForm = {
+  name: '',
+  productFamily: '',
+  description: '',
+  variables: [emptyVariable],
+  materialFormula: '',
+  laborFormula: '',
+  overheadFormula: '',
+  isActive: true
+}
+
+const optionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value)
+const draftNumber = (value?: number) => value === undefined ? '' : String(value)
+
+export default function CostingTemplatesPage() {
+  const { user } = useAuth()
+  const [templates, setTemplates] = useState<CostingTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<CostingTemplate | null>(null)
+  const [formData, setFormData] = useState(emptyTemplateForm)
+  const [saving, setSaving] = useState(false)
+
+  const userRole = user?.role
+  const canManage = userRole === 'SUPERUSER' || userRole === 'ADMIN'
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [])
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/costing-templates?includeInactive=true')
+      if (!response.ok) {
+        throw new Error('Failed to fetch costing templates')
+      }
+      setTemplates(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch costing templates:', error)
+      toast.error('Failed to load costing templates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreate = () => {
+    setEditing(null)
+    setFormData(emptyTemplateForm)
+    setFormOpen(true)
+  }
+
+  const openEdit = (template: CostingTemplate) => {
+    setEditing(template)
+    setFormData({
+      name: template.name,
+      productFamily: template.productFamily,
+      description: template.description ?? '',
+      variables: template.variables.map(variable => ({
+        name: variable.name,
+        label: variable.label,
+        unit: variable.unit ?? '',
+        min: draftNumber(variable.min),
+        max: draftNumber(variable.max),
+        defaultValue: draftNumber(variable.defaultValue)
+      })),
+      materialFormula: template.materialFormula,
+      laborFormula: template.laborFormula,
+      overheadFormula: template.overheadFormula,
+      isActive: template.isActive
+    })
+    setFormOpen(true)
+  }
+
+  const updateVariable = (index: number, field: keyof VariableDraft, value: string) => {
+    setFormData({
+      ...formData,
+      variables: formData.variables.map((variable, i) =>
+        i === index ? { ...variable, [field]: value } : variable
+      )
+    })
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch(editing ? `/api/costing-templates/${editing.id}` : '/api/costing-templates', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          productFamily: formData.productFamily.trim(),
+          description: formData.description.trim() || undefined,
+          variables: formData.variables.map(variable => ({
+            name: variable.name.trim(),
+            label: variable.label.trim(),
+            unit: variable.unit.trim() || undefined,
+            min: optionalNumber(variable.min),
+            max: optionalNumber(variable.max),
+            defaultValue: optionalNumber(variable.defaultValue)
+          })),
+          materialFormula: formData.materialFormula.trim(),
+          laborFormula: formData.laborFormula.trim(),
+          overheadFormula: formData.overheadFormula.trim(),
+          isActive: formData.isActive
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.details?.[0]?.message || error?.error || 'Failed to save template')
+      }
+
+      toast.success(editing ? 'Template updated' : 'Template added')
+      setFormOpen(false)
+      fetchTemplates()
+    } catch (error: any) {
+      console.error('Failed to save costing template:', error)
+      toast.error(error.message || 'Failed to save template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: CostingTemplate) => {
+    if (!confirm(`Remove template ${template.name}?`)) return
+
+    try {
+      const response = await fetch(`/api/costing-templates/${template.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete template')
+      }
+      const result = await response.json()
+      toast.success(result.deactivated
+        ? 'Template is used by cost calculations and was deactivated'
+        : 'Template removed')
+      fetchTemplates()
+    } catch (error) {
+      console.error('Failed to delete costing template:', error)
+      toast.error('Failed to delete template')
+    }
+  }
+
+  if (!canManage) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Costing Templates</h1>
+          <p className="text-muted-foreground">
+            Only administrators can edit costing templates
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const formIncomplete = !formData.name.trim() ||
+    !formData.productFamily.trim() ||
+    !formData.materialFormula.trim() ||
+    !formData.laborFormula.trim() ||
+    !formData.overheadFormula.trim() ||
+    formData.variables.length === 0 ||
+    formData.variables.some(variable => !variable.name.trim() || !variable.label.trim())
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Costing Templates</h1>
+          <p className="text-muted-foreground">
+            Formulas that price a product family from a few dimensions
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Template
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>
+            Formula changes apply when a calculation is next saved; saved calculations keep their amounts
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="loading-spinner"></div>
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="empty-state">
+              <Sigma className="empty-state-icon" />
+              <h3 className="empty-state-title">No templates defined</h3>
+              <p className="empty-state-description">
+                Add a template for parts you quote often, e.g. brackets or base plates
+              </p>
+            </div>
+          ) : (
+            <div className="data-table-wrapper">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product Family</TableHead>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Variables</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((template) => (
+                    <TableRow key={template.id}>
+                      <TableCell>{template.productFamily}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{template.name}</div>
+                        {template.description && (
+                          <div className="text-sm text-muted-foreground">{template.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {template.variables.map(variable => variable.name).join(', ')}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={template.isActive ? 'success' : 'secondary'}>
+                          {template.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(template)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(template)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : 'Add Template'}</DialogTitle>
+            <DialogDescription>
+              Results are in the system's main currency, per unit
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="template-name">Name *</Label>
+                <Input
+                  id="template-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Wall bracket"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="template-family">Product family *</Label>
+                <Input
+                  id="template-family"
+                  value={formData.productFamily}
+                  onChange={(e) => setFormData({ ...formData, productFamily: e.target.value })}
+                  placeholder="Brackets"
+                />
+              </div>
+              <div className="col-span-2 grid gap-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Input
+                  id="template-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Variables *</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData({ ...formData, variables: [...formData.variables, emptyVariable] })}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Variable
+                </Button>
+              </div>
+              <div className="data-table-wrapper">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Label</TableHead>
+                      <TableHead>Unit</TableHead>
+                      <TableHead>Min</TableHead>
+                      <TableHead>Max</TableHead>
+                      <TableHead>Default</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {formData.variables.map((variable, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input
+                            className="font-mono"
+                            value={variable.name}
+                            onChange={(e) => updateVariable(index, 'name', e.target.value)}
+                            placeholder="length_mm"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={variable.label}
+                            onChange={(e) => updateVariable(index, 'label', e.target.value)}
+                            placeholder="Length"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="w-20"
+                            value={variable.unit}
+                            onChange={(e) => updateVariable(index, 'unit', e.target.value)}
+                            placeholder="mm"
+                          />
+                        </TableCell>
+                        {(['min', 'max', 'defaultValue'] as const).map(field => (
+                          <TableCell key={field}>
+                            <Input
+                              className="w-24"
+                              type="number"
+                              step="any"
+                              value={variable[field]}
+                              onChange={(e) => updateVariable(index, field, e.target.value)}
+                            />
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            disabled={formData.variables.length === 1}
+                            onClick={() => setFormData({
+                              ...formData,
+                              variables: formData.variables.filter((_, i) => i !== index)
+                            })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="template-material">Material formula *</Label>
+              <Textarea
+                id="template-material"
+                className="font-mono"
+                rows={2}
+                value={formData.materialFormula}
+                onChange={(e) => setFormData({ ...formData, materialFormula: e.target.value })}
+                placeholder={'length_mm * width_mm * thickness_mm / 1e9 * density("S235-SHEET-5") * material("S235-SHEET-5")'}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="template-labor">Labor formula *</Label>
+              <Textarea
+                id="template-labor"
+                className="font-mono"
+                rows={2}
+                value={formData.laborFormula}
+                onChange={(e) => setFormData({ ...formData, laborFormula: e.target.value })}
+                placeholder={'(10 + holes * 0.5) / 60 * rate("LASER")'}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="template-overhead">Overhead formula *</Label>
+              <Textarea
+                id="template-overhead"
+                className="font-mono"
+                rows={2}
+                value={formData.overheadFormula}
+                onChange={(e) => setFormData({ ...formData, overheadFormula: e.target.value })}
+                placeholder="0.15 * (material + labor)"
+              />
+            </div>
+            <div className="rounded-md bg-muted p-3 text-xs text-muted-foreground space-y-1">
+              <p>Use the variable names, numbers, + - * / ^, parentheses and min, max, round, ceil, floor, abs, sqrt.</p>
+              <p>
+                <span className="font-mono">material(&quot;CODE&quot;)</span> is the catalog price per price unit,{' '}
+                <span className="font-mono">density(&quot;CODE&quot;)</span> its density in kg/m³ and{' '}
+                <span className="font-mono">rate(&quot;CODE&quot;)</span> a labor operation&apos;s hourly rate.
+              </p>
+              <p>
+                The overhead formula can also use <span className="font-mono">material</span> and{' '}
+                <span className="font-mono">labor</span>, the two computed costs.
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              Active - available for new cost calculations
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || formIncomplete}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -28,6 +28,7 @@ import {
 } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
   Building2, 
   Search, 
@@ -44,6 +45,7 @@ import {
 import { formatDate } from '@/lib/utils'
 import { apiClient } from '@/lib/api-client'
 import { toast } from 'sonner'
+import { Currency, TaxTreatment } from '@prisma/client'
 
 interface Customer {
   id: string
@@ -52,6 +54,9 @@ interface Customer {
   phone: string | null
   address: string | null
   website: string | null
+  preferredCurrency: Currency | null
+  taxTreatment: TaxTreatment
+  taxProfileId: string | null
   isActive: boolean
   createdAt: string
   updatedAt: string
@@ -60,10 +65,21 @@ interface Customer {
   }
 }
 
+// Select value for no preferred currency; quotes then use the main currency
+const NO_CURRENCY = 'NONE'
+// Select value for no tax profile of their own; the default one then applies
+const DEFAULT_TAX_PROFILE = 'DEFAULT'
+
+interface TaxProfileOption {
+  id: string
+  name: string
+}
+
 export default function CustomersPage() {
   const { user } = useAuth()
   const t = useTranslations()
   const [customers, setCustomers] = useState<Customer[]>([])
+  const [taxProfiles, setTaxProfiles] = useState<TaxProfileOption[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [isCreateOpen, setIsCreateOpen] = useState(false)
@@ -74,7 +90,10 @@ export default function CustomersPage() {
     email: '',
     phone: '',
     address: '',
-    website: ''
+    website: '',
+    preferredCurrency: NO_CURRENCY,
+    taxTreatment: TaxTreatment.DOMESTIC as TaxTreatment,
+    taxProfileId: DEFAULT_TAX_PROFILE
   })
 
   const userRole = user?.role
@@ -83,6 +102,10 @@ export default function CustomersPage() {
     fetchCustomers()
   }, [searchTerm])
 
+  useEffect(() => {
+    fetchTaxProfiles()
+  }, [])
+
   const fetchCustomers = async () => {
     try {
       setLoading(true)
@@ -102,12 +125,28 @@ export default function CustomersPage() {
     }
   }
 
+  const fetchTaxProfiles = async () => {
+    try {
+      const response = await fetch('/api/tax-profiles?active=true')
+      if (!response.ok) throw new Error('Failed to fetch tax profiles')
+      setTaxProfiles(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch tax profiles:', error)
+    }
+  }
+
+  const toRequestBody = () => ({
+    ...formData,
+    preferredCurrency: formData.preferredCurrency === NO_CURRENCY ? null : formData.preferredCurrency,
+    taxProfileId: formData.taxProfileId === DEFAULT_TAX_PROFILE ? null : formData.taxProfileId
+  })
+
   const handleCreate = async () => {
     try {
       const response = await fetch('/api/customers', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData)
+        body: JSON.stringify(toRequestBody())
       })
       
       if (!response.ok) throw new Error('Failed to create customer')
@@ -129,7 +168,7 @@ export default function CustomersPage() {
       const response = await fetch(`/api/customers/${selectedCustomer.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData)
+        body: JSON.stringify(toRequestBody())
       })
       
       if (!response.ok) throw new Error('Failed to update customer')
@@ -168,7 +207,10 @@ export default function CustomersPage() {
       email: '',
       phone: '',
       address: '',
-      website: ''
+      website: '',
+      preferredCurrency: NO_CURRENCY,
+      taxTreatment: TaxTreatment.DOMESTIC,
+      taxProfileId: DEFAULT_TAX_PROFILE
     })
     setSelectedCustomer(null)
   }
@@ -180,7 +222,10 @@ export default function CustomersPage() {
       email: customer.email,
       phone: customer.phone || '',
       address: customer.address || '',
-      website: customer.website || ''
+      website: customer.website || '',
+      preferredCurrency: customer.preferredCurrency || NO_CURRENCY,
+      taxTreatment: customer.taxTreatment || TaxTreatment.DOMESTIC,
+      taxProfileId: customer.taxProfileId || DEFAULT_TAX_PROFILE
     })
     setIsEditOpen(true)
   }
@@ -293,6 +338,58 @@ export default function CustomersPage() {
                   rows={3}
                 />
               </div>
+              <div className="grid gap-2">
+                <Label htmlFor="preferredCurrency">{t('customers.form.fields.preferredCurrency')}</Label>
+                <Select
+                  value={formData.preferredCurrency}
+                  onValueChange={(value) => setFormData({ ...formData, preferredCurrency: value })}
+                >
+                  <SelectTrigger id="preferredCurrency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CURRENCY}>{t('customers.form.fields.preferredCurrencyNone')}</SelectItem>
+                    {Object.values(Currency).map(currency => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="taxTreatment">{t('customers.form.fields.taxTreatment')}</Label>
+                <Select
+                  value={formData.taxTreatment}
+                  onValueChange={(value) => setFormData({ ...formData, taxTreatment: value as TaxTreatment })}
+                >
+                  <SelectTrigger id="taxTreatment">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(TaxTreatment).map(treatment => (
+                      <SelectItem key={treatment} value={treatment}>{t(`customers.form.taxTreatments.${treatment}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.taxTreatment === TaxTreatment.DOMESTIC && (
+                <div className="grid gap-2">
+                  <Label htmlFor="taxProfile">{t('customers.form.fields.taxProfile')}</Label>
+                  <Select
+                    value={formData.taxProfileId}
+                    onValueChange={(value) => setFormData({ ...formData, taxProfileId: value })}
+                  >
+                    <SelectTrigger id="taxProfile">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_TAX_PROFILE}>{t('customers.form.fields.taxProfileDefault')}</SelectItem>
+                      {taxProfiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
@@ -538,6 +635,58 @@ export default function CustomersPage() {
                 rows={3}
               />
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="edit-preferredCurrency">{t('customers.form.fields.preferredCurrency')}</Label>
+              <Select
+                value={formData.preferredCurrency}
+                onValueChange={(value) => setFormData({ ...formData, preferredCurrency: value })}
+              >
+                <SelectTrigger id="edit-preferredCurrency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CURRENCY}>{t('customers.form.fields.preferredCurrencyNone')}</SelectItem>
+                  {Object.values(Currency).map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="edit-taxTreatment">{t('customers.form.fields.taxTreatment')}</Label>
+              <Select
+                value={formData.taxTreatment}
+                onValueChange={(value) => setFormData({ ...formData, taxTreatment: value as TaxTreatment })}
+              >
+                <SelectTrigger id="edit-taxTreatment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(TaxTreatment).map(treatment => (
+                    <SelectItem key={treatment} value={treatment}>{t(`customers.form.taxTreatments.${treatment}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.taxTreatment === TaxTreatment.DOMESTIC && (
+              <div className="grid gap-2">
+                <Label htmlFor="edit-taxProfile">{t('customers.form.fields.taxProfile')}</Label>
+                <Select
+                  value={formData.taxProfileId}
+                  onValueChange={(value) => setFormData({ ...formData, taxProfileId: value })}
+                >
+                  <SelectTrigger id="edit-taxProfile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_TAX_PROFILE}>{t('customers.form.fields.taxProfileDefault')}</SelectItem>
+                    {taxProfiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsEditOpen(false)}>
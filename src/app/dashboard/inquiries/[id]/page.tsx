@@ -202,7 +202,7 @@ export default function InquiryDetailPage() {
               {getStatusBadge(inquiry.status)}
               {getPriorityBadge(inquiry.priority, t(`common.priority.${inquiry.priority.toLowerCase()}`))}
               <span className="text-sm text-muted-foreground">
-                ID: {inquiry.id.slice(-8)}
+                {inquiry.inquiryNumber || `ID: ${inquiry.id.slice(-8)}`}
               </span>
             </div>
           </div>
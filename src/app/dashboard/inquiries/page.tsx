@@ -402,6 +402,9 @@ export default function InquiriesPage() {
                             </button>
                             <div className="min-w-0">
                               <div className="font-medium">{inquiry.title}</div>
+                              {inquiry.inquiryNumber && (
+                                <div className="text-xs text-muted-foreground">{inquiry.inquiryNumber}</div>
+                              )}
                               {inquiry.description && (
                                 <div className="text-sm text-muted-foreground line-clamp-2">
                                   {inquiry.description}
@@ -11,9 +11,19 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { ArrowLeft, Save } from 'lucide-react'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ArrowLeft, Save, Plus, Trash2, RefreshCw, Scale, Copy } from 'lucide-react'
+import { Currency, MaterialPriceUnit } from '@prisma/client'
 import { formatDate } from '@/lib/utils'
 import { formatWithSystemCurrency } from '@/lib/currency-helpers'
+import { getSystemSettings } from '@/lib/currency'
+import { toRateDate } from '@/lib/exchange-rate-parser'
+import { getMaterialLineRates, materialLineFromCatalog, type MaterialLineRates } from '@/lib/bom-service'
+import { cuttingMinutesPerPiece, routingStepTotal } from '@/lib/routing-service'
+import type { WeightResult } from '@/lib/weight-service'
+import { WeightCalculatorDialog } from '@/components/costs/weight-calculator-dialog'
+import type { DrawingSummary } from '@/components/costs/drawing-analysis-card'
+import type { TemplateCosts } from '@/lib/costing-template-service'
 import { toast } from 'sonner'
 import { useTranslations } from 'next-intl'
 
@@ -40,15 +50,131 @@ interface InquiryItem {
     name: string
     email: string
   } | null
-  costCalculation?: {
+  costCalculation?: CostCalculationData | null
+}
+
+interface CostCalculationData {
+  id: string
+  materialCost: number
+  laborCost: number
+  overheadCost: number
+  totalCost: number
+  notes?: string | null
+  isApproved: boolean
+  approvedAt?: string | null
+  materialLines?: MaterialLine[]
+  routingSteps?: RoutingStep[]
+  templateId?: string | null
+  templateInputs?: Record<string, number> | null
+  template?: CostingTemplateOption | null
+}
+
+// Past item with the approved calculation it was quoted from
+interface SimilarItem {
+  score: number
+  item: {
     id: string
-    materialCost: number
-    laborCost: number
-    overheadCost: number
-    totalCost: number
-    notes?: string | null
-    isApproved: boolean
-  } | null
+    name: string
+    description?: string | null
+    quantity: number
+    unit?: string | null
+    inquiry: {
+      id: string
+      title: string
+      customer: { id: string; name: string }
+    }
+  }
+  costCalculation: CostCalculationData
+}
+
+interface MaterialLine {
+  material: string
+  grade: string | null
+  dimensions: string | null
+  quantity: number | string
+  unit: string
+  unitPrice: number | string
+  currency: Currency
+  supplier: string | null
+  materialId: string | null
+}
+
+interface RoutingStep {
+  operationId: string | null
+  operationName: string
+  setupMinutes: number | string
+  minutesPerPiece: number | string
+  quantity: number
+}
+
+interface LaborOperation {
+  id: string
+  code: string
+  name: string
+  hourlyRate: number | string
+  defaultSetupMinutes: number
+  cuttingSpeed: number | string | null
+  pierceSeconds: number | string | null
+  isActive: boolean
+}
+
+interface CatalogMaterial {
+  id: string
+  code: string
+  name: string
+  grade: string
+  dimensions: string | null
+  density: number | string | null
+  priceUnit: MaterialPriceUnit
+  currentPrice: number | string
+  currency: Currency
+  supplier: string | null
+}
+
+// Editable BOM row; numbers are kept as input strings
+interface MaterialLineDraft {
+  materialId: string | null
+  material: string
+  grade: string
+  dimensions: string
+  quantity: string
+  unit: string
+  unitPrice: string
+  currency: Currency
+  supplier: string
+}
+
+const emptyMaterialLine: Omit<MaterialLineDraft, 'currency'> = {
+  materialId: null,
+  material: '',
+  grade: '',
+  dimensions: '',
+  quantity: '1',
+  unit: 'kg',
+  unitPrice: '0',
+  supplier: ''
+}
+
+// Editable routing row; numbers are kept as input strings
+interface RoutingStepDraft {
+  operationId: string
+  setupMinutes: string
+  minutesPerPiece: string
+  quantity: string
+}
+
+interface CostingTemplateOption {
+  id: string
+  name: string
+  productFamily: string
+  variables: {
+    name: string
+    label: string
+    unit?: string
+    min?: number
+    max?: number
+    defaultValue?: number
+  }[]
 }
 
 interface User {
@@ -86,6 +212,19 @@ export default function ItemEditPage() {
     overheadCost: 0,
     notes: ''
   })
+  const [materialLines, setMaterialLines] = useState<MaterialLineDraft[]>([])
+  const [rates, setRates] = useState<MaterialLineRates>({ [Currency.EUR]: 1 })
+  const [catalog, setCatalog] = useState<CatalogMaterial[]>([])
+  const [routingSteps, setRoutingSteps] = useState<RoutingStepDraft[]>([])
+  const [operations, setOperations] = useState<LaborOperation[]>([])
+  const [weightLineIndex, setWeightLineIndex] = useState<number | null>(null)
+  const [drawings, setDrawings] = useState<DrawingSummary[]>([])
+  const [templates, setTemplates] = useState<CostingTemplateOption[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [templateInputs, setTemplateInputs] = useState<Record<string, string>>({})
+  const [templateCosts, setTemplateCosts] = useState<TemplateCosts | null>(null)
+  const [templateError, setTemplateError] = useState<string | null>(null)
+  const [similarItems, setSimilarItems] = useState<SimilarItem[]>([])
 
   const itemId = params.id as string
   const userRole = user?.role
@@ -94,9 +233,39 @@ export default function ItemEditPage() {
     if (itemId) {
       fetchItem()
       fetchVpUsers()
+      fetch(`/api/items/${itemId}/drawings`)
+        .then(response => response.ok ? response.json() : [])
+        .then(setDrawings)
+        .catch(error => console.error('Failed to fetch drawings:', error))
+      fetch(`/api/items/${itemId}/similar`)
+        .then(response => response.ok ? response.json() : [])
+        .then(setSimilarItems)
+        .catch(error => console.error('Failed to fetch similar items:', error))
     }
   }, [itemId])
 
+  useEffect(() => {
+    Promise.all([
+      getSystemSettings(),
+      fetch(`/api/exchange-rates?date=${toRateDate(new Date())}`)
+        .then(response => response.ok ? response.json() : { rates: {} })
+    ])
+      .then(([settings, asOf]) => setRates(getMaterialLineRates(settings.mainCurrency, asOf.rates)))
+      .catch(error => console.error('Failed to fetch exchange rates:', error))
+    fetch('/api/materials')
+      .then(response => response.ok ? response.json() : [])
+      .then(setCatalog)
+      .catch(error => console.error('Failed to fetch material catalog:', error))
+    fetch('/api/labor-operations?includeInactive=true')
+      .then(response => response.ok ? response.json() : [])
+      .then(setOperations)
+      .catch(error => console.error('Failed to fetch labor operations:', error))
+    fetch('/api/costing-templates')
+      .then(response => response.ok ? response.json() : [])
+      .then(setTemplates)
+      .catch(error => console.error('Failed to fetch costing templates:', error))
+  }, [])
+
   const fetchItem = async () => {
     try {
       setLoading(true)
@@ -123,12 +292,7 @@ export default function ItemEditPage() {
 
       // Initialize cost data if exists
       if (data.costCalculation) {
-        setCostData({
-          materialCost: data.costCalculation.materialCost,
-          laborCost: data.costCalculation.laborCost,
-          overheadCost: data.costCalculation.overheadCost,
-          notes: data.costCalculation.notes || ''
-        })
+        loadCostCalculation(data.costCalculation)
       }
     } catch (err: any) {
       console.error('Failed to fetch item:', err)
@@ -139,6 +303,44 @@ export default function ItemEditPage() {
     }
   }
 
+  // Fill the cost form from a saved calculation: this item's own, or a
+  // similar past item's as a starting point
+  const loadCostCalculation = (calculation: CostCalculationData, notes = calculation.notes || '') => {
+    setCostData({
+      materialCost: calculation.materialCost,
+      laborCost: calculation.laborCost,
+      overheadCost: calculation.overheadCost,
+      notes
+    })
+    setMaterialLines((calculation.materialLines || []).map(line => ({
+      materialId: line.materialId,
+      material: line.material,
+      grade: line.grade || '',
+      dimensions: line.dimensions || '',
+      quantity: String(Number(line.quantity)),
+      unit: line.unit,
+      unitPrice: String(Number(line.unitPrice)),
+      currency: line.currency,
+      supplier: line.supplier || ''
+    })))
+    setRoutingSteps((calculation.routingSteps || [])
+      .filter(step => step.operationId)
+      .map(step => ({
+        operationId: step.operationId!,
+        setupMinutes: String(Number(step.setupMinutes)),
+        minutesPerPiece: String(Number(step.minutesPerPiece)),
+        quantity: String(step.quantity)
+      })))
+    const inputs = calculation.templateInputs || {}
+    setTemplateId(calculation.templateId || '')
+    setTemplateInputs(Object.keys(inputs).reduce<Record<string, string>>((drafts, name) => {
+      drafts[name] = String(inputs[name])
+      return drafts
+    }, {}))
+    setTemplateCosts(null)
+    setTemplateError(null)
+  }
+
   const fetchVpUsers = async () => {
     try {
       // Fetch both VP and VPP users
@@ -193,38 +395,236 @@ export default function ItemEditPage() {
     }
   }
 
+  const updateMaterialLine = (index: number, changes: Partial<MaterialLineDraft>) => {
+    setMaterialLines(lines => lines.map((line, i) => i === index ? { ...line, ...changes } : line))
+  }
+
+  const catalogMaterial = (line: MaterialLineDraft) =>
+    line.materialId ? catalog.find(material => material.id === line.materialId) : undefined
+
+  const pickCatalogMaterial = (index: number, materialId: string) => {
+    const material = catalog.find(candidate => candidate.id === materialId)
+    if (!material) {
+      updateMaterialLine(index, { materialId: null })
+      return
+    }
+    const fields = materialLineFromCatalog(material)
+    updateMaterialLine(index, { ...fields, unitPrice: String(fields.unitPrice) })
+  }
+
+  // Catalog price differs from the one on the line
+  const isStale = (line: MaterialLineDraft) => {
+    const material = catalogMaterial(line)
+    return !!material &&
+      (Number(material.currentPrice) !== Number(line.unitPrice) || material.currency !== line.currency)
+  }
+
+  const revalueFromCatalog = () => {
+    const stale = materialLines.filter(isStale).length
+    setMaterialLines(lines => lines.map(line => {
+      const material = catalogMaterial(line)
+      return material
+        ? { ...line, unitPrice: String(Number(material.currentPrice)), currency: material.currency }
+        : line
+    }))
+    toast.success(stale > 0 ? `${stale} lines repriced from the catalog` : 'All catalog prices are current')
+  }
+
+  // Calculated weight becomes the line quantity in the line's own unit
+  const applyWeight = (result: WeightResult) => {
+    if (weightLineIndex === null) return
+    const line = materialLines[weightLineIndex]
+    const quantity = line.unit === 'm' ? result.totalLength
+      : line.unit === 'pcs' ? result.quantity
+      : result.totalWeight
+    updateMaterialLine(weightLineIndex, {
+      quantity: String(quantity),
+      unit: line.unit === 'm' || line.unit === 'pcs' ? line.unit : 'kg',
+      dimensions: result.description
+    })
+  }
+
+  const weightLine = weightLineIndex !== null ? materialLines[weightLineIndex] : undefined
+  const weightLineDensity = weightLine ? catalogMaterial(weightLine)?.density : undefined
+
+  // Preview only; the server prices the lines with its own rates
+  const materialLineTotal = (line: MaterialLineDraft) =>
+    (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0)
+
+  const bomMaterialCost = materialLines.reduce(
+    (sum, line) => sum + materialLineTotal(line) * (rates[line.currency] ?? 0),
+    0
+  )
+  const materialCost = materialLines.length > 0 ? bomMaterialCost : Number(costData.materialCost)
+
+  const updateRoutingStep = (index: number, changes: Partial<RoutingStepDraft>) => {
+    setRoutingSteps(steps => steps.map((step, i) => i === index ? { ...step, ...changes } : step))
+  }
+
+  const pickOperation = (index: number, operationId: string) => {
+    const operation = operations.find(candidate => candidate.id === operationId)
+    updateRoutingStep(index, {
+      operationId,
+      ...(operation && { setupMinutes: String(operation.defaultSetupMinutes) })
+    })
+  }
+
+  // Drawings that measured cleanly can drive cutting operations
+  const measuredDrawings = drawings.filter(drawing => !drawing.analysis.error)
+
+  const applyDrawing = (index: number, attachmentId: string) => {
+    const drawing = measuredDrawings.find(candidate => candidate.attachment.id === attachmentId)
+    const operation = operations.find(candidate => candidate.id === routingSteps[index].operationId)
+    if (!drawing || !operation) return
+    const minutes = cuttingMinutesPerPiece({
+      cutLength: drawing.analysis.cutLength ?? 0,
+      pierceCount: drawing.analysis.pierceCount ?? 0
+    }, operation)
+    if (minutes !== null) {
+      updateRoutingStep(index, { minutesPerPiece: String(minutes) })
+    }
+  }
+
+  // Preview of a step's batch cost at the operation's current rate
+  const routingStepCost = (step: RoutingStepDraft) => {
+    const operation = operations.find(candidate => candidate.id === step.operationId)
+    if (!operation) return 0
+    return routingStepTotal({
+      setupMinutes: Number(step.setupMinutes) || 0,
+      minutesPerPiece: Number(step.minutesPerPiece) || 0,
+      quantity: Number(step.quantity) || 1
+    }, Number(operation.hourlyRate))
+  }
+
+  const routingLaborCost = routingSteps.reduce(
+    (sum, step) => sum + routingStepCost(step) / (Number(step.quantity) || 1),
+    0
+  )
+  const laborCost = routingSteps.length > 0 ? routingLaborCost : Number(costData.laborCost)
+
+  // The item's own template stays selectable after it was deactivated
+  const currentTemplate = item?.costCalculation?.template
+  const templateOptions = currentTemplate && !templates.some(template => template.id === currentTemplate.id)
+    ? [...templates, currentTemplate]
+    : templates
+  const selectedTemplate = templateOptions.find(template => template.id === templateId)
+  const templateConflict = !!selectedTemplate && (materialLines.length > 0 || routingSteps.length > 0)
+
+  const pickTemplate = (id: string) => {
+    const template = templateOptions.find(candidate => candidate.id === id)
+    setTemplateId(template ? template.id : '')
+    setTemplateInputs((template?.variables || []).reduce<Record<string, string>>((drafts, variable) => {
+      drafts[variable.name] = variable.defaultValue !== undefined ? String(variable.defaultValue) : ''
+      return drafts
+    }, {}))
+    setTemplateCosts(null)
+    setTemplateError(null)
+  }
+
+  const parseTemplateInputs = () => Object.keys(templateInputs).reduce<Record<string, number>>((inputs, name) => {
+    if (templateInputs[name] !== '') inputs[name] = Number(templateInputs[name])
+    return inputs
+  }, {})
+
+  // Preview the template's amounts while the inputs are edited
+  useEffect(() => {
+    if (!selectedTemplate) return
+    const incomplete = selectedTemplate.variables.some(variable => (templateInputs[variable.name] ?? '') === '')
+    if (incomplete) {
+      setTemplateCosts(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/costing-templates/${selectedTemplate.id}/evaluate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ inputs: parseTemplateInputs() })
+        })
+        const result = await response.json().catch(() => null)
+        if (!response.ok) {
+          throw new Error(result?.error || 'Failed to evaluate template')
+        }
+        setTemplateCosts(result)
+        setTemplateError(null)
+      } catch (error: any) {
+        setTemplateCosts(null)
+        setTemplateError(error.message || 'Failed to evaluate template')
+      }
+    }, 400)
+    return () => clearTimeout(timer)
+  }, [selectedTemplate?.id, templateInputs])
+
+  const costs = selectedTemplate
+    ? {
+        materialCost: templateCosts?.materialCost ?? 0,
+        laborCost: templateCosts?.laborCost ?? 0,
+        overheadCost: templateCosts?.overheadCost ?? 0
+      }
+    : { materialCost, laborCost, overheadCost: Number(costData.overheadCost) }
+
+  const copyFromSimilar = (match: SimilarItem) => {
+    const calculation = match.costCalculation
+    const templateAvailable = templateOptions.some(template => template.id === calculation.templateId)
+    loadCostCalculation(
+      { ...calculation, templateId: templateAvailable ? calculation.templateId : null },
+      `Based on "${match.item.name}" from ${match.item.inquiry.title}`
+    )
+    toast.success('Calculation copied; review the figures before saving')
+  }
+
   const handleCostSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setSaving(true)
 
     try {
-      const totalCost = Number(costData.materialCost) + Number(costData.laborCost) + Number(costData.overheadCost)
+      const totalCost = costs.materialCost + costs.laborCost + costs.overheadCost
+      const existingId = item?.costCalculation?.id
       
-      const response = await fetch(`/api/costs`, {
-        method: 'POST',
+      const response = await fetch(existingId ? `/api/costs/${existingId}` : `/api/costs`, {
+        method: existingId ? 'PUT' : 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           inquiryItemId: itemId,
-          materialCost: Number(costData.materialCost),
-          laborCost: Number(costData.laborCost),
-          overheadCost: Number(costData.overheadCost),
+          ...costs,
           totalCost,
-          notes: costData.notes
+          notes: costData.notes,
+          templateId: selectedTemplate?.id,
+          templateInputs: selectedTemplate ? parseTemplateInputs() : undefined,
+          materialLines: materialLines.map(line => ({
+            materialId: line.materialId || undefined,
+            material: line.material.trim(),
+            grade: line.grade.trim() || undefined,
+            dimensions: line.dimensions.trim() || undefined,
+            quantity: Number(line.quantity),
+            unit: line.unit.trim(),
+            unitPrice: Number(line.unitPrice),
+            currency: line.currency,
+            supplier: line.supplier.trim() || undefined
+          })),
+          routingSteps: routingSteps.map(step => ({
+            operationId: step.operationId,
+            setupMinutes: Number(step.setupMinutes) || 0,
+            minutesPerPiece: Number(step.minutesPerPiece) || 0,
+            quantity: Number(step.quantity) || 1
+          }))
         })
       })
 
       if (!response.ok) {
-        throw new Error('Failed to save cost calculation')
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.error || 'Failed to save cost calculation')
       }
 
       toast.success('Cost calculation saved successfully')
 
       router.push(`/dashboard/items/${itemId}`)
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to save cost calculation:', error)
-      toast.error('Failed to save cost calculation')
+      toast.error(error.message || 'Failed to save cost calculation')
     } finally {
       setSaving(false)
     }
@@ -420,30 +820,120 @@ export default function ItemEditPage() {
             </CardHeader>
             <CardContent>
               <form onSubmit={handleCostSubmit} className="space-y-4">
+                {templateOptions.length > 0 && (
+                  <div>
+                    <Label htmlFor="costingTemplate">Costing Template</Label>
+                    <Select value={templateId || 'none'} onValueChange={(value) => pickTemplate(value === 'none' ? '' : value)}>
+                      <SelectTrigger id="costingTemplate">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No template - enter costs</SelectItem>
+                        {templateOptions.map(template => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.productFamily} - {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {selectedTemplate ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-3">
+                      {selectedTemplate.variables.map(variable => (
+                        <div key={variable.name}>
+                          <Label htmlFor={`template-${variable.name}`}>
+                            {variable.label}{variable.unit ? ` (${variable.unit})` : ''}
+                          </Label>
+                          <Input
+                            id={`template-${variable.name}`}
+                            type="number"
+                            step="any"
+                            min={variable.min}
+                            max={variable.max}
+                            value={templateInputs[variable.name] ?? ''}
+                            onChange={(e) => setTemplateInputs({ ...templateInputs, [variable.name]: e.target.value })}
+                            required
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    {templateError && (
+                      <p className="text-sm text-destructive">{templateError}</p>
+                    )}
+                    {templateConflict && (
+                      <p className="text-sm text-destructive">
+                        Remove the bill of materials and routing to price this item with a template
+                      </p>
+                    )}
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <Label>Material Cost</Label>
+                        <div className="text-lg font-semibold">{formatWithSystemCurrency(costs.materialCost)}</div>
+                      </div>
+                      <div>
+                        <Label>Labor Cost</Label>
+                        <div className="text-lg font-semibold">{formatWithSystemCurrency(costs.laborCost)}</div>
+                      </div>
+                      <div>
+                        <Label>Overhead Cost</Label>
+                        <div className="text-lg font-semibold">{formatWithSystemCurrency(costs.overheadCost)}</div>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Per piece, from the template formulas
+                    </p>
+                  </>
+                ) : (
+                <>
                 <div>
                   <Label htmlFor="materialCost">Material Cost</Label>
-                  <Input
-                    id="materialCost"
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={costData.materialCost}
-                    onChange={(e) => setCostData({ ...costData, materialCost: Number(e.target.value) })}
-                    required
-                  />
+                  {materialLines.length > 0 ? (
+                    <>
+                      <div id="materialCost" className="text-lg font-semibold">
+                        {formatWithSystemCurrency(materialCost)}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Sum of the bill of materials
+                      </p>
+                    </>
+                  ) : (
+                    <Input
+                      id="materialCost"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={costData.materialCost}
+                      onChange={(e) => setCostData({ ...costData, materialCost: Number(e.target.value) })}
+                      required
+                    />
+                  )}
                 </div>
 
                 <div>
                   <Label htmlFor="laborCost">Labor Cost</Label>
-                  <Input
-                    id="laborCost"
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={costData.laborCost}
-                    onChange={(e) => setCostData({ ...costData, laborCost: Number(e.target.value) })}
-                    required
-                  />
+                  {routingSteps.length > 0 ? (
+                    <>
+                      <div id="laborCost" className="text-lg font-semibold">
+                        {formatWithSystemCurrency(laborCost)}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Per piece, from the routing
+                      </p>
+                    </>
+                  ) : (
+                    <Input
+                      id="laborCost"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={costData.laborCost}
+                      onChange={(e) => setCostData({ ...costData, laborCost: Number(e.target.value) })}
+                      required
+                    />
+                  )}
                 </div>
 
                 <div>
@@ -458,11 +948,13 @@ export default function ItemEditPage() {
                     required
                   />
                 </div>
+                </>
+                )}
 
                 <div>
                   <Label>Total Cost</Label>
                   <div className="text-2xl font-bold text-green-600">
-                    {formatWithSystemCurrency(Number(costData.materialCost) + Number(costData.laborCost) + Number(costData.overheadCost))}
+                    {formatWithSystemCurrency(costs.materialCost + costs.laborCost + costs.overheadCost)}
                   </div>
                 </div>
 
@@ -477,7 +969,17 @@ export default function ItemEditPage() {
                   />
                 </div>
 
-                <Button type="submit" disabled={saving} className="w-full">
+                <Button
+                  type="submit"
+                  disabled={
+                    saving ||
+                    item.costCalculation?.isApproved ||
+                    routingSteps.some(step => !step.operationId) ||
+                    templateConflict ||
+                    (!!selectedTemplate && !templateCosts)
+                  }
+                  className="w-full"
+                >
                   <Save className="h-4 w-4 mr-2" />
                   {saving ? t("common.status.saving") : item.costCalculation ? t("actions.updateCostCalculation") : t("actions.saveCostCalculation")}
                 </Button>
@@ -485,7 +987,401 @@ export default function ItemEditPage() {
             </CardContent>
           </Card>
         )}
+
+        {/* Similar past items */}
+        {(userRole === 'VP' || userRole === 'ADMIN' || userRole === 'SUPERUSER') && similarItems.length > 0 && (
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle>Similar Past Items</CardTitle>
+              <CardDescription>
+                Approved calculations for items like this one, best match first
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="data-table-wrapper">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Quantity</TableHead>
+                      <TableHead>Approved</TableHead>
+                      <TableHead>Total Cost</TableHead>
+                      <TableHead>Match</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {similarItems.map(match => (
+                      <TableRow key={match.costCalculation.id}>
+                        <TableCell>
+                          <div className="font-medium">{match.item.name}</div>
+                          <div className="text-xs text-muted-foreground">{match.item.inquiry.title}</div>
+                        </TableCell>
+                        <TableCell>{match.item.inquiry.customer.name}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {match.item.quantity} {match.item.unit}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {match.costCalculation.approvedAt ? formatDate(match.costCalculation.approvedAt) : '-'}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {formatWithSystemCurrency(Number(match.costCalculation.totalCost))}
+                        </TableCell>
+                        <TableCell>{Math.round(match.score * 100)}%</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={item.costCalculation?.isApproved}
+                            onClick={() => copyFromSimilar(match)}
+                          >
+                            <Copy className="h-4 w-4 mr-2" />
+                            Use as Starting Point
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Bill of Materials */}
+        {(userRole === 'VP' || userRole === 'ADMIN' || userRole === 'SUPERUSER') && (
+          <Card className="md:col-span-2">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Bill of Materials</CardTitle>
+                <CardDescription>
+                  Materials that make up the material cost; saved with the cost calculation
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+              {materialLines.some(line => line.materialId) && (
+                <Button type="button" variant="outline" size="sm" onClick={revalueFromCatalog}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Revalue from Catalog
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setMaterialLines([
+                  ...materialLines,
+                  { ...emptyMaterialLine, currency: Object.keys(rates)[0] as Currency }
+                ])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Material
+              </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {materialLines.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No material lines - the material cost is entered as a single amount.
+                </p>
+              ) : (
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="min-w-[180px]">Catalog</TableHead>
+                        <TableHead className="min-w-[160px]">Material</TableHead>
+                        <TableHead>Grade</TableHead>
+                        <TableHead>Dimensions</TableHead>
+                        <TableHead>Qty</TableHead>
+                        <TableHead>Unit</TableHead>
+                        <TableHead>Unit Price</TableHead>
+                        <TableHead>Currency</TableHead>
+                        <TableHead>Supplier</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {materialLines.map((line, index) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <Select
+                              value={line.materialId ?? 'custom'}
+                              onValueChange={(value) => pickCatalogMaterial(index, value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="custom">Not from catalog</SelectItem>
+                                {catalog.map(material => (
+                                  <SelectItem key={material.id} value={material.id}>
+                                    {material.code} - {material.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={line.material}
+                              onChange={(e) => updateMaterialLine(index, { material: e.target.value })}
+                              placeholder="IPE 200"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-24"
+                              value={line.grade}
+                              onChange={(e) => updateMaterialLine(index, { grade: e.target.value })}
+                              placeholder="S235JR"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-32"
+                              value={line.dimensions}
+                              onChange={(e) => updateMaterialLine(index, { dimensions: e.target.value })}
+                              placeholder="6000 mm"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-24"
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              value={line.quantity}
+                              onChange={(e) => updateMaterialLine(index, { quantity: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-20"
+                              value={line.unit}
+                              onChange={(e) => updateMaterialLine(index, { unit: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-28"
+                              type="number"
+                              min="0"
+                              step="0.0001"
+                              value={line.unitPrice}
+                              onChange={(e) => updateMaterialLine(index, { unitPrice: e.target.value })}
+                            />
+                            {isStale(line) && (
+                              <p className="text-xs text-amber-600 mt-1 whitespace-nowrap">
+                                Catalog: {Number(catalogMaterial(line)!.currentPrice)} {catalogMaterial(line)!.currency}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={line.currency}
+                              onValueChange={(value) => updateMaterialLine(index, { currency: value as Currency })}
+                            >
+                              <SelectTrigger className="w-24">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(rates) as Currency[]).map(currency => (
+                                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-32"
+                              value={line.supplier}
+                              onChange={(e) => updateMaterialLine(index, { supplier: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right font-medium whitespace-nowrap">
+                            {materialLineTotal(line).toFixed(2)} {line.currency}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                title="Weight calculator"
+                                onClick={() => setWeightLineIndex(index)}
+                              >
+                                <Scale className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setMaterialLines(materialLines.filter((_, i) => i !== index))}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Routing */}
+        {(userRole === 'VP' || userRole === 'ADMIN' || userRole === 'SUPERUSER') && (
+          <Card className="md:col-span-2">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Routing</CardTitle>
+                <CardDescription>
+                  Operations that make up the labor cost; setup time is spread over the batch quantity
+                </CardDescription>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={operations.length === 0}
+                onClick={() => setRoutingSteps([
+                  ...routingSteps,
+                  { operationId: '', setupMinutes: '0', minutesPerPiece: '0', quantity: String(formData.quantity || 1) }
+                ])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Operation
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {routingSteps.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No routing - the labor cost is entered as a single amount.
+                </p>
+              ) : (
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="min-w-[200px]">Operation</TableHead>
+                        <TableHead>Rate</TableHead>
+                        <TableHead>Setup (min)</TableHead>
+                        <TableHead>Per Piece (min)</TableHead>
+                        <TableHead>Quantity</TableHead>
+                        <TableHead className="text-right">Batch Total</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {routingSteps.map((step, index) => {
+                        const operation = operations.find(candidate => candidate.id === step.operationId)
+                        return (
+                          <TableRow key={index}>
+                            <TableCell>
+                              <Select
+                                value={step.operationId}
+                                onValueChange={(value) => pickOperation(index, value)}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select operation" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {operations
+                                    .filter(candidate => candidate.isActive || candidate.id === step.operationId)
+                                    .map(candidate => (
+                                      <SelectItem key={candidate.id} value={candidate.id}>
+                                        {candidate.code} - {candidate.name}
+                                      </SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {operation ? `${formatWithSystemCurrency(Number(operation.hourlyRate))}/h` : '-'}
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                className="w-24"
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={step.setupMinutes}
+                                onChange={(e) => updateRoutingStep(index, { setupMinutes: e.target.value })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                className="w-24"
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={step.minutesPerPiece}
+                                onChange={(e) => updateRoutingStep(index, { minutesPerPiece: e.target.value })}
+                              />
+                              {operation?.cuttingSpeed && measuredDrawings.length > 0 && (
+                                <Select value="" onValueChange={(value) => applyDrawing(index, value)}>
+                                  <SelectTrigger className="w-24 h-7 mt-1 text-xs">
+                                    <SelectValue placeholder="From DXF" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {measuredDrawings.map(drawing => (
+                                      <SelectItem key={drawing.attachment.id} value={drawing.attachment.id}>
+                                        {drawing.attachment.originalName} ({(Number(drawing.analysis.cutLength) / 1000).toFixed(2)} m, {drawing.analysis.pierceCount} pierces)
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                className="w-24"
+                                type="number"
+                                min="1"
+                                step="1"
+                                value={step.quantity}
+                                onChange={(e) => updateRoutingStep(index, { quantity: e.target.value })}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right font-medium whitespace-nowrap">
+                              {formatWithSystemCurrency(routingStepCost(step))}
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setRoutingSteps(routingSteps.filter((_, i) => i !== index))}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
+
+      <WeightCalculatorDialog
+        isOpen={weightLineIndex !== null}
+        onClose={() => setWeightLineIndex(null)}
+        density={weightLineDensity ? Number(weightLineDensity) : undefined}
+        quantity={Number(formData.quantity) || 1}
+        onApply={applyWeight}
+      />
     </div>
   )
 }
\ No newline at end of file
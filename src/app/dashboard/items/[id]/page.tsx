@@ -12,6 +12,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { AttachmentManager } from '@/components/attachments/attachment-manager'
+import { DrawingAnalysisCard } from '@/components/costs/drawing-analysis-card'
+import { CostRevisionHistory } from '@/components/costs/cost-revision-history'
 import { 
   ArrowLeft, 
   Edit, 
@@ -61,6 +63,7 @@ interface InquiryItem {
     notes?: string | null
     isApproved: boolean
     approvedAt?: string | null
+    revision: number
     calculatedBy: {
       id: string
       name: string
@@ -294,6 +297,10 @@ export default function ItemDetailPage() {
           <TabsTrigger value="details">Details</TabsTrigger>
           <TabsTrigger value="costing">Cost Calculation</TabsTrigger>
           <TabsTrigger value="attachments">Attachments</TabsTrigger>
+          <TabsTrigger value="drawings">Drawings</TabsTrigger>
+          {item.costCalculation && (
+            <TabsTrigger value="revisions">Revisions</TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="details" className="space-y-4">
@@ -373,6 +380,12 @@ export default function ItemDetailPage() {
                     <label className="text-sm font-medium text-muted-foreground">Calculated By</label>
                     <p className="mt-1">{item.costCalculation.calculatedBy.name}</p>
                   </div>
+                  {item.costCalculation.revision > 0 && (
+                    <div>
+                      <label className="text-sm font-medium text-muted-foreground">Revision</label>
+                      <p className="mt-1">R{item.costCalculation.revision}</p>
+                    </div>
+                  )}
                   {item.costCalculation.isApproved && (
                     <div>
                       <label className="text-sm font-medium text-muted-foreground">Approved At</label>
@@ -410,6 +423,16 @@ export default function ItemDetailPage() {
             showUpload={true}
           />
         </TabsContent>
+
+        <TabsContent value="drawings" className="space-y-4">
+          <DrawingAnalysisCard itemId={item.id} />
+        </TabsContent>
+
+        {item.costCalculation && (
+          <TabsContent value="revisions" className="space-y-4">
+            <CostRevisionHistory costCalculationId={item.costCalculation.id} />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   )
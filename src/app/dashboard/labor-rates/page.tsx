@@ -0,0 +1,356 @@
+'use client'
+
+export const dynamic = 'force-dynamic'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Timer, Plus, Edit, Trash2 } from 'lucide-react'
+import { formatWithSystemCurrency } from '@/lib/currency-helpers'
+import { toast } from 'sonner'
+
+interface LaborOperation {
+  id: string
+  code: string
+  name: string
+  hourlyRate: number | string
+  defaultSetupMinutes: number
+  cuttingSpeed: number | string | null
+  pierceSeconds: number | string | null
+  isActive: boolean
+}
+
+const emptyOperationForm = {
+  code: '',
+  name: '',
+  hourlyRate: '',
+  defaultSetupMinutes: '0',
+  cuttingSpeed: '',
+  pierceSeconds: '',
+  isActive: true
+}
+
+export default function LaborRatesPage() {
+  const { user } = useAuth()
+  const [operations, setOperations] = useState<LaborOperation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<LaborOperation | null>(null)
+  const [formData, setFormData] = useState(emptyOperationForm)
+  const [saving, setSaving] = useState(false)
+
+  const userRole = user?.role
+  const canManage = userRole === 'SUPERUSER' || userRole === 'ADMIN'
+
+  useEffect(() => {
+    fetchOperations()
+  }, [])
+
+  const fetchOperations = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/labor-operations?includeInactive=true')
+      if (!response.ok) {
+        throw new Error('Failed to fetch labor operations')
+      }
+      setOperations(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch labor operations:', error)
+      toast.error('Failed to load labor operations')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreate = () => {
+    setEditing(null)
+    setFormData(emptyOperationForm)
+    setFormOpen(true)
+  }
+
+  const openEdit = (operation: LaborOperation) => {
+    setEditing(operation)
+    setFormData({
+      code: operation.code,
+      name: operation.name,
+      hourlyRate: String(Number(operation.hourlyRate)),
+      defaultSetupMinutes: String(operation.defaultSetupMinutes),
+      cuttingSpeed: operation.cuttingSpeed !== null ? String(Number(operation.cuttingSpeed)) : '',
+      pierceSeconds: operation.pierceSeconds !== null ? String(Number(operation.pierceSeconds)) : '',
+      isActive: operation.isActive
+    })
+    setFormOpen(true)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch(editing ? `/api/labor-operations/${editing.id}` : '/api/labor-operations', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: formData.code.trim().toUpperCase(),
+          name: formData.name.trim(),
+          hourlyRate: Number(formData.hourlyRate),
+          defaultSetupMinutes: Number(formData.defaultSetupMinutes) || 0,
+          cuttingSpeed: formData.cuttingSpeed ? Number(formData.cuttingSpeed) : null,
+          pierceSeconds: formData.pierceSeconds ? Number(formData.pierceSeconds) : null,
+          isActive: formData.isActive
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.error || 'Failed to save operation')
+      }
+
+      toast.success(editing ? 'Operation updated' : 'Operation added')
+      setFormOpen(false)
+      fetchOperations()
+    } catch (error: any) {
+      console.error('Failed to save labor operation:', error)
+      toast.error(error.message || 'Failed to save operation')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (operation: LaborOperation) => {
+    if (!confirm(`Remove operation ${operation.code}?`)) return
+
+    try {
+      const response = await fetch(`/api/labor-operations/${operation.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete operation')
+      }
+      const result = await response.json()
+      toast.success(result.deactivated
+        ? 'Operation is used in routings and was deactivated'
+        : 'Operation removed')
+      fetchOperations()
+    } catch (error) {
+      console.error('Failed to delete labor operation:', error)
+      toast.error('Failed to delete operation')
+    }
+  }
+
+  if (!canManage) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Labor Rates</h1>
+          <p className="text-muted-foreground">
+            Only administrators can edit labor rates
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Labor Rates</h1>
+          <p className="text-muted-foreground">
+            Shop operations and hourly rates used to price cost calculation routings
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Operation
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Operations</CardTitle>
+          <CardDescription>
+            Rate changes apply when a routing is next saved; saved routings keep the rate they were priced with
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="loading-spinner"></div>
+            </div>
+          ) : operations.length === 0 ? (
+            <div className="empty-state">
+              <Timer className="empty-state-icon" />
+              <h3 className="empty-state-title">No operations defined</h3>
+              <p className="empty-state-description">
+                Add the operations your shop prices by, e.g. laser cutting or TIG welding
+              </p>
+            </div>
+          ) : (
+            <div className="data-table-wrapper">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Operation</TableHead>
+                    <TableHead>Hourly Rate</TableHead>
+                    <TableHead>Default Setup</TableHead>
+                    <TableHead>Cutting</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {operations.map((operation) => (
+                    <TableRow key={operation.id}>
+                      <TableCell className="font-mono text-sm">{operation.code}</TableCell>
+                      <TableCell className="font-medium">{operation.name}</TableCell>
+                      <TableCell>{formatWithSystemCurrency(Number(operation.hourlyRate))}/h</TableCell>
+                      <TableCell>{operation.defaultSetupMinutes} min</TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {operation.cuttingSpeed !== null
+                          ? `${Number(operation.cuttingSpeed)} mm/min, ${Number(operation.pierceSeconds ?? 0)} s/pierce`
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={operation.isActive ? 'success' : 'secondary'}>
+                          {operation.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(operation)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(operation)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.code}` : 'Add Operation'}</DialogTitle>
+            <DialogDescription>
+              The hourly rate is in the system's main currency
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="operation-code">Code *</Label>
+              <Input
+                id="operation-code"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                placeholder="LASER"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="operation-name">Name *</Label>
+              <Input
+                id="operation-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Laser cutting"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="operation-rate">Hourly rate *</Label>
+              <Input
+                id="operation-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.hourlyRate}
+                onChange={(e) => setFormData({ ...formData, hourlyRate: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="operation-setup">Default setup (min)</Label>
+              <Input
+                id="operation-setup"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.defaultSetupMinutes}
+                onChange={(e) => setFormData({ ...formData, defaultSetupMinutes: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="operation-speed">Cutting speed (mm/min)</Label>
+              <Input
+                id="operation-speed"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.cuttingSpeed}
+                onChange={(e) => setFormData({ ...formData, cuttingSpeed: e.target.value })}
+                placeholder="Not a cutting operation"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="operation-pierce">Pierce time (s)</Label>
+              <Input
+                id="operation-pierce"
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.pierceSeconds}
+                onChange={(e) => setFormData({ ...formData, pierceSeconds: e.target.value })}
+              />
+            </div>
+            <p className="col-span-2 text-xs text-muted-foreground">
+              With a cutting speed, routings can take the time per piece from an item's DXF drawing
+            </p>
+            <label className="col-span-2 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              Active - available for new routings
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !formData.code.trim() || !formData.name.trim() || formData.hourlyRate === ''}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
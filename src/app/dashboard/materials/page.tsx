@@ -0,0 +1,663 @@
+'use client'
+
+export const dynamic = 'force-dynamic'
+
+import { useState, useEffect, useRef } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Boxes, Search, Plus, Edit, Trash2, History, Upload, Download } from 'lucide-react'
+import { Currency, MaterialCategory, MaterialForm, MaterialPriceUnit } from '@prisma/client'
+import { formatDate } from '@/lib/utils'
+import { formatCurrency as formatCurrencyWithSymbol } from '@/lib/currency'
+import { materialPriceUnitLabels } from '@/lib/bom-service'
+import { toast } from 'sonner'
+
+interface Material {
+  id: string
+  code: string
+  name: string
+  category: MaterialCategory
+  grade: string
+  form: MaterialForm
+  dimensions: string | null
+  density: number | string | null
+  priceUnit: MaterialPriceUnit
+  currentPrice: number | string
+  currency: Currency
+  supplier: string | null
+  isActive: boolean
+  updatedAt: string
+}
+
+interface MaterialPrice {
+  id: string
+  price: number | string
+  currency: Currency
+  validFrom: string
+  source: string | null
+  createdBy: { id: string; name: string } | null
+}
+
+interface ImportResult {
+  created: number
+  updated: number
+  priceChanges: number
+  errors: Array<{ row: number; message: string }>
+}
+
+const categoryLabels: Record<MaterialCategory, string> = {
+  STEEL: 'Steel',
+  STAINLESS_STEEL: 'Stainless steel',
+  ALUMINIUM: 'Aluminium',
+  OTHER: 'Other'
+}
+
+const formLabels: Record<MaterialForm, string> = {
+  SHEET: 'Sheet',
+  PLATE: 'Plate',
+  TUBE: 'Tube',
+  PROFILE: 'Profile',
+  BAR: 'Bar',
+  OTHER: 'Other'
+}
+
+const emptyMaterialForm = {
+  code: '',
+  name: '',
+  category: MaterialCategory.STEEL as MaterialCategory,
+  grade: '',
+  form: MaterialForm.SHEET as MaterialForm,
+  dimensions: '',
+  density: '',
+  priceUnit: MaterialPriceUnit.KG as MaterialPriceUnit,
+  price: '',
+  currency: Currency.EUR as Currency,
+  priceValidFrom: '',
+  supplier: '',
+  isActive: true
+}
+
+export default function MaterialsPage() {
+  const { user } = useAuth()
+  const [materials, setMaterials] = useState<Material[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [categoryFilter, setCategoryFilter] = useState<string>('all')
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<Material | null>(null)
+  const [formData, setFormData] = useState(emptyMaterialForm)
+  const [saving, setSaving] = useState(false)
+  const [historyMaterial, setHistoryMaterial] = useState<Material | null>(null)
+  const [priceHistory, setPriceHistory] = useState<MaterialPrice[]>([])
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const userRole = user?.role
+  const canManage = userRole === 'SUPERUSER' || userRole === 'ADMIN'
+
+  useEffect(() => {
+    fetchMaterials()
+  }, [searchTerm, categoryFilter])
+
+  const fetchMaterials = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ includeInactive: 'true' })
+      if (searchTerm) params.set('search', searchTerm)
+      if (categoryFilter !== 'all') params.set('category', categoryFilter)
+
+      const response = await fetch(`/api/materials?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch materials')
+      }
+      setMaterials(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch materials:', error)
+      toast.error('Failed to load materials')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreate = () => {
+    setEditing(null)
+    setFormData(emptyMaterialForm)
+    setFormOpen(true)
+  }
+
+  const openEdit = (material: Material) => {
+    setEditing(material)
+    setFormData({
+      code: material.code,
+      name: material.name,
+      category: material.category,
+      grade: material.grade,
+      form: material.form,
+      dimensions: material.dimensions || '',
+      density: material.density === null ? '' : String(Number(material.density)),
+      priceUnit: material.priceUnit,
+      price: String(Number(material.currentPrice)),
+      currency: material.currency,
+      priceValidFrom: '',
+      supplier: material.supplier || '',
+      isActive: material.isActive
+    })
+    setFormOpen(true)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch(editing ? `/api/materials/${editing.id}` : '/api/materials', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: formData.code.trim(),
+          name: formData.name.trim(),
+          category: formData.category,
+          grade: formData.grade.trim(),
+          form: formData.form,
+          dimensions: formData.dimensions.trim() || null,
+          density: formData.density ? Number(formData.density) : null,
+          priceUnit: formData.priceUnit,
+          price: Number(formData.price),
+          currency: formData.currency,
+          priceValidFrom: formData.priceValidFrom || undefined,
+          supplier: formData.supplier.trim() || null,
+          isActive: formData.isActive
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.error || 'Failed to save material')
+      }
+
+      toast.success(editing ? 'Material updated' : 'Material added')
+      setFormOpen(false)
+      fetchMaterials()
+    } catch (error: any) {
+      console.error('Failed to save material:', error)
+      toast.error(error.message || 'Failed to save material')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (material: Material) => {
+    if (!confirm(`Remove ${material.code} from the catalog?`)) return
+
+    try {
+      const response = await fetch(`/api/materials/${material.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete material')
+      }
+      const result = await response.json()
+      toast.success(result.deactivated
+        ? 'Material is used in cost calculations and was deactivated'
+        : 'Material removed')
+      fetchMaterials()
+    } catch (error) {
+      console.error('Failed to delete material:', error)
+      toast.error('Failed to delete material')
+    }
+  }
+
+  const openHistory = async (material: Material) => {
+    setHistoryMaterial(material)
+    setPriceHistory([])
+    try {
+      const response = await fetch(`/api/materials/${material.id}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch price history')
+      }
+      const data = await response.json()
+      setPriceHistory(data.prices)
+    } catch (error) {
+      console.error('Failed to fetch price history:', error)
+      toast.error('Failed to load price history')
+    }
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      setImporting(true)
+      const body = new FormData()
+      body.append('file', file)
+
+      const response = await fetch('/api/materials/import', { method: 'POST', body })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result?.error || 'Failed to import materials')
+      }
+
+      setImportResult(result)
+      toast.success(`Imported: ${result.created} new, ${result.updated} updated, ${result.priceChanges} price changes`)
+      fetchMaterials()
+    } catch (error: any) {
+      console.error('Failed to import materials:', error)
+      toast.error(error.message || 'Failed to import materials')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const formatPrice = (material: Pick<Material, 'currentPrice' | 'currency' | 'priceUnit'>) =>
+    `${formatCurrencyWithSymbol(Number(material.currentPrice), material.currency)}/${materialPriceUnitLabels[material.priceUnit]}`
+
+  if (!canManage) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Material Catalog</h1>
+          <p className="text-muted-foreground">
+            Only administrators can manage the material catalog
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Material Catalog</h1>
+          <p className="text-muted-foreground">
+            Grades, forms and prices used in cost calculation bills of materials
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => { window.location.href = '/api/materials/import' }}>
+            <Download className="mr-2 h-4 w-4" />
+            Template
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+            <Upload className="mr-2 h-4 w-4" />
+            {importing ? 'Importing...' : 'Import Excel'}
+          </Button>
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Material
+          </Button>
+        </div>
+      </div>
+
+      {importResult && importResult.errors.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Import problems</CardTitle>
+            <CardDescription>
+              {importResult.errors.length} rows were skipped; the other rows were imported
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1 text-sm">
+              {importResult.errors.map(error => (
+                <li key={error.row}>
+                  <span className="font-medium">Row {error.row}:</span> {error.message}
+                </li>
+              ))}
+            </ul>
+            <Button variant="ghost" size="sm" className="mt-2" onClick={() => setImportResult(null)}>
+              Dismiss
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by code, name or grade..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {Object.values(MaterialCategory).map(category => (
+                  <SelectItem key={category} value={category}>{categoryLabels[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Materials Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Materials</CardTitle>
+          <CardDescription>{materials.length} materials found</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="loading-spinner"></div>
+            </div>
+          ) : materials.length === 0 ? (
+            <div className="empty-state">
+              <Boxes className="empty-state-icon" />
+              <h3 className="empty-state-title">No materials found</h3>
+              <p className="empty-state-description">
+                Add materials one by one or import them from an Excel workbook
+              </p>
+            </div>
+          ) : (
+            <div className="data-table-wrapper">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Material</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Form</TableHead>
+                    <TableHead>Density</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {materials.map((material) => (
+                    <TableRow key={material.id}>
+                      <TableCell className="font-mono text-sm">{material.code}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{material.name}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {material.grade}{material.dimensions ? `, ${material.dimensions}` : ''}
+                        </div>
+                      </TableCell>
+                      <TableCell>{categoryLabels[material.category]}</TableCell>
+                      <TableCell>{formLabels[material.form]}</TableCell>
+                      <TableCell>
+                        {material.density ? `${Number(material.density)} kg/m³` : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{formatPrice(material)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Updated {formatDate(material.updatedAt)}
+                        </div>
+                      </TableCell>
+                      <TableCell>{material.supplier || '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant={material.isActive ? 'success' : 'secondary'}>
+                          {material.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openHistory(material)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(material)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(material)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.code}` : 'Add Material'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'A changed price is added to the price history'
+                : 'The price becomes the first entry of the price history'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="material-code">Code *</Label>
+              <Input
+                id="material-code"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                placeholder="S235-SHEET-5"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="material-name">Name *</Label>
+              <Input
+                id="material-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Hot rolled sheet 5 mm"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Category *</Label>
+              <Select
+                value={formData.category}
+                onValueChange={(value) => setFormData({ ...formData, category: value as MaterialCategory })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(MaterialCategory).map(category => (
+                    <SelectItem key={category} value={category}>{categoryLabels[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="material-grade">Grade *</Label>
+              <Input
+                id="material-grade"
+                value={formData.grade}
+                onChange={(e) => setFormData({ ...formData, grade: e.target.value })}
+                placeholder="S235JR"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Form *</Label>
+              <Select
+                value={formData.form}
+                onValueChange={(value) => setFormData({ ...formData, form: value as MaterialForm })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(MaterialForm).map(form => (
+                    <SelectItem key={form} value={form}>{formLabels[form]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="material-dimensions">Dimensions</Label>
+              <Input
+                id="material-dimensions"
+                value={formData.dimensions}
+                onChange={(e) => setFormData({ ...formData, dimensions: e.target.value })}
+                placeholder="2000x1000x5"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="material-density">Density (kg/m³)</Label>
+              <Input
+                id="material-density"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.density}
+                onChange={(e) => setFormData({ ...formData, density: e.target.value })}
+                placeholder="7850"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="material-supplier">Supplier</Label>
+              <Input
+                id="material-supplier"
+                value={formData.supplier}
+                onChange={(e) => setFormData({ ...formData, supplier: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="material-price">Price *</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="material-price"
+                  type="number"
+                  min="0"
+                  step="0.0001"
+                  value={formData.price}
+                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                />
+                <Select
+                  value={formData.currency}
+                  onValueChange={(value) => setFormData({ ...formData, currency: value as Currency })}
+                >
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(Currency).map(currency => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={formData.priceUnit}
+                  onValueChange={(value) => setFormData({ ...formData, priceUnit: value as MaterialPriceUnit })}
+                >
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(MaterialPriceUnit).map(unit => (
+                      <SelectItem key={unit} value={unit}>/{materialPriceUnitLabels[unit]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="material-valid-from">Price valid from</Label>
+              <Input
+                id="material-valid-from"
+                type="date"
+                value={formData.priceValidFrom}
+                onChange={(e) => setFormData({ ...formData, priceValidFrom: e.target.value })}
+              />
+            </div>
+            <label className="col-span-2 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              Active - available for new bills of materials
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !formData.code.trim() || !formData.name.trim() || !formData.grade.trim() || formData.price === ''}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Price History Dialog */}
+      <Dialog open={!!historyMaterial} onOpenChange={(open) => !open && setHistoryMaterial(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Price history - {historyMaterial?.code}</DialogTitle>
+            <DialogDescription>
+              {historyMaterial?.name}, {historyMaterial?.grade}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Valid from</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {priceHistory.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{formatDate(entry.validFrom)}</TableCell>
+                    <TableCell className="font-medium">
+                      {historyMaterial && formatPrice({ ...historyMaterial, currentPrice: entry.price, currency: entry.currency })}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{entry.source || '-'}</TableCell>
+                    <TableCell className="text-sm">{entry.createdBy?.name || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -8,6 +8,8 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
 import { 
   Table, 
   TableBody, 
@@ -37,10 +39,12 @@ import {
   Play,
   Pause,
   FileText,
-  Truck,
-  BarChart3
+  XCircle,
+  BarChart3,
+  ShieldCheck
 } from 'lucide-react'
 import { formatDate, formatCurrency } from '@/lib/utils'
+import { productionOrderTransitions, type ProductionOrderTransition } from '@/lib/production-order-workflow'
 import { toast } from 'sonner'
 import { useTranslations } from 'next-intl'
 
@@ -48,11 +52,11 @@ interface ProductionOrder {
   id: string
   orderNumber: string
   quoteId: string
-  status: 'PENDING' | 'IN_PRODUCTION' | 'COMPLETED' | 'SHIPPED' | 'DELIVERED'
+  status: 'PENDING' | 'IN_PROGRESS' | 'ON_HOLD' | 'COMPLETED' | 'CANCELLED'
+  statusReason: string | null
+  approvalStatus?: 'NOT_REQUIRED' | 'NOT_REQUESTED' | 'PENDING' | 'APPROVED' | 'REJECTED'
   startDate: string | null
-  completionDate: string | null
-  shippedDate: string | null
-  deliveredDate: string | null
+  completedDate: string | null
   createdAt: string
   updatedAt: string
   quote: {
@@ -82,6 +86,8 @@ export default function ProductionOrdersPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedOrder, setSelectedOrder] = useState<ProductionOrder | null>(null)
   const [statusUpdateOpen, setStatusUpdateOpen] = useState(false)
+  const [selectedTransition, setSelectedTransition] = useState<ProductionOrderTransition | null>(null)
+  const [statusReason, setStatusReason] = useState('')
 
   const userRole = user?.role
 
@@ -108,22 +114,35 @@ export default function ProductionOrdersPage() {
     }
   }
 
-  const handleStatusUpdate = async (orderId: string, newStatus: string) => {
+  const openStatusUpdate = (order: ProductionOrder) => {
+    setSelectedOrder(order)
+    setSelectedTransition(null)
+    setStatusReason('')
+    setStatusUpdateOpen(true)
+  }
+
+  const handleStatusUpdate = async (orderId: string, transition: ProductionOrderTransition) => {
     try {
       const response = await fetch(`/api/production-orders/${orderId}/status`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus })
+        body: JSON.stringify({
+          status: transition.to,
+          ...(transition.requiresReason && { reason: statusReason.trim() })
+        })
       })
       
-      if (!response.ok) throw new Error('Failed to update status')
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.error || 'Failed to update status')
+      }
       
       toast.success('Status updated successfully')
       setStatusUpdateOpen(false)
       fetchOrders()
     } catch (error) {
       console.error('Failed to update status:', error)
-      toast.error('Failed to update status')
+      toast.error(error instanceof Error ? error.message : 'Failed to update status')
     }
   }
 
@@ -131,14 +150,14 @@ export default function ProductionOrdersPage() {
     switch (status) {
       case 'PENDING':
         return <Clock className="h-4 w-4" />
-      case 'IN_PRODUCTION':
+      case 'IN_PROGRESS':
         return <Play className="h-4 w-4" />
+      case 'ON_HOLD':
+        return <Pause className="h-4 w-4" />
       case 'COMPLETED':
         return <CheckCircle className="h-4 w-4" />
-      case 'SHIPPED':
-        return <Truck className="h-4 w-4" />
-      case 'DELIVERED':
-        return <Package className="h-4 w-4" />
+      case 'CANCELLED':
+        return <XCircle className="h-4 w-4" />
       default:
         return null
     }
@@ -147,10 +166,10 @@ export default function ProductionOrdersPage() {
   const getStatusBadge = (status: ProductionOrder['status']) => {
     const statusMap = {
       PENDING: { variant: 'secondary' as const, label: t("common.status.pending") },
-      IN_PRODUCTION: { variant: 'warning' as const, label: 'In Production' },
-      COMPLETED: { variant: 'info' as const, label: t("common.status.completed") },
-      SHIPPED: { variant: 'default' as const, label: 'Shipped' },
-      DELIVERED: { variant: 'success' as const, label: 'Delivered' }
+      IN_PROGRESS: { variant: 'warning' as const, label: 'In Production' },
+      ON_HOLD: { variant: 'outline' as const, label: 'On Hold' },
+      COMPLETED: { variant: 'success' as const, label: t("common.status.completed") },
+      CANCELLED: { variant: 'destructive' as const, label: 'Cancelled' }
     }
 
     const { variant, label } = statusMap[status]
@@ -162,15 +181,44 @@ export default function ProductionOrdersPage() {
     )
   }
 
-  const getNextStatus = (currentStatus: ProductionOrder['status']): string | null => {
-    const statusFlow = {
-      PENDING: 'IN_PRODUCTION',
-      IN_PRODUCTION: 'COMPLETED',
-      COMPLETED: 'SHIPPED',
-      SHIPPED: 'DELIVERED',
-      DELIVERED: null
+  // Orders covered by an approval policy start production only once
+  // approved; until then they can still be held or cancelled
+  const notStarted = (order: ProductionOrder) =>
+    ['PENDING', 'ON_HOLD'].includes(order.status) && !order.startDate
+
+  const awaitsApproval = (order: ProductionOrder) =>
+    notStarted(order) &&
+    ['NOT_REQUESTED', 'PENDING', 'REJECTED'].includes(order.approvalStatus || '')
+
+  const getAvailableTransitions = (order: ProductionOrder) =>
+    (productionOrderTransitions[order.status] ?? []).filter(transition =>
+      !awaitsApproval(order) || transition.to !== 'IN_PROGRESS'
+    )
+
+  const approvalLabels: Record<string, string> = {
+    NOT_REQUESTED: 'Needs approval',
+    PENDING: 'Awaiting approval',
+    APPROVED: 'Approved',
+    REJECTED: 'Approval rejected'
+  }
+
+  const handleRequestApproval = async (orderId: string) => {
+    try {
+      const response = await fetch(`/api/production-orders/${orderId}/approval`, {
+        method: 'POST'
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.error || 'Failed to request approval')
+      }
+
+      toast.success('Production order submitted for approval')
+      fetchOrders()
+    } catch (error) {
+      console.error('Failed to request production order approval:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to request approval')
     }
-    return statusFlow[currentStatus]
   }
 
   if (loading) {
@@ -250,7 +298,7 @@ export default function ProductionOrdersPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {orders.filter(o => o.status === 'IN_PRODUCTION').length}
+              {orders.filter(o => o.status === 'IN_PROGRESS').length}
             </div>
           </CardContent>
         </Card>
@@ -345,7 +393,16 @@ export default function ProductionOrdersPage() {
                         {formatCurrency(order.quote.totalAmount)}
                       </div>
                     </TableCell>
-                    <TableCell>{getStatusBadge(order.status)}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {getStatusBadge(order.status)}
+                        {notStarted(order) && order.approvalStatus && approvalLabels[order.approvalStatus] && (
+                          <div className="text-xs text-muted-foreground">
+                            {approvalLabels[order.approvalStatus]}
+                          </div>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       {order.startDate ? (
                         <div className="flex items-center gap-1 text-sm">
@@ -357,11 +414,13 @@ export default function ProductionOrdersPage() {
                       )}
                     </TableCell>
                     <TableCell>
-                      {order.completionDate ? (
+                      {order.completedDate ? (
                         <div className="flex items-center gap-1 text-sm">
                           <CheckCircle className="h-3 w-3 text-green-600" />
-                          {formatDate(order.completionDate)}
+                          {formatDate(order.completedDate)}
                         </div>
+                      ) : order.status === 'CANCELLED' ? (
+                        <span className="text-sm text-muted-foreground">Cancelled</span>
                       ) : (
                         <span className="text-sm text-muted-foreground">In progress</span>
                       )}
@@ -377,14 +436,22 @@ export default function ProductionOrdersPage() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        {getNextStatus(order.status) && (
+                        {notStarted(order) &&
+                          ['NOT_REQUESTED', 'REJECTED'].includes(order.approvalStatus || '') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Request approval"
+                            onClick={() => handleRequestApproval(order.id)}
+                          >
+                            <ShieldCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {getAvailableTransitions(order).length > 0 && (
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => {
-                              setSelectedOrder(order)
-                              setStatusUpdateOpen(true)
-                            }}
+                            onClick={() => openStatusUpdate(order)}
                           >
                             <BarChart3 className="h-4 w-4" />
                           </Button>
@@ -429,10 +496,45 @@ export default function ProductionOrdersPage() {
                 <p className="text-sm">
                   Customer: <strong>{selectedOrder.quote.inquiry.customer.name}</strong>
                 </p>
-                <p className="text-sm">
-                  Next Status: <strong>{getNextStatus(selectedOrder.status)}</strong>
-                </p>
+                {selectedOrder.statusReason && (
+                  <p className="text-sm">
+                    Reason: <strong>{selectedOrder.statusReason}</strong>
+                  </p>
+                )}
               </div>
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <div className="flex flex-wrap gap-2">
+                  {getAvailableTransitions(selectedOrder).map((transition) => (
+                    <Button
+                      key={transition.action}
+                      type="button"
+                      size="sm"
+                      variant={selectedTransition?.action === transition.action ? 'default' : 'outline'}
+                      onClick={() => setSelectedTransition(transition)}
+                    >
+                      {transition.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {awaitsApproval(selectedOrder) && (
+                <p className="text-sm text-muted-foreground">
+                  This order needs approval before production can start.
+                </p>
+              )}
+              {selectedTransition?.requiresReason && (
+                <div className="space-y-2">
+                  <Label htmlFor="status-reason">Reason</Label>
+                  <Textarea
+                    id="status-reason"
+                    value={statusReason}
+                    onChange={(e) => setStatusReason(e.target.value)}
+                    placeholder="Why is this order being changed?"
+                    rows={3}
+                  />
+                </div>
+              )}
               <div className="bg-muted p-3 rounded-lg">
                 <p className="text-sm text-muted-foreground">
                   This action will update the production order status and notify relevant parties.
@@ -445,12 +547,13 @@ export default function ProductionOrdersPage() {
               Cancel
             </Button>
             <Button 
+              disabled={
+                !selectedTransition ||
+                (selectedTransition.requiresReason && !statusReason.trim())
+              }
               onClick={() => {
-                if (selectedOrder) {
-                  const nextStatus = getNextStatus(selectedOrder.status)
-                  if (nextStatus) {
-                    handleStatusUpdate(selectedOrder.id, nextStatus)
-                  }
+                if (selectedOrder && selectedTransition) {
+                  handleStatusUpdate(selectedOrder.id, selectedTransition)
                 }
               }}
             >
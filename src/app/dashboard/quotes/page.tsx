@@ -2,13 +2,16 @@
 
 export const dynamic = 'force-dynamic'
 
-import { useState, useEffect } from 'react'
+import { Fragment, useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/use-auth'
 import { useTranslations } from 'next-intl'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
   Table, 
   TableBody, 
@@ -38,18 +41,49 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
-  Send
+  Send,
+  Plus,
+  History,
+  Factory,
+  ShieldCheck,
+  FileSpreadsheet
 } from 'lucide-react'
 import { formatDate, formatCurrency } from '@/lib/utils'
+import { formatCurrency as formatCurrencyWithSymbol } from '@/lib/currency'
+import { Currency, TaxTreatment } from '@prisma/client'
+import {
+  formatQuoteRevision,
+  describeQuoteRate,
+  toQuoteDocumentCurrency,
+  quoteTotalInMainCurrency,
+  type QuoteRevisionDiff
+} from '@/lib/quote-service'
+import { describeQuoteTax, toQuoteTax } from '@/lib/tax-rules'
 import { toast } from 'sonner'
 
 interface Quote {
   id: string
   inquiryId: string
   quoteNumber: string
-  totalAmount: number
+  revision: number
+  isLatest: boolean
+  title: string
+  subtotal: number | string
+  margin: number | string
+  total: number | string
+  currency: Currency
+  mainCurrency: Currency
+  exchangeRate: number | string
+  exchangeRateDate: string | null
+  taxTreatment: TaxTreatment
+  taxName: string | null
+  taxRate: number | string
+  taxAmount: number | string
+  grossTotal: number | string
+  taxNote: string | null
   validUntil: string
-  status: 'DRAFT' | 'SENT' | 'VIEWED' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED'
+  status: 'DRAFT' | 'SENT' | 'VIEWED' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED' | 'CONVERTED' | 'SUPERSEDED'
+  approvalStatus?: 'NOT_REQUIRED' | 'NOT_REQUESTED' | 'PENDING' | 'APPROVED' | 'REJECTED'
   createdAt: string
   updatedAt: string
   inquiry: {
@@ -67,10 +101,88 @@ interface Quote {
     email: string
   }
   _count?: {
-    items: number
+    lines: number
+  }
+  lines?: QuoteLine[]
+}
+
+interface QuoteLine {
+  id: string
+  quantity: number
+  unitCost: number | string
+  marginOverride: number | string | null
+  discount: number | string
+  unitPrice: number | string
+  lineTotal: number | string
+  inquiryItem: {
+    id: string
+    name: string
+    description: string | null
+    unit: string | null
+    costCalculation?: {
+      materialLines: MaterialLine[]
+    } | null
   }
 }
 
+interface MaterialLine {
+  id: string
+  material: string
+  grade: string | null
+  dimensions: string | null
+  quantity: number | string
+  unit: string
+  unitPrice: number | string
+  currency: Currency
+  lineTotal: number | string
+  supplier: string | null
+}
+
+// Editable line in the create dialog; percentages are kept as input strings
+interface QuoteLineDraft {
+  inquiryItemId: string
+  name: string
+  unit: string | null
+  unitCost: number
+  included: boolean
+  quantity: string
+  marginPercent: string
+  discountPercent: string
+}
+
+// Currency select value that leaves the choice to the customer's preference
+const CUSTOMER_CURRENCY = 'CUSTOMER'
+
+// Letterhead select value for the default profile
+const DEFAULT_LETTERHEAD = 'DEFAULT'
+
+interface LetterheadOption {
+  id: string
+  name: string
+  companyName: string
+  isDefault: boolean
+}
+
+interface QuotableInquiry {
+  id: string
+  title: string
+  customer: {
+    name: string
+  }
+}
+
+const emptyQuoteForm = {
+  inquiryId: '',
+  title: '',
+  description: '',
+  marginPercent: '15',
+  validUntil: '',
+  terms: '',
+  notes: '',
+  currency: CUSTOMER_CURRENCY,
+  letterheadProfileId: DEFAULT_LETTERHEAD
+}
+
 export default function QuotesPage() {
   const t = useTranslations()
   const { user } = useAuth()
@@ -79,6 +191,16 @@ export default function QuotesPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null)
   const [sendDialogOpen, setSendDialogOpen] = useState(false)
+  const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [quotableInquiries, setQuotableInquiries] = useState<QuotableInquiry[]>([])
+  const [quoteForm, setQuoteForm] = useState(emptyQuoteForm)
+  const [lineDrafts, setLineDrafts] = useState<QuoteLineDraft[]>([])
+  const [customerCurrency, setCustomerCurrency] = useState<Currency | null>(null)
+  const [letterheads, setLetterheads] = useState<LetterheadOption[]>([])
+  const [detailQuote, setDetailQuote] = useState<Quote | null>(null)
+  const [revisions, setRevisions] = useState<Quote[]>([])
+  const [revisionDiff, setRevisionDiff] = useState<QuoteRevisionDiff | null>(null)
 
   const userRole = user?.role
 
@@ -105,20 +227,242 @@ export default function QuotesPage() {
     }
   }
 
+  const openCreateDialog = async () => {
+    setQuoteForm(emptyQuoteForm)
+    setLineDrafts([])
+    setCustomerCurrency(null)
+    setCreateDialogOpen(true)
+
+    try {
+      // Inquiries move to COSTING once all of their cost calculations are approved
+      const response = await fetch('/api/inquiries?status=COSTING&limit=100')
+      if (!response.ok) throw new Error('Failed to fetch inquiries')
+
+      const data = await response.json()
+      setQuotableInquiries(data.inquiries || [])
+    } catch (error) {
+      console.error('Failed to fetch inquiries:', error)
+      toast.error('Failed to load inquiries ready for quoting')
+    }
+
+    try {
+      const response = await fetch('/api/letterhead-profiles?active=true')
+      if (!response.ok) throw new Error('Failed to fetch letterhead profiles')
+      setLetterheads(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch letterhead profiles:', error)
+    }
+  }
+
+  const loadInquiryLines = async (inquiryId: string) => {
+    try {
+      const response = await fetch(`/api/inquiries/${inquiryId}`)
+      if (!response.ok) throw new Error('Failed to fetch inquiry')
+
+      const inquiry = await response.json()
+      setCustomerCurrency(inquiry.customer?.preferredCurrency ?? null)
+      setLineDrafts(
+        inquiry.items
+          .filter((item: any) => item.costCalculation?.isApproved)
+          .map((item: any) => ({
+            inquiryItemId: item.id,
+            name: item.name,
+            unit: item.unit,
+            unitCost: Number(item.costCalculation.totalCost),
+            included: true,
+            quantity: String(item.quantity || 1),
+            marginPercent: '',
+            discountPercent: ''
+          }))
+      )
+    } catch (error) {
+      console.error('Failed to fetch inquiry items:', error)
+      toast.error('Failed to load inquiry items')
+    }
+  }
+
+  const updateLineDraft = (inquiryItemId: string, changes: Partial<QuoteLineDraft>) => {
+    setLineDrafts(drafts =>
+      drafts.map(draft => draft.inquiryItemId === inquiryItemId ? { ...draft, ...changes } : draft)
+    )
+  }
+
+  // Mirrors the server-side pricing so the dialog shows what will be saved
+  const getDraftLineTotal = (draft: QuoteLineDraft) => {
+    const margin = parseFloat(draft.marginPercent || quoteForm.marginPercent || '0') / 100
+    const discount = parseFloat(draft.discountPercent || '0') / 100
+    const unitPrice = Math.round(draft.unitCost * (1 + margin) * 100) / 100
+    return Math.round(unitPrice * (parseInt(draft.quantity) || 0) * (1 - discount) * 100) / 100
+  }
+
+  const includedLineDrafts = lineDrafts.filter(draft => draft.included)
+
+  const handleViewQuote = async (quoteId: string) => {
+    try {
+      const response = await fetch(`/api/quotes/${quoteId}`)
+      if (!response.ok) throw new Error('Failed to fetch quote')
+
+      setDetailQuote(await response.json())
+      setRevisionDiff(null)
+
+      const revisionsResponse = await fetch(`/api/quotes/${quoteId}/revisions`)
+      setRevisions(revisionsResponse.ok ? await revisionsResponse.json() : [])
+    } catch (error) {
+      console.error('Failed to fetch quote:', error)
+      toast.error('Failed to load quote')
+    }
+  }
+
+  const handleCompareRevision = async (againstId: string) => {
+    if (!detailQuote) return
+
+    try {
+      const response = await fetch(`/api/quotes/${detailQuote.id}/diff?against=${againstId}`)
+      if (!response.ok) throw new Error('Failed to compare revisions')
+
+      setRevisionDiff(await response.json())
+    } catch (error) {
+      console.error('Failed to compare revisions:', error)
+      toast.error('Failed to compare revisions')
+    }
+  }
+
+  const handleCreateRevision = async (quoteId: string) => {
+    try {
+      const response = await fetch(`/api/quotes/${quoteId}/revisions`, {
+        method: 'POST'
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to create revision')
+      }
+
+      const revision = await response.json()
+      toast.success(`Revision ${formatQuoteRevision(revision)} created`)
+      fetchQuotes()
+    } catch (error) {
+      console.error('Failed to create revision:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create revision')
+    }
+  }
+
+  const handleConvertQuote = async (quoteId: string) => {
+    try {
+      const response = await fetch(`/api/quotes/${quoteId}/convert`, {
+        method: 'POST'
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to create production order')
+      }
+
+      const order = await response.json()
+      toast.success(`Production order ${order.orderNumber} created`)
+      fetchQuotes()
+    } catch (error) {
+      console.error('Failed to convert quote:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create production order')
+    }
+  }
+
+  const handleRequestApproval = async (quoteId: string) => {
+    try {
+      const response = await fetch(`/api/quotes/${quoteId}/approval`, {
+        method: 'POST'
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to request approval')
+      }
+
+      toast.success('Quote submitted for approval')
+      fetchQuotes()
+    } catch (error) {
+      console.error('Failed to request quote approval:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to request approval')
+    }
+  }
+
+  // Drafts covered by an approval policy can only be sent once approved
+  const canSendQuote = (quote: Quote) =>
+    quote.status === 'DRAFT' &&
+    (!quote.approvalStatus || ['NOT_REQUIRED', 'APPROVED'].includes(quote.approvalStatus))
+
+  const approvalLabels: Record<string, string> = {
+    NOT_REQUESTED: 'Needs approval',
+    PENDING: 'Awaiting approval',
+    APPROVED: 'Approved for sending',
+    REJECTED: 'Approval rejected'
+  }
+
+  // Amounts of a saved quote are in its own currency
+  const formatQuoteAmount = (amount: number | string, quote: Quote) =>
+    formatCurrencyWithSymbol(Number(amount), quote.currency)
+
+  const formatDelta = (value: number) =>
+    `${value > 0 ? '+' : ''}${detailQuote ? formatQuoteAmount(value, detailQuote) : formatCurrency(value)}`
+
+  const handleCreateQuote = async () => {
+    try {
+      setCreating(true)
+      const response = await fetch('/api/quotes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          inquiryId: quoteForm.inquiryId,
+          title: quoteForm.title,
+          description: quoteForm.description || undefined,
+          margin: parseFloat(quoteForm.marginPercent || '0') / 100,
+          validUntil: quoteForm.validUntil,
+          terms: quoteForm.terms || undefined,
+          notes: quoteForm.notes || undefined,
+          currency: quoteForm.currency === CUSTOMER_CURRENCY ? undefined : quoteForm.currency,
+          letterheadProfileId: quoteForm.letterheadProfileId === DEFAULT_LETTERHEAD ? undefined : quoteForm.letterheadProfileId,
+          lines: includedLineDrafts.map(draft => ({
+            inquiryItemId: draft.inquiryItemId,
+            quantity: parseInt(draft.quantity) || 1,
+            marginOverride: draft.marginPercent ? parseFloat(draft.marginPercent) / 100 : null,
+            discount: draft.discountPercent ? parseFloat(draft.discountPercent) / 100 : 0
+          }))
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to create quote')
+      }
+
+      toast.success('Quote created successfully')
+      setCreateDialogOpen(false)
+      fetchQuotes()
+    } catch (error) {
+      console.error('Failed to create quote:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create quote')
+    } finally {
+      setCreating(false)
+    }
+  }
+
   const handleSendQuote = async (quoteId: string) => {
     try {
       const response = await fetch(`/api/quotes/${quoteId}/send`, {
         method: 'POST'
       })
       
-      if (!response.ok) throw new Error('Failed to send quote')
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.error || 'Failed to send quote')
+      }
       
       toast.success('Quote sent successfully')
       setSendDialogOpen(false)
       fetchQuotes()
     } catch (error) {
       console.error('Failed to send quote:', error)
-      toast.error('Failed to send quote')
+      toast.error(error instanceof Error ? error.message : 'Failed to send quote')
     }
   }
 
@@ -144,6 +488,28 @@ export default function QuotesPage() {
     }
   }
 
+  const handleDownloadExcel = async (quote: Quote) => {
+    try {
+      const response = await fetch(`/api/excel/quotes?quoteId=${quote.id}`)
+      if (!response.ok) throw new Error('Failed to generate Excel export')
+
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `quote-${formatQuoteRevision(quote)}.xlsx`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+
+      toast.success('Excel file downloaded successfully')
+    } catch (error) {
+      console.error('Failed to download Excel file:', error)
+      toast.error('Failed to download Excel file')
+    }
+  }
+
   const getStatusIcon = (status: Quote['status']) => {
     switch (status) {
       case 'DRAFT':
@@ -158,6 +524,10 @@ export default function QuotesPage() {
         return <XCircle className="h-4 w-4" />
       case 'EXPIRED':
         return <AlertCircle className="h-4 w-4" />
+      case 'CONVERTED':
+        return <Factory className="h-4 w-4" />
+      case 'SUPERSEDED':
+        return <History className="h-4 w-4" />
       default:
         return null
     }
@@ -170,7 +540,9 @@ export default function QuotesPage() {
       VIEWED: { variant: 'info' as const, label: 'Viewed' },
       ACCEPTED: { variant: 'success' as const, label: 'Accepted' },
       REJECTED: { variant: 'destructive' as const, label: 'Rejected' },
-      EXPIRED: { variant: 'warning' as const, label: 'Expired' }
+      EXPIRED: { variant: 'warning' as const, label: 'Expired' },
+      CONVERTED: { variant: 'success' as const, label: 'Converted' },
+      SUPERSEDED: { variant: 'secondary' as const, label: 'Superseded' }
     }
 
     const { variant, label } = statusMap[status]
@@ -226,6 +598,12 @@ export default function QuotesPage() {
             Manage and track customer quotes
           </p>
         </div>
+        {['SUPERUSER', 'ADMIN', 'SALES'].includes(userRole || '') && (
+          <Button onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Quote
+          </Button>
+        )}
       </div>
 
       {/* Stats Cards */}
@@ -283,7 +661,7 @@ export default function QuotesPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {formatCurrency(quotes.reduce((sum, q) => sum + q.totalAmount, 0))}
+              {formatCurrency(quotes.reduce((sum, q) => sum + quoteTotalInMainCurrency(q), 0))}
             </div>
           </CardContent>
         </Card>
@@ -334,7 +712,7 @@ export default function QuotesPage() {
                 {quotes.map((quote) => (
                   <TableRow key={quote.id}>
                     <TableCell className="font-medium">
-                      {quote.quoteNumber}
+                      {formatQuoteRevision(quote)}
                     </TableCell>
                     <TableCell>
                       <div>
@@ -351,7 +729,7 @@ export default function QuotesPage() {
                     </TableCell>
                     <TableCell>
                       <div className="font-medium">
-                        {formatCurrency(quote.totalAmount)}
+                        {formatQuoteAmount(quote.total, quote)}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -360,7 +738,16 @@ export default function QuotesPage() {
                         {formatDate(quote.validUntil)}
                       </div>
                     </TableCell>
-                    <TableCell>{getStatusBadge(quote.status)}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {getStatusBadge(quote.status)}
+                        {quote.status === 'DRAFT' && quote.approvalStatus && approvalLabels[quote.approvalStatus] && (
+                          <div className="text-xs text-muted-foreground">
+                            {approvalLabels[quote.approvalStatus]}
+                          </div>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div className="text-sm text-muted-foreground">
                         {formatDate(quote.createdAt)}
@@ -368,6 +755,13 @@ export default function QuotesPage() {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleViewQuote(quote.id)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -375,7 +769,25 @@ export default function QuotesPage() {
                         >
                           <Download className="h-4 w-4" />
                         </Button>
-                        {quote.status === 'DRAFT' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDownloadExcel(quote)}
+                        >
+                          <FileSpreadsheet className="h-4 w-4" />
+                        </Button>
+                        {quote.status === 'DRAFT' &&
+                          ['NOT_REQUESTED', 'REJECTED'].includes(quote.approvalStatus || '') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Request approval"
+                            onClick={() => handleRequestApproval(quote.id)}
+                          >
+                            <ShieldCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canSendQuote(quote) && (
                           <Button
                             variant="ghost"
                             size="sm"
@@ -387,6 +799,27 @@ export default function QuotesPage() {
                             <Send className="h-4 w-4" />
                           </Button>
                         )}
+                        {['SENT', 'REJECTED', 'EXPIRED'].includes(quote.status) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="New revision"
+                            onClick={() => handleCreateRevision(quote.id)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {quote.status === 'ACCEPTED' &&
+                          ['SUPERUSER', 'ADMIN', 'MANAGER'].includes(userRole || '') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Convert to production order"
+                            onClick={() => handleConvertQuote(quote.id)}
+                          >
+                            <Factory className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -409,6 +842,426 @@ export default function QuotesPage() {
         </CardContent>
       </Card>
 
+      {/* Create Quote Dialog */}
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Quote</DialogTitle>
+            <DialogDescription>
+              Create a quote from an inquiry whose cost calculations are approved
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="quote-inquiry">Inquiry</Label>
+              <Select
+                value={quoteForm.inquiryId}
+                onValueChange={(value) => {
+                  const inquiry = quotableInquiries.find(i => i.id === value)
+                  setQuoteForm({
+                    ...quoteForm,
+                    inquiryId: value,
+                    title: quoteForm.title || inquiry?.title || ''
+                  })
+                  loadInquiryLines(value)
+                }}
+              >
+                <SelectTrigger id="quote-inquiry">
+                  <SelectValue placeholder="Select an inquiry" />
+                </SelectTrigger>
+                <SelectContent>
+                  {quotableInquiries.map((inquiry) => (
+                    <SelectItem key={inquiry.id} value={inquiry.id}>
+                      {inquiry.title} ({inquiry.customer.name})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-title">Title</Label>
+              <Input
+                id="quote-title"
+                value={quoteForm.title}
+                onChange={(e) => setQuoteForm({ ...quoteForm, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-description">Description</Label>
+              <Textarea
+                id="quote-description"
+                value={quoteForm.description}
+                onChange={(e) => setQuoteForm({ ...quoteForm, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quote-margin">Margin (%)</Label>
+                <Input
+                  id="quote-margin"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={quoteForm.marginPercent}
+                  onChange={(e) => setQuoteForm({ ...quoteForm, marginPercent: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quote-valid-until">Valid Until</Label>
+                <Input
+                  id="quote-valid-until"
+                  type="date"
+                  value={quoteForm.validUntil}
+                  onChange={(e) => setQuoteForm({ ...quoteForm, validUntil: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-currency">Currency</Label>
+              <Select
+                value={quoteForm.currency}
+                onValueChange={(value) => setQuoteForm({ ...quoteForm, currency: value })}
+              >
+                <SelectTrigger id="quote-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CUSTOMER_CURRENCY}>
+                    {customerCurrency ? `Customer's currency (${customerCurrency})` : 'Main currency'}
+                  </SelectItem>
+                  {Object.values(Currency).map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Costs below are in the main currency; the quote converts them at today&apos;s exchange rate
+              </p>
+            </div>
+            {letterheads.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="quote-letterhead">Letterhead</Label>
+                <Select
+                  value={quoteForm.letterheadProfileId}
+                  onValueChange={(value) => setQuoteForm({ ...quoteForm, letterheadProfileId: value })}
+                >
+                  <SelectTrigger id="quote-letterhead">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_LETTERHEAD}>Default letterhead</SelectItem>
+                    {letterheads.filter(letterhead => !letterhead.isDefault).map(letterhead => (
+                      <SelectItem key={letterhead.id} value={letterhead.id}>
+                        {letterhead.name} ({letterhead.companyName})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  The legal entity the quote is issued by; its default terms apply when none are entered
+                </p>
+              </div>
+            )}
+            {lineDrafts.length > 0 && (
+              <div className="space-y-2">
+                <Label>Lines</Label>
+                <p className="text-xs text-muted-foreground">
+                  Leave margin empty to use the quote margin
+                </p>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10"></TableHead>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Unit Cost</TableHead>
+                        <TableHead>Qty</TableHead>
+                        <TableHead>Margin (%)</TableHead>
+                        <TableHead>Discount (%)</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lineDrafts.map((draft) => (
+                        <TableRow key={draft.inquiryItemId}>
+                          <TableCell>
+                            <input
+                              type="checkbox"
+                              checked={draft.included}
+                              onChange={(e) => updateLineDraft(draft.inquiryItemId, { included: e.target.checked })}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">{draft.name}</TableCell>
+                          <TableCell>{formatCurrency(draft.unitCost)}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="1"
+                              className="w-20"
+                              value={draft.quantity}
+                              disabled={!draft.included}
+                              onChange={(e) => updateLineDraft(draft.inquiryItemId, { quantity: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="0.5"
+                              className="w-20"
+                              placeholder={quoteForm.marginPercent}
+                              value={draft.marginPercent}
+                              disabled={!draft.included}
+                              onChange={(e) => updateLineDraft(draft.inquiryItemId, { marginPercent: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="0.5"
+                              className="w-20"
+                              placeholder="0"
+                              value={draft.discountPercent}
+                              disabled={!draft.included}
+                              onChange={(e) => updateLineDraft(draft.inquiryItemId, { discountPercent: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {draft.included ? formatCurrency(getDraftLineTotal(draft)) : '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="text-right text-sm font-medium">
+                  Total: {formatCurrency(includedLineDrafts.reduce((sum, draft) => sum + getDraftLineTotal(draft), 0))}
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="quote-terms">Terms</Label>
+              <Textarea
+                id="quote-terms"
+                value={quoteForm.terms}
+                onChange={(e) => setQuoteForm({ ...quoteForm, terms: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-notes">Internal Notes</Label>
+              <Textarea
+                id="quote-notes"
+                value={quoteForm.notes}
+                onChange={(e) => setQuoteForm({ ...quoteForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateQuote}
+              disabled={creating || !quoteForm.inquiryId || !quoteForm.title || !quoteForm.validUntil || includedLineDrafts.length === 0}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {creating ? 'Creating...' : 'Create Quote'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Quote Detail Dialog */}
+      <Dialog open={!!detailQuote} onOpenChange={(open) => !open && setDetailQuote(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{detailQuote && formatQuoteRevision(detailQuote)}</DialogTitle>
+            <DialogDescription>
+              {detailQuote?.title} - {detailQuote?.inquiry.customer.name}
+            </DialogDescription>
+          </DialogHeader>
+          {detailQuote && (
+            <div className="space-y-4">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Qty</TableHead>
+                      <TableHead>Unit Cost</TableHead>
+                      <TableHead>Margin</TableHead>
+                      <TableHead>Unit Price</TableHead>
+                      <TableHead>Discount</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detailQuote.lines?.map((line) => (
+                      <Fragment key={line.id}>
+                      <TableRow>
+                        <TableCell className="font-medium">{line.inquiryItem.name}</TableCell>
+                        <TableCell>
+                          {line.quantity}{line.inquiryItem.unit ? ` ${line.inquiryItem.unit}` : ''}
+                        </TableCell>
+                        <TableCell>{formatQuoteAmount(line.unitCost, detailQuote)}</TableCell>
+                        <TableCell>
+                          {(Number(line.marginOverride ?? detailQuote.margin) * 100).toFixed(1)}%
+                        </TableCell>
+                        <TableCell>{formatQuoteAmount(line.unitPrice, detailQuote)}</TableCell>
+                        <TableCell>
+                          {Number(line.discount) > 0 ? `${(Number(line.discount) * 100).toFixed(1)}%` : '-'}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatQuoteAmount(line.lineTotal, detailQuote)}
+                        </TableCell>
+                      </TableRow>
+                      {!!line.inquiryItem.costCalculation?.materialLines.length && (
+                        <TableRow className="bg-muted/40 hover:bg-muted/40">
+                          <TableCell colSpan={7} className="py-2">
+                            <p className="text-xs font-medium text-muted-foreground mb-1">Bill of materials</p>
+                            <div className="space-y-1">
+                              {line.inquiryItem.costCalculation.materialLines.map((material) => (
+                                <div key={material.id} className="grid grid-cols-12 gap-2 text-xs">
+                                  <span className="col-span-4">
+                                    {material.material}
+                                    {material.grade ? ` ${material.grade}` : ''}
+                                    {material.dimensions ? `, ${material.dimensions}` : ''}
+                                  </span>
+                                  <span className="col-span-2">{Number(material.quantity)} {material.unit}</span>
+                                  <span className="col-span-2">
+                                    {formatCurrencyWithSymbol(Number(material.unitPrice), material.currency)}/{material.unit}
+                                  </span>
+                                  <span className="col-span-2 text-muted-foreground">{material.supplier || '-'}</span>
+                                  <span className="col-span-2 text-right">
+                                    {formatCurrencyWithSymbol(Number(material.lineTotal), material.currency)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      </Fragment>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="flex justify-end gap-6 text-sm">
+                <span>Cost: {formatQuoteAmount(detailQuote.subtotal, detailQuote)}</span>
+                <span>Net: {formatQuoteAmount(detailQuote.total, detailQuote)}</span>
+                <span>{describeQuoteTax(toQuoteTax(detailQuote))}: {formatQuoteAmount(detailQuote.taxAmount, detailQuote)}</span>
+                <span className="font-semibold">Total: {formatQuoteAmount(detailQuote.grossTotal, detailQuote)}</span>
+              </div>
+              {detailQuote.taxNote && (
+                <p className="text-right text-xs text-muted-foreground">{detailQuote.taxNote}</p>
+              )}
+              {describeQuoteRate(toQuoteDocumentCurrency(detailQuote)) && (
+                <p className="text-right text-xs text-muted-foreground">
+                  Priced in {detailQuote.currency} at {describeQuoteRate(toQuoteDocumentCurrency(detailQuote))}
+                </p>
+              )}
+
+              {revisions.length > 1 && (
+                <div className="space-y-3 border-t pt-4">
+                  <div className="flex items-center gap-3">
+                    <Label htmlFor="compare-revision">Compare with</Label>
+                    <Select onValueChange={handleCompareRevision}>
+                      <SelectTrigger id="compare-revision" className="w-56">
+                        <SelectValue placeholder="Select a revision" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {revisions
+                          .filter(revision => revision.id !== detailQuote.id)
+                          .map(revision => (
+                            <SelectItem key={revision.id} value={revision.id}>
+                              R{revision.revision} ({revision.status.toLowerCase()}, {formatDate(revision.createdAt)})
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {revisionDiff && (
+                    <div className="space-y-3">
+                      <p className="text-sm font-medium">
+                        R{revisionDiff.from.revision} → R{revisionDiff.to.revision}: {formatDelta(revisionDiff.totalDelta)}
+                      </p>
+                      {revisionDiff.fields.length > 0 && (
+                        <ul className="text-sm text-muted-foreground">
+                          {revisionDiff.fields.map(field => (
+                            <li key={field.field}>
+                              {field.field}: {String(field.from ?? '-')} → {String(field.to ?? '-')}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <div className="rounded-md border">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Item</TableHead>
+                              <TableHead>Change</TableHead>
+                              <TableHead>Qty</TableHead>
+                              <TableHead>Unit Price</TableHead>
+                              <TableHead className="text-right">Line Total Δ</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {revisionDiff.lines.map(line => (
+                              <TableRow key={line.inquiryItemId}>
+                                <TableCell className="font-medium">{line.name}</TableCell>
+                                <TableCell>
+                                  <Badge
+                                    variant={
+                                      line.change === 'added' ? 'success'
+                                        : line.change === 'removed' ? 'destructive'
+                                        : line.change === 'changed' ? 'warning'
+                                        : 'secondary'
+                                    }
+                                  >
+                                    {line.change}
+                                  </Badge>
+                                </TableCell>
+                                <TableCell>
+                                  {line.from?.quantity ?? '-'} → {line.to?.quantity ?? '-'}
+                                </TableCell>
+                                <TableCell>
+                                  {line.from ? formatQuoteAmount(line.from.unitPrice, detailQuote) : '-'} → {line.to ? formatQuoteAmount(line.to.unitPrice, detailQuote) : '-'}
+                                  {line.unitPriceDelta !== 0 && (
+                                    <span className="ml-1 text-xs text-muted-foreground">
+                                      ({formatDelta(line.unitPriceDelta)})
+                                    </span>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-right font-medium">
+                                  {formatDelta(line.lineTotalDelta)}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDetailQuote(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Send Quote Dialog */}
       <Dialog open={sendDialogOpen} onOpenChange={setSendDialogOpen}>
         <DialogContent>
@@ -424,10 +1277,10 @@ export default function QuotesPage() {
                 The quote will be sent to: <strong>{selectedQuote?.inquiry.customer.email}</strong>
               </p>
               <p className="text-sm text-muted-foreground">
-                Quote Number: {selectedQuote?.quoteNumber}
+                Quote Number: {selectedQuote && formatQuoteRevision(selectedQuote)}
               </p>
               <p className="text-sm text-muted-foreground">
-                Amount: {selectedQuote && formatCurrency(selectedQuote.totalAmount)}
+                Amount: {selectedQuote && formatQuoteAmount(selectedQuote.total, selectedQuote)}
               </p>
             </div>
           </div>
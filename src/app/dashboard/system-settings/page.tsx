@@ -24,9 +24,13 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { toast } from 'sonner'
-import { Loader2, Save, AlertCircle, Settings, DollarSign, RefreshCw, X, HardDrive, Cloud } from 'lucide-react'
+import { Loader2, Save, AlertCircle, Settings, DollarSign, RefreshCw, X, HardDrive, Cloud, Clock, Percent, Hash, Building2 } from 'lucide-react'
 import { Currency, StorageProvider } from '@prisma/client'
 import { formatDate } from '@/lib/utils'
+import { ExchangeRateHistory } from '@/components/exchange-rate-history'
+import { TaxProfileSettings } from '@/components/tax-profile-settings'
+import { NumberingSettings } from '@/components/numbering-settings'
+import { LetterheadSettings } from '@/components/letterhead-settings'
 
 interface SystemSettings {
   id: string
@@ -42,6 +46,9 @@ interface SystemSettings {
   localStoragePath: string | null
   maxFileSize: number
   allowedFileTypes: string[]
+  // Quote Follow-up Settings
+  quoteFollowUpDays: number[]
+  quoteFollowUpEmails: boolean
   updatedAt: string
   updatedBy: {
     name: string
@@ -49,6 +56,18 @@ interface SystemSettings {
   } | null
 }
 
+// Tax profiles, numbering and letterheads are saved on their own, not with the settings form
+type SettingsTab = 'currency' | 'storage' | 'quotes' | 'tax' | 'numbering' | 'letterhead'
+
+const tabLabels: Record<SettingsTab, string> = {
+  currency: 'Currency',
+  storage: 'Storage',
+  quotes: 'Quote',
+  tax: 'Tax',
+  numbering: 'Numbering',
+  letterhead: 'Letterhead'
+}
+
 const currencySymbols: Record<Currency, string> = {
   EUR: '€',
   BAM: 'KM',
@@ -78,7 +97,7 @@ export default function SystemSettingsPage() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
-  const [activeTab, setActiveTab] = useState<'currency' | 'storage'>('currency')
+  const [activeTab, setActiveTab] = useState<SettingsTab>('currency')
   
   const [formData, setFormData] = useState({
     mainCurrency: Currency.EUR as Currency,
@@ -92,7 +111,10 @@ export default function SystemSettingsPage() {
     uploadThingAppId: '',
     localStoragePath: './uploads',
     maxFileSize: 16777216, // 16MB
-    allowedFileTypes: ['image/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+    allowedFileTypes: ['image/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    // Quote Follow-up Settings (days as comma-separated input)
+    quoteFollowUpDays: '3, 7',
+    quoteFollowUpEmails: true
   })
 
   useEffect(() => {
@@ -131,7 +153,10 @@ export default function SystemSettingsPage() {
         uploadThingAppId: data.uploadThingAppId || '',
         localStoragePath: data.localStoragePath || './uploads',
         maxFileSize: data.maxFileSize || 16777216,
-        allowedFileTypes: data.allowedFileTypes || ['image/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+        allowedFileTypes: data.allowedFileTypes || ['image/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+        // Quote Follow-up Settings
+        quoteFollowUpDays: (data.quoteFollowUpDays || [3, 7]).join(', '),
+        quoteFollowUpEmails: data.quoteFollowUpEmails ?? true
       })
       
       // Preserve the active tab if it was set (e.g., from URL or previous state)
@@ -144,6 +169,13 @@ export default function SystemSettingsPage() {
     }
   }
 
+  const parseFollowUpDays = (value: string) =>
+    value
+      .split(',')
+      .map(day => day.trim())
+      .filter(day => day !== '')
+      .map(day => Number(day))
+
   const handleSubmit = async () => {
     try {
       setSaving(true)
@@ -172,6 +204,11 @@ export default function SystemSettingsPage() {
           maxFileSize: formData.maxFileSize,
           allowedFileTypes: formData.allowedFileTypes
         }
+      } else if (activeTab === 'quotes') {
+        payload = {
+          quoteFollowUpDays: parseFollowUpDays(formData.quoteFollowUpDays),
+          quoteFollowUpEmails: formData.quoteFollowUpEmails
+        }
       }
       
       console.log('Sending payload for tab:', activeTab, payload)
@@ -209,11 +246,13 @@ export default function SystemSettingsPage() {
         uploadThingAppId: updatedSettings.uploadThingAppId || '',
         localStoragePath: updatedSettings.localStoragePath || './uploads',
         maxFileSize: updatedSettings.maxFileSize || 16777216,
-        allowedFileTypes: updatedSettings.allowedFileTypes || ['image/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+        allowedFileTypes: updatedSettings.allowedFileTypes || ['image/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+        quoteFollowUpDays: (updatedSettings.quoteFollowUpDays || [3, 7]).join(', '),
+        quoteFollowUpEmails: updatedSettings.quoteFollowUpEmails ?? true
       }))
       
       setShowConfirmDialog(false)
-      toast.success(`${activeTab === 'currency' ? 'Currency' : 'Storage'} settings updated successfully`)
+      toast.success(`${tabLabels[activeTab]} settings updated successfully`)
     } catch (error: any) {
       console.error('Failed to update system settings:', error)
       toast.error(error.message || 'Failed to update system settings')
@@ -297,11 +336,29 @@ export default function SystemSettingsPage() {
     return true
   }
 
+  const validateQuoteSettings = () => {
+    const days = parseFollowUpDays(formData.quoteFollowUpDays)
+
+    if (days.some(day => !Number.isInteger(day) || day < 1 || day > 365)) {
+      toast.error('Follow-up days must be whole numbers between 1 and 365')
+      return false
+    }
+
+    if (days.length > 10) {
+      toast.error('At most 10 follow-up reminders can be configured')
+      return false
+    }
+
+    return true
+  }
+
   const handleSaveClick = () => {
     if (activeTab === 'currency' && validateForm()) {
       setShowConfirmDialog(true)
     } else if (activeTab === 'storage' && validateStorageSettings()) {
       setShowConfirmDialog(true)
+    } else if (activeTab === 'quotes' && validateQuoteSettings()) {
+      setShowConfirmDialog(true)
     }
   }
 
@@ -337,8 +394,8 @@ export default function SystemSettingsPage() {
         </Button>
       </div>
 
-      <Tabs value={activeTab} className="space-y-4" onValueChange={(value) => setActiveTab(value as 'currency' | 'storage')}>
-        <TabsList className="grid w-full grid-cols-2">
+      <Tabs value={activeTab} className="space-y-4" onValueChange={(value) => setActiveTab(value as SettingsTab)}>
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="currency" className="flex items-center gap-2">
             <DollarSign className="h-4 w-4" />
             Currency Settings
@@ -347,6 +404,22 @@ export default function SystemSettingsPage() {
             <HardDrive className="h-4 w-4" />
             File Storage
           </TabsTrigger>
+          <TabsTrigger value="quotes" className="flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Quote Follow-ups
+          </TabsTrigger>
+          <TabsTrigger value="tax" className="flex items-center gap-2">
+            <Percent className="h-4 w-4" />
+            Tax Profiles
+          </TabsTrigger>
+          <TabsTrigger value="numbering" className="flex items-center gap-2">
+            <Hash className="h-4 w-4" />
+            Numbering
+          </TabsTrigger>
+          <TabsTrigger value="letterhead" className="flex items-center gap-2">
+            <Building2 className="h-4 w-4" />
+            Letterheads
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="currency" className="space-y-4">
@@ -544,6 +617,8 @@ export default function SystemSettingsPage() {
           </div>
         </CardContent>
       </Card>
+
+          <ExchangeRateHistory />
         </TabsContent>
 
         <TabsContent value="storage" className="space-y-4">
@@ -733,6 +808,84 @@ export default function SystemSettingsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="quotes" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Quote Follow-ups
+              </CardTitle>
+              <CardDescription>
+                Remind quote creators when a sent quote has no customer response. Quotes past their
+                validity date are expired automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="quoteFollowUpDays">Reminder Days After Sending</Label>
+                <Input
+                  id="quoteFollowUpDays"
+                  value={formData.quoteFollowUpDays}
+                  onChange={(e) => setFormData({ ...formData, quoteFollowUpDays: e.target.value })}
+                  placeholder="3, 7"
+                />
+                <p className="text-sm text-muted-foreground">
+                  Comma-separated list of days, e.g. 3, 7. Leave empty to disable reminders.
+                </p>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="quoteFollowUpEmails"
+                  checked={formData.quoteFollowUpEmails}
+                  onCheckedChange={(checked) => setFormData({ ...formData, quoteFollowUpEmails: checked === true })}
+                />
+                <Label htmlFor="quoteFollowUpEmails" className="text-sm font-normal cursor-pointer">
+                  Also send reminders by email
+                </Label>
+              </div>
+
+              {/* Actions */}
+              <div className="flex justify-end gap-4 pt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => router.push('/dashboard')}
+                >
+                  Cancel
+                </Button>
+                <Button 
+                  onClick={handleSaveClick}
+                  disabled={saving}
+                >
+                  {saving ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="mr-2 h-4 w-4" />
+                      Save Settings
+                    </>
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="tax" className="space-y-4">
+          <TaxProfileSettings />
+        </TabsContent>
+
+        <TabsContent value="numbering" className="space-y-4">
+          <NumberingSettings />
+        </TabsContent>
+
+        <TabsContent value="letterhead" className="space-y-4">
+          <LetterheadSettings />
+        </TabsContent>
       </Tabs>
 
       {/* Confirmation Dialog */}
@@ -740,12 +893,14 @@ export default function SystemSettingsPage() {
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>
-              Confirm {activeTab === 'currency' ? 'Currency' : 'Storage'} Settings Changes
+              Confirm {tabLabels[activeTab]} Settings Changes
             </AlertDialogTitle>
             <AlertDialogDescription>
               {activeTab === 'currency' 
                 ? 'You are about to change the system currency settings:'
-                : 'You are about to change the file storage settings:'}
+                : activeTab === 'storage'
+                  ? 'You are about to change the file storage settings:'
+                  : 'You are about to change the quote follow-up settings:'}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <div className="space-y-4 py-4">
@@ -771,6 +926,13 @@ export default function SystemSettingsPage() {
                   Are you sure you want to continue?
                 </p>
               </>
+            ) : activeTab === 'quotes' ? (
+              <ul className="list-disc list-inside space-y-1">
+                <li>
+                  Reminder days: {parseFollowUpDays(formData.quoteFollowUpDays).join(', ') || 'None (reminders disabled)'}
+                </li>
+                <li>Email reminders: {formData.quoteFollowUpEmails ? 'On' : 'Off'}</li>
+              </ul>
             ) : (
               <>
                 <ul className="list-disc list-inside space-y-1">
@@ -0,0 +1,221 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { CheckCircle, XCircle, AlertCircle } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import { formatCurrency } from '@/lib/currency'
+import type { Currency } from '@prisma/client'
+
+interface ResponseQuote {
+  quoteNumber: string
+  title: string
+  status: string
+  total: number | string
+  grossTotal: number | string
+  currency: Currency
+  validUntil: string
+  customerName: string
+  isLatest: boolean
+  respondedAt: string | null
+  respondedByName: string | null
+}
+
+// Public page linked from the quote email - no login, the token is the key
+export default function QuoteResponsePage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [quote, setQuote] = useState<ResponseQuote | null>(null)
+  const [quoteHtml, setQuoteHtml] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [name, setName] = useState('')
+  const [reason, setReason] = useState('')
+  const [decision, setDecision] = useState<'ACCEPT' | 'REJECT' | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetchQuote()
+  }, [token])
+
+  const fetchQuote = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/quote-response/${token}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load quote')
+        return
+      }
+
+      setQuote(data.quote)
+      setQuoteHtml(data.html)
+    } catch (error) {
+      console.error('Failed to load quote:', error)
+      setError('Failed to load quote')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!decision) return
+
+    try {
+      setSubmitting(true)
+      setError('')
+      const response = await fetch(`/api/quote-response/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          decision,
+          name,
+          reason: reason || undefined
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to submit response')
+        return
+      }
+
+      await fetchQuote()
+      setDecision(null)
+    } catch (error) {
+      console.error('Failed to submit response:', error)
+      setError('Failed to submit response')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  if (!quote) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="max-w-md">
+          <CardContent className="flex flex-col items-center gap-3 py-8 text-center">
+            <AlertCircle className="h-10 w-10 text-gray-400" />
+            <p className="text-sm text-gray-600">{error}</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const isOpen = quote.isLatest && quote.status === 'SENT' && new Date(quote.validUntil) >= new Date()
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="rounded-lg bg-white shadow-sm" dangerouslySetInnerHTML={{ __html: quoteHtml }} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Response</CardTitle>
+            <CardDescription>
+              Quote {quote.quoteNumber} for {quote.customerName} - {formatCurrency(Number(quote.grossTotal), quote.currency)} incl. tax,
+              valid until {formatDate(quote.validUntil)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {quote.status === 'ACCEPTED' && (
+              <div className="flex items-center gap-2 text-green-700">
+                <CheckCircle className="h-5 w-5" />
+                <span>
+                  Accepted by {quote.respondedByName}
+                  {quote.respondedAt && ` on ${formatDate(quote.respondedAt)}`}. Thank you - we will be in touch.
+                </span>
+              </div>
+            )}
+            {quote.status === 'REJECTED' && (
+              <div className="flex items-center gap-2 text-red-700">
+                <XCircle className="h-5 w-5" />
+                <span>
+                  Rejected by {quote.respondedByName}
+                  {quote.respondedAt && ` on ${formatDate(quote.respondedAt)}`}.
+                </span>
+              </div>
+            )}
+            {!isOpen && quote.status !== 'ACCEPTED' && quote.status !== 'REJECTED' && (
+              <p className="text-sm text-gray-600">
+                {quote.isLatest
+                  ? 'This quote is no longer open for a response.'
+                  : 'This quote has been superseded by a newer revision.'}
+              </p>
+            )}
+
+            {isOpen && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="response-name">Your name</Label>
+                  <Input
+                    id="response-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                {decision === 'REJECT' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="response-reason">Reason for rejecting</Label>
+                    <Textarea
+                      id="response-reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                )}
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex gap-3">
+                  {decision ? (
+                    <>
+                      <Button
+                        variant={decision === 'ACCEPT' ? 'default' : 'destructive'}
+                        onClick={handleSubmit}
+                        disabled={submitting || name.trim().length < 2 || (decision === 'REJECT' && !reason.trim())}
+                      >
+                        {submitting
+                          ? 'Submitting...'
+                          : decision === 'ACCEPT' ? 'Confirm Acceptance' : 'Confirm Rejection'}
+                      </Button>
+                      <Button variant="outline" onClick={() => setDecision(null)} disabled={submitting}>
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button onClick={() => setDecision('ACCEPT')}>
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Accept Quote
+                      </Button>
+                      <Button variant="outline" onClick={() => setDecision('REJECT')}>
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Reject Quote
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
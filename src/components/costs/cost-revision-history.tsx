@@ -0,0 +1,266 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { History } from 'lucide-react'
+import { formatDateTime } from '@/lib/utils'
+import { formatWithSystemCurrency } from '@/lib/currency-helpers'
+import { diffCostRevisions, type CostRevision, type LineChange } from '@/lib/cost-revision-service'
+import { toast } from 'sonner'
+
+interface RevisionWithApprovals extends CostRevision {
+  approvals: {
+    id: string
+    status: string
+    stepOrder: number
+    approver: { id: string; name: string }
+  }[]
+}
+
+interface CostRevisionHistoryProps {
+  costCalculationId: string
+}
+
+const amountFields = ['materialCost', 'laborCost', 'overheadCost', 'totalCost']
+
+function approvalBadge(approvals: RevisionWithApprovals['approvals']) {
+  if (approvals.length === 0) return null
+  if (approvals.some(step => step.status === 'REJECTED')) {
+    return <Badge variant="destructive">Rejected</Badge>
+  }
+  if (approvals.every(step => step.status === 'APPROVED')) {
+    return <Badge variant="success">Approved</Badge>
+  }
+  return <Badge variant="warning">Pending</Badge>
+}
+
+function formatChangeValue(field: string, value: string | number | null) {
+  if (value === null || value === '') return '-'
+  return amountFields.includes(field) ? formatWithSystemCurrency(Number(value)) : String(value)
+}
+
+function LineChanges<T>({ title, changes, describe }: {
+  title: string
+  changes: LineChange<T>[]
+  describe: (line: T) => string
+}) {
+  if (changes.length === 0) return null
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      <div className="data-table-wrapper">
+        <Table>
+          <TableBody>
+            {changes.map(change => (
+              <TableRow key={change.key}>
+                <TableCell className="w-24">
+                  {!change.from ? (
+                    <Badge variant="success">Added</Badge>
+                  ) : !change.to ? (
+                    <Badge variant="destructive">Removed</Badge>
+                  ) : (
+                    <Badge variant="info">Changed</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="font-medium">{change.key}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {change.from ? describe(change.from) : '-'}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {change.to ? describe(change.to) : '-'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
+
+export function CostRevisionHistory({ costCalculationId }: CostRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionWithApprovals[]>([])
+  const [loading, setLoading] = useState(true)
+  const [fromId, setFromId] = useState('')
+  const [toId, setToId] = useState('')
+
+  useEffect(() => {
+    fetchRevisions()
+  }, [costCalculationId])
+
+  const fetchRevisions = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/costs/${costCalculationId}/revisions`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch revisions')
+      }
+      const data: RevisionWithApprovals[] = await response.json()
+      setRevisions(data)
+      // Newest first: compare the latest revision with the one before it
+      setToId(data[0]?.id ?? '')
+      setFromId(data[1]?.id ?? '')
+    } catch (error) {
+      console.error('Failed to fetch cost calculation revisions:', error)
+      toast.error('Failed to load revision history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const from = revisions.find(revision => revision.id === fromId)
+  const to = revisions.find(revision => revision.id === toId)
+  const diff = from && to ? diffCostRevisions(from, to) : null
+  const unchanged = diff && diff.fields.length === 0 && diff.materialLines.length === 0 && diff.routingSteps.length === 0
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Revisions</CardTitle>
+          <CardDescription>
+            Every submitted calculation is kept; approvals decide on one revision
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="loading-spinner"></div>
+            </div>
+          ) : revisions.length === 0 ? (
+            <div className="empty-state">
+              <History className="empty-state-icon" />
+              <h3 className="empty-state-title">No revisions yet</h3>
+              <p className="empty-state-description">
+                Revisions are recorded each time the calculation is saved
+              </p>
+            </div>
+          ) : (
+            <div className="data-table-wrapper">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Revision</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Rates</TableHead>
+                    <TableHead>Approval</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {revisions.map(revision => (
+                    <TableRow key={revision.id}>
+                      <TableCell className="font-medium">
+                        R{revision.revision}
+                        {revision.templateName && (
+                          <div className="text-xs text-muted-foreground">{revision.templateName}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(revision.createdAt)}</TableCell>
+                      <TableCell>{revision.createdBy?.name}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatWithSystemCurrency(Number(revision.totalCost))}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {Object.keys(revision.exchangeRates)
+                          .filter(currency => currency !== revision.mainCurrency)
+                          .map(currency => `1 ${currency} = ${revision.exchangeRates[currency as keyof typeof revision.exchangeRates]} ${revision.mainCurrency}`)
+                          .join(', ') || revision.mainCurrency}
+                      </TableCell>
+                      <TableCell>{approvalBadge(revision.approvals)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {revisions.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Compare Revisions</CardTitle>
+            <CardDescription>What changed between two submissions</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="revision-from">From</Label>
+                <Select value={fromId} onValueChange={setFromId}>
+                  <SelectTrigger id="revision-from">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map(revision => (
+                      <SelectItem key={revision.id} value={revision.id}>R{revision.revision}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="revision-to">To</Label>
+                <Select value={toId} onValueChange={setToId}>
+                  <SelectTrigger id="revision-to">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map(revision => (
+                      <SelectItem key={revision.id} value={revision.id}>R{revision.revision}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {unchanged ? (
+              <p className="text-sm text-muted-foreground">No differences</p>
+            ) : diff && (
+              <>
+                {diff.fields.length > 0 && (
+                  <div className="data-table-wrapper">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Field</TableHead>
+                          <TableHead>R{from!.revision}</TableHead>
+                          <TableHead>R{to!.revision}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {diff.fields.map(change => (
+                          <TableRow key={change.field}>
+                            <TableCell className="font-medium">{change.label}</TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {formatChangeValue(change.field, change.from)}
+                            </TableCell>
+                            <TableCell>{formatChangeValue(change.field, change.to)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+                <LineChanges
+                  title="Bill of Materials"
+                  changes={diff.materialLines}
+                  describe={line => `${line.quantity} ${line.unit} x ${line.unitPrice} ${line.currency}`}
+                />
+                <LineChanges
+                  title="Routing"
+                  changes={diff.routingSteps}
+                  describe={step => `${step.setupMinutes} min setup, ${step.minutesPerPiece} min/pc x ${step.quantity} at ${step.hourlyRate}/h`}
+                />
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PenTool, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+
+export interface DrawingSummary {
+  attachment: {
+    id: string
+    originalName: string
+    uploadThingUrl: string
+  }
+  source: 'ITEM' | 'INQUIRY'
+  analysis: {
+    width: number | string | null
+    height: number | string | null
+    netArea: number | string | null
+    cutLength: number | string | null
+    pierceCount: number | null
+    holeCount: number | null
+    sourceUnits: string | null
+    warnings: string[]
+    error: string | null
+  }
+}
+
+interface DrawingAnalysisCardProps {
+  itemId: string
+}
+
+export function DrawingAnalysisCard({ itemId }: DrawingAnalysisCardProps) {
+  const [drawings, setDrawings] = useState<DrawingSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [analyzingId, setAnalyzingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchDrawings()
+  }, [itemId])
+
+  const fetchDrawings = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/items/${itemId}/drawings`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch drawings')
+      }
+      setDrawings(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch drawings:', error)
+      toast.error('Failed to load drawing analysis')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const reanalyze = async (attachmentId: string) => {
+    try {
+      setAnalyzingId(attachmentId)
+      const response = await fetch(`/api/items/${itemId}/drawings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ attachmentId })
+      })
+      if (!response.ok) {
+        throw new Error('Failed to analyze drawing')
+      }
+      const analysis = await response.json()
+      setDrawings(current => current.map(drawing =>
+        drawing.attachment.id === attachmentId ? { ...drawing, analysis } : drawing
+      ))
+    } catch (error) {
+      console.error('Failed to analyze drawing:', error)
+      toast.error('Failed to analyze drawing')
+    } finally {
+      setAnalyzingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Drawing Analysis</CardTitle>
+        <CardDescription>
+          Measured from DXF files attached to this item or its inquiry
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : drawings.length === 0 ? (
+          <div className="empty-state">
+            <PenTool className="empty-state-icon" />
+            <h3 className="empty-state-title">No DXF drawings</h3>
+            <p className="empty-state-description">
+              Attach a .dxf file to measure cut length, area and pierces
+            </p>
+          </div>
+        ) : (
+          <div className="data-table-wrapper">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Drawing</TableHead>
+                  <TableHead>Size (mm)</TableHead>
+                  <TableHead>Net Area</TableHead>
+                  <TableHead>Cut Length</TableHead>
+                  <TableHead>Pierces</TableHead>
+                  <TableHead>Holes</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drawings.map(({ attachment, source, analysis }) => (
+                  <TableRow key={attachment.id}>
+                    <TableCell>
+                      <div className="font-medium">{attachment.originalName}</div>
+                      <Badge variant="outline" className="mt-1">
+                        {source === 'ITEM' ? 'Item' : 'Inquiry'}
+                      </Badge>
+                      {analysis.warnings.map(warning => (
+                        <p key={warning} className="text-xs text-amber-600 mt-1">{warning}</p>
+                      ))}
+                    </TableCell>
+                    {analysis.error ? (
+                      <TableCell colSpan={5} className="text-sm text-destructive">
+                        {analysis.error}
+                      </TableCell>
+                    ) : (
+                      <>
+                        <TableCell className="whitespace-nowrap">
+                          {Number(analysis.width)} x {Number(analysis.height)}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {(Number(analysis.netArea) / 1e6).toFixed(4)} m²
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {(Number(analysis.cutLength) / 1000).toFixed(3)} m
+                        </TableCell>
+                        <TableCell>{analysis.pierceCount}</TableCell>
+                        <TableCell>{analysis.holeCount}</TableCell>
+                      </>
+                    )}
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Analyze again"
+                        disabled={analyzingId === attachment.id}
+                        onClick={() => reanalyze(attachment.id)}
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
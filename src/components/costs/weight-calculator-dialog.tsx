@@ -0,0 +1,270 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import type { ProfileTable, StandardProfile, WeightResult } from '@/lib/weight-service'
+import type { WeightCalculationInput } from '@/lib/validations'
+
+type Shape = WeightCalculationInput['shape']
+
+const shapeLabels: Record<Shape, string> = {
+  PLATE: 'Plate / sheet',
+  ROUND_BAR: 'Round bar',
+  RHS: 'RHS / SHS tube',
+  PIPE: 'Pipe',
+  ANGLE: 'Angle',
+  I_BEAM: 'I-beam (IPE / HEA)'
+}
+
+// Section dimensions per shape, all in mm
+const shapeFields: Record<Shape, Array<{ key: string; label: string }>> = {
+  PLATE: [{ key: 'thickness', label: 'Thickness' }, { key: 'width', label: 'Width' }],
+  ROUND_BAR: [{ key: 'diameter', label: 'Diameter' }],
+  RHS: [
+    { key: 'width', label: 'Width' },
+    { key: 'height', label: 'Height' },
+    { key: 'wallThickness', label: 'Wall thickness' }
+  ],
+  PIPE: [{ key: 'outerDiameter', label: 'Outer diameter' }, { key: 'wallThickness', label: 'Wall thickness' }],
+  ANGLE: [
+    { key: 'legA', label: 'Leg A' },
+    { key: 'legB', label: 'Leg B' },
+    { key: 'thickness', label: 'Thickness' }
+  ],
+  I_BEAM: []
+}
+
+interface WeightCalculatorDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  density?: number
+  quantity?: number
+  onApply: (result: WeightResult) => void
+}
+
+export function WeightCalculatorDialog({ isOpen, onClose, density, quantity, onApply }: WeightCalculatorDialogProps) {
+  const [shape, setShape] = useState<Shape>('PLATE')
+  const [dimensions, setDimensions] = useState<Record<string, string>>({})
+  const [designation, setDesignation] = useState('')
+  const [length, setLength] = useState('1000')
+  const [densityValue, setDensityValue] = useState('7850')
+  const [pieces, setPieces] = useState('1')
+  const [profileTables, setProfileTables] = useState<ProfileTable[]>([])
+  const [result, setResult] = useState<WeightResult | null>(null)
+  const [calculating, setCalculating] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setDensityValue(String(density || 7850))
+      setPieces(String(quantity || 1))
+      setResult(null)
+      if (profileTables.length === 0) {
+        fetchProfileTables()
+      }
+    }
+  }, [isOpen])
+
+  const fetchProfileTables = async () => {
+    try {
+      const response = await fetch('/api/weight-calculator')
+      if (response.ok) {
+        setProfileTables(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch profile tables:', error)
+    }
+  }
+
+  const profiles = profileTables.reduce<StandardProfile[]>((all, table) => all.concat(table.profiles), [])
+
+  const changeShape = (value: Shape) => {
+    setShape(value)
+    setDimensions({})
+    setResult(null)
+  }
+
+  const handleCalculate = async () => {
+    try {
+      setCalculating(true)
+      const sectionFields = shape === 'I_BEAM'
+        ? { designation }
+        : shapeFields[shape].reduce<Record<string, number>>(
+            (fields, field) => ({ ...fields, [field.key]: Number(dimensions[field.key]) }),
+            {}
+          )
+
+      const response = await fetch('/api/weight-calculator', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          shape,
+          ...sectionFields,
+          length: Number(length),
+          density: Number(densityValue),
+          quantity: Number(pieces)
+        })
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.details?.[0]?.message || error?.error || 'Failed to calculate weight')
+      }
+
+      setResult(await response.json())
+    } catch (error: any) {
+      console.error('Failed to calculate weight:', error)
+      toast.error(error.message || 'Failed to calculate weight')
+    } finally {
+      setCalculating(false)
+    }
+  }
+
+  const handleApply = () => {
+    if (!result) return
+    onApply(result)
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Weight Calculator</DialogTitle>
+          <DialogDescription>
+            Weight from shape, dimensions and material density; applied to the material line
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-2">
+          <div className="col-span-2 grid gap-2">
+            <Label>Shape</Label>
+            <Select value={shape} onValueChange={(value) => changeShape(value as Shape)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(shapeLabels) as Shape[]).map(key => (
+                  <SelectItem key={key} value={key}>{shapeLabels[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {shape === 'I_BEAM' ? (
+            <div className="col-span-2 grid gap-2">
+              <Label>Profile</Label>
+              <Select value={designation} onValueChange={(value) => { setDesignation(value); setResult(null) }}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select profile" />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.designation} value={profile.designation}>
+                      {profile.designation} ({profile.massPerMeter} kg/m)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            shapeFields[shape].map(field => (
+              <div key={field.key} className="grid gap-2">
+                <Label htmlFor={`weight-${field.key}`}>{field.label} (mm)</Label>
+                <Input
+                  id={`weight-${field.key}`}
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={dimensions[field.key] ?? ''}
+                  onChange={(e) => {
+                    setDimensions({ ...dimensions, [field.key]: e.target.value })
+                    setResult(null)
+                  }}
+                />
+              </div>
+            ))
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="weight-length">Length (mm)</Label>
+            <Input
+              id="weight-length"
+              type="number"
+              min="0"
+              step="1"
+              value={length}
+              onChange={(e) => { setLength(e.target.value); setResult(null) }}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="weight-pieces">Pieces</Label>
+            <Input
+              id="weight-pieces"
+              type="number"
+              min="1"
+              step="1"
+              value={pieces}
+              onChange={(e) => { setPieces(e.target.value); setResult(null) }}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="weight-density">Density (kg/m³)</Label>
+            <Input
+              id="weight-density"
+              type="number"
+              min="0"
+              step="1"
+              value={densityValue}
+              onChange={(e) => { setDensityValue(e.target.value); setResult(null) }}
+            />
+          </div>
+        </div>
+
+        {result && (
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <div className="font-medium">{result.description}</div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Mass per metre</span>
+              <span>{result.massPerMeter} kg/m</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Weight per piece</span>
+              <span>{result.weightPerPiece} kg</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Total ({result.quantity} pcs)</span>
+              <span>{result.totalWeight} kg</span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCalculate} disabled={calculating}>
+            {calculating ? 'Calculating...' : 'Calculate'}
+          </Button>
+          <Button onClick={handleApply} disabled={!result}>
+            Apply to Line
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
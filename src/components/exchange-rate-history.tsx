@@ -0,0 +1,275 @@
+"use client"
+
+import { useState, useEffect, useRef } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { History, Plus, Trash2, Upload } from 'lucide-react'
+import { Currency } from '@prisma/client'
+import { toRateDate } from '@/lib/exchange-rate-parser'
+import type { ExchangeRateImportResult } from '@/lib/exchange-rate-service'
+import { toast } from 'sonner'
+
+interface ExchangeRateEntry {
+  id: string
+  currency: Currency
+  rate: number | string
+  effectiveDate: string
+  source: string | null
+  createdBy?: { id: string; name: string } | null
+}
+
+const ALL_CURRENCIES = 'ALL'
+// The euro is the base every rate is quoted against
+const rateCurrencies = Object.values(Currency).filter(currency => currency !== Currency.EUR)
+
+function describeImport(result: ExchangeRateImportResult) {
+  const summary = `${result.created} new, ${result.updated} updated, ${result.unchanged} unchanged`
+  return result.ignoredCurrencies.length > 0
+    ? `${summary}; ignored ${result.ignoredCurrencies.join(', ')}`
+    : summary
+}
+
+export function ExchangeRateHistory() {
+  const [rates, setRates] = useState<ExchangeRateEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [currencyFilter, setCurrencyFilter] = useState<string>(ALL_CURRENCIES)
+  const [form, setForm] = useState({
+    currency: rateCurrencies[0] as Currency,
+    rate: '',
+    effectiveDate: toRateDate(new Date())
+  })
+  const [saving, setSaving] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    fetchRates()
+  }, [currencyFilter])
+
+  const fetchRates = async () => {
+    try {
+      setLoading(true)
+      const query = currencyFilter === ALL_CURRENCIES ? '' : `?currency=${currencyFilter}`
+      const response = await fetch(`/api/exchange-rates${query}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch exchange rates')
+      }
+      setRates(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch exchange rates:', error)
+      toast.error('Failed to load exchange rate history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    const rate = parseFloat(form.rate)
+    if (!(rate > 0)) {
+      toast.error('Enter a rate above zero')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const response = await fetch('/api/exchange-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, rate })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result?.details?.[0]?.message || result?.error || 'Failed to save exchange rate')
+      }
+
+      toast.success(result.updated ? 'Exchange rate updated' : 'Exchange rate added')
+      setForm({ ...form, rate: '' })
+      fetchRates()
+    } catch (error: any) {
+      console.error('Failed to save exchange rate:', error)
+      toast.error(error.message || 'Failed to save exchange rate')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      setImporting(true)
+      const body = new FormData()
+      body.append('file', file)
+
+      const response = await fetch('/api/exchange-rates/import', { method: 'POST', body })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result?.error || 'Failed to import exchange rates')
+      }
+
+      toast.success(`Imported: ${describeImport(result)}`)
+      fetchRates()
+    } catch (error: any) {
+      console.error('Failed to import exchange rates:', error)
+      toast.error(error.message || 'Failed to import exchange rates')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleDelete = async (entry: ExchangeRateEntry) => {
+    if (!confirm(`Delete the ${entry.currency} rate of ${toRateDate(entry.effectiveDate)}?`)) return
+
+    try {
+      const response = await fetch(`/api/exchange-rates/${entry.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete exchange rate')
+      }
+      toast.success('Exchange rate deleted')
+      fetchRates()
+    } catch (error) {
+      console.error('Failed to delete exchange rate:', error)
+      toast.error('Failed to delete exchange rate')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Exchange Rate History
+            </CardTitle>
+            <CardDescription>
+              Dated reference rates against the euro; past calculations and quotes convert at the rate in force on their date
+            </CardDescription>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xml,.csv"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+            <Upload className="mr-2 h-4 w-4" />
+            {importing ? 'Importing...' : 'Import ECB File'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="rate-currency">Currency</Label>
+            <Select
+              value={form.currency}
+              onValueChange={(value) => setForm({ ...form, currency: value as Currency })}
+            >
+              <SelectTrigger id="rate-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {rateCurrencies.map(currency => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-value">1 EUR =</Label>
+            <Input
+              id="rate-value"
+              type="number"
+              step="0.000001"
+              min="0"
+              value={form.rate}
+              onChange={(e) => setForm({ ...form, rate: e.target.value })}
+              placeholder={`Units of ${form.currency}`}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-date">Effective from</Label>
+            <Input
+              id="rate-date"
+              type="date"
+              value={form.effectiveDate}
+              onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={saving || !form.rate || !form.effectiveDate}>
+            <Plus className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Add Rate'}
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="rate-filter" className="text-sm text-muted-foreground">Show</Label>
+          <Select value={currencyFilter} onValueChange={setCurrencyFilter}>
+            <SelectTrigger id="rate-filter" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CURRENCIES}>All currencies</SelectItem>
+              {rateCurrencies.map(currency => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : rates.length === 0 ? (
+          <div className="empty-state">
+            <History className="empty-state-icon" />
+            <h3 className="empty-state-title">No exchange rates recorded</h3>
+            <p className="empty-state-description">
+              Add a rate or import an ECB reference rate file (eurofxref XML or CSV)
+            </p>
+          </div>
+        ) : (
+          <div className="data-table-wrapper">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Currency</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Entered By</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{toRateDate(entry.effectiveDate)}</TableCell>
+                    <TableCell className="font-medium">{entry.currency}</TableCell>
+                    <TableCell className="whitespace-nowrap">1 EUR = {Number(entry.rate)} {entry.currency}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{entry.source || '-'}</TableCell>
+                    <TableCell className="text-sm">{entry.createdBy?.name || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(entry)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
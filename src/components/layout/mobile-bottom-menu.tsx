@@ -31,6 +31,9 @@ import {
   LogOut,
   Database,
   Wrench,
+  Boxes,
+  Timer,
+  Sigma,
 } from 'lucide-react'
 
 interface NavItem {
@@ -102,6 +105,24 @@ const navItems: NavItem[] = [
     icon: Package,
     roles: ['SUPERUSER', 'ADMIN', 'MANAGER'],
   },
+  {
+    titleKey: 'navigation.main.materials',
+    href: '/dashboard/materials',
+    icon: Boxes,
+    roles: ['SUPERUSER', 'ADMIN'],
+  },
+  {
+    titleKey: 'navigation.main.laborRates',
+    href: '/dashboard/labor-rates',
+    icon: Timer,
+    roles: ['SUPERUSER', 'ADMIN'],
+  },
+  {
+    titleKey: 'navigation.main.costingTemplates',
+    href: '/dashboard/costing-templates',
+    icon: Sigma,
+    roles: ['SUPERUSER', 'ADMIN'],
+  },
   {
     titleKey: 'navigation.main.analytics',
     href: '/dashboard/analytics',
@@ -35,6 +35,9 @@ import {
   ChevronRight,
   Database,
   Wrench,
+  Boxes,
+  Timer,
+  Sigma,
 } from 'lucide-react'
 import { useEffect, useRef, useState } from 'react'
 
@@ -133,6 +136,24 @@ export function Sidebar() {
       icon: Package,
       roles: ['SUPERUSER', 'ADMIN', 'MANAGER'],
     },
+    {
+      titleKey: 'navigation.main.materials',
+      href: '/dashboard/materials',
+      icon: Boxes,
+      roles: ['SUPERUSER', 'ADMIN'],
+    },
+    {
+      titleKey: 'navigation.main.laborRates',
+      href: '/dashboard/labor-rates',
+      icon: Timer,
+      roles: ['SUPERUSER', 'ADMIN'],
+    },
+    {
+      titleKey: 'navigation.main.costingTemplates',
+      href: '/dashboard/costing-templates',
+      icon: Sigma,
+      roles: ['SUPERUSER', 'ADMIN'],
+    },
     {
       titleKey: 'navigation.main.analytics',
       href: '/dashboard/analytics',
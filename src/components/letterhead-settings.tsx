@@ -0,0 +1,508 @@
+"use client"
+
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Building2, ImagePlus, Pencil, Plus, Star, Trash2, X } from 'lucide-react'
+import { MAX_LOGO_BYTES, type BankAccount, type Letterhead } from '@/lib/letterhead'
+import { generateQuoteHTML, wrapDocumentHTML } from '@/lib/pdf-templates'
+import { toast } from 'sonner'
+
+interface LetterheadProfileEntry extends Letterhead {
+  id: string
+  name: string
+  isDefault: boolean
+  isActive: boolean
+  _count?: { quotes: number }
+}
+
+type LetterheadForm = Omit<Letterhead, 'postalAddress' | 'phone' | 'email' | 'website' | 'vatId' |
+  'registrationNumber' | 'footerText' | 'defaultTerms'> & {
+  name: string
+  postalAddress: string
+  phone: string
+  email: string
+  website: string
+  vatId: string
+  registrationNumber: string
+  footerText: string
+  defaultTerms: string
+  isDefault: boolean
+}
+
+const emptyForm: LetterheadForm = {
+  name: '',
+  companyName: '',
+  address: '',
+  postalAddress: '',
+  phone: '',
+  email: '',
+  website: '',
+  vatId: '',
+  registrationNumber: '',
+  bankAccounts: [],
+  logo: null,
+  footerText: '',
+  defaultTerms: '',
+  isDefault: false
+}
+
+const emptyBankAccount: BankAccount = { bankName: '', iban: '', swift: '', currency: '' }
+
+// Sample quote the preview is rendered with
+const previewInquiry = {
+  title: 'Steel brackets',
+  description: 'Laser-cut and powder-coated mounting brackets',
+  priority: 'MEDIUM',
+  customer: { name: 'Sample Customer Ltd', address: '1 Example Street, Sarajevo', email: 'buyer@example.com', phone: null },
+  createdBy: { name: 'Sales Representative', email: 'sales@example.com' }
+}
+const previewLines = [
+  { name: 'Mounting bracket', description: 'S235, 4 mm', unit: 'pcs', quantity: 200, unitPrice: 12.5, discount: 0, lineTotal: 2500 },
+  { name: 'Assembly', description: null, unit: 'h', quantity: 8, unitPrice: 45, discount: 0, lineTotal: 360 }
+]
+const previewPricing = { currency: 'EUR', mainCurrency: 'EUR', exchangeRate: 1, exchangeRateDate: null } as const
+const previewTax = { taxTreatment: 'DOMESTIC', taxName: 'VAT', taxRate: 0.17, taxAmount: 486.2, grossTotal: 3346.2, taxNote: null } as const
+
+function toForm(profile: LetterheadProfileEntry): LetterheadForm {
+  return {
+    name: profile.name,
+    companyName: profile.companyName,
+    address: profile.address,
+    postalAddress: profile.postalAddress || '',
+    phone: profile.phone || '',
+    email: profile.email || '',
+    website: profile.website || '',
+    vatId: profile.vatId || '',
+    registrationNumber: profile.registrationNumber || '',
+    bankAccounts: profile.bankAccounts.map(account => ({ ...account, currency: account.currency || '' })),
+    logo: profile.logo,
+    footerText: profile.footerText || '',
+    defaultTerms: profile.defaultTerms || '',
+    isDefault: profile.isDefault
+  }
+}
+
+function toLetterheadBody(form: LetterheadForm) {
+  return {
+    ...form,
+    name: form.name.trim(),
+    companyName: form.companyName.trim(),
+    bankAccounts: form.bankAccounts.map(account => ({ ...account, currency: account.currency || null }))
+  }
+}
+
+export function LetterheadSettings() {
+  const [profiles, setProfiles] = useState<LetterheadProfileEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<LetterheadForm>(emptyForm)
+  const [editing, setEditing] = useState<LetterheadProfileEntry | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [])
+
+  const previewHtml = useMemo(() => {
+    const letterhead: Letterhead = {
+      ...form,
+      companyName: form.companyName || 'Company name',
+      address: form.address || 'Address',
+      postalAddress: form.postalAddress || null,
+      phone: form.phone || null,
+      email: form.email || null,
+      website: form.website || null,
+      vatId: form.vatId || null,
+      registrationNumber: form.registrationNumber || null,
+      bankAccounts: form.bankAccounts.filter(account => account.iban),
+      footerText: form.footerText || null,
+      defaultTerms: form.defaultTerms || null
+    }
+    const validUntil = new Date()
+    validUntil.setDate(validUntil.getDate() + 30)
+
+    return wrapDocumentHTML(
+      generateQuoteHTML(previewInquiry as any, 'PREVIEW', validUntil, previewLines, previewPricing, previewTax, letterhead),
+      'Letterhead preview'
+    )
+  }, [form])
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/letterhead-profiles')
+      if (!response.ok) {
+        throw new Error('Failed to fetch letterhead profiles')
+      }
+      setProfiles(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch letterhead profiles:', error)
+      toast.error('Failed to load letterhead profiles')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveProfile = async (profile: LetterheadProfileEntry | null, body: object) => {
+    const response = await fetch(profile ? `/api/letterhead-profiles/${profile.id}` : '/api/letterhead-profiles', {
+      method: profile ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result?.details?.[0]?.message || result?.error || 'Failed to save letterhead profile')
+    }
+  }
+
+  const handleSubmit = async () => {
+    try {
+      setSaving(true)
+      await saveProfile(editing, {
+        ...toLetterheadBody(form),
+        isActive: editing ? editing.isActive : true
+      })
+      toast.success(editing ? 'Letterhead profile updated' : 'Letterhead profile added')
+      setForm(emptyForm)
+      setEditing(null)
+      fetchProfiles()
+    } catch (error: any) {
+      console.error('Failed to save letterhead profile:', error)
+      toast.error(error.message || 'Failed to save letterhead profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEdit = (profile: LetterheadProfileEntry) => {
+    setEditing(profile)
+    setForm(toForm(profile))
+  }
+
+  const handleCancelEdit = () => {
+    setEditing(null)
+    setForm(emptyForm)
+  }
+
+  const handleUpdate = async (profile: LetterheadProfileEntry, changes: Partial<Pick<LetterheadProfileEntry, 'isDefault' | 'isActive'>>) => {
+    try {
+      await saveProfile(profile, {
+        ...toLetterheadBody(toForm(profile)),
+        isActive: profile.isActive,
+        ...changes
+      })
+      fetchProfiles()
+    } catch (error: any) {
+      console.error('Failed to update letterhead profile:', error)
+      toast.error(error.message || 'Failed to update letterhead profile')
+    }
+  }
+
+  const handleDelete = async (profile: LetterheadProfileEntry) => {
+    if (!confirm(`Delete the letterhead profile "${profile.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/letterhead-profiles/${profile.id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result?.error || 'Failed to delete letterhead profile')
+      }
+      toast.success('Letterhead profile deleted')
+      fetchProfiles()
+    } catch (error: any) {
+      console.error('Failed to delete letterhead profile:', error)
+      toast.error(error.message || 'Failed to delete letterhead profile')
+    }
+  }
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      toast.error('The logo must be a PNG or JPEG image')
+      return
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast.error('The logo must be at most 512 KB')
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = () => setForm(current => ({ ...current, logo: reader.result as string }))
+    reader.onerror = () => toast.error('Failed to read the logo')
+    reader.readAsDataURL(file)
+  }
+
+  const updateBankAccount = (index: number, changes: Partial<BankAccount>) => {
+    setForm({
+      ...form,
+      bankAccounts: form.bankAccounts.map((account, i) => i === index ? { ...account, ...changes } : account)
+    })
+  }
+
+  const textField = (field: keyof LetterheadForm, label: string, placeholder?: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`letterhead-${field}`}>{label}</Label>
+      <Input
+        id={`letterhead-${field}`}
+        value={form[field] as string}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+        placeholder={placeholder}
+      />
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Letterheads
+        </CardTitle>
+        <CardDescription>
+          Company details printed on quotes, reports and Excel exports, one profile per legal entity.
+          A quote is issued under the default profile unless another is chosen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : profiles.length === 0 ? (
+          <div className="empty-state">
+            <Building2 className="empty-state-icon" />
+            <h3 className="empty-state-title">No letterhead profiles</h3>
+            <p className="empty-state-description">
+              Documents use the built-in company details until a profile is added
+            </p>
+          </div>
+        ) : (
+          <div className="data-table-wrapper">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Company</TableHead>
+                  <TableHead>VAT ID</TableHead>
+                  <TableHead>Quotes</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map(profile => (
+                  <TableRow key={profile.id}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {profile.name}
+                        {profile.isDefault && <Badge variant="secondary">Default</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{profile.companyName}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{profile.vatId || '-'}</TableCell>
+                    <TableCell>{profile._count?.quotes ?? 0}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={profile.isActive}
+                        disabled={profile.isDefault}
+                        onCheckedChange={(checked) => handleUpdate(profile, { isActive: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {!profile.isDefault && profile.isActive && (
+                        <Button variant="ghost" size="sm" title="Make default" onClick={() => handleUpdate(profile, { isDefault: true })}>
+                          <Star className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" title="Edit" onClick={() => handleEdit(profile)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {!profile.isDefault && (
+                        <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(profile)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 border-t pt-6 xl:grid-cols-2">
+          <div className="space-y-4">
+            <h4 className="font-medium">{editing ? `Edit "${editing.name}"` : 'New profile'}</h4>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              {textField('name', 'Profile name', 'e.g. GS Sarajevo')}
+              {textField('companyName', 'Company name')}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="letterhead-address">Address</Label>
+              <Textarea
+                id="letterhead-address"
+                rows={2}
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="letterhead-postalAddress">Postal address</Label>
+              <Textarea
+                id="letterhead-postalAddress"
+                rows={2}
+                value={form.postalAddress}
+                onChange={(e) => setForm({ ...form, postalAddress: e.target.value })}
+                placeholder="Only if different from the address"
+              />
+            </div>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              {textField('phone', 'Phone')}
+              {textField('email', 'Email')}
+              {textField('website', 'Website')}
+            </div>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              {textField('vatId', 'VAT ID')}
+              {textField('registrationNumber', 'Registration number')}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Logo</Label>
+              <div className="flex items-center gap-4">
+                {form.logo && (
+                  <img src={form.logo} alt="Logo" className="h-12 max-w-[160px] object-contain" />
+                )}
+                <Button variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <ImagePlus className="mr-2 h-4 w-4" />
+                    {form.logo ? 'Replace' : 'Upload'}
+                    <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleLogoChange} />
+                  </label>
+                </Button>
+                {form.logo && (
+                  <Button variant="ghost" size="sm" onClick={() => setForm({ ...form, logo: null })}>
+                    <X className="mr-2 h-4 w-4" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">PNG or JPEG, at most 512 KB</p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Bank accounts</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={form.bankAccounts.length >= 5}
+                  onClick={() => setForm({ ...form, bankAccounts: [...form.bankAccounts, emptyBankAccount] })}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Account
+                </Button>
+              </div>
+              {form.bankAccounts.map((account, index) => (
+                <div key={index} className="grid grid-cols-2 gap-2 sm:grid-cols-[2fr_3fr_2fr_1fr_auto]">
+                  <Input
+                    value={account.bankName}
+                    onChange={(e) => updateBankAccount(index, { bankName: e.target.value })}
+                    placeholder="Bank"
+                  />
+                  <Input
+                    value={account.iban}
+                    onChange={(e) => updateBankAccount(index, { iban: e.target.value })}
+                    placeholder="IBAN"
+                  />
+                  <Input
+                    value={account.swift}
+                    onChange={(e) => updateBankAccount(index, { swift: e.target.value })}
+                    placeholder="SWIFT/BIC"
+                  />
+                  <Input
+                    value={account.currency || ''}
+                    onChange={(e) => updateBankAccount(index, { currency: e.target.value.toUpperCase() })}
+                    placeholder="EUR"
+                    maxLength={3}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Remove account"
+                    onClick={() => setForm({ ...form, bankAccounts: form.bankAccounts.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="letterhead-footerText">Footer text</Label>
+              <Textarea
+                id="letterhead-footerText"
+                rows={2}
+                value={form.footerText}
+                onChange={(e) => setForm({ ...form, footerText: e.target.value })}
+                placeholder="e.g. court register entry or share capital"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="letterhead-defaultTerms">Default terms</Label>
+              <Textarea
+                id="letterhead-defaultTerms"
+                rows={5}
+                value={form.defaultTerms}
+                onChange={(e) => setForm({ ...form, defaultTerms: e.target.value })}
+                placeholder="One term per line; new quotes start with these"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="letterhead-default"
+                checked={form.isDefault}
+                disabled={!!editing?.isDefault}
+                onCheckedChange={(checked) => setForm({ ...form, isDefault: checked })}
+              />
+              <Label htmlFor="letterhead-default" className="text-sm">Default profile</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={handleSubmit}
+                disabled={saving || !form.name.trim() || !form.companyName.trim() || !form.address.trim()}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                {saving ? 'Saving...' : editing ? 'Save Profile' : 'Add Profile'}
+              </Button>
+              {editing && (
+                <Button variant="outline" onClick={handleCancelEdit}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Preview</h4>
+            <iframe
+              title="Letterhead preview"
+              srcDoc={previewHtml}
+              sandbox=""
+              className="h-[900px] w-full rounded-lg border bg-white"
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Hash, Save } from 'lucide-react'
+import { NumberedDocument } from '@prisma/client'
+import { formatDocumentNumber, numberedDocumentLabels } from '@/lib/numbering-rules'
+import type { NumberingSequenceSettings } from '@/lib/numbering-service'
+import { toast } from 'sonner'
+
+interface NumberingSequenceEntry extends NumberingSequenceSettings {
+  nextNumber: string
+}
+
+type SequenceDrafts = Partial<Record<NumberedDocument, { pattern: string; resetYearly: boolean }>>
+
+export function NumberingSettings() {
+  const [sequences, setSequences] = useState<NumberingSequenceEntry[]>([])
+  const [drafts, setDrafts] = useState<SequenceDrafts>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<NumberedDocument | null>(null)
+
+  useEffect(() => {
+    fetchSequences()
+  }, [])
+
+  const fetchSequences = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/numbering-sequences')
+      if (!response.ok) {
+        throw new Error('Failed to fetch numbering sequences')
+      }
+      const result: NumberingSequenceEntry[] = await response.json()
+      setSequences(result)
+      const loaded: SequenceDrafts = {}
+      result.forEach(sequence => {
+        loaded[sequence.documentType] = { pattern: sequence.pattern, resetYearly: sequence.resetYearly }
+      })
+      setDrafts(loaded)
+    } catch (error) {
+      console.error('Failed to fetch numbering sequences:', error)
+      toast.error('Failed to load numbering sequences')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateDraft = (documentType: NumberedDocument, changes: Partial<{ pattern: string; resetYearly: boolean }>) => {
+    setDrafts({ ...drafts, [documentType]: { ...drafts[documentType]!, ...changes } })
+  }
+
+  const handleSave = async (documentType: NumberedDocument) => {
+    try {
+      setSaving(documentType)
+      const response = await fetch(`/api/numbering-sequences/${documentType}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(drafts[documentType])
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result?.details?.[0]?.message || result?.error || 'Failed to save numbering pattern')
+      }
+
+      toast.success(`${numberedDocumentLabels[documentType]} numbering updated`)
+      fetchSequences()
+    } catch (error: any) {
+      console.error('Failed to save numbering pattern:', error)
+      toast.error(error.message || 'Failed to save numbering pattern')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          Document Numbering
+        </CardTitle>
+        <CardDescription>
+          Sequential numbers for quotes, production orders and inquiries. Use {'{YYYY}'}, {'{YY}'} and {'{MM}'} for
+          the date and {'{seq:5}'} for the counter padded to five digits.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : (
+          sequences.map(sequence => {
+            const draft = drafts[sequence.documentType]
+            if (!draft) return null
+            const changed = draft.pattern !== sequence.pattern || draft.resetYearly !== sequence.resetYearly
+            const example = formatDocumentNumber(draft.pattern, new Date(), 1)
+
+            return (
+              <div key={sequence.documentType} className="space-y-3 rounded-lg border p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-medium">{numberedDocumentLabels[sequence.documentType]}</h4>
+                    {sequence.isDefault && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  <span className="text-sm text-muted-foreground">Next: {sequence.nextNumber}</span>
+                </div>
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 sm:items-end">
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor={`pattern-${sequence.documentType}`}>Pattern</Label>
+                    <Input
+                      id={`pattern-${sequence.documentType}`}
+                      value={draft.pattern}
+                      onChange={(e) => updateDraft(sequence.documentType, { pattern: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">Example: {example}</p>
+                  </div>
+                  <div className="flex items-center justify-between gap-4 sm:justify-end">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`reset-${sequence.documentType}`}
+                        checked={draft.resetYearly}
+                        onCheckedChange={(checked) => updateDraft(sequence.documentType, { resetYearly: checked })}
+                      />
+                      <Label htmlFor={`reset-${sequence.documentType}`} className="text-sm">Reset yearly</Label>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => handleSave(sequence.documentType)}
+                      disabled={!changed || saving === sequence.documentType}
+                    >
+                      <Save className="mr-2 h-4 w-4" />
+                      {saving === sequence.documentType ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
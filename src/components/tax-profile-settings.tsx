@@ -0,0 +1,289 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Pencil, Percent, Plus, Star, Trash2 } from 'lucide-react'
+import { statutoryTaxNotes, taxTreatmentLabels } from '@/lib/tax-rules'
+import { toast } from 'sonner'
+
+interface TaxProfileEntry {
+  id: string
+  name: string
+  rate: number | string
+  note: string | null
+  isDefault: boolean
+  isActive: boolean
+  _count?: { customers: number }
+}
+
+const emptyForm = { name: '', rate: '', note: '', isDefault: false }
+
+// Rates are stored as fractions and entered as percentages
+function toPercent(rate: number | string) {
+  return Number((Number(rate) * 100).toFixed(2))
+}
+
+export function TaxProfileSettings() {
+  const [profiles, setProfiles] = useState<TaxProfileEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState(emptyForm)
+  const [editing, setEditing] = useState<TaxProfileEntry | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [])
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/tax-profiles')
+      if (!response.ok) {
+        throw new Error('Failed to fetch tax profiles')
+      }
+      setProfiles(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch tax profiles:', error)
+      toast.error('Failed to load tax profiles')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveProfile = async (profile: TaxProfileEntry | null, body: object) => {
+    const response = await fetch(profile ? `/api/tax-profiles/${profile.id}` : '/api/tax-profiles', {
+      method: profile ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result?.details?.[0]?.message || result?.error || 'Failed to save tax profile')
+    }
+  }
+
+  const handleSubmit = async () => {
+    const percent = parseFloat(form.rate)
+    if (!(percent >= 0 && percent <= 100)) {
+      toast.error('Enter a rate between 0 and 100%')
+      return
+    }
+
+    try {
+      setSaving(true)
+      await saveProfile(editing, {
+        name: form.name.trim(),
+        rate: Math.round(percent * 100) / 10000,
+        note: form.note.trim() || null,
+        isDefault: form.isDefault,
+        isActive: editing ? editing.isActive : true
+      })
+      toast.success(editing ? 'Tax profile updated' : 'Tax profile added')
+      setForm(emptyForm)
+      setEditing(null)
+      fetchProfiles()
+    } catch (error: any) {
+      console.error('Failed to save tax profile:', error)
+      toast.error(error.message || 'Failed to save tax profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEdit = (profile: TaxProfileEntry) => {
+    setEditing(profile)
+    setForm({
+      name: profile.name,
+      rate: String(toPercent(profile.rate)),
+      note: profile.note || '',
+      isDefault: profile.isDefault
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditing(null)
+    setForm(emptyForm)
+  }
+
+  const handleUpdate = async (profile: TaxProfileEntry, changes: Partial<Pick<TaxProfileEntry, 'isDefault' | 'isActive'>>) => {
+    try {
+      await saveProfile(profile, {
+        name: profile.name,
+        rate: Number(profile.rate),
+        note: profile.note,
+        isDefault: profile.isDefault,
+        isActive: profile.isActive,
+        ...changes
+      })
+      fetchProfiles()
+    } catch (error: any) {
+      console.error('Failed to update tax profile:', error)
+      toast.error(error.message || 'Failed to update tax profile')
+    }
+  }
+
+  const handleDelete = async (profile: TaxProfileEntry) => {
+    if (!confirm(`Delete the tax profile "${profile.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/tax-profiles/${profile.id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result?.error || 'Failed to delete tax profile')
+      }
+      toast.success('Tax profile deleted')
+      fetchProfiles()
+    } catch (error: any) {
+      console.error('Failed to delete tax profile:', error)
+      toast.error(error.message || 'Failed to delete tax profile')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="h-5 w-5" />
+          Tax Profiles
+        </CardTitle>
+        <CardDescription>
+          VAT rates for domestic customers; a customer without a profile of their own is taxed at the default.
+          Quotes keep the rate they were priced at.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="tax-name">Name</Label>
+            <Input
+              id="tax-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. PDV 17%"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tax-rate">Rate (%)</Label>
+            <Input
+              id="tax-rate"
+              type="number"
+              step="0.01"
+              min="0"
+              max="100"
+              value={form.rate}
+              onChange={(e) => setForm({ ...form, rate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tax-note">Note on quotes</Label>
+            <Input
+              id="tax-note"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Button onClick={handleSubmit} disabled={saving || !form.name.trim() || !form.rate}>
+              <Plus className="mr-2 h-4 w-4" />
+              {saving ? 'Saving...' : editing ? 'Save Profile' : 'Add Profile'}
+            </Button>
+            {editing && (
+              <Button variant="outline" onClick={handleCancelEdit}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="tax-default"
+            checked={form.isDefault}
+            disabled={!!editing?.isDefault}
+            onCheckedChange={(checked) => setForm({ ...form, isDefault: checked })}
+          />
+          <Label htmlFor="tax-default" className="text-sm">Default profile</Label>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="loading-spinner"></div>
+          </div>
+        ) : profiles.length === 0 ? (
+          <div className="empty-state">
+            <Percent className="empty-state-icon" />
+            <h3 className="empty-state-title">No tax profiles</h3>
+            <p className="empty-state-description">
+              Add a profile before quoting domestic customers
+            </p>
+          </div>
+        ) : (
+          <div className="data-table-wrapper">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>Customers</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map(profile => (
+                  <TableRow key={profile.id}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {profile.name}
+                        {profile.isDefault && <Badge variant="secondary">Default</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{toPercent(profile.rate)}%</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{profile.note || '-'}</TableCell>
+                    <TableCell>{profile._count?.customers ?? 0}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={profile.isActive}
+                        disabled={profile.isDefault}
+                        onCheckedChange={(checked) => handleUpdate(profile, { isActive: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {!profile.isDefault && profile.isActive && (
+                        <Button variant="ghost" size="sm" title="Make default" onClick={() => handleUpdate(profile, { isDefault: true })}>
+                          <Star className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" title="Edit" onClick={() => handleEdit(profile)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {!profile.isDefault && (
+                        <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(profile)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="space-y-1 border-t pt-4 text-xs text-muted-foreground">
+          <p className="font-medium">Customers outside domestic VAT are quoted at 0% with the statutory wording:</p>
+          {(Object.keys(statutoryTaxNotes) as Array<keyof typeof statutoryTaxNotes>).map(treatment => (
+            <p key={treatment}>{taxTreatmentLabels[treatment]}: {statutoryTaxNotes[treatment]}</p>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
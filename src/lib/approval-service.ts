@@ -0,0 +1,410 @@
+import type { ApprovalType, UserRole } from '@prisma/client'
+import { db } from '@/lib/db/index'
+import { onApprovalRequired } from '@/lib/automation/hooks'
+import { AppError, AuthorizationError } from '@/types'
+
+// Cost calculations always need an approver; quotes and production orders
+// only when an active policy covers their amount
+export const DEFAULT_APPROVAL_STEPS: Partial<Record<ApprovalType, UserRole[]>> = {
+  COST_CALCULATION: ['MANAGER']
+}
+
+// What an approval chain is attached to
+export interface ApprovalSubject {
+  type: ApprovalType
+  id: string
+  amount: number
+  revisionId?: string // Cost calculation revision the chain decides on
+}
+
+export type ApprovalState = 'PENDING' | 'APPROVED' | 'REJECTED'
+
+// Approval status shown next to quotes and production orders
+export type ApprovalStatusSummary = ApprovalState | 'NOT_REQUIRED' | 'NOT_REQUESTED'
+
+const subjectField: Record<ApprovalType, 'costCalculationId' | 'quoteId' | 'productionOrderId'> = {
+  COST_CALCULATION: 'costCalculationId',
+  QUOTE: 'quoteId',
+  PRODUCTION_ORDER: 'productionOrderId'
+}
+
+const approvalSubjectLabel: Record<ApprovalType, string> = {
+  COST_CALCULATION: 'Cost calculation',
+  QUOTE: 'Quote',
+  PRODUCTION_ORDER: 'Production order'
+}
+
+type ChainStep = {
+  id: string
+  status: string
+  stepOrder: number
+  approverId: string
+  requiredRole: UserRole | null
+  revisionId?: string | null
+}
+
+/**
+ * Active policy for an amount: minAmount inclusive, maxAmount exclusive.
+ * When ranges overlap the one with the highest minAmount wins.
+ */
+export async function findApprovalPolicy(tx: any, type: ApprovalType, amount: number) {
+  return tx.approvalPolicy.findFirst({
+    where: {
+      type,
+      isActive: true,
+      minAmount: { lte: amount },
+      OR: [{ maxAmount: null }, { maxAmount: { gt: amount } }]
+    },
+    orderBy: { minAmount: 'desc' }
+  })
+}
+
+/**
+ * Whether a policy's [minAmount, maxAmount) range contains the amount
+ */
+export function policyCoversAmount(
+  policy: { minAmount: unknown; maxAmount: unknown },
+  amount: number
+): boolean {
+  return Number(policy.minAmount) <= amount &&
+    (policy.maxAmount === null || Number(policy.maxAmount) > amount)
+}
+
+/**
+ * Summarize approval for lists, given the active policies of the subject's
+ * type and its chain
+ */
+export function summarizeApproval(
+  policies: Array<{ minAmount: unknown; maxAmount: unknown; steps: UserRole[] }>,
+  amount: number,
+  chain: Array<{ status: string }>
+): ApprovalStatusSummary {
+  const state = getApprovalState(chain)
+  if (state) return state
+  return policies.some(policy => policy.steps.length > 0 && policyCoversAmount(policy, amount))
+    ? 'NOT_REQUESTED'
+    : 'NOT_REQUIRED'
+}
+
+/**
+ * Active user with the role and the fewest pending approvals. Users already
+ * on the chain are skipped while someone else holds the role; SUPERUSERs
+ * take the step when nobody has the role.
+ */
+async function pickApprover(tx: any, role: UserRole, excludeIds: string[]) {
+  const findCandidates = (roleToFind: UserRole) => tx.user.findMany({
+    where: { role: roleToFind, isActive: true },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      _count: { select: { approvals: { where: { status: 'PENDING' } } } }
+    }
+  })
+
+  let candidates = await findCandidates(role)
+  if (candidates.length === 0) {
+    candidates = await findCandidates('SUPERUSER')
+  }
+  if (candidates.length === 0) {
+    throw new AppError(`No active ${role} user to route the approval to`, 400)
+  }
+
+  const available = candidates.filter((candidate: any) => !excludeIds.includes(candidate.id))
+  const pool = available.length > 0 ? available : candidates
+  pool.sort((a: any, b: any) => a._count.approvals - b._count.approvals)
+
+  const { _count, ...approver } = pool[0]
+  return approver as { id: string; name: string; email: string }
+}
+
+/**
+ * Roles that have to approve the subject, in order; empty when it needs no
+ * approval
+ */
+export async function getRequiredApprovalSteps(tx: any, subject: ApprovalSubject) {
+  const policy = await findApprovalPolicy(tx, subject.type, subject.amount)
+  const roles: UserRole[] = policy?.steps?.length ? policy.steps : DEFAULT_APPROVAL_STEPS[subject.type] ?? []
+  return { policy, roles }
+}
+
+/**
+ * Steps of the subject's approval chain in order
+ */
+export async function getApprovalChain(tx: any, subject: Pick<ApprovalSubject, 'type' | 'id'>) {
+  return tx.approval.findMany({
+    where: { [subjectField[subject.type]]: subject.id },
+    orderBy: { stepOrder: 'asc' },
+    include: {
+      approver: { select: { id: true, name: true, email: true } }
+    }
+  })
+}
+
+/**
+ * Overall state of a chain, null when none was routed
+ */
+export function getApprovalState(chain: Array<{ status: string }>): ApprovalState | null {
+  if (chain.length === 0) return null
+  if (chain.some(step => step.status !== 'APPROVED' && step.status !== 'PENDING')) return 'REJECTED'
+  return chain.every(step => step.status === 'APPROVED') ? 'APPROVED' : 'PENDING'
+}
+
+/**
+ * Create the PENDING steps of the subject's approval chain, each routed to a
+ * specific approver. Returns the steps in order; empty when no approval is
+ * required.
+ */
+export async function routeApprovalChain(tx: any, subject: ApprovalSubject) {
+  const { policy, roles } = await getRequiredApprovalSteps(tx, subject)
+
+  const steps: any[] = []
+  for (let index = 0; index < roles.length; index++) {
+    const role = roles[index]
+    const approver = await pickApprover(tx, role, steps.map(step => step.approverId))
+    const step = await tx.approval.create({
+      data: {
+        type: subject.type,
+        status: 'PENDING',
+        stepOrder: index + 1,
+        requiredRole: role,
+        approverId: approver.id,
+        [subjectField[subject.type]]: subject.id,
+        revisionId: subject.revisionId ?? null,
+        policyId: policy?.id ?? null
+      },
+      include: {
+        approver: { select: { id: true, name: true, email: true } }
+      }
+    })
+    steps.push(step)
+  }
+
+  return steps
+}
+
+/**
+ * Ask for approval of a quote or production order: routes a fresh chain
+ * (replacing a rejected one) and notifies the first approver. `description`
+ * names the subject in the notification, e.g. "Quote QT-2025-001-R0".
+ */
+export async function requestApproval(subject: ApprovalSubject, description: string, userId: string) {
+  const label = approvalSubjectLabel[subject.type]
+
+  const steps = await db.$transaction(async (tx) => {
+    const { roles } = await getRequiredApprovalSteps(tx, subject)
+    if (roles.length === 0) {
+      throw new AppError(`${label} does not need approval`, 400)
+    }
+
+    const state = getApprovalState(await getApprovalChain(tx, subject))
+    if (state === 'PENDING') {
+      throw new AppError(`${label} is already waiting for approval`, 409)
+    }
+    if (state === 'APPROVED') {
+      throw new AppError(`${label} is already approved`, 409)
+    }
+    if (state === 'REJECTED') {
+      await tx.approval.deleteMany!({ where: { [subjectField[subject.type]]: subject.id } })
+    }
+
+    const steps = await routeApprovalChain(tx, subject)
+
+    await tx.notification.create({
+      data: {
+        type: 'APPROVAL_REQUIRED',
+        title: `${label} needs approval`,
+        message: `${description} requires your approval` +
+          (steps.length > 1 ? ` (step 1 of ${steps.length})` : ''),
+        userId: steps[0].approverId,
+        isRead: false,
+        readAt: null,
+        data: {
+          approvalId: steps[0].id,
+          relatedId: subject.id,
+          relatedType: subject.type
+        }
+      }
+    })
+
+    await tx.auditLog.create({
+      data: {
+        action: 'CREATE',
+        entity: 'APPROVAL',
+        entityId: subject.id,
+        userId,
+        inquiryId: null,
+        oldData: { state },
+        newData: { state: 'PENDING', steps: roles },
+        metadata: { type: subject.type, amount: subject.amount }
+      }
+    })
+
+    return steps
+  })
+
+  try {
+    await onApprovalRequired(steps[0].id, steps[0], subject.type, subject, userId)
+  } catch (hookError) {
+    console.error('Failed to run approval automation rules:', hookError)
+  }
+
+  return steps
+}
+
+/**
+ * Drop the subject's chain, e.g. when a draft quote changes after approval
+ */
+export async function resetApprovalChain(tx: any, subject: Pick<ApprovalSubject, 'type' | 'id'>) {
+  await tx.approval.deleteMany({ where: { [subjectField[subject.type]]: subject.id } })
+}
+
+/**
+ * Replace a cost calculation's chain when a new revision is submitted. Steps
+ * already decided stay on the revision they were about; pending ones go.
+ */
+export async function supersedeApprovalChain(tx: any, subject: Pick<ApprovalSubject, 'type' | 'id'>) {
+  const field = subjectField[subject.type]
+  await tx.approval.deleteMany({ where: { [field]: subject.id, status: 'PENDING' } })
+  await tx.approval.updateMany({
+    where: { [field]: subject.id, revisionId: { not: null } },
+    data: { [field]: null }
+  })
+  // Steps from before revisions existed have nothing to stay on
+  await tx.approval.deleteMany({ where: { [field]: subject.id } })
+}
+
+/**
+ * Throw unless the subject either needs no approval or its chain has been
+ * fully approved
+ */
+export async function assertApprovalGranted(tx: any, subject: ApprovalSubject, action: string) {
+  const { roles } = await getRequiredApprovalSteps(tx, subject)
+  if (roles.length === 0) return
+
+  const state = getApprovalState(await getApprovalChain(tx, subject))
+  if (state !== 'APPROVED') {
+    const label = approvalSubjectLabel[subject.type]
+    throw new AppError(
+      state === 'PENDING'
+        ? `${label} is still waiting for approval and cannot be ${action} yet`
+        : `${label} needs an approved approval request before it can be ${action}`,
+      409
+    )
+  }
+}
+
+/**
+ * The step waiting for a decision: the first PENDING one, provided nothing
+ * before it was rejected
+ */
+export function getCurrentApprovalStep<T extends ChainStep>(chain: T[]): T | null {
+  const ordered = [...chain].sort((a, b) => a.stepOrder - b.stepOrder)
+  for (const step of ordered) {
+    if (step.status === 'PENDING') return step
+    if (step.status !== 'APPROVED') return null
+  }
+  return null
+}
+
+/**
+ * Whether the user may decide the step: it has to be the current step and
+ * routed to them or to their role (SUPERUSER can always step in). Nobody
+ * approves two steps of the same chain.
+ */
+export function canActOnApprovalStep(
+  step: ChainStep,
+  chain: ChainStep[],
+  user: { id: string; role: UserRole }
+): boolean {
+  if (getCurrentApprovalStep(chain)?.id !== step.id) return false
+
+  const approvedEarlier = chain.some(other =>
+    other.stepOrder < step.stepOrder &&
+    other.status === 'APPROVED' &&
+    other.approverId === user.id
+  )
+  if (approvedEarlier) return false
+
+  return step.approverId === user.id ||
+    step.requiredRole === user.role ||
+    user.role === 'SUPERUSER'
+}
+
+/**
+ * Record a decision on the current step of the subject's chain. Rejection
+ * ends the chain and drops the steps after it. `chainComplete` is true once
+ * the last step is approved; otherwise `nextStep` is the step that is now
+ * waiting.
+ */
+export async function decideApprovalStep(
+  tx: any,
+  subject: ApprovalSubject,
+  decision: { status: 'APPROVED' | 'REJECTED'; comments?: string },
+  user: { id: string; role: UserRole }
+) {
+  let chain = await getApprovalChain(tx, subject)
+
+  // Calculations from before approval chains existed get one on first decision
+  if (chain.length === 0 && subject.type === 'COST_CALCULATION') {
+    chain = await routeApprovalChain(tx, subject)
+  }
+
+  const step = getCurrentApprovalStep<ChainStep>(chain)
+  if (!step) {
+    throw new AppError(`${approvalSubjectLabel[subject.type]} has no pending approval step`, 409)
+  }
+
+  if (!canActOnApprovalStep(step, chain, user)) {
+    throw new AuthorizationError(
+      `Approval step ${step.stepOrder} is waiting for ${step.requiredRole ?? 'another approver'}`
+    )
+  }
+
+  // The decision has to be about the figures the step was routed for
+  if (subject.revisionId && step.revisionId && step.revisionId !== subject.revisionId) {
+    throw new AppError(
+      `${approvalSubjectLabel[subject.type]} was revised after this approval was requested`,
+      409
+    )
+  }
+
+  const now = new Date()
+  const approval = await tx.approval.update({
+    where: { id: step.id },
+    data: {
+      status: decision.status,
+      comments: decision.comments,
+      approverId: user.id,
+      ...(decision.status === 'APPROVED' && { approvedAt: now })
+    },
+    include: {
+      approver: { select: { id: true, name: true, email: true } }
+    }
+  })
+
+  if (decision.status === 'REJECTED') {
+    await tx.approval.deleteMany({
+      where: {
+        [subjectField[subject.type]]: subject.id,
+        status: 'PENDING',
+        stepOrder: { gt: step.stepOrder }
+      }
+    })
+    return { approval, chainComplete: false, nextStep: null }
+  }
+
+  const nextStep = await tx.approval.findFirst({
+    where: {
+      [subjectField[subject.type]]: subject.id,
+      status: 'PENDING',
+      stepOrder: { gt: step.stepOrder }
+    },
+    orderBy: { stepOrder: 'asc' },
+    include: {
+      approver: { select: { id: true, name: true, email: true } }
+    }
+  })
+
+  return { approval, chainComplete: !nextStep, nextStep }
+}
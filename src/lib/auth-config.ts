@@ -17,7 +17,9 @@ export const PUBLIC_ROUTES = [
   '/',
   '/api/auth',
   '/api/uploadthing',
-  '/api/health'
+  '/api/health',
+  '/quote-response',
+  '/api/quote-response'
 ] as const
 
 // Protected route patterns
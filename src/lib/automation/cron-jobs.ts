@@ -1,4 +1,5 @@
 import { checkDeadlines } from './deadline-service'
+import { checkQuotes } from './quote-follow-up-service'
 
 // Simple in-memory job scheduler
 class CronJobManager {
@@ -61,6 +62,9 @@ export function initializeCronJobs() {
   // Check deadlines every 15 minutes
   cronManager.start('check-deadlines', '*/15 * * * *', checkDeadlines)
 
+  // Expire overdue quotes and send follow-up reminders every hour
+  cronManager.start('check-quotes', '0 * * * *', checkQuotes)
+
   // Add more cron jobs as needed
   // cronManager.start('cleanup-old-logs', '0 0 * * *', cleanupOldLogs)
   // cronManager.start('send-daily-reports', '0 9 * * *', sendDailyReports)
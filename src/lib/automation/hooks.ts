@@ -1,11 +1,11 @@
 import { automationEngine } from './engine'
 import { AutomationTrigger } from '@prisma/client'
-import { getAuthenticatedUser } from '@/utils/supabase/api-auth'
+
+// Hooks fire automation rules for domain events. Callers pass the acting
+// user's id; automated callers (cron, public links) omit it.
 
 // Hook to be called when inquiry is created
-export async function onInquiryCreated(inquiryId: string, inquiry: any) {
-  const user = await getAuthenticatedUser()
-  
+export async function onInquiryCreated(inquiryId: string, inquiry: any, userId?: string) {
   await automationEngine.executeRulesForTrigger({
     ruleId: '',
     trigger: AutomationTrigger.INQUIRY_CREATED,
@@ -20,7 +20,7 @@ export async function onInquiryCreated(inquiryId: string, inquiry: any) {
       createdById: inquiry.createdById,
       creatorName: inquiry.createdBy?.name
     },
-    userId: session?.user?.id
+    userId
   })
 }
 
@@ -29,10 +29,9 @@ export async function onInquiryStatusChanged(
   inquiryId: string, 
   oldStatus: string, 
   newStatus: string,
-  inquiry: any
+  inquiry: any,
+  userId?: string
 ) {
-  const user = await getAuthenticatedUser()
-  
   await automationEngine.executeRulesForTrigger({
     ruleId: '',
     trigger: AutomationTrigger.INQUIRY_STATUS_CHANGED,
@@ -47,7 +46,7 @@ export async function onInquiryStatusChanged(
       assignedToId: inquiry.assignedToId,
       assigneeName: inquiry.assignedTo?.name
     },
-    userId: session?.user?.id
+    userId
   })
 }
 
@@ -55,10 +54,9 @@ export async function onInquiryStatusChanged(
 export async function onItemAssigned(
   itemId: string,
   assignedToId: string,
-  item: any
+  item: any,
+  userId?: string
 ) {
-  const user = await getAuthenticatedUser()
-  
   await automationEngine.executeRulesForTrigger({
     ruleId: '',
     trigger: AutomationTrigger.ITEM_ASSIGNED,
@@ -72,17 +70,16 @@ export async function onItemAssigned(
       assigneeName: item.assignedTo?.name,
       assigneeEmail: item.assignedTo?.email
     },
-    userId: session?.user?.id
+    userId
   })
 }
 
 // Hook to be called when cost is calculated
 export async function onCostCalculated(
   costCalculationId: string,
-  calculation: any
+  calculation: any,
+  userId?: string
 ) {
-  const user = await getAuthenticatedUser()
-  
   await automationEngine.executeRulesForTrigger({
     ruleId: '',
     trigger: AutomationTrigger.COST_CALCULATED,
@@ -95,7 +92,7 @@ export async function onCostCalculated(
       calculatedById: calculation.calculatedById,
       calculatedByName: calculation.calculatedBy?.name
     },
-    userId: session?.user?.id
+    userId
   })
 }
 
@@ -104,10 +101,9 @@ export async function onApprovalRequired(
   approvalId: string,
   approval: any,
   entityType: string,
-  entity: any
+  entity: any,
+  userId?: string
 ) {
-  const user = await getAuthenticatedUser()
-  
   await automationEngine.executeRulesForTrigger({
     ruleId: '',
     trigger: AutomationTrigger.APPROVAL_REQUIRED,
@@ -120,14 +116,12 @@ export async function onApprovalRequired(
       approverName: approval.approver?.name,
       approverEmail: approval.approver?.email
     },
-    userId: session?.user?.id
+    userId
   })
 }
 
 // Hook to be called when quote is created
-export async function onQuoteCreated(quoteId: string, quote: any) {
-  const user = await getAuthenticatedUser()
-  
+export async function onQuoteCreated(quoteId: string, quote: any, userId?: string) {
   await automationEngine.executeRulesForTrigger({
     ruleId: '',
     trigger: AutomationTrigger.QUOTE_CREATED,
@@ -144,17 +138,16 @@ export async function onQuoteCreated(quoteId: string, quote: any) {
       createdById: quote.createdById,
       creatorName: quote.createdBy?.name
     },
-    userId: session?.user?.id
+    userId
   })
 }
 
 // Hook to be called when production order is created
 export async function onProductionOrderCreated(
   orderId: string,
-  order: any
+  order: any,
+  userId?: string
 ) {
-  const user = await getAuthenticatedUser()
-  
   await automationEngine.executeRulesForTrigger({
     ruleId: '',
     trigger: AutomationTrigger.PRODUCTION_ORDER_CREATED,
@@ -168,14 +161,12 @@ export async function onProductionOrderCreated(
       customerId: order.quote?.inquiry?.customerId,
       customerName: order.quote?.inquiry?.customer?.name
     },
-    userId: session?.user?.id
+    userId
   })
 }
 
 // Hook to check workload and trigger balancing if needed
-export async function checkWorkloadBalance(role: string) {
-  const user = await getAuthenticatedUser()
-  
+export async function checkWorkloadBalance(role: string, userId?: string) {
   await automationEngine.executeRulesForTrigger({
     ruleId: '',
     trigger: AutomationTrigger.WORKLOAD_THRESHOLD,
@@ -183,6 +174,6 @@ export async function checkWorkloadBalance(role: string) {
       role,
       checkTime: new Date().toISOString()
     },
-    userId: session?.user?.id
+    userId
   })
 }
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { db } from '@/lib/db/index'
+import { sendNotificationEmail } from '@/lib/email'
+import { formatQuoteRevision } from '@/lib/quote-service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_FOLLOW_UP_DAYS = [3, 7]
+
+/**
+ * Move SENT quotes whose validity has passed to EXPIRED
+ */
+export async function expireOverdueQuotes(): Promise<number> {
+  const now = new Date()
+
+  const overdueQuotes = await db.quote.findMany({
+    where: {
+      status: 'SENT',
+      isLatest: true,
+      validUntil: { lt: now }
+    },
+    include: {
+      inquiry: {
+        include: { customer: true }
+      }
+    }
+  }) as any[]
+
+  let expired = 0
+  for (const quote of overdueQuotes) {
+    try {
+      // The customer may have responded since the quote was read
+      const updated = await db.$transaction(async (tx) => {
+        const { count } = await tx.quote.updateMany!({
+          where: { id: quote.id, status: 'SENT' },
+          data: { status: 'EXPIRED' }
+        })
+        if (count !== 1) return false
+
+        await tx.auditLog.create({
+          data: {
+            action: 'UPDATE',
+            entity: 'QUOTE',
+            entityId: quote.id,
+            userId: null,
+            inquiryId: quote.inquiryId,
+            oldData: { status: quote.status },
+            newData: { status: 'EXPIRED' },
+            metadata: {
+              action: 'expired',
+              automated: true,
+              quoteNumber: formatQuoteRevision(quote),
+              validUntil: quote.validUntil
+            }
+          }
+        })
+        return true
+      })
+      if (!updated) continue
+      expired++
+
+      await db.notification.create({
+        data: {
+          userId: quote.createdById,
+          type: 'STATUS_UPDATE',
+          title: 'Quote Expired',
+          message: `Quote ${formatQuoteRevision(quote)} for ${quote.inquiry.customer.name} expired without a response`,
+          data: {
+            quoteId: quote.id,
+            relatedId: quote.id,
+            relatedType: 'QUOTE'
+          },
+          isRead: false,
+          readAt: null
+        }
+      })
+    } catch (error) {
+      console.error(`Error expiring quote ${quote.id}:`, error)
+    }
+  }
+
+  return expired
+}
+
+/**
+ * Remind quote creators about SENT quotes without a response. Each offset in
+ * `SystemSettings.quoteFollowUpDays` produces one reminder per revision.
+ */
+export async function sendQuoteFollowUps(): Promise<number> {
+  const settings = await db.systemSettings.findFirst()
+  const followUpDays = [...new Set(settings?.quoteFollowUpDays ?? DEFAULT_FOLLOW_UP_DAYS)]
+    .filter(days => days > 0)
+    .sort((a, b) => a - b)
+  const sendEmails = settings?.quoteFollowUpEmails ?? true
+
+  if (followUpDays.length === 0) return 0
+
+  const now = new Date()
+  const pendingQuotes = await db.quote.findMany({
+    where: {
+      status: 'SENT',
+      isLatest: true,
+      sentAt: { not: null },
+      validUntil: { gte: now },
+      followUpsSent: { lt: followUpDays.length }
+    },
+    include: {
+      createdBy: true,
+      inquiry: {
+        include: { customer: true }
+      }
+    }
+  }) as any[]
+
+  let remindersSent = 0
+
+  for (const quote of pendingQuotes) {
+    try {
+      const daysSinceSent = Math.floor((now.getTime() - new Date(quote.sentAt).getTime()) / DAY_MS)
+      const dueFollowUps = followUpDays.filter(days => days <= daysSinceSent).length
+
+      // Missed offsets (e.g. the job was down) collapse into a single reminder
+      if (dueFollowUps <= quote.followUpsSent) continue
+
+      await db.quote.update({
+        where: { id: quote.id },
+        data: { followUpsSent: dueFollowUps }
+      })
+
+      const quoteNumber = formatQuoteRevision(quote)
+
+      await db.notification.create({
+        data: {
+          userId: quote.createdById,
+          type: 'DEADLINE_REMINDER',
+          title: 'Quote Follow-up',
+          message: `Quote ${quoteNumber} for ${quote.inquiry.customer.name} was sent ${daysSinceSent} days ago with no response`,
+          data: {
+            quoteId: quote.id,
+            quoteNumber,
+            daysSinceSent,
+            relatedId: quote.id,
+            relatedType: 'QUOTE'
+          },
+          isRead: false,
+          readAt: null
+        }
+      })
+
+      if (sendEmails && quote.createdBy.email) {
+        await sendNotificationEmail('quote_follow_up', [quote.createdBy.email], {
+          salesPersonName: quote.createdBy.name,
+          quoteNumber,
+          quoteTitle: quote.title,
+          customerName: quote.inquiry.customer.name,
+          daysSinceSent,
+          validUntil: new Date(quote.validUntil)
+        })
+      }
+
+      remindersSent++
+    } catch (error) {
+      console.error(`Error sending follow-up for quote ${quote.id}:`, error)
+    }
+  }
+
+  return remindersSent
+}
+
+/**
+ * Cron entry point: expire first so expired quotes don't get reminders
+ */
+export async function checkQuotes(): Promise<void> {
+  const expired = await expireOverdueQuotes()
+  const reminders = await sendQuoteFollowUps()
+
+  if (expired > 0 || reminders > 0) {
+    console.log(`Quote check: ${expired} expired, ${reminders} follow-up reminders sent`)
+  }
+}
@@ -0,0 +1,118 @@
+import type { Currency, MaterialPriceUnit } from '@prisma/client'
+import type { CostMaterialLineInput } from '@/lib/validations'
+import type { EuroRates } from '@/lib/exchange-rate-service'
+import { roundMoney } from '@/lib/quote-service'
+import { AppError } from '@/types'
+
+// Rate that converts one unit of a currency into the main currency
+export type MaterialLineRates = Partial<Record<Currency, number>>
+
+// Bill of materials line ready to be persisted as a CostMaterialLine
+export interface PricedMaterialLine {
+  sortOrder: number
+  material: string
+  grade: string | null
+  dimensions: string | null
+  quantity: number
+  unit: string
+  unitPrice: number
+  currency: Currency
+  lineTotal: number
+  exchangeRate: number
+  supplier: string | null
+  materialId: string | null
+}
+
+// BOM unit for a catalog price unit
+export const materialPriceUnitLabels: Record<MaterialPriceUnit, string> = {
+  KG: 'kg',
+  M: 'm',
+  PIECE: 'pcs'
+}
+
+/**
+ * BOM line fields taken from a catalog material, priced at its current price
+ */
+export function materialLineFromCatalog(material: {
+  id: string
+  name: string
+  grade: string
+  dimensions: string | null
+  priceUnit: MaterialPriceUnit
+  currentPrice: number | string
+  currency: Currency
+  supplier: string | null
+}) {
+  return {
+    materialId: material.id,
+    material: material.name,
+    grade: material.grade,
+    dimensions: material.dimensions ?? '',
+    unit: materialPriceUnitLabels[material.priceUnit],
+    unitPrice: Number(material.currentPrice),
+    currency: material.currency,
+    supplier: material.supplier ?? ''
+  }
+}
+
+/**
+ * Conversion rates to the main currency from dated reference rates (units of
+ * each currency per 1 EUR, as returned by getExchangeRatesAsOf). Without a
+ * rate for the main currency only the main currency can be priced.
+ */
+export function getMaterialLineRates(mainCurrency: Currency, euroRates: EuroRates): MaterialLineRates {
+  const rates: MaterialLineRates = { [mainCurrency]: 1 }
+  const mainRate = mainCurrency === 'EUR' ? 1 : euroRates[mainCurrency]
+  if (!mainRate) return rates
+
+  for (const currency of ['EUR', ...Object.keys(euroRates)] as Currency[]) {
+    const rate = currency === 'EUR' ? 1 : euroRates[currency]
+    if (currency !== mainCurrency && rate) {
+      rates[currency] = mainRate / rate
+    }
+  }
+  return rates
+}
+
+/**
+ * Price each line in its own currency and record the rate used to bring it
+ * into the main currency
+ */
+export function priceMaterialLines(
+  lines: CostMaterialLineInput[],
+  rates: MaterialLineRates
+): PricedMaterialLine[] {
+  return lines.map((line, index) => {
+    const exchangeRate = rates[line.currency]
+    if (!exchangeRate) {
+      throw new AppError(`No exchange rate configured for ${line.currency}`, 400, 'MISSING_EXCHANGE_RATE')
+    }
+
+    return {
+      sortOrder: index,
+      material: line.material,
+      grade: line.grade || null,
+      dimensions: line.dimensions || null,
+      quantity: line.quantity,
+      unit: line.unit,
+      unitPrice: line.unitPrice,
+      currency: line.currency,
+      lineTotal: roundMoney(line.quantity * line.unitPrice),
+      exchangeRate,
+      supplier: line.supplier || null,
+      materialId: line.materialId ?? null
+    }
+  })
+}
+
+/**
+ * Material cost in the main currency: the sum of the converted line totals
+ */
+export function sumMaterialLines(
+  lines: Array<{ lineTotal: number | { toString(): string }; exchangeRate: number | { toString(): string } }>
+): number {
+  return roundMoney(lines.reduce(
+    (sum, line) => sum + Number(line.lineTotal) * Number(line.exchangeRate),
+    0
+  ))
+}
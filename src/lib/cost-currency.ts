@@ -0,0 +1,126 @@
+import { Currency, type Prisma } from '@prisma/client'
+import { convertWithEuroRates } from '@/lib/currency'
+
+/**
+ * Currencies of a cost calculation's components. Amounts are kept in the
+ * main currency; one entered in another currency also keeps its original
+ * amount and currency, so a quote in that currency can be priced from what
+ * was actually entered rather than converted there and back.
+ */
+
+type DecimalLike = number | Prisma.Decimal
+
+// Units of each currency per 1 EUR, as in ExchangeRate
+type EuroRates = Partial<Record<Currency, number>>
+
+export interface EnteredCostCurrencies {
+  materialCostCurrency?: Currency
+  laborCostCurrency?: Currency
+  overheadCostCurrency?: Currency
+  materialCostOriginal?: number
+  laborCostOriginal?: number
+  overheadCostOriginal?: number
+}
+
+export interface CostCurrencyFields {
+  materialCostCurrency: Currency
+  laborCostCurrency: Currency
+  overheadCostCurrency: Currency
+  materialCostOriginal: number | null
+  laborCostOriginal: number | null
+  overheadCostOriginal: number | null
+  materialCostRate: number | null
+  laborCostRate: number | null
+  overheadCostRate: number | null
+}
+
+export type StoredCostCurrencies = {
+  materialCost: DecimalLike
+  laborCost: DecimalLike
+  overheadCost: DecimalLike
+  totalCost: DecimalLike
+  materialCostCurrency: Currency
+  laborCostCurrency: Currency
+  overheadCostCurrency: Currency
+  materialCostOriginal: DecimalLike | null
+  laborCostOriginal: DecimalLike | null
+  overheadCostOriginal: DecimalLike | null
+}
+
+// The rate columns are Decimal(8, 6)
+const MAX_STORED_RATE = 99.999999
+
+function componentCurrency(
+  amount: number,
+  currency: Currency | undefined,
+  original: number | undefined,
+  derived: boolean,
+  mainCurrency: Currency
+) {
+  if (derived || !currency || currency === mainCurrency || !original || original <= 0) {
+    return { currency: mainCurrency, original: null, rate: null }
+  }
+  // Main-currency units per unit entered, as the amount was converted
+  const rate = Math.round(amount / original * 1e6) / 1e6
+  return { currency, original, rate: rate <= MAX_STORED_RATE ? rate : null }
+}
+
+/**
+ * Currency columns for a calculation being saved. Components derived from a
+ * bill of materials, routing or template are priced in the main currency,
+ * whatever was entered for them.
+ */
+export function costCurrencyFields(
+  amounts: { materialCost: number; laborCost: number; overheadCost: number },
+  entered: EnteredCostCurrencies,
+  derived: { materialCost: boolean; laborCost: boolean; overheadCost: boolean },
+  mainCurrency: Currency
+): CostCurrencyFields {
+  const material = componentCurrency(
+    amounts.materialCost, entered.materialCostCurrency, entered.materialCostOriginal, derived.materialCost, mainCurrency
+  )
+  const labor = componentCurrency(
+    amounts.laborCost, entered.laborCostCurrency, entered.laborCostOriginal, derived.laborCost, mainCurrency
+  )
+  const overhead = componentCurrency(
+    amounts.overheadCost, entered.overheadCostCurrency, entered.overheadCostOriginal, derived.overheadCost, mainCurrency
+  )
+
+  return {
+    materialCostCurrency: material.currency,
+    laborCostCurrency: labor.currency,
+    overheadCostCurrency: overhead.currency,
+    materialCostOriginal: material.original,
+    laborCostOriginal: labor.original,
+    overheadCostOriginal: overhead.original,
+    materialCostRate: material.rate,
+    laborCostRate: labor.rate,
+    overheadCostRate: overhead.rate
+  }
+}
+
+/**
+ * Total cost in `target` at the given dated rates. In the main currency this
+ * is the approved total as is; otherwise each component is converted from
+ * its original amount where it has one with a known rate, and from its
+ * main-currency amount where not.
+ */
+export function costInCurrency(
+  calculation: StoredCostCurrencies,
+  target: Currency,
+  mainCurrency: Currency,
+  rates: EuroRates
+): number {
+  if (target === mainCurrency) return Number(calculation.totalCost)
+
+  const component = (amount: DecimalLike, currency: Currency, original: DecimalLike | null) => {
+    const hasRate = currency === Currency.EUR || !!rates[currency]
+    return original !== null && currency !== mainCurrency && hasRate
+      ? convertWithEuroRates(Number(original), currency, target, rates)
+      : convertWithEuroRates(Number(amount), mainCurrency, target, rates)
+  }
+
+  return component(calculation.materialCost, calculation.materialCostCurrency, calculation.materialCostOriginal) +
+    component(calculation.laborCost, calculation.laborCostCurrency, calculation.laborCostOriginal) +
+    component(calculation.overheadCost, calculation.overheadCostCurrency, calculation.overheadCostOriginal)
+}
@@ -0,0 +1,291 @@
+import type { Currency } from '@prisma/client'
+import { db } from '@/lib/db/index'
+import { formatCurrency } from '@/lib/currency'
+import type { MaterialLineRates, PricedMaterialLine } from '@/lib/bom-service'
+import { findSimilarItems } from '@/lib/item-similarity'
+
+/**
+ * Statistical checks of a cost calculation before it goes to approval:
+ * cost per unit and labor/material ratio against approved calculations for
+ * similar items and by the same VP, cost per unit against earlier results of
+ * the same costing template, and BOM prices against the material catalog. Flags are advisory;
+ * they are stored with the revision and shown to approvers.
+ */
+
+export type CostOutlierCheck = 'UNIT_COST' | 'LABOR_MATERIAL_RATIO' | 'TEMPLATE' | 'CATALOG_PRICE'
+
+// A type rather than an interface so it can be stored as JSON
+export type CostOutlierFlag = {
+  check: CostOutlierCheck
+  message: string
+  value: number
+  expected: number
+}
+
+// Approved calculation the new one is compared with, per unit and in the
+// main currency
+export interface HistoricalCost {
+  templateId: string | null
+  materialCost: number
+  laborCost: number
+  totalCost: number
+}
+
+// Costs are per unit, as stored on the calculation
+export interface CostOutlierInput {
+  materialCost: number
+  laborCost: number
+  totalCost: number
+  templateId?: string | null
+  templateName?: string | null
+  materialLines: Array<Pick<PricedMaterialLine, 'material' | 'unitPrice' | 'currency' | 'materialId'>>
+}
+
+export interface CostOutlierHistory {
+  similar: HistoricalCost[]
+  sameVp: HistoricalCost[]
+  sameTemplate: HistoricalCost[]
+  catalog: Array<{ id: string; name: string; currentPrice: number; currency: Currency }>
+  mainCurrency: Currency
+  rates: MaterialLineRates
+}
+
+// History needed before its median says anything
+const MIN_HISTORY = 3
+// Robust z-score beyond which a figure is an outlier
+const Z_LIMIT = 3.5
+// Smallest spread assumed, in log10 units (about 20%), so a tight history
+// does not flag every ordinary change; with it, a figure off by a factor of
+// about two (such as BAM taken for EUR) still stands out
+const MIN_SPREAD = 0.075
+// Factor by which a BOM price may differ from the catalog
+const AGREEMENT_FACTOR = 1.5
+// Similar items compared with; weaker matches share little more than the unit
+const SIMILAR_LIMIT = 10
+const MIN_SIMILARITY = 0.5
+// Approved calculations searched, most recent first
+const CANDIDATE_LIMIT = 1000
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Robust z-score of a value against history, on a log scale so that ten
+ * times too much weighs as much as ten times too little. Null when there is
+ * not enough history to judge.
+ */
+export function logDeviation(value: number, history: number[]): { z: number; median: number } | null {
+  const logs = history.filter(entry => entry > 0).map(entry => Math.log10(entry))
+  if (value <= 0 || logs.length < MIN_HISTORY) return null
+
+  const center = median(logs)
+  // Median absolute deviation scaled to a standard deviation
+  const spread = Math.max(median(logs.map(entry => Math.abs(entry - center))) / 0.6745, MIN_SPREAD)
+  return { z: (Math.log10(value) - center) / spread, median: Math.pow(10, center) }
+}
+
+/**
+ * Data-entry mistake that would explain a figure being `factor` times what
+ * was expected: a misplaced decimal point or an amount in the wrong currency
+ */
+export function likelyCause(factor: number, rates: MaterialLineRates, mainCurrency: Currency): string | null {
+  const magnitude = Math.log10(factor)
+  const power = Math.round(magnitude)
+  if (power !== 0 && Math.abs(magnitude - power) < 0.05) {
+    return 'possibly a misplaced decimal point'
+  }
+
+  for (const currency of Object.keys(rates) as Currency[]) {
+    const rate = rates[currency]
+    if (currency === mainCurrency || !rate || rate === 1) continue
+    const rateMagnitude = Math.log10(rate)
+    // An amount in the other currency taken as the main one comes out 1/rate
+    // times too small, and the other way round rate times too large
+    if (Math.abs(magnitude + rateMagnitude) < 0.02) {
+      return `possibly an amount in ${currency} entered as ${mainCurrency}`
+    }
+    if (Math.abs(magnitude - rateMagnitude) < 0.02) {
+      return `possibly an amount in ${mainCurrency} entered as ${currency}`
+    }
+  }
+  return null
+}
+
+function describeFactor(factor: number): string {
+  return factor >= 1
+    ? `${factor.toFixed(1)} times higher than`
+    : `${(1 / factor).toFixed(1)} times lower than`
+}
+
+function withCause(message: string, factor: number, history: CostOutlierHistory): string {
+  const cause = likelyCause(factor, history.rates, history.mainCurrency)
+  return cause ? `${message}; ${cause}` : message
+}
+
+/**
+ * Flags for a calculation against the given history; empty when nothing
+ * stands out
+ */
+export function checkCostOutliers(input: CostOutlierInput, history: CostOutlierHistory): CostOutlierFlag[] {
+  const flags: CostOutlierFlag[] = []
+  const money = (amount: number) => formatCurrency(amount, history.mainCurrency)
+
+  const groups = [
+    { basis: 'similar items', costs: history.similar },
+    { basis: 'calculations by the same VP', costs: history.sameVp }
+  ]
+  // A template prices from its inputs, so a wrong input (mm for m, a
+  // misplaced decimal) shows against what the template usually produces
+  const unitCostGroups = [
+    ...groups.map(group => ({ ...group, check: 'UNIT_COST' as const })),
+    {
+      basis: `calculations from template "${input.templateName}"`,
+      costs: input.templateId ? history.sameTemplate : [],
+      check: 'TEMPLATE' as const
+    }
+  ]
+
+  const unitCost = input.totalCost
+  for (const { basis, costs, check } of unitCostGroups) {
+    const unitCosts = costs.map(cost => cost.totalCost)
+    const deviation = logDeviation(unitCost, unitCosts)
+    if (deviation && Math.abs(deviation.z) > Z_LIMIT) {
+      const factor = unitCost / deviation.median
+      flags.push({
+        check,
+        value: unitCost,
+        expected: deviation.median,
+        message: withCause(
+          `Cost per unit ${money(unitCost)} is ${describeFactor(factor)} the median of ${unitCosts.length} ${basis} (${money(deviation.median)})`,
+          factor,
+          history
+        )
+      })
+    }
+  }
+
+  // Only meaningful when the calculation has both labor and material
+  if (input.materialCost > 0 && input.laborCost > 0) {
+    const ratio = input.laborCost / input.materialCost
+    for (const { basis, costs } of groups) {
+      const deviation = logDeviation(
+        ratio,
+        costs.filter(cost => cost.materialCost > 0 && cost.laborCost > 0)
+          .map(cost => cost.laborCost / cost.materialCost)
+      )
+      if (deviation && Math.abs(deviation.z) > Z_LIMIT) {
+        const factor = ratio / deviation.median
+        flags.push({
+          check: 'LABOR_MATERIAL_RATIO',
+          value: ratio,
+          expected: deviation.median,
+          message: withCause(
+            `Labor/material ratio ${ratio.toFixed(2)} is ${describeFactor(factor)} usual for ${basis} (${deviation.median.toFixed(2)})`,
+            factor,
+            history
+          )
+        })
+      }
+    }
+  }
+
+  for (const line of input.materialLines) {
+    const material = line.materialId ? history.catalog.find(entry => entry.id === line.materialId) : undefined
+    const lineRate = history.rates[line.currency]
+    const catalogRate = material && history.rates[material.currency]
+    if (!material || !lineRate || !catalogRate || material.currentPrice <= 0 || line.unitPrice <= 0) continue
+
+    // Both prices in the main currency
+    const entered = line.unitPrice * lineRate
+    const catalog = material.currentPrice * catalogRate
+    const factor = entered / catalog
+    if (factor > AGREEMENT_FACTOR || factor < 1 / AGREEMENT_FACTOR) {
+      flags.push({
+        check: 'CATALOG_PRICE',
+        value: entered,
+        expected: catalog,
+        message: withCause(
+          `Unit price of ${line.material} ${money(entered)} is ${describeFactor(factor)} the catalog price (${money(catalog)})`,
+          factor,
+          history
+        )
+      })
+    }
+  }
+
+  return flags
+}
+
+/**
+ * Run the checks for a calculation of an inquiry item against approved
+ * calculations of other items
+ */
+export async function findCostOutliers(
+  item: { id: string; name: string; description?: string | null; unit?: string | null; quantity: number },
+  calculatedById: string,
+  input: CostOutlierInput,
+  settings: { mainCurrency: Currency; rates: MaterialLineRates }
+): Promise<CostOutlierFlag[]> {
+  const calculations = await db.costCalculation.findMany({
+    where: { isApproved: true, inquiryItemId: { not: item.id } },
+    select: {
+      id: true,
+      materialCost: true,
+      laborCost: true,
+      totalCost: true,
+      calculatedById: true,
+      templateId: true,
+      inquiryItem: {
+        select: { name: true, description: true, unit: true, quantity: true }
+      }
+    },
+    orderBy: { approvedAt: 'desc' },
+    take: CANDIDATE_LIMIT
+  }) as any[]
+
+  const toHistorical = (calculation: any): HistoricalCost => ({
+    templateId: calculation.templateId,
+    materialCost: Number(calculation.materialCost),
+    laborCost: Number(calculation.laborCost),
+    totalCost: Number(calculation.totalCost)
+  })
+
+  const similar = findSimilarItems(
+    item,
+    calculations.map(calculation => ({ id: calculation.id, ...calculation.inquiryItem })),
+    SIMILAR_LIMIT
+  ).filter(match => match.score >= MIN_SIMILARITY)
+
+  const materialIds = input.materialLines
+    .map(line => line.materialId)
+    .filter((id): id is string => !!id)
+  const catalog = materialIds.length > 0
+    ? await db.material.findMany({
+        where: { id: { in: materialIds } },
+        select: { id: true, name: true, currentPrice: true, currency: true }
+      })
+    : []
+
+  return checkCostOutliers(input, {
+    similar: similar.map(match => toHistorical(calculations.find(calculation => calculation.id === match.id))),
+    sameVp: calculations.filter(calculation => calculation.calculatedById === calculatedById).map(toHistorical),
+    sameTemplate: input.templateId
+      ? calculations.filter(calculation => calculation.templateId === input.templateId).map(toHistorical)
+      : [],
+    catalog: catalog.map((material: any) => ({ ...material, currentPrice: Number(material.currentPrice) })),
+    mainCurrency: settings.mainCurrency,
+    rates: settings.rates
+  })
+}
+
+/**
+ * One line for notifications, e.g. "2 cost checks flagged: ..."
+ */
+export function summarizeCostOutliers(flags: CostOutlierFlag[]): string {
+  if (flags.length === 0) return ''
+  return `${flags.length} cost ${flags.length === 1 ? 'check' : 'checks'} flagged: ` +
+    flags.map(flag => flag.message).join('. ')
+}
@@ -0,0 +1,218 @@
+import type { Currency } from '@prisma/client'
+import type { MaterialLineRates, PricedMaterialLine } from '@/lib/bom-service'
+import type { PricedRoutingStep } from '@/lib/routing-service'
+import type { CostOutlierFlag } from '@/lib/cost-outlier-service'
+
+// Revision as returned by the API; amounts may arrive as Decimal strings
+export interface CostRevision {
+  id: string
+  revision: number
+  materialCost: number | string
+  laborCost: number | string
+  overheadCost: number | string
+  totalCost: number | string
+  notes: string | null
+  materialLines: RevisionMaterialLine[]
+  routingSteps: RevisionRoutingStep[]
+  templateName: string | null
+  templateInputs: Record<string, number> | null
+  mainCurrency: Currency
+  exchangeRates: MaterialLineRates
+  outlierFlags?: CostOutlierFlag[] | null
+  createdAt: string | Date
+  createdBy?: { id: string; name: string }
+}
+
+export type RevisionMaterialLine = Omit<PricedMaterialLine, 'sortOrder' | 'materialId'>
+export type RevisionRoutingStep = Omit<PricedRoutingStep, 'sortOrder' | 'operationId'>
+
+export interface FieldChange {
+  field: string
+  label: string
+  from: string | number | null
+  to: string | number | null
+}
+
+export interface LineChange<T> {
+  key: string
+  from: T | null // null when the line was added
+  to: T | null   // null when the line was removed
+}
+
+export interface CostRevisionDiff {
+  fields: FieldChange[]
+  materialLines: LineChange<RevisionMaterialLine>[]
+  routingSteps: LineChange<RevisionRoutingStep>[]
+}
+
+/**
+ * Data for the next revision of a calculation, from the figures as they are
+ * about to be saved
+ */
+export function buildCostRevision(input: {
+  costCalculationId: string
+  revision: number
+  createdById: string
+  materialCost: number
+  laborCost: number
+  overheadCost: number
+  totalCost: number
+  notes?: string | null
+  materialLines: Array<RevisionMaterialLine & Partial<Pick<PricedMaterialLine, 'sortOrder' | 'materialId'>>>
+  routingSteps: Array<RevisionRoutingStep & Partial<Pick<PricedRoutingStep, 'sortOrder' | 'operationId'>>>
+  templateName?: string | null
+  templateInputs?: Record<string, number> | null
+  mainCurrency: Currency
+  exchangeRates: MaterialLineRates
+  outlierFlags?: CostOutlierFlag[]
+}) {
+  return {
+    costCalculationId: input.costCalculationId,
+    revision: input.revision,
+    createdById: input.createdById,
+    materialCost: input.materialCost,
+    laborCost: input.laborCost,
+    overheadCost: input.overheadCost,
+    totalCost: input.totalCost,
+    notes: input.notes ?? null,
+    materialLines: input.materialLines.map(line => ({
+      material: line.material,
+      grade: line.grade,
+      dimensions: line.dimensions,
+      quantity: Number(line.quantity),
+      unit: line.unit,
+      unitPrice: Number(line.unitPrice),
+      currency: line.currency,
+      lineTotal: Number(line.lineTotal),
+      exchangeRate: Number(line.exchangeRate),
+      supplier: line.supplier
+    })),
+    routingSteps: input.routingSteps.map(step => ({
+      operationName: step.operationName,
+      setupMinutes: Number(step.setupMinutes),
+      minutesPerPiece: Number(step.minutesPerPiece),
+      quantity: step.quantity,
+      hourlyRate: Number(step.hourlyRate),
+      lineTotal: Number(step.lineTotal)
+    })),
+    templateName: input.templateName ?? null,
+    templateInputs: input.templateInputs ?? undefined,
+    mainCurrency: input.mainCurrency,
+    exchangeRates: input.exchangeRates,
+    outlierFlags: input.outlierFlags?.length ? input.outlierFlags : undefined
+  }
+}
+
+const amountFields = [
+  { field: 'materialCost', label: 'Material cost' },
+  { field: 'laborCost', label: 'Labor cost' },
+  { field: 'overheadCost', label: 'Overhead cost' },
+  { field: 'totalCost', label: 'Total cost' }
+] as const
+
+// Keys of both records, in order of first appearance
+function allKeys(a: object, b: object): string[] {
+  const keys = Object.keys(a)
+  return keys.concat(Object.keys(b).filter(key => !keys.includes(key)))
+}
+
+// Template variable names are user input, so only own keys count
+function ownValue<T>(record: Record<string, T>, key: string): T | null {
+  return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : null
+}
+
+// Lines are matched by what they are; repeats of the same line pair up in order
+function diffLines<T>(
+  from: T[],
+  to: T[],
+  keyOf: (line: T) => string,
+  compare: Array<keyof T>
+): LineChange<T>[] {
+  const keyed = (lines: T[]) => {
+    const seen = new Map<string, number>()
+    return lines.map(line => {
+      const key = keyOf(line)
+      const occurrence = (seen.get(key) ?? 0) + 1
+      seen.set(key, occurrence)
+      return { key: occurrence > 1 ? `${key} #${occurrence}` : key, line }
+    })
+  }
+  const before = keyed(from)
+  const after = keyed(to)
+
+  const changes: LineChange<T>[] = []
+  for (const { key, line } of after) {
+    const previous = before.find(candidate => candidate.key === key)
+    if (!previous) {
+      changes.push({ key, from: null, to: line })
+    } else if (compare.some(field => String(previous.line[field]) !== String(line[field]))) {
+      changes.push({ key, from: previous.line, to: line })
+    }
+  }
+  for (const { key, line } of before) {
+    if (!after.some(candidate => candidate.key === key)) {
+      changes.push({ key, from: line, to: null })
+    }
+  }
+  return changes
+}
+
+/**
+ * What changed from one revision to another: amounts, notes, template inputs,
+ * exchange rates and the individual BOM lines and routing steps
+ */
+export function diffCostRevisions(from: CostRevision, to: CostRevision): CostRevisionDiff {
+  const fields: FieldChange[] = []
+
+  for (const { field, label } of amountFields) {
+    if (Number(from[field]) !== Number(to[field])) {
+      fields.push({ field, label, from: Number(from[field]), to: Number(to[field]) })
+    }
+  }
+
+  if ((from.notes ?? '') !== (to.notes ?? '')) {
+    fields.push({ field: 'notes', label: 'Notes', from: from.notes, to: to.notes })
+  }
+
+  if (from.templateName !== to.templateName) {
+    fields.push({ field: 'template', label: 'Template', from: from.templateName, to: to.templateName })
+  }
+
+  const fromInputs = from.templateInputs ?? {}
+  const toInputs = to.templateInputs ?? {}
+  for (const name of allKeys(fromInputs, toInputs)) {
+    const before = ownValue(fromInputs, name)
+    const after = ownValue(toInputs, name)
+    if (before !== after) {
+      fields.push({ field: `templateInputs.${name}`, label: name, from: before, to: after })
+    }
+  }
+
+  if (from.mainCurrency !== to.mainCurrency) {
+    fields.push({ field: 'mainCurrency', label: 'Main currency', from: from.mainCurrency, to: to.mainCurrency })
+  }
+
+  for (const currency of allKeys(from.exchangeRates, to.exchangeRates)) {
+    const before = ownValue(from.exchangeRates as Record<string, number>, currency)
+    const after = ownValue(to.exchangeRates as Record<string, number>, currency)
+    if (before !== after) {
+      fields.push({ field: `exchangeRates.${currency}`, label: `${currency} rate`, from: before, to: after })
+    }
+  }
+
+  return {
+    fields,
+    materialLines: diffLines(
+      from.materialLines,
+      to.materialLines,
+      line => [line.material, line.grade, line.dimensions].filter(Boolean).join(' '),
+      ['quantity', 'unit', 'unitPrice', 'currency', 'lineTotal', 'supplier']
+    ),
+    routingSteps: diffLines(
+      from.routingSteps,
+      to.routingSteps,
+      step => step.operationName,
+      ['setupMinutes', 'minutesPerPiece', 'quantity', 'hourlyRate', 'lineTotal']
+    )
+  }
+}
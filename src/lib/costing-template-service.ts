@@ -0,0 +1,141 @@
+import { db, database } from '@/lib/db/index'
+import type { CostingTemplate } from '@prisma/client'
+import type { CostingTemplateVariable } from '@/lib/validations'
+import { getMaterialLineRates } from '@/lib/bom-service'
+import { getExchangeRatesAsOf } from '@/lib/exchange-rate-service'
+import { roundMoney } from '@/lib/quote-service'
+import { collectReferences, evaluateFormula, FormulaError, parseFormula, type FormulaReferences, type FormulaScope } from '@/lib/formula'
+import { AppError } from '@/types'
+
+export interface TemplateCosts {
+  materialCost: number
+  laborCost: number
+  overheadCost: number
+  totalCost: number
+  inputs: Record<string, number>
+}
+
+/**
+ * Fill defaults and check every variable against its range
+ */
+export function resolveTemplateInputs(
+  variables: CostingTemplateVariable[],
+  inputs: Record<string, number>
+): Record<string, number> {
+  const resolved: Record<string, number> = {}
+
+  for (const variable of variables) {
+    const value = Object.prototype.hasOwnProperty.call(inputs, variable.name)
+      ? inputs[variable.name]
+      : variable.defaultValue
+    if (value === undefined || !isFinite(value)) {
+      throw new AppError(`${variable.label} is required`, 400, 'INVALID_TEMPLATE_INPUT')
+    }
+    if (variable.min !== undefined && value < variable.min) {
+      throw new AppError(`${variable.label} must be at least ${variable.min}`, 400, 'INVALID_TEMPLATE_INPUT')
+    }
+    if (variable.max !== undefined && value > variable.max) {
+      throw new AppError(`${variable.label} must be at most ${variable.max}`, 400, 'INVALID_TEMPLATE_INPUT')
+    }
+    resolved[variable.name] = value
+  }
+
+  return resolved
+}
+
+function evaluate(label: string, formula: string, scope: FormulaScope): number {
+  try {
+    const value = evaluateFormula(parseFormula(formula), scope)
+    if (value < 0) {
+      throw new FormulaError('result is negative')
+    }
+    return roundMoney(value)
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      throw new AppError(`${label} formula: ${error.message}`, 400, 'FORMULA_ERROR')
+    }
+    throw error
+  }
+}
+
+/**
+ * Evaluate a template's formulas for the given inputs. Catalog prices are
+ * converted to the main currency with the configured exchange rates.
+ */
+export async function evaluateCostingTemplate(
+  template: Pick<CostingTemplate, 'variables' | 'materialFormula' | 'laborFormula' | 'overheadFormula'>,
+  inputs: Record<string, number>
+): Promise<TemplateCosts> {
+  const variables = resolveTemplateInputs(template.variables as CostingTemplateVariable[], inputs)
+
+  const references: FormulaReferences = { variables: [], materials: [], operations: [] }
+  try {
+    for (const formula of [template.materialFormula, template.laborFormula, template.overheadFormula]) {
+      collectReferences(parseFormula(formula), references)
+    }
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      throw new AppError(`Template formula: ${error.message}`, 400, 'FORMULA_ERROR')
+    }
+    throw error
+  }
+
+  const [materials, operations, settings, asOf] = await Promise.all([
+    references.materials.length
+      ? db.material.findMany({ where: { code: { in: references.materials } } })
+      : Promise.resolve([]),
+    references.operations.length
+      ? db.laborOperation.findMany({ where: { code: { in: references.operations } } })
+      : Promise.resolve([]),
+    database.getSystemSettings(),
+    getExchangeRatesAsOf(new Date())
+  ])
+  const rates = getMaterialLineRates(settings.mainCurrency, asOf.rates)
+
+  const scope: FormulaScope = { variables, materials: {}, operations: {} }
+  for (const material of materials) {
+    const rate = rates[material.currency]
+    if (!rate) {
+      throw new AppError(`No exchange rate configured for ${material.currency}`, 400, 'MISSING_EXCHANGE_RATE')
+    }
+    scope.materials[material.code] = {
+      price: Number(material.currentPrice) * rate,
+      density: material.density !== null ? Number(material.density) : null
+    }
+  }
+  for (const operation of operations) {
+    scope.operations[operation.code] = Number(operation.hourlyRate)
+  }
+
+  const materialCost = evaluate('Material', template.materialFormula, scope)
+  const laborCost = evaluate('Labor', template.laborFormula, scope)
+  const overheadCost = evaluate('Overhead', template.overheadFormula, {
+    ...scope,
+    variables: { ...variables, material: materialCost, labor: laborCost }
+  })
+
+  return {
+    materialCost,
+    laborCost,
+    overheadCost,
+    totalCost: roundMoney(materialCost + laborCost + overheadCost),
+    inputs: variables
+  }
+}
+
+/**
+ * Load a template for a cost calculation and evaluate it. Inactive templates
+ * only serve calculations that already use them.
+ */
+export async function costFromTemplate(
+  templateId: string,
+  inputs: Record<string, number>,
+  currentTemplateId?: string | null
+): Promise<TemplateCosts & { templateName: string }> {
+  const template = await db.costingTemplate.findUnique({ where: { id: templateId } })
+  if (!template || (!template.isActive && template.id !== currentTemplateId)) {
+    throw new AppError('Costing template not found', 400, 'UNKNOWN_TEMPLATE')
+  }
+  const costs = await evaluateCostingTemplate(template, inputs)
+  return { ...costs, templateName: template.name }
+}
@@ -1,4 +1,5 @@
 import { Currency } from '@prisma/client'
+import { toRateDate } from '@/lib/exchange-rate-parser'
 
 /**
  * Currency formatting utilities for the application
@@ -144,15 +145,64 @@ export function getSystemSettingsSync() {
   }
 }
 
+// Dated reference rates already fetched, by YYYY-MM-DD. Entries expire like
+// the settings cache, since a rate imported later can change a past date.
+const historicalRatesCache = new Map<string, { rates: Partial<Record<Currency, number>>; timestamp: number }>()
+
+/**
+ * Reference rates (units of each currency per 1 EUR) in force on a date
+ */
+async function getHistoricalRates(date: string): Promise<Partial<Record<Currency, number>>> {
+  const cached = historicalRatesCache.get(date)
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.rates
+  }
+
+  const response = await fetch(`/api/exchange-rates?date=${date}`, {
+    credentials: 'include'
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to fetch exchange rates for ${date}`)
+  }
+  const data = await response.json()
+  historicalRatesCache.set(date, { rates: data.rates, timestamp: Date.now() })
+  return data.rates
+}
+
+/**
+ * Convert with reference rates given as units of each currency per 1 EUR
+ */
+export function convertWithEuroRates(
+  amount: number,
+  from: Currency,
+  to: Currency,
+  rates: Partial<Record<Currency, number>>
+): number {
+  if (from === to) return amount
+
+  const fromRate = from === Currency.EUR ? 1 : rates[from]
+  const toRate = to === Currency.EUR ? 1 : rates[to]
+  if (!fromRate || !toRate) {
+    throw new Error(`Unsupported currency conversion: ${from} to ${to}`)
+  }
+  return amount / fromRate * toRate
+}
+
 /**
- * Convert amount from one currency to another using system settings
+ * Convert amount from one currency to another using system settings, or
+ * with `asOf` at the dated rates in force on that day
  */
 export async function convertCurrency(
   amount: number,
   from: Currency,
-  to: Currency
+  to: Currency,
+  asOf?: Date | string
 ): Promise<number> {
   if (from === to) return amount
+
+  if (asOf) {
+    return convertWithEuroRates(amount, from, to, await getHistoricalRates(toRateDate(asOf)))
+  }
   
   const settings = await getSystemSettings()
   
@@ -41,17 +41,125 @@ export function createExtendedPrismaOperations(prisma: PrismaClient): ExtendedDa
       findMany: (args) => prisma.costCalculation.findMany(args),
       create: (args) => prisma.costCalculation.create(args),
       update: (args) => prisma.costCalculation.update(args),
+      updateMany: (args) => prisma.costCalculation.updateMany(args),
       delete: (args) => prisma.costCalculation.delete(args),
       count: (args) => prisma.costCalculation.count(args)
     },
     
     approval: {
       findUnique: (args) => prisma.approval.findUnique(args),
+      findFirst: (args) => prisma.approval.findFirst(args),
       findMany: (args) => prisma.approval.findMany(args),
       create: (args) => prisma.approval.create(args),
       update: (args) => prisma.approval.update(args),
       delete: (args) => prisma.approval.delete(args),
-      count: (args) => prisma.approval.count(args)
+      count: (args) => prisma.approval.count(args),
+      updateMany: (args) => prisma.approval.updateMany(args),
+      deleteMany: (args) => prisma.approval.deleteMany(args)
+    },
+    
+    material: {
+      findUnique: (args) => prisma.material.findUnique(args),
+      findFirst: (args) => prisma.material.findFirst(args),
+      findMany: (args) => prisma.material.findMany(args),
+      create: (args) => prisma.material.create(args),
+      update: (args) => prisma.material.update(args),
+      delete: (args) => prisma.material.delete(args),
+      count: (args) => prisma.material.count(args)
+    },
+    materialPrice: {
+      findUnique: (args) => prisma.materialPrice.findUnique(args),
+      findFirst: (args) => prisma.materialPrice.findFirst(args),
+      findMany: (args) => prisma.materialPrice.findMany(args),
+      create: (args) => prisma.materialPrice.create(args),
+      update: (args) => prisma.materialPrice.update(args),
+      delete: (args) => prisma.materialPrice.delete(args),
+      count: (args) => prisma.materialPrice.count(args)
+    },
+    laborOperation: {
+      findUnique: (args) => prisma.laborOperation.findUnique(args),
+      findFirst: (args) => prisma.laborOperation.findFirst(args),
+      findMany: (args) => prisma.laborOperation.findMany(args),
+      create: (args) => prisma.laborOperation.create(args),
+      update: (args) => prisma.laborOperation.update(args),
+      delete: (args) => prisma.laborOperation.delete(args),
+      count: (args) => prisma.laborOperation.count(args)
+    },
+    costingTemplate: {
+      findUnique: (args) => prisma.costingTemplate.findUnique(args),
+      findFirst: (args) => prisma.costingTemplate.findFirst(args),
+      findMany: (args) => prisma.costingTemplate.findMany(args),
+      create: (args) => prisma.costingTemplate.create(args),
+      update: (args) => prisma.costingTemplate.update(args),
+      delete: (args) => prisma.costingTemplate.delete(args),
+      count: (args) => prisma.costingTemplate.count(args)
+    },
+    costCalculationRevision: {
+      findUnique: (args) => prisma.costCalculationRevision.findUnique(args),
+      findFirst: (args) => prisma.costCalculationRevision.findFirst(args),
+      findMany: (args) => prisma.costCalculationRevision.findMany(args),
+      create: (args) => prisma.costCalculationRevision.create(args),
+      update: (args) => prisma.costCalculationRevision.update(args),
+      delete: (args) => prisma.costCalculationRevision.delete(args),
+      count: (args) => prisma.costCalculationRevision.count(args)
+    },
+    exchangeRate: {
+      findUnique: (args) => prisma.exchangeRate.findUnique(args),
+      findFirst: (args) => prisma.exchangeRate.findFirst(args),
+      findMany: (args) => prisma.exchangeRate.findMany(args),
+      create: (args) => prisma.exchangeRate.create(args),
+      createMany: (args) => prisma.exchangeRate.createMany(args),
+      update: (args) => prisma.exchangeRate.update(args),
+      delete: (args) => prisma.exchangeRate.delete(args),
+      count: (args) => prisma.exchangeRate.count(args)
+    },
+    taxProfile: {
+      findUnique: (args) => prisma.taxProfile.findUnique(args),
+      findFirst: (args) => prisma.taxProfile.findFirst(args),
+      findMany: (args) => prisma.taxProfile.findMany(args),
+      create: (args) => prisma.taxProfile.create(args),
+      update: (args) => prisma.taxProfile.update(args),
+      updateMany: (args) => prisma.taxProfile.updateMany(args),
+      delete: (args) => prisma.taxProfile.delete(args),
+      count: (args) => prisma.taxProfile.count(args)
+    },
+    letterheadProfile: {
+      findUnique: (args) => prisma.letterheadProfile.findUnique(args),
+      findFirst: (args) => prisma.letterheadProfile.findFirst(args),
+      findMany: (args) => prisma.letterheadProfile.findMany(args),
+      create: (args) => prisma.letterheadProfile.create(args),
+      update: (args) => prisma.letterheadProfile.update(args),
+      delete: (args) => prisma.letterheadProfile.delete(args),
+      count: (args) => prisma.letterheadProfile.count(args),
+      updateMany: (args) => prisma.letterheadProfile.updateMany(args)
+    },
+    numberingSequence: {
+      findUnique: (args) => prisma.numberingSequence.findUnique(args),
+      findFirst: (args) => prisma.numberingSequence.findFirst(args),
+      findMany: (args) => prisma.numberingSequence.findMany(args),
+      create: (args) => prisma.numberingSequence.create(args),
+      update: (args) => prisma.numberingSequence.update(args),
+      delete: (args) => prisma.numberingSequence.delete(args),
+      count: (args) => prisma.numberingSequence.count(args)
+    },
+    numberingCounter: {
+      findUnique: (args) => prisma.numberingCounter.findUnique(args),
+      findFirst: (args) => prisma.numberingCounter.findFirst(args),
+      findMany: (args) => prisma.numberingCounter.findMany(args),
+      create: (args) => prisma.numberingCounter.create(args),
+      update: (args) => prisma.numberingCounter.update(args),
+      delete: (args) => prisma.numberingCounter.delete(args),
+      count: (args) => prisma.numberingCounter.count(args),
+      upsert: (args) => prisma.numberingCounter.upsert(args)
+    },
+    approvalPolicy: {
+      findUnique: (args) => prisma.approvalPolicy.findUnique(args),
+      findFirst: (args) => prisma.approvalPolicy.findFirst(args),
+      findMany: (args) => prisma.approvalPolicy.findMany(args),
+      create: (args) => prisma.approvalPolicy.create(args),
+      update: (args) => prisma.approvalPolicy.update(args),
+      delete: (args) => prisma.approvalPolicy.delete(args),
+      count: (args) => prisma.approvalPolicy.count(args)
     },
     
     quote: {
@@ -59,19 +167,44 @@ export function createExtendedPrismaOperations(prisma: PrismaClient): ExtendedDa
       findMany: (args) => prisma.quote.findMany(args),
       create: (args) => prisma.quote.create(args),
       update: (args) => prisma.quote.update(args),
+      updateMany: (args) => prisma.quote.updateMany(args),
       delete: (args) => prisma.quote.delete(args),
       count: (args) => prisma.quote.count(args)
     },
     
+    quoteLine: {
+      findUnique: (args) => prisma.quoteLine.findUnique(args),
+      findFirst: (args) => prisma.quoteLine.findFirst(args),
+      findMany: (args) => prisma.quoteLine.findMany(args),
+      create: (args) => prisma.quoteLine.create(args),
+      update: (args) => prisma.quoteLine.update(args),
+      delete: (args) => prisma.quoteLine.delete(args),
+      count: (args) => prisma.quoteLine.count(args),
+      deleteMany: (args) => prisma.quoteLine.deleteMany(args)
+    },
+    
     productionOrder: {
       findUnique: (args) => prisma.productionOrder.findUnique(args),
+      findFirst: (args) => prisma.productionOrder.findFirst(args),
       findMany: (args) => prisma.productionOrder.findMany(args),
       create: (args) => prisma.productionOrder.create(args),
       update: (args) => prisma.productionOrder.update(args),
+      updateMany: (args) => prisma.productionOrder.updateMany(args),
       delete: (args) => prisma.productionOrder.delete(args),
       count: (args) => prisma.productionOrder.count(args)
     },
     
+    productionItem: {
+      findUnique: (args) => prisma.productionItem.findUnique(args),
+      findFirst: (args) => prisma.productionItem.findFirst(args),
+      findMany: (args) => prisma.productionItem.findMany(args),
+      create: (args) => prisma.productionItem.create(args),
+      update: (args) => prisma.productionItem.update(args),
+      delete: (args) => prisma.productionItem.delete(args),
+      count: (args) => prisma.productionItem.count(args),
+      updateMany: (args) => prisma.productionItem.updateMany(args)
+    },
+    
     fileAttachment: {
       findUnique: (args) => prisma.fileAttachment.findUnique(args),
       findMany: (args) => prisma.fileAttachment.findMany(args),
@@ -98,6 +231,15 @@ export function createExtendedPrismaOperations(prisma: PrismaClient): ExtendedDa
       delete: (args) => prisma.itemAttachment.delete(args),
       count: (args) => prisma.itemAttachment.count(args)
     },
+    drawingAnalysis: {
+      findUnique: (args) => prisma.drawingAnalysis.findUnique(args),
+      findFirst: (args) => prisma.drawingAnalysis.findFirst(args),
+      findMany: (args) => prisma.drawingAnalysis.findMany(args),
+      create: (args) => prisma.drawingAnalysis.create(args),
+      update: (args) => prisma.drawingAnalysis.update(args),
+      delete: (args) => prisma.drawingAnalysis.delete(args),
+      count: (args) => prisma.drawingAnalysis.count(args)
+    },
     
     automationRule: {
       findUnique: (args) => prisma.automationRule.findUnique(args),
@@ -160,17 +302,125 @@ export function createExtendedTransactionOperations(tx: any): ExtendedDatabaseOp
       findMany: (args) => tx.costCalculation.findMany(args),
       create: (args) => tx.costCalculation.create(args),
       update: (args) => tx.costCalculation.update(args),
+      updateMany: (args) => tx.costCalculation.updateMany(args),
       delete: (args) => tx.costCalculation.delete(args),
       count: (args) => tx.costCalculation.count(args)
     },
     
     approval: {
       findUnique: (args) => tx.approval.findUnique(args),
+      findFirst: (args) => tx.approval.findFirst(args),
       findMany: (args) => tx.approval.findMany(args),
       create: (args) => tx.approval.create(args),
       update: (args) => tx.approval.update(args),
       delete: (args) => tx.approval.delete(args),
-      count: (args) => tx.approval.count(args)
+      count: (args) => tx.approval.count(args),
+      updateMany: (args) => tx.approval.updateMany(args),
+      deleteMany: (args) => tx.approval.deleteMany(args)
+    },
+    
+    material: {
+      findUnique: (args) => tx.material.findUnique(args),
+      findFirst: (args) => tx.material.findFirst(args),
+      findMany: (args) => tx.material.findMany(args),
+      create: (args) => tx.material.create(args),
+      update: (args) => tx.material.update(args),
+      delete: (args) => tx.material.delete(args),
+      count: (args) => tx.material.count(args)
+    },
+    materialPrice: {
+      findUnique: (args) => tx.materialPrice.findUnique(args),
+      findFirst: (args) => tx.materialPrice.findFirst(args),
+      findMany: (args) => tx.materialPrice.findMany(args),
+      create: (args) => tx.materialPrice.create(args),
+      update: (args) => tx.materialPrice.update(args),
+      delete: (args) => tx.materialPrice.delete(args),
+      count: (args) => tx.materialPrice.count(args)
+    },
+    laborOperation: {
+      findUnique: (args) => tx.laborOperation.findUnique(args),
+      findFirst: (args) => tx.laborOperation.findFirst(args),
+      findMany: (args) => tx.laborOperation.findMany(args),
+      create: (args) => tx.laborOperation.create(args),
+      update: (args) => tx.laborOperation.update(args),
+      delete: (args) => tx.laborOperation.delete(args),
+      count: (args) => tx.laborOperation.count(args)
+    },
+    costingTemplate: {
+      findUnique: (args) => tx.costingTemplate.findUnique(args),
+      findFirst: (args) => tx.costingTemplate.findFirst(args),
+      findMany: (args) => tx.costingTemplate.findMany(args),
+      create: (args) => tx.costingTemplate.create(args),
+      update: (args) => tx.costingTemplate.update(args),
+      delete: (args) => tx.costingTemplate.delete(args),
+      count: (args) => tx.costingTemplate.count(args)
+    },
+    costCalculationRevision: {
+      findUnique: (args) => tx.costCalculationRevision.findUnique(args),
+      findFirst: (args) => tx.costCalculationRevision.findFirst(args),
+      findMany: (args) => tx.costCalculationRevision.findMany(args),
+      create: (args) => tx.costCalculationRevision.create(args),
+      update: (args) => tx.costCalculationRevision.update(args),
+      delete: (args) => tx.costCalculationRevision.delete(args),
+      count: (args) => tx.costCalculationRevision.count(args)
+    },
+    exchangeRate: {
+      findUnique: (args) => tx.exchangeRate.findUnique(args),
+      findFirst: (args) => tx.exchangeRate.findFirst(args),
+      findMany: (args) => tx.exchangeRate.findMany(args),
+      create: (args) => tx.exchangeRate.create(args),
+      createMany: (args) => tx.exchangeRate.createMany(args),
+      update: (args) => tx.exchangeRate.update(args),
+      delete: (args) => tx.exchangeRate.delete(args),
+      count: (args) => tx.exchangeRate.count(args)
+    },
+    taxProfile: {
+      findUnique: (args) => tx.taxProfile.findUnique(args),
+      findFirst: (args) => tx.taxProfile.findFirst(args),
+      findMany: (args) => tx.taxProfile.findMany(args),
+      create: (args) => tx.taxProfile.create(args),
+      update: (args) => tx.taxProfile.update(args),
+      updateMany: (args) => tx.taxProfile.updateMany(args),
+      delete: (args) => tx.taxProfile.delete(args),
+      count: (args) => tx.taxProfile.count(args)
+    },
+    letterheadProfile: {
+      findUnique: (args) => tx.letterheadProfile.findUnique(args),
+      findFirst: (args) => tx.letterheadProfile.findFirst(args),
+      findMany: (args) => tx.letterheadProfile.findMany(args),
+      create: (args) => tx.letterheadProfile.create(args),
+      update: (args) => tx.letterheadProfile.update(args),
+      delete: (args) => tx.letterheadProfile.delete(args),
+      count: (args) => tx.letterheadProfile.count(args),
+      updateMany: (args) => tx.letterheadProfile.updateMany(args)
+    },
+    numberingSequence: {
+      findUnique: (args) => tx.numberingSequence.findUnique(args),
+      findFirst: (args) => tx.numberingSequence.findFirst(args),
+      findMany: (args) => tx.numberingSequence.findMany(args),
+      create: (args) => tx.numberingSequence.create(args),
+      update: (args) => tx.numberingSequence.update(args),
+      delete: (args) => tx.numberingSequence.delete(args),
+      count: (args) => tx.numberingSequence.count(args)
+    },
+    numberingCounter: {
+      findUnique: (args) => tx.numberingCounter.findUnique(args),
+      findFirst: (args) => tx.numberingCounter.findFirst(args),
+      findMany: (args) => tx.numberingCounter.findMany(args),
+      create: (args) => tx.numberingCounter.create(args),
+      update: (args) => tx.numberingCounter.update(args),
+      delete: (args) => tx.numberingCounter.delete(args),
+      count: (args) => tx.numberingCounter.count(args),
+      upsert: (args) => tx.numberingCounter.upsert(args)
+    },
+    approvalPolicy: {
+      findUnique: (args) => tx.approvalPolicy.findUnique(args),
+      findFirst: (args) => tx.approvalPolicy.findFirst(args),
+      findMany: (args) => tx.approvalPolicy.findMany(args),
+      create: (args) => tx.approvalPolicy.create(args),
+      update: (args) => tx.approvalPolicy.update(args),
+      delete: (args) => tx.approvalPolicy.delete(args),
+      count: (args) => tx.approvalPolicy.count(args)
     },
     
     quote: {
@@ -178,19 +428,44 @@ export function createExtendedTransactionOperations(tx: any): ExtendedDatabaseOp
       findMany: (args) => tx.quote.findMany(args),
       create: (args) => tx.quote.create(args),
       update: (args) => tx.quote.update(args),
+      updateMany: (args) => tx.quote.updateMany(args),
       delete: (args) => tx.quote.delete(args),
       count: (args) => tx.quote.count(args)
     },
     
+    quoteLine: {
+      findUnique: (args) => tx.quoteLine.findUnique(args),
+      findFirst: (args) => tx.quoteLine.findFirst(args),
+      findMany: (args) => tx.quoteLine.findMany(args),
+      create: (args) => tx.quoteLine.create(args),
+      update: (args) => tx.quoteLine.update(args),
+      delete: (args) => tx.quoteLine.delete(args),
+      count: (args) => tx.quoteLine.count(args),
+      deleteMany: (args) => tx.quoteLine.deleteMany(args)
+    },
+    
     productionOrder: {
       findUnique: (args) => tx.productionOrder.findUnique(args),
+      findFirst: (args) => tx.productionOrder.findFirst(args),
       findMany: (args) => tx.productionOrder.findMany(args),
       create: (args) => tx.productionOrder.create(args),
       update: (args) => tx.productionOrder.update(args),
+      updateMany: (args) => tx.productionOrder.updateMany(args),
       delete: (args) => tx.productionOrder.delete(args),
       count: (args) => tx.productionOrder.count(args)
     },
     
+    productionItem: {
+      findUnique: (args) => tx.productionItem.findUnique(args),
+      findFirst: (args) => tx.productionItem.findFirst(args),
+      findMany: (args) => tx.productionItem.findMany(args),
+      create: (args) => tx.productionItem.create(args),
+      update: (args) => tx.productionItem.update(args),
+      delete: (args) => tx.productionItem.delete(args),
+      count: (args) => tx.productionItem.count(args),
+      updateMany: (args) => tx.productionItem.updateMany(args)
+    },
+    
     fileAttachment: {
       findUnique: (args) => tx.fileAttachment.findUnique(args),
       findMany: (args) => tx.fileAttachment.findMany(args),
@@ -217,6 +492,15 @@ export function createExtendedTransactionOperations(tx: any): ExtendedDatabaseOp
       delete: (args) => tx.itemAttachment.delete(args),
       count: (args) => tx.itemAttachment.count(args)
     },
+    drawingAnalysis: {
+      findUnique: (args) => tx.drawingAnalysis.findUnique(args),
+      findFirst: (args) => tx.drawingAnalysis.findFirst(args),
+      findMany: (args) => tx.drawingAnalysis.findMany(args),
+      create: (args) => tx.drawingAnalysis.create(args),
+      update: (args) => tx.drawingAnalysis.update(args),
+      delete: (args) => tx.drawingAnalysis.delete(args),
+      count: (args) => tx.drawingAnalysis.count(args)
+    },
     
     automationRule: {
       findUnique: (args) => tx.automationRule.findUnique(args),
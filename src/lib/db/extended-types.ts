@@ -6,12 +6,26 @@ import type {
   Inquiry,
   InquiryItem,
   CostCalculation,
+  Material,
+  MaterialPrice,
+  LaborOperation,
+  CostingTemplate,
+  CostCalculationRevision,
+  ExchangeRate,
+  TaxProfile,
+  LetterheadProfile,
+  NumberingSequence,
+  NumberingCounter,
   Approval,
+  ApprovalPolicy,
   Quote,
+  QuoteLine,
   ProductionOrder,
+  ProductionItem,
   FileAttachment,
   InquiryAttachment,
   ItemAttachment,
+  DrawingAnalysis,
   AutomationRule,
   BusinessPartner,
   Prisma
@@ -23,12 +37,26 @@ export type {
   Inquiry,
   InquiryItem,
   CostCalculation,
+  Material,
+  MaterialPrice,
+  LaborOperation,
+  CostingTemplate,
+  CostCalculationRevision,
+  ExchangeRate,
+  TaxProfile,
+  LetterheadProfile,
+  NumberingSequence,
+  NumberingCounter,
   Approval,
+  ApprovalPolicy,
   Quote,
+  QuoteLine,
   ProductionOrder,
+  ProductionItem,
   FileAttachment,
   InquiryAttachment,
   ItemAttachment,
+  DrawingAnalysis,
   AutomationRule,
   BusinessPartner
 }
@@ -42,8 +70,10 @@ interface CrudOperations<T, CreateInput, UpdateInput> {
   update: (args: { where: any; data: UpdateInput; include?: any; select?: any }) => Promise<any>
   delete: (args: { where: any }) => Promise<T>
   count?: (args?: any) => Promise<number>
+  createMany?: (args: { data: CreateInput[]; skipDuplicates?: boolean }) => Promise<{ count: number }>
   updateMany?: (args: { where: any; data: UpdateInput }) => Promise<{ count: number }>
   deleteMany?: (args: { where: any }) => Promise<{ count: number }>
+  upsert?: (args: { where: any; create: CreateInput; update: UpdateInput; select?: any }) => Promise<any>
 }
 
 // Extended database operations
@@ -62,15 +92,52 @@ export interface ExtendedDatabaseOperations {
   // CostCalculation operations
   costCalculation: CrudOperations<CostCalculation, any, any>
   
+  // Material catalog operations
+  material: CrudOperations<Material, any, any>
+  materialPrice: CrudOperations<MaterialPrice, any, any>
+  
+  // LaborOperation operations
+  laborOperation: CrudOperations<LaborOperation, any, any>
+  
+  // CostingTemplate operations
+  costingTemplate: CrudOperations<CostingTemplate, any, any>
+
+  // CostCalculationRevision operations
+  costCalculationRevision: CrudOperations<CostCalculationRevision, any, any>
+
+  // ExchangeRate operations
+  exchangeRate: CrudOperations<ExchangeRate, any, any>
+
+  // TaxProfile operations
+  taxProfile: CrudOperations<TaxProfile, any, any>
+
+  // LetterheadProfile operations
+  letterheadProfile: CrudOperations<LetterheadProfile, any, any>
+
+  // NumberingSequence operations
+  numberingSequence: CrudOperations<NumberingSequence, any, any>
+
+  // NumberingCounter operations
+  numberingCounter: CrudOperations<NumberingCounter, any, any>
+  
   // Approval operations
   approval: CrudOperations<Approval, any, any>
   
+  // ApprovalPolicy operations
+  approvalPolicy: CrudOperations<ApprovalPolicy, any, any>
+  
   // Quote operations
   quote: CrudOperations<Quote, any, any>
   
+  // QuoteLine operations
+  quoteLine: CrudOperations<QuoteLine, any, any>
+  
   // ProductionOrder operations
   productionOrder: CrudOperations<ProductionOrder, any, any>
   
+  // ProductionItem operations
+  productionItem: CrudOperations<ProductionItem, any, any>
+  
   // FileAttachment operations
   fileAttachment: CrudOperations<FileAttachment, any, any>
   
@@ -80,6 +147,9 @@ export interface ExtendedDatabaseOperations {
   // ItemAttachment operations
   itemAttachment: CrudOperations<ItemAttachment, any, any>
   
+  // DrawingAnalysis operations
+  drawingAnalysis: CrudOperations<DrawingAnalysis, any, any>
+  
   // AutomationRule operations
   automationRule: CrudOperations<AutomationRule, any, any>
   
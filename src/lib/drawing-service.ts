@@ -0,0 +1,96 @@
+import { db } from '@/lib/db/index'
+import { storageProvider } from '@/lib/storage-provider'
+import { analyzeDxf, DxfParseError } from '@/lib/dxf-parser'
+import type { DrawingAnalysis, FileAttachment } from '@prisma/client'
+
+export interface ItemDrawing {
+  attachment: Pick<FileAttachment, 'id' | 'originalName' | 'uploadThingUrl' | 'createdAt'>
+  source: 'ITEM' | 'INQUIRY'
+  analysis: DrawingAnalysis
+}
+
+export function isDxfAttachment(file: { originalName: string; mimeType?: string }): boolean {
+  return file.originalName.toLowerCase().endsWith('.dxf') ||
+    ['image/vnd.dxf', 'application/dxf', 'image/x-dxf'].includes(file.mimeType ?? '')
+}
+
+/**
+ * Measure a DXF attachment and store the result. Unreadable drawings are
+ * stored with an error so they are not parsed again on every view.
+ */
+export async function analyzeAttachment(attachment: FileAttachment): Promise<DrawingAnalysis> {
+  let data: Record<string, unknown>
+  try {
+    const content = (await storageProvider.read(attachment)).toString('latin1')
+    const result = analyzeDxf(content)
+    data = {
+      width: result.boundingBox.width,
+      height: result.boundingBox.height,
+      netArea: result.netArea,
+      cutLength: result.cutLength,
+      pierceCount: result.pierceCount,
+      holeCount: result.holeCount,
+      entityCount: result.entityCount,
+      sourceUnits: result.sourceUnits,
+      warnings: result.warnings,
+      error: null
+    }
+  } catch (error) {
+    if (!(error instanceof DxfParseError)) {
+      console.error(`Failed to analyze drawing ${attachment.id}:`, error)
+    }
+    data = {
+      width: null,
+      height: null,
+      netArea: null,
+      cutLength: null,
+      pierceCount: null,
+      holeCount: null,
+      entityCount: null,
+      sourceUnits: null,
+      warnings: [],
+      error: error instanceof DxfParseError ? error.message : 'The drawing could not be read'
+    }
+  }
+
+  const existing = await db.drawingAnalysis.findUnique({ where: { attachmentId: attachment.id } })
+  if (existing) {
+    return db.drawingAnalysis.update({
+      where: { id: existing.id },
+      data: { ...data, analyzedAt: new Date() }
+    })
+  }
+  return db.drawingAnalysis.create({ data: { ...data, attachmentId: attachment.id } })
+}
+
+/**
+ * DXF drawings attached to an item or to its inquiry, analysed on first view
+ */
+export async function getItemDrawings(item: { id: string; inquiryId: string }): Promise<ItemDrawing[]> {
+  const include = { attachment: { include: { drawingAnalysis: true } } }
+  const [itemAttachments, inquiryAttachments] = await Promise.all([
+    db.itemAttachment.findMany({ where: { itemId: item.id }, include }),
+    db.inquiryAttachment.findMany({ where: { inquiryId: item.inquiryId }, include })
+  ]) as any[][]
+
+  const candidates = [
+    ...itemAttachments.map(link => ({ attachment: link.attachment, source: 'ITEM' as const })),
+    ...inquiryAttachments.map(link => ({ attachment: link.attachment, source: 'INQUIRY' as const }))
+  ].filter(candidate => isDxfAttachment(candidate.attachment))
+
+  const drawings: ItemDrawing[] = []
+  for (const { attachment, source } of candidates) {
+    const analysis = attachment.drawingAnalysis ?? await analyzeAttachment(attachment)
+    drawings.push({
+      attachment: {
+        id: attachment.id,
+        originalName: attachment.originalName,
+        uploadThingUrl: attachment.uploadThingUrl,
+        createdAt: attachment.createdAt
+      },
+      source,
+      analysis
+    })
+  }
+  return drawings
+}
@@ -0,0 +1,495 @@
+/**
+ * DXF geometry analysis for cutting estimates: bounding box, net area, cut
+ * length, pierces and holes of a flat part drawn in the ENTITIES section.
+ * Reads ASCII DXF only; block references (INSERT) are not expanded.
+ */
+
+export interface DxfBoundingBox {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+  width: number
+  height: number
+}
+
+// All lengths in mm, areas in mm²
+export interface DxfAnalysis {
+  boundingBox: DxfBoundingBox
+  netArea: number
+  cutLength: number
+  pierceCount: number
+  holeCount: number
+  entityCount: number
+  openContourCount: number
+  sourceUnits: string
+  warnings: string[]
+}
+
+interface Point {
+  x: number
+  y: number
+}
+
+// Entity reduced to a tessellated path with its exact length
+interface Path {
+  points: Point[]
+  length: number
+  closed: boolean
+}
+
+interface RawEntity {
+  type: string
+  pairs: Array<[number, string]>
+}
+
+// $INSUNITS codes to millimetres; unitless drawings are taken as mm
+const INSUNITS: Record<number, { name: string; toMm: number }> = {
+  0: { name: 'unitless', toMm: 1 },
+  1: { name: 'in', toMm: 25.4 },
+  2: { name: 'ft', toMm: 304.8 },
+  4: { name: 'mm', toMm: 1 },
+  5: { name: 'cm', toMm: 10 },
+  6: { name: 'm', toMm: 1000 },
+}
+
+// Endpoints closer than this (mm) are treated as connected
+const JOIN_TOLERANCE = 0.01
+const ARC_SEGMENT_ANGLE = Math.PI / 36
+
+export class DxfParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DxfParseError'
+  }
+}
+
+function readPairs(content: string): Array<[number, string]> {
+  const lines = content.split(/\r?\n/)
+  const pairs: Array<[number, string]> = []
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10)
+    if (isNaN(code)) {
+      throw new DxfParseError(`Invalid group code on line ${i + 1}`)
+    }
+    pairs.push([code, lines[i + 1].trim()])
+  }
+  return pairs
+}
+
+function readSections(pairs: Array<[number, string]>) {
+  let insUnits = 0
+  const entities: RawEntity[] = []
+  let section: string | null = null
+  let current: RawEntity | null = null
+
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i]
+
+    if (code === 0 && value === 'SECTION') {
+      section = pairs[i + 1]?.[0] === 2 ? pairs[i + 1][1] : null
+      i++
+      continue
+    }
+    if (code === 0 && value === 'ENDSEC') {
+      if (current) entities.push(current)
+      current = null
+      section = null
+      continue
+    }
+
+    if (section === 'HEADER' && code === 9 && value === '$INSUNITS') {
+      insUnits = parseInt(pairs[i + 1]?.[1] ?? '0', 10) || 0
+      i++
+    } else if (section === 'ENTITIES') {
+      if (code === 0) {
+        if (current) entities.push(current)
+        current = { type: value, pairs: [] }
+      } else if (current) {
+        current.pairs.push([code, value])
+      }
+    }
+  }
+
+  return { insUnits, entities }
+}
+
+function num(entity: RawEntity, code: number, fallback = 0): number {
+  const pair = entity.pairs.find(([candidate]) => candidate === code)
+  return pair ? parseFloat(pair[1]) : fallback
+}
+
+// Entities in object coordinates with a flipped extrusion direction are
+// mirrored in X; lines, ellipses and splines are stored in world coordinates
+const OCS_ENTITIES = ['CIRCLE', 'ARC', 'LWPOLYLINE', 'POLYLINE']
+
+function isMirrored(entity: RawEntity): boolean {
+  return OCS_ENTITIES.includes(entity.type) && num(entity, 230, 1) < 0
+}
+
+function arcPoints(center: Point, radius: number, start: number, sweep: number): Point[] {
+  const segments = Math.max(8, Math.ceil(Math.abs(sweep) / ARC_SEGMENT_ANGLE))
+  const points: Point[] = []
+  for (let i = 0; i <= segments; i++) {
+    const angle = start + sweep * i / segments
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) })
+  }
+  return points
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y)
+}
+
+function polylineLength(points: Point[]): number {
+  let length = 0
+  for (let i = 1; i < points.length; i++) {
+    length += distance(points[i - 1], points[i])
+  }
+  return length
+}
+
+/**
+ * Vertices with bulges (tan of a quarter of the included angle) to a path;
+ * a bulge on a vertex bends the segment to the next vertex into an arc
+ */
+function bulgedPath(vertices: Array<Point & { bulge: number }>, closed: boolean): Path {
+  const points: Point[] = []
+  let length = 0
+  const count = closed ? vertices.length : vertices.length - 1
+
+  for (let i = 0; i < count; i++) {
+    const from = vertices[i]
+    const to = vertices[(i + 1) % vertices.length]
+    const chord = distance(from, to)
+    if (i === 0) points.push(from)
+
+    if (Math.abs(from.bulge) < 1e-9 || chord === 0) {
+      points.push(to)
+      length += chord
+      continue
+    }
+
+    const sweep = 4 * Math.atan(from.bulge)
+    const radius = chord / (2 * Math.sin(Math.abs(sweep) / 2))
+    // Centre sits on the chord's perpendicular bisector
+    const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }
+    const offset = radius * Math.cos(sweep / 2) * Math.sign(from.bulge)
+    const center = {
+      x: mid.x - offset * (to.y - from.y) / chord,
+      y: mid.y + offset * (to.x - from.x) / chord
+    }
+    const start = Math.atan2(from.y - center.y, from.x - center.x)
+    points.push(...arcPoints(center, radius, start, sweep).slice(1))
+    length += radius * Math.abs(sweep)
+  }
+
+  return { points, length, closed }
+}
+
+function lwPolylinePath(entity: RawEntity): Path | null {
+  const vertices: Array<Point & { bulge: number }> = []
+  for (const [code, value] of entity.pairs) {
+    if (code === 10) vertices.push({ x: parseFloat(value), y: 0, bulge: 0 })
+    else if (code === 20 && vertices.length) vertices[vertices.length - 1].y = parseFloat(value)
+    else if (code === 42 && vertices.length) vertices[vertices.length - 1].bulge = parseFloat(value)
+  }
+  if (vertices.length < 2) return null
+  return bulgedPath(vertices, (num(entity, 70) & 1) === 1)
+}
+
+function ellipsePath(entity: RawEntity): Path {
+  const center = { x: num(entity, 10), y: num(entity, 20) }
+  const major = { x: num(entity, 11), y: num(entity, 21) }
+  const ratio = num(entity, 40, 1)
+  const start = num(entity, 41, 0)
+  let end = num(entity, 42, Math.PI * 2)
+  if (end <= start) end += Math.PI * 2
+
+  const majorRadius = Math.hypot(major.x, major.y)
+  const rotation = Math.atan2(major.y, major.x)
+  const sweep = end - start
+  const segments = Math.max(16, Math.ceil(sweep / ARC_SEGMENT_ANGLE) * 2)
+  const points: Point[] = []
+  for (let i = 0; i <= segments; i++) {
+    const t = start + sweep * i / segments
+    const x = majorRadius * Math.cos(t)
+    const y = majorRadius * ratio * Math.sin(t)
+    points.push({
+      x: center.x + x * Math.cos(rotation) - y * Math.sin(rotation),
+      y: center.y + x * Math.sin(rotation) + y * Math.cos(rotation)
+    })
+  }
+  const closed = Math.abs(sweep - Math.PI * 2) < 1e-6
+  return { points, length: polylineLength(points), closed }
+}
+
+// Splines follow their fit points, or the control polygon when there are none
+function splinePath(entity: RawEntity): Path | null {
+  const fit: Point[] = []
+  const control: Point[] = []
+  for (const [code, value] of entity.pairs) {
+    if (code === 11) fit.push({ x: parseFloat(value), y: 0 })
+    else if (code === 21 && fit.length) fit[fit.length - 1].y = parseFloat(value)
+    else if (code === 10) control.push({ x: parseFloat(value), y: 0 })
+    else if (code === 20 && control.length) control[control.length - 1].y = parseFloat(value)
+  }
+  const points = fit.length >= 2 ? fit : control
+  if (points.length < 2) return null
+  const closed = (num(entity, 70) & 1) === 1
+  if (closed) points.push(points[0])
+  return { points, length: polylineLength(points), closed }
+}
+
+function mirror(path: Path): Path {
+  return { ...path, points: path.points.map(point => ({ x: -point.x, y: point.y })) }
+}
+
+function scale(path: Path, factor: number): Path {
+  return {
+    points: path.points.map(point => ({ x: point.x * factor, y: point.y * factor })),
+    length: path.length * factor,
+    closed: path.closed
+  }
+}
+
+function collectPaths(entities: RawEntity[], warnings: string[]) {
+  const paths: Path[] = []
+  let skipped = 0
+  let splines = 0
+  let inserts = 0
+  let cutEntities = 0
+
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i]
+    let path: Path | null = null
+
+    switch (entity.type) {
+      case 'LINE': {
+        const from = { x: num(entity, 10), y: num(entity, 20) }
+        const to = { x: num(entity, 11), y: num(entity, 21) }
+        path = { points: [from, to], length: distance(from, to), closed: false }
+        break
+      }
+      case 'CIRCLE': {
+        const radius = num(entity, 40)
+        path = {
+          points: arcPoints({ x: num(entity, 10), y: num(entity, 20) }, radius, 0, Math.PI * 2),
+          length: 2 * Math.PI * radius,
+          closed: true
+        }
+        break
+      }
+      case 'ARC': {
+        const radius = num(entity, 40)
+        const start = num(entity, 50) * Math.PI / 180
+        let end = num(entity, 51) * Math.PI / 180
+        if (end <= start) end += Math.PI * 2
+        path = {
+          points: arcPoints({ x: num(entity, 10), y: num(entity, 20) }, radius, start, end - start),
+          length: radius * (end - start),
+          closed: false
+        }
+        break
+      }
+      case 'LWPOLYLINE':
+        path = lwPolylinePath(entity)
+        break
+      case 'POLYLINE': {
+        // Old-style polyline: vertices follow as VERTEX entities up to SEQEND
+        const vertices: Array<Point & { bulge: number }> = []
+        while (entities[i + 1]?.type === 'VERTEX') {
+          i++
+          vertices.push({ x: num(entities[i], 10), y: num(entities[i], 20), bulge: num(entities[i], 42) })
+        }
+        if (entities[i + 1]?.type === 'SEQEND') i++
+        if (vertices.length >= 2) {
+          path = bulgedPath(vertices, (num(entity, 70) & 1) === 1)
+        }
+        break
+      }
+      case 'ELLIPSE':
+        path = ellipsePath(entity)
+        break
+      case 'SPLINE':
+        path = splinePath(entity)
+        splines++
+        break
+      case 'INSERT':
+        inserts++
+        break
+      default:
+        skipped++
+    }
+
+    if (path) {
+      paths.push(isMirrored(entity) ? mirror(path) : path)
+      cutEntities++
+    }
+  }
+
+  if (splines > 0) warnings.push(`${splines} splines approximated by their fit or control points`)
+  if (inserts > 0) warnings.push(`${inserts} block references ignored; explode blocks before export`)
+
+  return { paths, cutEntities, skipped }
+}
+
+/**
+ * Join open paths whose endpoints meet into contours; what cannot be closed
+ * is returned as open chains
+ */
+function chainPaths(paths: Path[]): { closed: Point[][]; open: Point[][] } {
+  const closed: Point[][] = []
+  const open: Point[][] = []
+  const remaining = paths.filter(path => !path.closed).map(path => path.points)
+
+  for (const path of paths) {
+    if (path.closed) closed.push(path.points)
+  }
+
+  while (remaining.length > 0) {
+    let chain = remaining.shift()!
+    let extended = true
+
+    while (extended && distance(chain[0], chain[chain.length - 1]) > JOIN_TOLERANCE) {
+      extended = false
+      const tail = chain[chain.length - 1]
+      const head = chain[0]
+
+      for (let i = 0; i < remaining.length; i++) {
+        const candidate = remaining[i]
+        const first = candidate[0]
+        const last = candidate[candidate.length - 1]
+
+        if (distance(tail, first) <= JOIN_TOLERANCE) chain = chain.concat(candidate.slice(1))
+        else if (distance(tail, last) <= JOIN_TOLERANCE) chain = chain.concat(candidate.slice().reverse().slice(1))
+        else if (distance(head, last) <= JOIN_TOLERANCE) chain = candidate.slice(0, -1).concat(chain)
+        else if (distance(head, first) <= JOIN_TOLERANCE) chain = candidate.slice().reverse().slice(0, -1).concat(chain)
+        else continue
+
+        remaining.splice(i, 1)
+        extended = true
+        break
+      }
+    }
+
+    if (chain.length > 2 && distance(chain[0], chain[chain.length - 1]) <= JOIN_TOLERANCE) {
+      closed.push(chain)
+    } else {
+      open.push(chain)
+    }
+  }
+
+  return { closed, open }
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    area += a.x * b.y - b.x * a.y
+  }
+  return Math.abs(area) / 2
+}
+
+function containsPoint(polygon: Point[], point: Point): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Analyse the contents of an ASCII DXF file. Every closed contour and every
+ * open chain counts as one pierce; contours nested an odd number of levels
+ * deep are holes and are subtracted from the net area.
+ */
+export function analyzeDxf(content: string): DxfAnalysis {
+  if (content.startsWith('AutoCAD Binary DXF')) {
+    throw new DxfParseError('Binary DXF is not supported; save the drawing as ASCII DXF')
+  }
+  if (!content.includes('SECTION')) {
+    throw new DxfParseError('Not a DXF file')
+  }
+
+  const warnings: string[] = []
+  const { insUnits, entities } = readSections(readPairs(content))
+  const units = INSUNITS[insUnits] ?? INSUNITS[0]
+  if (!INSUNITS[insUnits]) {
+    warnings.push(`Unsupported drawing units (code ${insUnits}); assumed millimetres`)
+  }
+
+  const collected = collectPaths(entities, warnings)
+  if (collected.paths.length === 0) {
+    throw new DxfParseError('No cut geometry found in the drawing')
+  }
+
+  const paths = collected.paths.map(path => scale(path, units.toMm))
+  const { closed, open } = chainPaths(paths)
+  if (open.length > 0) {
+    warnings.push(`${open.length} contours are not closed`)
+  }
+
+  const contours = closed
+    .map(points => ({ points, area: polygonArea(points) }))
+    .sort((a, b) => b.area - a.area)
+
+  let netArea = 0
+  let holeCount = 0
+  contours.forEach((contour, index) => {
+    const depth = contours
+      .slice(0, index)
+      .filter(outer => outer.area > contour.area && containsPoint(outer.points, contour.points[0]))
+      .length
+    if (depth % 2 === 1) {
+      holeCount++
+      netArea -= contour.area
+    } else {
+      netArea += contour.area
+    }
+  })
+
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const path of paths) {
+    for (const point of path.points) {
+      minX = Math.min(minX, point.x)
+      minY = Math.min(minY, point.y)
+      maxX = Math.max(maxX, point.x)
+      maxY = Math.max(maxY, point.y)
+    }
+  }
+
+  return {
+    boundingBox: {
+      minX: round(minX, 3),
+      minY: round(minY, 3),
+      maxX: round(maxX, 3),
+      maxY: round(maxY, 3),
+      width: round(maxX - minX, 3),
+      height: round(maxY - minY, 3)
+    },
+    netArea: round(netArea, 2),
+    cutLength: round(paths.reduce((sum, path) => sum + path.length, 0), 2),
+    pierceCount: closed.length + open.length,
+    holeCount,
+    entityCount: collected.cutEntities,
+    openContourCount: open.length,
+    sourceUnits: units.name,
+    warnings
+  }
+}
@@ -379,6 +379,80 @@ You can now generate and send the quote to the customer.
 
 Generate Quote: ${process.env.NEXTAUTH_URL}/dashboard/quotes
 
+This is an automated message from GS-CMS v05.
+    `
+
+    return { subject, html, text }
+  }
+
+  createQuoteFollowUpTemplate(data: {
+    salesPersonName: string
+    quoteNumber: string
+    quoteTitle: string
+    customerName: string
+    daysSinceSent: number
+    validUntil: Date
+  }): EmailTemplate {
+    const subject = `Follow up: Quote ${data.quoteNumber} for ${data.customerName}`
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>${subject}</title>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #fff3cd; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+            .content { padding: 20px 0; }
+            .footer { background: #f8f9fa; padding: 15px; border-radius: 8px; margin-top: 20px; font-size: 12px; }
+            .btn { display: inline-block; padding: 12px 24px; background: #ffc107; color: #333; text-decoration: none; border-radius: 4px; margin: 10px 0; }
+            .quote-box { background: #fff3cd; padding: 15px; border-radius: 8px; margin: 15px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>⏰ Quote Awaiting Customer Response</h1>
+            </div>
+            <div class="content">
+              <p>Hello ${data.salesPersonName},</p>
+              <p>This quote was sent ${data.daysSinceSent} days ago and the customer has not responded yet:</p>
+              
+              <div class="quote-box">
+                <strong>Quote:</strong> ${data.quoteNumber} - ${data.quoteTitle}<br>
+                <strong>Customer:</strong> ${data.customerName}<br>
+                <strong>Valid Until:</strong> ${data.validUntil.toLocaleDateString()}
+              </div>
+              
+              <p>Consider following up with the customer before the quote expires.</p>
+              
+              <a href="${process.env.NEXTAUTH_URL}/dashboard/quotes" class="btn">View Quotes</a>
+            </div>
+            <div class="footer">
+              This is an automated message from GS-CMS v05. Please do not reply to this email.
+            </div>
+          </div>
+        </body>
+      </html>
+    `
+
+    const text = `
+Quote Awaiting Customer Response
+
+Hello ${data.salesPersonName},
+
+This quote was sent ${data.daysSinceSent} days ago and the customer has not responded yet:
+
+Quote: ${data.quoteNumber} - ${data.quoteTitle}
+Customer: ${data.customerName}
+Valid Until: ${data.validUntil.toLocaleDateString()}
+
+Consider following up with the customer before the quote expires.
+
+View Quotes: ${process.env.NEXTAUTH_URL}/dashboard/quotes
+
 This is an automated message from GS-CMS v05.
     `
 
@@ -401,7 +475,7 @@ export const emailService = new EmailService()
 
 // Helper function to send notifications based on system events
 export async function sendNotificationEmail(
-  type: 'assignment' | 'approval_required' | 'approval_status' | 'quote_ready',
+  type: 'assignment' | 'approval_required' | 'approval_status' | 'quote_ready' | 'quote_follow_up',
   recipients: string[],
   data: any
 ): Promise<void> {
@@ -420,6 +494,9 @@ export async function sendNotificationEmail(
     case 'quote_ready':
       template = emailService.createQuoteReadyTemplate(data)
       break
+    case 'quote_follow_up':
+      template = emailService.createQuoteFollowUpTemplate(data)
+      break
     default:
       throw new Error(`Unknown notification type: ${type}`)
   }
@@ -1,19 +1,16 @@
 import ExcelJS from 'exceljs'
 import { Inquiry, InquiryItem, User, Customer, CostCalculation } from '@prisma/client'
 import { formatDate, formatCurrency } from '@/lib/utils'
+import { describeQuoteRate, type QuoteDocumentCurrency, type QuoteDocumentLine } from '@/lib/quote-service'
+import { describeQuoteTax, type QuoteTax } from '@/lib/tax-rules'
+import { describeRegistration, LOGO_DATA_URI, type Letterhead } from '@/lib/letterhead'
 
 export interface ExcelExportOptions {
   fileName?: string
   includeCharts?: boolean
   includeFormatting?: boolean
   includeSummary?: boolean
-  companyInfo?: {
-    name: string
-    address: string
-    phone: string
-    email: string
-    website: string
-  }
+  companyInfo?: Letterhead
 }
 
 export class ExcelService {
@@ -30,6 +27,37 @@ export class ExcelService {
     return workbook
   }
 
+  /**
+   * Letterhead block over rows 1-3: company, document title and date, with
+   * the logo in the top-left corner
+   */
+  private static addCompanyHeader(
+    workbook: ExcelJS.Workbook,
+    worksheet: ExcelJS.Worksheet,
+    companyInfo: Letterhead,
+    lastColumn: string,
+    title: string
+  ) {
+    worksheet.mergeCells(`A1:${lastColumn}3`)
+    const headerCell = worksheet.getCell('A1')
+    const registration = describeRegistration(companyInfo)
+    const company = registration ? `${companyInfo.companyName} (${registration})` : companyInfo.companyName
+    headerCell.value = `${company}\n${title}\nGenerated on ${formatDate(new Date())}`
+    headerCell.font = { size: 16, bold: true, color: { argb: '004472C4' } }
+    headerCell.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true }
+    headerCell.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFF2F2F2' }
+    }
+
+    const logo = companyInfo.logo ? LOGO_DATA_URI.exec(companyInfo.logo) : null
+    if (logo) {
+      const imageId = workbook.addImage({ base64: companyInfo.logo!, extension: logo[1] as 'png' | 'jpeg' })
+      worksheet.addImage(imageId, { tl: { col: 0.1, row: 0.1 }, ext: { width: 120, height: 54 } })
+    }
+  }
+
   static async exportInquiriesToExcel(
     inquiries: (Inquiry & {
       customer: Customer
@@ -47,16 +75,7 @@ export class ExcelService {
     
     // Set up company header if provided
     if (options.companyInfo) {
-      worksheet.mergeCells('A1:K3')
-      const headerCell = worksheet.getCell('A1')
-      headerCell.value = `${options.companyInfo.name}\nInquiries Export Report\nGenerated on ${formatDate(new Date())}`
-      headerCell.font = { size: 16, bold: true, color: { argb: '004472C4' } }
-      headerCell.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true }
-      headerCell.fill = {
-        type: 'pattern',
-        pattern: 'solid',
-        fgColor: { argb: 'FFF2F2F2' }
-      }
+      this.addCompanyHeader(workbook, worksheet, options.companyInfo, 'K', 'Inquiries Export Report')
     }
 
     // Set up column headers
@@ -256,16 +275,7 @@ export class ExcelService {
 
     // Set up company header if provided
     if (options.companyInfo) {
-      worksheet.mergeCells('A1:G3')
-      const headerCell = worksheet.getCell('A1')
-      headerCell.value = `${options.companyInfo.name}\nUsers Export Report\nGenerated on ${formatDate(new Date())}`
-      headerCell.font = { size: 16, bold: true, color: { argb: '004472C4' } }
-      headerCell.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true }
-      headerCell.fill = {
-        type: 'pattern',
-        pattern: 'solid',
-        fgColor: { argb: 'FFF2F2F2' }
-      }
+      this.addCompanyHeader(workbook, worksheet, options.companyInfo, 'G', 'Users Export Report')
     }
 
     // Set up column headers
@@ -366,16 +376,7 @@ export class ExcelService {
 
     // Set up company header if provided
     if (options.companyInfo) {
-      worksheet.mergeCells('A1:H3')
-      const headerCell = worksheet.getCell('A1')
-      headerCell.value = `${options.companyInfo.name}\nCustomers Export Report\nGenerated on ${formatDate(new Date())}`
-      headerCell.font = { size: 16, bold: true, color: { argb: '004472C4' } }
-      headerCell.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true }
-      headerCell.fill = {
-        type: 'pattern',
-        pattern: 'solid',
-        fgColor: { argb: 'FFF2F2F2' }
-      }
+      this.addCompanyHeader(workbook, worksheet, options.companyInfo, 'H', 'Customers Export Report')
     }
 
     // Set up column headers
@@ -465,13 +466,233 @@ export class ExcelService {
     const buffer = await workbook.xlsx.writeBuffer()
     return Buffer.from(buffer)
   }
+
+  /**
+   * One quote as a worksheet: header details, the priced lines and the net,
+   * tax and gross totals, with amounts in the quote currency and the rate it
+   * was priced at
+   */
+  static async exportQuoteToExcel(
+    quote: {
+      quoteNumber: string
+      title: string
+      customerName: string
+      validUntil: Date
+      total: number
+    },
+    lines: QuoteDocumentLine[],
+    pricing: QuoteDocumentCurrency,
+    tax: QuoteTax,
+    options: ExcelExportOptions = {}
+  ): Promise<Buffer> {
+    const workbook = await this.createWorkbook(options)
+    const worksheet = workbook.addWorksheet('Quote')
+    const moneyFormat = `#,##0.00 "${pricing.currency}"`
+
+    // Set up company header if provided
+    if (options.companyInfo) {
+      this.addCompanyHeader(workbook, worksheet, options.companyInfo, 'G', `Quote ${quote.quoteNumber}`)
+    }
+
+    // Quote details
+    const detailsRow = options.companyInfo ? 5 : 1
+    const details: Array<[string, string | Date]> = [
+      ['Quote', quote.quoteNumber],
+      ['Title', quote.title],
+      ['Customer', quote.customerName],
+      ['Valid Until', quote.validUntil],
+      ['Currency', pricing.currency],
+      ['Exchange Rate', describeQuoteRate(pricing) ?? 'Main currency, no conversion']
+    ]
+    details.forEach(([label, value], index) => {
+      const row = worksheet.getRow(detailsRow + index)
+      row.getCell(1).value = label
+      row.getCell(1).font = { bold: true }
+      row.getCell(2).value = value
+      if (value instanceof Date) {
+        row.getCell(2).numFmt = 'dd/mm/yyyy'
+      }
+    })
+
+    // Set up column headers
+    const startRow = detailsRow + details.length + 1
+    const headers = ['Item', 'Description', 'Quantity', 'Unit', 'Unit Price', 'Discount', 'Total']
+
+    const headerRow = worksheet.getRow(startRow)
+    headers.forEach((header, index) => {
+      const cell = headerRow.getCell(index + 1)
+      cell.value = header
+      cell.font = { bold: true, color: { argb: 'FFFFFFFF' } }
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FF4472C4' }
+      }
+      cell.alignment = { horizontal: 'center' }
+      cell.border = {
+        top: { style: 'thin' },
+        left: { style: 'thin' },
+        bottom: { style: 'thin' },
+        right: { style: 'thin' }
+      }
+    })
+
+    // Add data rows
+    lines.forEach((line, index) => {
+      const row = worksheet.getRow(startRow + 1 + index)
+
+      row.getCell(1).value = line.name
+      row.getCell(2).value = line.description || ''
+      row.getCell(3).value = line.quantity
+      row.getCell(4).value = line.unit || ''
+      row.getCell(5).value = line.unitPrice
+      row.getCell(6).value = line.discount
+      row.getCell(7).value = line.lineTotal
+
+      row.getCell(5).numFmt = moneyFormat
+      row.getCell(6).numFmt = '0.0%'
+      row.getCell(7).numFmt = moneyFormat
+
+      // Add borders
+      for (let i = 1; i <= headers.length; i++) {
+        row.getCell(i).border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' }
+        }
+      }
+    })
+
+    const totals: Array<[string, number]> = [
+      ['Net Total', quote.total],
+      [describeQuoteTax(tax), tax.taxAmount],
+      ['Gross Total', tax.grossTotal]
+    ]
+    const totalsRow = startRow + lines.length + 1
+    totals.forEach(([label, amount], index) => {
+      const row = worksheet.getRow(totalsRow + index)
+      // Right-aligned so longer labels run into the empty cells to the left
+      row.getCell(6).value = label
+      row.getCell(6).alignment = { horizontal: 'right' }
+      row.getCell(7).value = amount
+      row.getCell(7).numFmt = moneyFormat
+      row.font = { bold: true }
+    })
+
+    if (tax.taxNote) {
+      const noteRow = worksheet.getRow(totalsRow + totals.length + 1)
+      noteRow.getCell(1).value = tax.taxNote
+      noteRow.getCell(1).font = { italic: true }
+    }
+
+    worksheet.getColumn(1).width = 30
+    worksheet.getColumn(2).width = 40
+    worksheet.getColumn(3).width = 10
+    worksheet.getColumn(4).width = 10
+    worksheet.getColumn(5).width = 18
+    worksheet.getColumn(6).width = 12
+    worksheet.getColumn(7).width = 18
+
+    const buffer = await workbook.xlsx.writeBuffer()
+    return Buffer.from(buffer)
+  }
+
+  /**
+   * Read the first worksheet of a material catalog workbook. Columns are
+   * matched by header name (see MATERIAL_IMPORT_COLUMNS); values are returned
+   * raw for validation by the caller.
+   */
+  static async parseMaterialCatalog(file: ArrayBuffer): Promise<MaterialImportRow[]> {
+    const workbook = new ExcelJS.Workbook()
+    await workbook.xlsx.load(file)
+
+    const worksheet = workbook.worksheets[0]
+    if (!worksheet) return []
+
+    const columnIndex = new Map<string, number>()
+    worksheet.getRow(1).eachCell((cell, colNumber) => {
+      const header = normalizeHeader(cell.text)
+      const column = MATERIAL_IMPORT_COLUMNS.find(c => normalizeHeader(c.header) === header)
+      if (column) columnIndex.set(column.key, colNumber)
+    })
+
+    const rows: MaterialImportRow[] = []
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return
+
+      const values: Record<string, unknown> = {}
+      columnIndex.forEach((colNumber, key) => {
+        values[key] = readCellValue(row.getCell(colNumber))
+      })
+      if (Object.values(values).every(value => value === null || value === '')) return
+
+      rows.push({ rowNumber, values })
+    })
+
+    return rows
+  }
+
+  static async createMaterialImportTemplate(): Promise<Buffer> {
+    const workbook = await this.createWorkbook()
+    const worksheet = workbook.addWorksheet('Materials')
+
+    worksheet.columns = MATERIAL_IMPORT_COLUMNS.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: Math.max(column.header.length + 4, 14)
+    }))
+    worksheet.getRow(1).font = { bold: true }
+    worksheet.addRow({
+      code: 'S235-SHEET-5',
+      name: 'Hot rolled sheet 5 mm',
+      category: 'STEEL',
+      grade: 'S235JR',
+      form: 'SHEET',
+      dimensions: '2000x1000x5',
+      density: 7850,
+      priceUnit: 'KG',
+      price: 1.15,
+      currency: 'EUR',
+      priceValidFrom: new Date(),
+      supplier: ''
+    })
+
+    const buffer = await workbook.xlsx.writeBuffer()
+    return Buffer.from(buffer)
+  }
+}
+
+// Columns of the material catalog import, in template order
+export const MATERIAL_IMPORT_COLUMNS = [
+  { key: 'code', header: 'Code' },
+  { key: 'name', header: 'Name' },
+  { key: 'category', header: 'Category' },
+  { key: 'grade', header: 'Grade' },
+  { key: 'form', header: 'Form' },
+  { key: 'dimensions', header: 'Dimensions' },
+  { key: 'density', header: 'Density' },
+  { key: 'priceUnit', header: 'Price Unit' },
+  { key: 'price', header: 'Price' },
+  { key: 'currency', header: 'Currency' },
+  { key: 'priceValidFrom', header: 'Valid From' },
+  { key: 'supplier', header: 'Supplier' },
+] as const
+
+export interface MaterialImportRow {
+  rowNumber: number
+  values: Record<string, unknown>
 }
 
-// Default company information for exports
-export const DEFAULT_EXCEL_COMPANY_INFO = {
-  name: 'GS Manufacturing Solutions',
-  address: '123 Industrial District, Manufacturing Zone, Istanbul, Turkey',
-  phone: '+90 212 555 0123',
-  email: 'info@gsmanufacturing.com',
-  website: 'www.gsmanufacturing.com'
-}
\ No newline at end of file
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+// Plain value of a cell: formula results, rich text and hyperlinks unwrapped
+function readCellValue(cell: ExcelJS.Cell): unknown {
+  const value = cell.value
+  if (value === null || value === undefined) return null
+  if (value instanceof Date || typeof value !== 'object') return value
+  if ('result' in value) return value.result ?? null
+  return cell.text
+}
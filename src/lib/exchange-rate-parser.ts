@@ -0,0 +1,161 @@
+import { Currency } from '@prisma/client'
+
+/**
+ * Reader for ECB-style reference rate files, as downloaded from the ECB
+ * (eurofxref-daily.xml, eurofxref-hist.xml and their .csv counterparts) or
+ * produced in the same layout. Rates are units of the currency per 1 EUR.
+ * Runs on the uploaded file only; nothing is fetched.
+ */
+
+export interface ParsedExchangeRate {
+  currency: Currency
+  rate: number
+  effectiveDate: string // YYYY-MM-DD
+}
+
+export interface ParsedRateFile {
+  format: 'xml' | 'csv'
+  rates: ParsedExchangeRate[]
+  // Currencies in the file that are not a Currency value
+  ignoredCurrencies: string[]
+}
+
+export class ExchangeRateParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExchangeRateParseError'
+  }
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+]
+
+const knownCurrencies = Object.values(Currency) as string[]
+
+// YYYY-MM-DD of a date, as rates are stored and looked up
+export function toRateDate(date: Date | string): string {
+  return (typeof date === 'string' ? new Date(date) : date).toISOString().slice(0, 10)
+}
+
+/**
+ * ISO date from "2024-01-02" (history files) or "02 January 2024" (daily
+ * CSV); null when it is neither
+ */
+export function parseRateDate(value: string): string | null {
+  const text = value.trim()
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+
+  const written = /^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/.exec(text)
+  if (written) {
+    const month = MONTHS.indexOf(written[2].toLowerCase()) + 1
+    if (month === 0) return null
+    return `${written[3]}-${String(month).padStart(2, '0')}-${written[1].padStart(2, '0')}`
+  }
+  return null
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([\w:]+)\s*=\s*(['"])(.*?)\2/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1]] = match[3]
+  }
+  return attributes
+}
+
+function collect(
+  rates: ParsedExchangeRate[],
+  ignored: Set<string>,
+  code: string,
+  value: string,
+  effectiveDate: string
+) {
+  const currency = code.trim().toUpperCase()
+  const rate = Number(value.trim())
+  // The ECB marks days without a fixing as N/A
+  if (!currency || !value.trim() || !isFinite(rate) || rate <= 0) return
+  if (currency === Currency.EUR) return
+  if (!knownCurrencies.includes(currency)) {
+    ignored.add(currency)
+    return
+  }
+  rates.push({ currency: currency as Currency, rate, effectiveDate })
+}
+
+// <Cube time="..."> opens a day, <Cube currency="..." rate="..."/> is a rate in it
+function parseXml(content: string): ParsedRateFile {
+  const rates: ParsedExchangeRate[] = []
+  const ignored = new Set<string>()
+  let effectiveDate: string | null = null
+
+  const tags = content.match(/<(?:\w+:)?Cube\b[^>]*>/g) ?? []
+  for (const tag of tags) {
+    const attributes = readAttributes(tag)
+    if (attributes.time !== undefined) {
+      effectiveDate = parseRateDate(attributes.time)
+      if (!effectiveDate) {
+        throw new ExchangeRateParseError(`Unreadable date "${attributes.time}"`)
+      }
+    } else if (attributes.currency !== undefined && attributes.rate !== undefined) {
+      if (!effectiveDate) {
+        throw new ExchangeRateParseError(`Rate for ${attributes.currency} has no date`)
+      }
+      collect(rates, ignored, attributes.currency, attributes.rate, effectiveDate)
+    }
+  }
+
+  return { format: 'xml', rates, ignoredCurrencies: Array.from(ignored) }
+}
+
+// Header "Date,USD,JPY,..." and one row per day; the daily file pads with
+// spaces and ends each line with a comma
+function parseCsv(content: string): ParsedRateFile {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '')
+  const separator = lines[0].includes(';') ? ';' : ','
+  const header = lines[0].split(separator).map(cell => cell.trim())
+  if (header[0].toLowerCase() !== 'date') {
+    throw new ExchangeRateParseError('The first column of a rate CSV must be "Date"')
+  }
+
+  const rates: ParsedExchangeRate[] = []
+  const ignored = new Set<string>()
+  lines.slice(1).forEach((line, index) => {
+    const cells = line.split(separator)
+    const effectiveDate = parseRateDate(cells[0])
+    if (!effectiveDate) {
+      throw new ExchangeRateParseError(`Unreadable date "${cells[0].trim()}" on line ${index + 2}`)
+    }
+    for (let column = 1; column < header.length; column++) {
+      if (header[column]) {
+        collect(rates, ignored, header[column], cells[column] ?? '', effectiveDate)
+      }
+    }
+  })
+
+  return { format: 'csv', rates, ignoredCurrencies: Array.from(ignored) }
+}
+
+/**
+ * Rates in an ECB XML or CSV file; throws ExchangeRateParseError when the
+ * file is in neither layout or holds no usable rate
+ */
+export function parseExchangeRateFile(content: string): ParsedRateFile {
+  const text = content.replace(/^\uFEFF/, '').trim()
+  if (!text) {
+    throw new ExchangeRateParseError('The file is empty')
+  }
+
+  const parsed = text.startsWith('<') ? parseXml(text) : parseCsv(text)
+  if (parsed.rates.length === 0) {
+    throw new ExchangeRateParseError(
+      parsed.ignoredCurrencies.length > 0
+        ? `No supported currency in the file (found ${parsed.ignoredCurrencies.join(', ')})`
+        : 'No exchange rates found in the file'
+    )
+  }
+  return parsed
+}
@@ -0,0 +1,169 @@
+import { Currency } from '@prisma/client'
+import { db } from '@/lib/db/index'
+import { toRateDate, type ParsedExchangeRate } from '@/lib/exchange-rate-parser'
+import { convertWithEuroRates } from '@/lib/currency'
+import { AppError } from '@/types'
+
+// Units of each currency per 1 EUR
+export type EuroRates = Partial<Record<Currency, number>>
+
+export interface ExchangeRatesAsOf {
+  date: string
+  rates: EuroRates
+  // Date each rate took effect; older than `date` when none was set that day
+  effectiveDates: Partial<Record<Currency, string>>
+}
+
+// Rate a quote is priced at: units of `currency` per 1 `mainCurrency`
+export interface CurrencyPricing {
+  currency: Currency
+  mainCurrency: Currency
+  exchangeRate: number
+  exchangeRateDate: string
+  rates: EuroRates
+}
+
+export interface ExchangeRateImportResult {
+  created: number
+  updated: number
+  unchanged: number
+  ignoredCurrencies: string[]
+}
+
+/**
+ * Rates in force on a date: for each currency the newest entry on or before
+ * it. The euro is always 1.
+ */
+export async function getExchangeRatesAsOf(date: Date | string): Promise<ExchangeRatesAsOf> {
+  const day = toRateDate(date)
+  const entries = await db.exchangeRate.findMany({
+    where: { effectiveDate: { lte: new Date(day) } },
+    orderBy: { effectiveDate: 'desc' },
+    distinct: ['currency'],
+    select: { currency: true, rate: true, effectiveDate: true }
+  })
+
+  const result: ExchangeRatesAsOf = {
+    date: day,
+    rates: { [Currency.EUR]: 1 },
+    effectiveDates: {}
+  }
+  for (const entry of entries) {
+    result.rates[entry.currency] = Number(entry.rate)
+    result.effectiveDates[entry.currency] = toRateDate(entry.effectiveDate)
+  }
+  return result
+}
+
+/**
+ * Dated rates for pricing in `currency` on a date; a 400 AppError when the
+ * currency or the main currency has no rate on or before it. Pricing in the
+ * main currency needs no rate.
+ */
+export async function getCurrencyPricing(
+  currency: Currency,
+  mainCurrency: Currency,
+  date: Date | string = new Date()
+): Promise<CurrencyPricing> {
+  const asOf = await getExchangeRatesAsOf(date)
+  const missing = currency === mainCurrency ? [] : [currency, mainCurrency].filter(code => !asOf.rates[code])
+  if (missing.length > 0) {
+    throw new AppError(`No exchange rate for ${missing.join(' or ')} on or before ${asOf.date}`, 400)
+  }
+
+  return {
+    currency,
+    mainCurrency,
+    exchangeRate: currency === mainCurrency
+      ? 1
+      : Math.round(convertWithEuroRates(1, mainCurrency, currency, asOf.rates) * 1e6) / 1e6,
+    exchangeRateDate: asOf.date,
+    rates: asOf.rates
+  }
+}
+
+/**
+ * Store rates from a rate file or manual entry; a rate for a currency and
+ * date that already exists is overwritten
+ */
+export async function importExchangeRates(
+  rates: ParsedExchangeRate[],
+  userId: string,
+  source: string,
+  ignoredCurrencies: string[] = []
+): Promise<ExchangeRateImportResult> {
+  const result: ExchangeRateImportResult = { created: 0, updated: 0, unchanged: 0, ignoredCurrencies }
+
+  // The same day twice in a file: the later line wins
+  const byKey = new Map<string, ParsedExchangeRate>()
+  for (const rate of rates) {
+    byKey.set(`${rate.currency}:${rate.effectiveDate}`, rate)
+  }
+  const unique = Array.from(byKey.values())
+  if (unique.length === 0) return result
+
+  const dates = unique.map(rate => rate.effectiveDate).sort()
+
+  await db.$transaction(async (tx) => {
+    const existing = await tx.exchangeRate.findMany({
+      where: {
+        currency: { in: Array.from(new Set(unique.map(rate => rate.currency))) },
+        effectiveDate: { gte: new Date(dates[0]), lte: new Date(dates[dates.length - 1]) }
+      },
+      select: { id: true, currency: true, rate: true, effectiveDate: true }
+    })
+    const existingByKey = new Map<string, { id: string; rate: number }>()
+    for (const entry of existing) {
+      existingByKey.set(`${entry.currency}:${toRateDate(entry.effectiveDate)}`, { id: entry.id, rate: Number(entry.rate) })
+    }
+
+    const toCreate: ParsedExchangeRate[] = []
+    for (const rate of unique) {
+      const current = existingByKey.get(`${rate.currency}:${rate.effectiveDate}`)
+      if (!current) {
+        toCreate.push(rate)
+      } else if (current.rate !== rate.rate) {
+        await tx.exchangeRate.update({
+          where: { id: current.id },
+          data: { rate: rate.rate, source, createdById: userId }
+        })
+        result.updated++
+      } else {
+        result.unchanged++
+      }
+    }
+
+    if (toCreate.length > 0) {
+      await tx.exchangeRate.createMany!({
+        data: toCreate.map(rate => ({
+          currency: rate.currency,
+          rate: rate.rate,
+          effectiveDate: new Date(rate.effectiveDate),
+          source,
+          createdById: userId
+        }))
+      })
+      result.created = toCreate.length
+    }
+
+    await tx.auditLog.create({
+      data: {
+        action: 'IMPORT',
+        entity: 'EXCHANGE_RATE',
+        entityId: 'rates',
+        userId,
+        inquiryId: null,
+        oldData: {},
+        newData: {
+          created: result.created,
+          updated: result.updated,
+          from: dates[0],
+          to: dates[dates.length - 1]
+        },
+        metadata: { source, ignoredCurrencies }
+      }
+    })
+  })
+
+  return result
+}
@@ -0,0 +1,285 @@
+/**
+ * Arithmetic formulas for costing templates. Supports + - * / ^, parentheses,
+ * variables, min/max/round/ceil/floor/abs/sqrt and catalog lookups:
+ *   material("CODE")  current catalog price in the main currency
+ *   density("CODE")   catalog density in kg/m³
+ *   rate("CODE")      labor operation hourly rate
+ * Formulas are parsed, never evaluated as JavaScript.
+ */
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; operator: '-'; operand: FormulaNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] }
+
+export interface FormulaScope {
+  variables: Record<string, number>
+  materials: Record<string, { price: number; density: number | null }>
+  operations: Record<string, number>
+}
+
+export interface FormulaReferences {
+  variables: string[]
+  materials: string[]
+  operations: string[]
+}
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FormulaError'
+  }
+}
+
+const MATH_FUNCTIONS: Record<string, { arity: [number, number]; apply: (...args: number[]) => number }> = {
+  min: { arity: [1, Infinity], apply: Math.min },
+  max: { arity: [1, Infinity], apply: Math.max },
+  ceil: { arity: [1, 1], apply: Math.ceil },
+  floor: { arity: [1, 1], apply: Math.floor },
+  abs: { arity: [1, 1], apply: Math.abs },
+  sqrt: { arity: [1, 1], apply: Math.sqrt },
+  round: {
+    arity: [1, 2],
+    apply: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits
+  },
+}
+
+const CATALOG_FUNCTIONS = ['material', 'density', 'rate']
+
+// Names come from user input, so inherited keys like "constructor" must not match
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'symbol'; value: string }
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+    if (/\s/.test(char)) {
+      i++
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))
+      if (!match) throw new FormulaError(`Invalid number at position ${i + 1}`)
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) })
+      i += match[0].length
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!
+      tokens.push({ kind: 'identifier', value: match[0] })
+      i += match[0].length
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1)
+      if (end === -1) throw new FormulaError('Unterminated string')
+      tokens.push({ kind: 'string', value: source.slice(i + 1, end) })
+      i = end + 1
+    } else if ('+-*/^(),'.includes(char)) {
+      tokens.push({ kind: 'symbol', value: char })
+      i++
+    } else {
+      throw new FormulaError(`Unexpected character "${char}" at position ${i + 1}`)
+    }
+  }
+
+  return tokens
+}
+
+export function parseFormula(source: string): FormulaNode {
+  const tokens = tokenize(source)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isSymbol = (value: string) => peek()?.kind === 'symbol' && peek()!.value === value
+  const expect = (value: string) => {
+    if (!isSymbol(value)) throw new FormulaError(`Expected "${value}"`)
+    position++
+  }
+
+  function expression(): FormulaNode {
+    let node = term()
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[position++].value as '+' | '-'
+      node = { type: 'binary', operator, left: node, right: term() }
+    }
+    return node
+  }
+
+  function term(): FormulaNode {
+    let node = unary()
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = tokens[position++].value as '*' | '/'
+      node = { type: 'binary', operator, left: node, right: unary() }
+    }
+    return node
+  }
+
+  function unary(): FormulaNode {
+    if (isSymbol('-')) {
+      position++
+      return { type: 'unary', operator: '-', operand: unary() }
+    }
+    if (isSymbol('+')) {
+      position++
+      return unary()
+    }
+    return power()
+  }
+
+  // Right-associative, binds tighter than a leading minus on its left
+  function power(): FormulaNode {
+    const base = primary()
+    if (isSymbol('^')) {
+      position++
+      return { type: 'binary', operator: '^', left: base, right: unary() }
+    }
+    return base
+  }
+
+  function primary(): FormulaNode {
+    const token = tokens[position++]
+    if (!token) throw new FormulaError('Unexpected end of formula')
+
+    if (token.kind === 'number') return { type: 'number', value: token.value }
+    if (token.kind === 'string') return { type: 'string', value: token.value }
+
+    if (token.kind === 'identifier') {
+      if (!isSymbol('(')) return { type: 'variable', name: token.value }
+
+      position++
+      const args: FormulaNode[] = []
+      if (!isSymbol(')')) {
+        args.push(expression())
+        while (isSymbol(',')) {
+          position++
+          args.push(expression())
+        }
+      }
+      expect(')')
+      return checkCall({ type: 'call', name: token.value, args })
+    }
+
+    if (token.value === '(') {
+      const node = expression()
+      expect(')')
+      return node
+    }
+
+    throw new FormulaError(`Unexpected "${token.value}"`)
+  }
+
+  const node = expression()
+  if (position < tokens.length) {
+    throw new FormulaError(`Unexpected "${tokens[position].value}"`)
+  }
+  return node
+}
+
+function checkCall(node: { type: 'call'; name: string; args: FormulaNode[] }): FormulaNode {
+  if (CATALOG_FUNCTIONS.includes(node.name)) {
+    if (node.args.length !== 1 || node.args[0].type !== 'string') {
+      throw new FormulaError(`${node.name}() takes a quoted catalog code`)
+    }
+    return node
+  }
+
+  const fn = hasOwn(MATH_FUNCTIONS, node.name) ? MATH_FUNCTIONS[node.name] : undefined
+  if (!fn) throw new FormulaError(`Unknown function ${node.name}()`)
+  const [min, max] = fn.arity
+  if (node.args.length < min || node.args.length > max) {
+    throw new FormulaError(`Wrong number of arguments for ${node.name}()`)
+  }
+  if (node.args.some(arg => arg.type === 'string')) {
+    throw new FormulaError(`${node.name}() takes numbers`)
+  }
+  return node
+}
+
+export function collectReferences(node: FormulaNode, references: FormulaReferences = {
+  variables: [],
+  materials: [],
+  operations: []
+}): FormulaReferences {
+  const add = (list: string[], value: string) => {
+    if (!list.includes(value)) list.push(value)
+  }
+
+  switch (node.type) {
+    case 'variable':
+      add(references.variables, node.name)
+      break
+    case 'unary':
+      collectReferences(node.operand, references)
+      break
+    case 'binary':
+      collectReferences(node.left, references)
+      collectReferences(node.right, references)
+      break
+    case 'call': {
+      const code = node.args[0]?.type === 'string' ? node.args[0].value : null
+      if (code && (node.name === 'material' || node.name === 'density')) add(references.materials, code)
+      else if (code && node.name === 'rate') add(references.operations, code)
+      else node.args.forEach(arg => collectReferences(arg, references))
+    }
+  }
+  return references
+}
+
+export function evaluateFormula(node: FormulaNode, scope: FormulaScope): number {
+  const value = evaluateNode(node, scope)
+  if (!isFinite(value)) {
+    throw new FormulaError('Formula result is not a finite number')
+  }
+  return value
+}
+
+function applyOperator(operator: '+' | '-' | '*' | '/' | '^', left: number, right: number): number {
+  switch (operator) {
+    case '+': return left + right
+    case '-': return left - right
+    case '*': return left * right
+    case '^': return left ** right
+    case '/':
+      if (right === 0) throw new FormulaError('Division by zero')
+      return left / right
+  }
+}
+
+function evaluateNode(node: FormulaNode, scope: FormulaScope): number {
+  switch (node.type) {
+    case 'number':
+      return node.value
+    case 'string':
+      throw new FormulaError('Text is only allowed as a catalog code')
+    case 'variable':
+      if (!hasOwn(scope.variables, node.name)) throw new FormulaError(`Unknown variable ${node.name}`)
+      return scope.variables[node.name]
+    case 'unary':
+      return -evaluateNode(node.operand, scope)
+    case 'binary':
+      return applyOperator(node.operator, evaluateNode(node.left, scope), evaluateNode(node.right, scope))
+    case 'call': {
+      const code = node.args[0]?.type === 'string' ? node.args[0].value : ''
+      if (node.name === 'material' || node.name === 'density') {
+        if (!hasOwn(scope.materials, code)) throw new FormulaError(`Unknown material ${code}`)
+        const material = scope.materials[code]
+        if (node.name === 'material') return material.price
+        if (material.density === null) throw new FormulaError(`Material ${code} has no density`)
+        return material.density
+      }
+      if (node.name === 'rate') {
+        if (!hasOwn(scope.operations, code)) throw new FormulaError(`Unknown operation ${code}`)
+        return scope.operations[code]
+      }
+      return MATH_FUNCTIONS[node.name].apply(...node.args.map(arg => evaluateNode(arg, scope)))
+    }
+  }
+}
@@ -0,0 +1,261 @@
+import type { InquiryStatus, ItemStatus, UserRole } from '@prisma/client'
+import { AppError, AuthorizationError } from '@/types'
+
+export interface WorkflowTransition<TStatus extends string, TSubject> {
+  to: TStatus
+  roles: UserRole[]
+  // Returns why the transition cannot happen yet, or null when it can
+  precondition?: (subject: TSubject) => string | null
+}
+
+// What the inquiry preconditions look at
+export interface InquiryWorkflowSubject {
+  items: Array<{ status: ItemStatus; assignedToId: string | null }>
+}
+
+// What the item preconditions look at
+export interface ItemWorkflowSubject {
+  assignedToId: string | null
+  costCalculation: { isApproved: boolean } | null
+}
+
+const ADMINS: UserRole[] = ['SUPERUSER', 'ADMIN']
+const SALES: UserRole[] = [...ADMINS, 'SALES']
+const ASSIGNERS: UserRole[] = [...ADMINS, 'VPP']
+const CALCULATORS: UserRole[] = [...ADMINS, 'VPP', 'VP']
+const APPROVERS: UserRole[] = [...ADMINS, 'MANAGER']
+
+const hasItems = (inquiry: InquiryWorkflowSubject) =>
+  inquiry.items.length > 0 ? null : 'Inquiry has no items'
+
+const allItemsAssigned = (inquiry: InquiryWorkflowSubject) =>
+  inquiry.items.length > 0 && inquiry.items.every(item => item.assignedToId)
+    ? null
+    : 'All items must be assigned first'
+
+const allItemsCosted = (inquiry: InquiryWorkflowSubject) =>
+  inquiry.items.length > 0 &&
+  inquiry.items.every(item => ['COSTED', 'APPROVED', 'QUOTED'].includes(item.status))
+    ? null
+    : 'All items must be COSTED first'
+
+/**
+ * Manual inquiry transitions. CONVERTED is only reached by converting the
+ * accepted quote into a production order.
+ */
+export const inquiryTransitions: Record<InquiryStatus, WorkflowTransition<InquiryStatus, InquiryWorkflowSubject>[]> = {
+  DRAFT: [
+    { to: 'SUBMITTED', roles: SALES, precondition: hasItems }
+  ],
+  SUBMITTED: [
+    { to: 'DRAFT', roles: SALES },
+    { to: 'IN_REVIEW', roles: ASSIGNERS },
+    { to: 'REJECTED', roles: [...ASSIGNERS, 'MANAGER'] }
+  ],
+  IN_REVIEW: [
+    { to: 'ASSIGNED', roles: ASSIGNERS, precondition: allItemsAssigned },
+    { to: 'REJECTED', roles: [...ASSIGNERS, 'MANAGER'] }
+  ],
+  ASSIGNED: [
+    { to: 'IN_REVIEW', roles: ASSIGNERS },
+    { to: 'COSTING', roles: CALCULATORS, precondition: allItemsAssigned }
+  ],
+  COSTING: [
+    { to: 'QUOTED', roles: SALES, precondition: allItemsCosted }
+  ],
+  QUOTED: [
+    { to: 'APPROVED', roles: [...SALES, 'MANAGER'] },
+    { to: 'REJECTED', roles: [...SALES, 'MANAGER'] }
+  ],
+  APPROVED: [],
+  REJECTED: [
+    { to: 'SUBMITTED', roles: SALES, precondition: hasItems }
+  ],
+  CONVERTED: []
+}
+
+/**
+ * Manual item transitions. QUOTED is only reached by creating a quote.
+ */
+export const itemTransitions: Record<ItemStatus, WorkflowTransition<ItemStatus, ItemWorkflowSubject>[]> = {
+  PENDING: [
+    {
+      to: 'ASSIGNED',
+      roles: ASSIGNERS,
+      precondition: item => item.assignedToId ? null : 'Item has no assignee'
+    }
+  ],
+  ASSIGNED: [
+    { to: 'PENDING', roles: ASSIGNERS },
+    { to: 'IN_PROGRESS', roles: CALCULATORS }
+  ],
+  IN_PROGRESS: [
+    {
+      to: 'COSTED',
+      roles: CALCULATORS,
+      precondition: item => item.costCalculation ? null : 'Item has no cost calculation'
+    }
+  ],
+  COSTED: [
+    { to: 'IN_PROGRESS', roles: CALCULATORS },
+    {
+      to: 'APPROVED',
+      roles: APPROVERS,
+      precondition: item => item.costCalculation?.isApproved ? null : 'Cost calculation is not approved'
+    }
+  ],
+  APPROVED: [],
+  QUOTED: []
+}
+
+// A move that follows from another change, so it carries no roles
+export type AutomaticTransition<TStatus extends string, TSubject> = Omit<WorkflowTransition<TStatus, TSubject>, 'roles'>
+
+const costingComplete: AutomaticTransition<InquiryStatus, InquiryWorkflowSubject> = {
+  to: 'COSTING',
+  precondition: allItemsCosted
+}
+const quoted: AutomaticTransition<InquiryStatus, InquiryWorkflowSubject> = { to: 'QUOTED' }
+
+/**
+ * Inquiry moves made by saving or approving cost calculations and creating
+ * quotes. The route making that change has already checked the user may;
+ * a move that is not listed here is not made.
+ */
+export const automaticInquiryTransitions: Partial<Record<InquiryStatus, AutomaticTransition<InquiryStatus, InquiryWorkflowSubject>[]>> = {
+  SUBMITTED: [costingComplete, quoted],
+  IN_REVIEW: [costingComplete, quoted],
+  ASSIGNED: [costingComplete, quoted],
+  COSTING: [quoted]
+}
+
+const hasCalculation = (item: ItemWorkflowSubject) =>
+  item.costCalculation ? null : 'Item has no cost calculation'
+
+/**
+ * Item moves made by saving, approving or rejecting its cost calculation and
+ * by quoting it
+ */
+export const automaticItemTransitions: Partial<Record<ItemStatus, AutomaticTransition<ItemStatus, ItemWorkflowSubject>[]>> = {
+  ASSIGNED: [{ to: 'COSTED', precondition: hasCalculation }],
+  IN_PROGRESS: [{ to: 'COSTED', precondition: hasCalculation }],
+  COSTED: [
+    {
+      to: 'APPROVED',
+      precondition: item => item.costCalculation?.isApproved ? null : 'Cost calculation is not approved'
+    },
+    { to: 'ASSIGNED' }
+  ],
+  APPROVED: [{ to: 'QUOTED' }]
+}
+
+function allowsAutomaticMove<TStatus extends string, TSubject>(
+  table: Partial<Record<TStatus, AutomaticTransition<TStatus, TSubject>[]>>,
+  from: TStatus,
+  to: TStatus,
+  subject: TSubject
+): boolean {
+  const transition = table[from]?.find(candidate => candidate.to === to)
+  return !!transition && !transition.precondition?.(subject)
+}
+
+function assertTransition<TStatus extends string, TSubject>(
+  table: Record<TStatus, WorkflowTransition<TStatus, TSubject>[]>,
+  entity: string,
+  from: TStatus,
+  to: TStatus,
+  role: UserRole,
+  subject: TSubject
+) {
+  const transition = table[from]?.find(candidate => candidate.to === to)
+  if (!transition) {
+    throw new AppError(`${entity} cannot move from ${from} to ${to}`, 409, 'INVALID_TRANSITION')
+  }
+
+  if (!transition.roles.includes(role)) {
+    throw new AuthorizationError(`${role} cannot move ${entity.toLowerCase()} from ${from} to ${to}`)
+  }
+
+  const problem = transition.precondition?.(subject)
+  if (problem) {
+    throw new AppError(`${entity} cannot move from ${from} to ${to}: ${problem}`, 409, 'INVALID_TRANSITION')
+  }
+}
+
+/**
+ * Throw unless `role` may move the inquiry from `from` to `to` right now
+ */
+export function assertInquiryTransition(
+  from: InquiryStatus,
+  to: InquiryStatus,
+  role: UserRole,
+  inquiry: InquiryWorkflowSubject
+) {
+  assertTransition(inquiryTransitions, 'Inquiry', from, to, role, inquiry)
+}
+
+/**
+ * Throw unless `role` may move the item from `from` to `to` right now
+ */
+export function assertItemTransition(
+  from: ItemStatus,
+  to: ItemStatus,
+  role: UserRole,
+  item: ItemWorkflowSubject
+) {
+  assertTransition(itemTransitions, 'Item', from, to, role, item)
+}
+
+export interface InquiryStatusChange {
+  inquiryId: string
+  from: InquiryStatus
+  to: InquiryStatus
+}
+
+/**
+ * Move the inquiry to `to` inside `tx` when an automatic transition allows it
+ * from its current status. The change is returned so the caller can fire
+ * `onInquiryStatusChanged` once the transaction has committed; null means
+ * the inquiry stays where it is.
+ */
+export async function applyAutomaticInquiryTransition(
+  tx: any,
+  inquiryId: string,
+  to: InquiryStatus
+): Promise<InquiryStatusChange | null> {
+  const inquiry = await tx.inquiry.findUnique({
+    where: { id: inquiryId },
+    select: { status: true, items: { select: { status: true, assignedToId: true } } }
+  })
+  if (!inquiry || inquiry.status === to) return null
+  if (!allowsAutomaticMove(automaticInquiryTransitions, inquiry.status as InquiryStatus, to, inquiry)) return null
+
+  const { count } = await tx.inquiry.updateMany({
+    where: { id: inquiryId, status: inquiry.status },
+    data: { status: to }
+  })
+  return count === 1 ? { inquiryId, from: inquiry.status, to } : null
+}
+
+/**
+ * Move the item to `to` inside `tx` when an automatic transition allows it
+ * from its current status. Returns whether the item moved.
+ */
+export async function applyAutomaticItemTransition(
+  tx: any,
+  itemId: string,
+  to: ItemStatus
+): Promise<boolean> {
+  const item = await tx.inquiryItem.findUnique({
+    where: { id: itemId },
+    select: { status: true, assignedToId: true, costCalculation: { select: { isApproved: true } } }
+  })
+  if (!item || item.status === to) return false
+  if (!allowsAutomaticMove(automaticItemTransitions, item.status as ItemStatus, to, item)) return false
+
+  const { count } = await tx.inquiryItem.updateMany({
+    where: { id: itemId, status: item.status },
+    data: { status: to }
+  })
+  return count === 1
+}
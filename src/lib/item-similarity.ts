@@ -0,0 +1,122 @@
+/**
+ * Text similarity between inquiry items: TF-IDF over name and description,
+ * with a small bonus for the same unit and a comparable quantity. Built in
+ * memory per request, so no database extension is needed.
+ */
+
+export interface SimilarityDocument {
+  id: string
+  name: string
+  description?: string | null
+  unit?: string | null
+  quantity: number
+}
+
+export interface SimilarityMatch {
+  id: string
+  score: number // 0..1
+}
+
+// Words that say nothing about the part, in the languages items are entered in
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'for', 'from', 'in', 'of', 'on', 'or', 'per', 'the', 'to', 'with',
+  'i', 'ili', 'na', 'od', 'po', 'sa', 'u', 'za', 'und', 'mit', 'der', 'die', 'das', 'fur'
+])
+
+// Names count twice as much as descriptions
+const NAME_WEIGHT = 2
+const TEXT_SHARE = 0.8
+const UNIT_SHARE = 0.1
+const QUANTITY_SHARE = 0.1
+
+/**
+ * Lowercase words without diacritics; "Čelični nosač 200x100" becomes
+ * ["celicni", "nosac", "200x100"]
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/đ/g, 'd')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+}
+
+function termFrequencies(document: SimilarityDocument): Map<string, number> {
+  const frequencies = new Map<string, number>()
+  const add = (tokens: string[], weight: number) => {
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + weight)
+    }
+  }
+  add(tokenize(document.name), NAME_WEIGHT)
+  add(tokenize(document.description ?? ''), 1)
+  return frequencies
+}
+
+function weightedVector(frequencies: Map<string, number>, idf: Map<string, number>) {
+  const vector = new Map<string, number>()
+  let norm = 0
+  frequencies.forEach((frequency, term) => {
+    const weight = (1 + Math.log(frequency)) * (idf.get(term) ?? 0)
+    if (weight > 0) {
+      vector.set(term, weight)
+      norm += weight * weight
+    }
+  })
+  return { vector, norm: Math.sqrt(norm) }
+}
+
+// 1 for equal quantities, falling to 0 at a factor of ten apart
+function quantitySimilarity(a: number, b: number): number {
+  if (a <= 0 || b <= 0) return 0
+  return Math.max(0, 1 - Math.abs(Math.log10(a / b)))
+}
+
+/**
+ * Rank candidates by similarity to the query item. Candidates sharing no
+ * word with it are left out, however close their unit and quantity.
+ */
+export function findSimilarItems(
+  query: SimilarityDocument,
+  candidates: SimilarityDocument[],
+  limit = 5
+): SimilarityMatch[] {
+  const documents = candidates.map(termFrequencies)
+  const queryFrequencies = termFrequencies(query)
+
+  // Smoothed inverse document frequency over the candidates and the query
+  const documentCount = documents.length + 1
+  const containing = new Map<string, number>()
+  for (const frequencies of documents.concat([queryFrequencies])) {
+    frequencies.forEach((_, term) => containing.set(term, (containing.get(term) ?? 0) + 1))
+  }
+  const idf = new Map<string, number>()
+  containing.forEach((count, term) => idf.set(term, Math.log((1 + documentCount) / (1 + count)) + 1))
+
+  const queryVector = weightedVector(queryFrequencies, idf)
+  if (queryVector.norm === 0) return []
+
+  const queryUnit = (query.unit ?? '').trim().toLowerCase()
+  const matches: SimilarityMatch[] = []
+  candidates.forEach((candidate, index) => {
+    const { vector, norm } = weightedVector(documents[index], idf)
+    if (norm === 0) return
+
+    let dot = 0
+    queryVector.vector.forEach((weight, term) => {
+      dot += weight * (vector.get(term) ?? 0)
+    })
+    if (dot === 0) return
+
+    const textScore = dot / (queryVector.norm * norm)
+    const sameUnit = queryUnit !== '' && queryUnit === (candidate.unit ?? '').trim().toLowerCase()
+    const score = TEXT_SHARE * textScore +
+      (sameUnit ? UNIT_SHARE : 0) +
+      QUANTITY_SHARE * quantitySimilarity(query.quantity, candidate.quantity)
+    matches.push({ id: candidate.id, score: Math.round(score * 1000) / 1000 })
+  })
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit)
+}
@@ -0,0 +1,64 @@
+import { db } from '@/lib/db/index'
+import { DEFAULT_LETTERHEAD, toLetterhead, type Letterhead } from '@/lib/letterhead'
+import { AppError } from '@/types'
+import type { LetterheadProfileInput } from '@/lib/validations'
+
+/**
+ * Letterhead for a document: the given profile, otherwise the default
+ * profile, otherwise the built-in details. A document keeps the profile it
+ * was issued under even after that profile is deactivated.
+ */
+export async function getLetterhead(profileId?: string | null): Promise<Letterhead> {
+  const profile = (profileId
+    ? await db.letterheadProfile.findUnique({ where: { id: profileId } })
+    : null) ?? await db.letterheadProfile.findFirst({ where: { isDefault: true, isActive: true } })
+
+  return profile ? toLetterhead(profile) : DEFAULT_LETTERHEAD
+}
+
+/**
+ * Profile a new document is issued under: the chosen one, which must be
+ * active, or the current default. Null while no profile exists.
+ */
+export async function resolveLetterheadProfile(profileId?: string | null) {
+  if (profileId) {
+    const profile = await db.letterheadProfile.findUnique({ where: { id: profileId } })
+    if (!profile || !profile.isActive) {
+      throw new AppError('Letterhead profile not found or inactive', 400)
+    }
+    return profile
+  }
+
+  return await db.letterheadProfile.findFirst({ where: { isDefault: true, isActive: true } })
+}
+
+/**
+ * Make a profile the default, clearing the flag on all others
+ */
+export async function setDefaultLetterheadProfile(tx: any, id: string) {
+  await tx.letterheadProfile.updateMany!({
+    where: { isDefault: true, id: { not: id } },
+    data: { isDefault: false }
+  })
+}
+
+/**
+ * Stored columns of a validated profile; blank optional fields are kept as null
+ */
+export function toLetterheadProfileData(input: LetterheadProfileInput) {
+  return {
+    name: input.name,
+    companyName: input.companyName,
+    address: input.address,
+    postalAddress: input.postalAddress || null,
+    phone: input.phone || null,
+    email: input.email || null,
+    website: input.website || null,
+    vatId: input.vatId || null,
+    registrationNumber: input.registrationNumber || null,
+    bankAccounts: input.bankAccounts.map(account => ({ ...account, currency: account.currency || null })),
+    logo: input.logo || null,
+    footerText: input.footerText || null,
+    defaultTerms: input.defaultTerms || null
+  }
+}
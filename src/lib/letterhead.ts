@@ -0,0 +1,104 @@
+/**
+ * Company details printed on generated documents. A letterhead profile holds
+ * them for one legal entity; documents without a profile of their own use the
+ * default one, and DEFAULT_LETTERHEAD stands in until a profile exists.
+ */
+
+// A type rather than an interface so it can be stored as JSON
+export type BankAccount = {
+  bankName: string
+  iban: string
+  swift: string
+  currency?: string | null
+}
+
+export interface Letterhead {
+  companyName: string
+  address: string
+  postalAddress: string | null
+  phone: string | null
+  email: string | null
+  website: string | null
+  vatId: string | null
+  registrationNumber: string | null
+  bankAccounts: BankAccount[]
+  logo: string | null
+  footerText: string | null
+  defaultTerms: string | null
+}
+
+export const DEFAULT_LETTERHEAD: Letterhead = {
+  companyName: 'GS Manufacturing Solutions',
+  address: '123 Industrial District, Manufacturing Zone, Istanbul, Turkey',
+  postalAddress: null,
+  phone: '+90 212 555 0123',
+  email: 'info@gsmanufacturing.com',
+  website: 'www.gsmanufacturing.com',
+  vatId: null,
+  registrationNumber: null,
+  bankAccounts: [],
+  logo: null,
+  footerText: null,
+  defaultTerms: null
+}
+
+// Logos are stored inline; exceljs can only embed PNG and JPEG
+export const LOGO_DATA_URI = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+=*$/
+export const MAX_LOGO_BYTES = 512 * 1024
+
+/**
+ * Letterhead of a stored profile
+ */
+export function toLetterhead(profile: {
+  companyName: string
+  address: string
+  postalAddress: string | null
+  phone: string | null
+  email: string | null
+  website: string | null
+  vatId: string | null
+  registrationNumber: string | null
+  bankAccounts: unknown
+  logo: string | null
+  footerText: string | null
+  defaultTerms: string | null
+}): Letterhead {
+  return {
+    companyName: profile.companyName,
+    address: profile.address,
+    postalAddress: profile.postalAddress,
+    phone: profile.phone,
+    email: profile.email,
+    website: profile.website,
+    vatId: profile.vatId,
+    registrationNumber: profile.registrationNumber,
+    bankAccounts: Array.isArray(profile.bankAccounts) ? profile.bankAccounts as BankAccount[] : [],
+    logo: profile.logo,
+    footerText: profile.footerText,
+    defaultTerms: profile.defaultTerms
+  }
+}
+
+// IBAN in groups of four, as printed on invoices
+export function formatIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase().replace(/(.{4})(?=.)/g, '$1 ')
+}
+
+// Text entered in the settings is placed into document HTML as text
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Registration line under the company name, e.g. "VAT ID: BA123 · Reg. No.: 456"
+ */
+export function describeRegistration(letterhead: Pick<Letterhead, 'vatId' | 'registrationNumber'>): string {
+  const parts: string[] = []
+  if (letterhead.vatId) parts.push(`VAT ID: ${letterhead.vatId}`)
+  if (letterhead.registrationNumber) parts.push(`Reg. No.: ${letterhead.registrationNumber}`)
+  return parts.join(' · ')
+}
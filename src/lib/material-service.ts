@@ -0,0 +1,306 @@
+import type { Currency } from '@prisma/client'
+import { db } from '@/lib/db/index'
+import { materialSchema, type MaterialInput } from '@/lib/validations'
+import type { MaterialImportRow } from '@/lib/excel'
+import { AppError } from '@/types'
+
+export interface MaterialImportResult {
+  created: number
+  updated: number
+  priceChanges: number
+  errors: Array<{ row: number; message: string }>
+}
+
+// Spellings accepted for enum columns in imported workbooks
+const enumAliases: Record<string, string> = {
+  STAINLESS: 'STAINLESS_STEEL',
+  INOX: 'STAINLESS_STEEL',
+  ALUMINUM: 'ALUMINIUM',
+  PCS: 'PIECE',
+  PC: 'PIECE',
+  PIECES: 'PIECE',
+  METER: 'M',
+  METRE: 'M'
+}
+
+/**
+ * Record a dated price for a catalog material. The material's currentPrice
+ * follows the entry with the latest validFrom, so back-dated corrections only
+ * extend the history. Returns false when nothing changed.
+ */
+export async function recordMaterialPrice(
+  tx: any,
+  material: { id: string; currentPrice: unknown; currency: Currency },
+  entry: { price: number; currency: Currency; validFrom?: Date },
+  userId: string,
+  source: string
+): Promise<boolean> {
+  const samePrice = Number(material.currentPrice) === entry.price && material.currency === entry.currency
+  if (samePrice && !entry.validFrom) return false
+
+  const validFrom = entry.validFrom ?? new Date()
+  await tx.materialPrice.create({
+    data: {
+      materialId: material.id,
+      price: entry.price,
+      currency: entry.currency,
+      validFrom,
+      source,
+      createdById: userId
+    }
+  })
+
+  const newer = await tx.materialPrice.findFirst({
+    where: { materialId: material.id, validFrom: { gt: validFrom } }
+  })
+  if (!newer && !samePrice) {
+    await tx.material.update({
+      where: { id: material.id },
+      data: { currentPrice: entry.price, currency: entry.currency }
+    })
+  }
+
+  return true
+}
+
+function materialFields(input: MaterialInput) {
+  return {
+    code: input.code,
+    name: input.name,
+    category: input.category,
+    grade: input.grade,
+    form: input.form,
+    dimensions: input.dimensions ?? null,
+    density: input.density ?? null,
+    priceUnit: input.priceUnit,
+    supplier: input.supplier ?? null,
+    isActive: input.isActive
+  }
+}
+
+/**
+ * Add a material to the catalog together with its first price
+ */
+export async function createMaterial(input: MaterialInput, userId: string) {
+  const existing = await db.material.findFirst({ where: { code: input.code } })
+  if (existing) {
+    throw new AppError(`A material with code ${input.code} already exists`, 409, 'DUPLICATE_CODE')
+  }
+
+  return db.$transaction(async (tx) => {
+    const material = await tx.material.create({
+      data: {
+        ...materialFields(input),
+        currentPrice: input.price,
+        currency: input.currency
+      }
+    })
+
+    await tx.materialPrice.create({
+      data: {
+        materialId: material.id,
+        price: input.price,
+        currency: input.currency,
+        validFrom: input.priceValidFrom ?? new Date(),
+        source: 'manual',
+        createdById: userId
+      }
+    })
+
+    await tx.auditLog.create({
+      data: {
+        action: 'CREATE',
+        entity: 'MATERIAL',
+        entityId: material.id,
+        userId,
+        inquiryId: null,
+        oldData: {},
+        newData: { ...materialFields(input), price: input.price, currency: input.currency },
+        metadata: { code: material.code }
+      }
+    })
+
+    return material
+  })
+}
+
+/**
+ * Update a catalog material; a changed price is added to its history
+ */
+export async function updateMaterial(id: string, input: MaterialInput, userId: string) {
+  const existing = await db.material.findUnique({ where: { id } })
+  if (!existing) {
+    throw new AppError('Material not found', 404)
+  }
+
+  if (input.code !== existing.code) {
+    const duplicate = await db.material.findFirst({ where: { code: input.code } })
+    if (duplicate) {
+      throw new AppError(`A material with code ${input.code} already exists`, 409, 'DUPLICATE_CODE')
+    }
+  }
+
+  return db.$transaction(async (tx) => {
+    await tx.material.update({
+      where: { id },
+      data: materialFields(input)
+    })
+
+    const priceChanged = await recordMaterialPrice(
+      tx,
+      existing,
+      { price: input.price, currency: input.currency, validFrom: input.priceValidFrom },
+      userId,
+      'manual'
+    )
+
+    await tx.auditLog.create({
+      data: {
+        action: 'UPDATE',
+        entity: 'MATERIAL',
+        entityId: id,
+        userId,
+        inquiryId: null,
+        oldData: {
+          name: existing.name,
+          grade: existing.grade,
+          price: Number(existing.currentPrice),
+          currency: existing.currency,
+          isActive: existing.isActive
+        },
+        newData: { ...materialFields(input), price: input.price, currency: input.currency },
+        metadata: { code: input.code, priceChanged }
+      }
+    })
+
+    return tx.material.findUnique({ where: { id } })
+  })
+}
+
+// Workbook cells arrive as text or numbers; bring them into schema shape
+function normalizeImportValues(values: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null || value === '') continue
+
+    if (key === 'category' || key === 'form' || key === 'priceUnit' || key === 'currency') {
+      const text = String(value).trim().toUpperCase().replace(/[\s-]+/g, '_')
+      normalized[key] = enumAliases[text] ?? text
+    } else if (key === 'price' || key === 'density') {
+      normalized[key] = typeof value === 'number' ? value : Number(String(value).replace(',', '.'))
+    } else if (key === 'priceValidFrom') {
+      normalized[key] = value instanceof Date ? value : String(value)
+    } else {
+      normalized[key] = String(value).trim()
+    }
+  }
+
+  return normalized
+}
+
+/**
+ * Create or update catalog materials from imported rows, matched by code.
+ * Invalid rows are reported and skipped; valid rows are saved together.
+ */
+export async function importMaterials(
+  rows: MaterialImportRow[],
+  userId: string,
+  fileName: string
+): Promise<MaterialImportResult> {
+  const result: MaterialImportResult = { created: 0, updated: 0, priceChanges: 0, errors: [] }
+  const source = `import: ${fileName}`
+
+  const valid: Array<{ rowNumber: number; input: MaterialInput }> = []
+  const seenCodes = new Set<string>()
+  for (const row of rows) {
+    const parsed = materialSchema.safeParse(normalizeImportValues(row.values))
+    if (!parsed.success) {
+      result.errors.push({
+        row: row.rowNumber,
+        message: parsed.error.errors.map(error => `${error.path.join('.')}: ${error.message}`).join('; ')
+      })
+      continue
+    }
+    if (seenCodes.has(parsed.data.code)) {
+      result.errors.push({ row: row.rowNumber, message: `Duplicate code ${parsed.data.code} in file` })
+      continue
+    }
+    seenCodes.add(parsed.data.code)
+    valid.push({ rowNumber: row.rowNumber, input: parsed.data })
+  }
+
+  await db.$transaction(async (tx) => {
+    for (const { input } of valid) {
+      const existing = await tx.material.findUnique({ where: { code: input.code } })
+
+      if (!existing) {
+        const material = await tx.material.create({
+          data: {
+            ...materialFields(input),
+            currentPrice: input.price,
+            currency: input.currency
+          }
+        })
+        await tx.materialPrice.create({
+          data: {
+            materialId: material.id,
+            price: input.price,
+            currency: input.currency,
+            validFrom: input.priceValidFrom ?? new Date(),
+            source,
+            createdById: userId
+          }
+        })
+        result.created++
+        result.priceChanges++
+        continue
+      }
+
+      await tx.material.update({
+        where: { id: existing.id },
+        data: materialFields(input)
+      })
+      const priceChanged = await recordMaterialPrice(
+        tx,
+        existing,
+        { price: input.price, currency: input.currency, validFrom: input.priceValidFrom },
+        userId,
+        source
+      )
+      result.updated++
+      if (priceChanged) result.priceChanges++
+    }
+
+    await tx.auditLog.create({
+      data: {
+        action: 'IMPORT',
+        entity: 'MATERIAL',
+        entityId: 'catalog',
+        userId,
+        inquiryId: null,
+        oldData: {},
+        newData: { created: result.created, updated: result.updated, priceChanges: result.priceChanges },
+        metadata: { fileName, rows: rows.length, errors: result.errors.length }
+      }
+    })
+  })
+
+  return result
+}
+
+/**
+ * Check that BOM lines only reference catalog materials that exist
+ */
+export async function assertCatalogMaterials(lines: Array<{ materialId?: string }> | undefined) {
+  const ids = Array.from(new Set((lines ?? []).map(line => line.materialId).filter(Boolean))) as string[]
+  if (ids.length === 0) return
+
+  const found = await db.material.findMany({
+    where: { id: { in: ids } },
+    select: { id: true }
+  })
+  if (found.length !== ids.length) {
+    throw new AppError('Bill of materials references an unknown catalog material', 400, 'UNKNOWN_MATERIAL')
+  }
+}
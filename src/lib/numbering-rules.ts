@@ -0,0 +1,117 @@
+import { NumberedDocument } from '@prisma/client'
+
+/**
+ * Document number patterns. A pattern is literal text with placeholders:
+ * {YYYY} and {YY} for the year, {MM} for the month and {seq} or {seq:N} for
+ * the counter, zero-padded to N digits. "Q-{YYYY}-{seq:5}" gives Q-2025-00042.
+ */
+
+export const numberedDocumentLabels: Record<NumberedDocument, string> = {
+  QUOTE: 'Quotes',
+  PRODUCTION_ORDER: 'Production orders',
+  INQUIRY: 'Inquiries'
+}
+
+// Used while a document type has no pattern of its own
+export const defaultNumberPatterns: Record<NumberedDocument, string> = {
+  QUOTE: 'Q-{YYYY}-{seq:5}',
+  PRODUCTION_ORDER: 'PO-{YYYY}-{seq:5}',
+  INQUIRY: 'INQ-{YYYY}-{seq:5}'
+}
+
+export class NumberPatternError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NumberPatternError'
+  }
+}
+
+const PLACEHOLDER = /\{([^{}]*)\}/g
+const SEQUENCE = /^seq(?::(\d+))?$/
+const MAX_PADDING = 12
+
+/**
+ * Check a pattern; throws NumberPatternError when it has an unknown
+ * placeholder, no single {seq}, or resets yearly without the year in it
+ * (numbers of different years would then repeat)
+ */
+export function validateNumberPattern(pattern: string, resetYearly: boolean) {
+  let sequences = 0
+  let hasYear = false
+  let match: RegExpExecArray | null
+  PLACEHOLDER.lastIndex = 0
+  while ((match = PLACEHOLDER.exec(pattern)) !== null) {
+    const token = match[1]
+    const sequence = SEQUENCE.exec(token)
+    if (sequence) {
+      sequences++
+      if (sequence[1] && Number(sequence[1]) > MAX_PADDING) {
+        throw new NumberPatternError(`{seq} can be padded to at most ${MAX_PADDING} digits`)
+      }
+    } else if (token === 'YYYY' || token === 'YY') {
+      hasYear = true
+    } else if (token !== 'MM') {
+      throw new NumberPatternError(`Unknown placeholder {${token}}`)
+    }
+  }
+
+  if (sequences !== 1) {
+    throw new NumberPatternError('The pattern must contain {seq} exactly once')
+  }
+  if (resetYearly && !hasYear) {
+    throw new NumberPatternError('A pattern that resets yearly must contain {YYYY} or {YY}')
+  }
+}
+
+/**
+ * Number for a counter value on a date
+ */
+export function formatDocumentNumber(pattern: string, date: Date, sequence: number): string {
+  return pattern.replace(PLACEHOLDER, (placeholder, token: string) => {
+    const padding = SEQUENCE.exec(token)
+    if (padding) return String(sequence).padStart(Number(padding[1] ?? 0), '0')
+    if (token === 'YYYY') return String(date.getFullYear())
+    if (token === 'YY') return String(date.getFullYear()).slice(-2)
+    if (token === 'MM') return String(date.getMonth() + 1).padStart(2, '0')
+    return placeholder
+  })
+}
+
+/**
+ * Counter value in a number made from a pattern; null when the number does
+ * not follow it. With a year only numbers of that year match; {MM} matches
+ * any month.
+ */
+export function parseDocumentSequence(pattern: string, number: string, year: number | null): number | null {
+  const tokenExpressions: Record<string, string> = {
+    YYYY: year === null ? '\\d{4}' : String(year),
+    YY: year === null ? '\\d{2}' : String(year).slice(-2),
+    MM: '\\d{2}'
+  }
+
+  let expression = ''
+  let last = 0
+  let match: RegExpExecArray | null
+  PLACEHOLDER.lastIndex = 0
+  while ((match = PLACEHOLDER.exec(pattern)) !== null) {
+    expression += escapeRegExp(pattern.slice(last, match.index))
+    expression += SEQUENCE.test(match[1]) ? '(\\d+)' : tokenExpressions[match[1]]
+    last = match.index + match[0].length
+  }
+  expression += escapeRegExp(pattern.slice(last))
+
+  const parsed = new RegExp(`^${expression}$`).exec(number)
+  return parsed ? Number(parsed[1]) : null
+}
+
+/**
+ * Text every number from a pattern starts with, whatever the date and counter
+ */
+export function literalPrefix(pattern: string): string {
+  const placeholder = pattern.indexOf('{')
+  return placeholder === -1 ? pattern : pattern.slice(0, placeholder)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,104 @@
+import { NumberedDocument } from '@prisma/client'
+import { db } from '@/lib/db/index'
+import {
+  defaultNumberPatterns,
+  formatDocumentNumber,
+  literalPrefix,
+  parseDocumentSequence
+} from '@/lib/numbering-rules'
+
+export interface NumberingSequenceSettings {
+  documentType: NumberedDocument
+  pattern: string
+  resetYearly: boolean
+  // No pattern of its own, the built-in default applies
+  isDefault: boolean
+}
+
+// Where each document type keeps its number
+const numberedFields: Record<NumberedDocument, { model: 'quote' | 'productionOrder' | 'inquiry'; field: string }> = {
+  QUOTE: { model: 'quote', field: 'quoteNumber' },
+  PRODUCTION_ORDER: { model: 'productionOrder', field: 'orderNumber' },
+  INQUIRY: { model: 'inquiry', field: 'inquiryNumber' }
+}
+
+/**
+ * Pattern a document type is numbered with
+ */
+export async function getNumberingSequence(
+  documentType: NumberedDocument,
+  client: any = db
+): Promise<NumberingSequenceSettings> {
+  const sequence = await client.numberingSequence.findUnique({ where: { documentType } })
+  return sequence
+    ? { documentType, pattern: sequence.pattern, resetYearly: sequence.resetYearly, isDefault: false }
+    : { documentType, pattern: defaultNumberPatterns[documentType], resetYearly: true, isDefault: true }
+}
+
+// Counter a number is drawn from: one per year, or year 0 when it never resets
+function counterYear(sequence: NumberingSequenceSettings, date: Date): number {
+  return sequence.resetYearly ? date.getFullYear() : 0
+}
+
+/**
+ * Highest counter value among numbers already issued under the pattern, so
+ * a new counter carries on from documents numbered before it existed
+ */
+async function findLastIssued(tx: any, sequence: NumberingSequenceSettings, year: number): Promise<number> {
+  const { model, field } = numberedFields[sequence.documentType]
+  const documents = await tx[model].findMany({
+    where: { [field]: { startsWith: literalPrefix(sequence.pattern) } },
+    select: { [field]: true }
+  })
+
+  return documents.reduce((last: number, document: any) => {
+    const value = document[field] ? parseDocumentSequence(sequence.pattern, document[field], year || null) : null
+    return value !== null && value > last ? value : last
+  }, 0)
+}
+
+/**
+ * Issue the next number of a document type. Must run inside the transaction
+ * that creates the document: the counter row stays locked until it commits,
+ * so parallel requests queue for their numbers and a rolled-back document
+ * gives its number back.
+ */
+export async function nextDocumentNumber(
+  tx: any,
+  documentType: NumberedDocument,
+  date: Date = new Date()
+): Promise<string> {
+  const sequence = await getNumberingSequence(documentType, tx)
+  const year = counterYear(sequence, date)
+
+  const existing = await tx.numberingCounter.findUnique({
+    where: { documentType_year: { documentType, year } }
+  })
+  // Concurrent first numbers of a year both try to insert; the loser's
+  // upsert turns into an increment
+  const firstValue = existing ? 1 : await findLastIssued(tx, sequence, year) + 1
+
+  const counter = await tx.numberingCounter.upsert!({
+    where: { documentType_year: { documentType, year } },
+    create: { documentType, year, lastValue: firstValue },
+    update: { lastValue: { increment: 1 } }
+  })
+
+  return formatDocumentNumber(sequence.pattern, date, counter.lastValue)
+}
+
+/**
+ * Number the next document of a type would get, without issuing it
+ */
+export async function peekDocumentNumber(
+  documentType: NumberedDocument,
+  date: Date = new Date()
+): Promise<string> {
+  const sequence = await getNumberingSequence(documentType)
+  const year = counterYear(sequence, date)
+  const counter = await db.numberingCounter.findUnique({
+    where: { documentType_year: { documentType, year } }
+  })
+  const lastValue = counter ? counter.lastValue : await findLastIssued(db, sequence, year)
+  return formatDocumentNumber(sequence.pattern, date, lastValue + 1)
+}
@@ -1,6 +1,10 @@
 import { Inquiry, InquiryItem, Customer, User, CostCalculation } from '@prisma/client'
 import { formatDate, formatCurrency } from '@/lib/utils'
-import { DEFAULT_COMPANY_INFO } from './pdf'
+import { formatCurrency as formatInCurrency } from '@/lib/currency'
+import { describeRegistration, escapeHtml, formatIban, type Letterhead } from './letterhead'
+import { describeQuoteRate, type QuoteDocumentLine, type QuoteDocumentCurrency } from './quote-service'
+import { describeQuoteTax, type QuoteTax } from './tax-rules'
+import { PDF_DOCUMENT_CSS } from './pdf-styles.generated'
 
 type InquiryWithRelations = Inquiry & {
   customer: Customer
@@ -10,37 +14,141 @@ type InquiryWithRelations = Inquiry & {
   createdBy: User
 }
 
+// Terms printed when neither the quote nor its letterhead has any
+const STANDARD_QUOTE_TERMS = [
+  'Prices are subject to change without prior notice.',
+  'Payment terms: 50% advance, 50% on delivery.',
+  'Delivery time will be confirmed upon order placement.',
+  'All prices are exclusive of transportation and installation charges.',
+  'This quote does not constitute a contract until formally accepted.'
+]
+
+/**
+ * Complete HTML page around a document body, as rendered to PDF and in the
+ * letterhead preview. Styles and fonts are embedded, so the page loads
+ * nothing over the network.
+ */
+export function wrapDocumentHTML(html: string, title: string = 'PDF Document'): string {
+  return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${escapeHtml(title)}</title>
+          <style>${PDF_DOCUMENT_CSS}</style>
+          <style>
+            @media print {
+              body { -webkit-print-color-adjust: exact; }
+              .page-break { page-break-before: always; }
+              .no-page-break { page-break-inside: avoid; }
+            }
+            body {
+              font-family: 'Noto Sans', Arial, sans-serif;
+              margin: 0;
+              padding: 0;
+              color: #1f2937;
+            }
+            .loading-spinner {
+              border: 2px solid #f3f3f3;
+              border-top: 2px solid #3498db;
+              border-radius: 50%;
+              width: 20px;
+              height: 20px;
+              animation: spin 1s linear infinite;
+              margin: 0 auto;
+            }
+            @keyframes spin {
+              0% { transform: rotate(0deg); }
+              100% { transform: rotate(360deg); }
+            }
+          </style>
+        </head>
+        <body>
+          ${html}
+        </body>
+        </html>
+      `
+}
+
+// Company block at the top left of a document
+function renderLetterheadHeader(letterhead: Letterhead): string {
+  const contact = [
+    letterhead.phone && `Tel: ${escapeHtml(letterhead.phone)}`,
+    letterhead.email && `Email: ${escapeHtml(letterhead.email)}`
+  ].filter(Boolean).join(' | ')
+  const registration = describeRegistration(letterhead)
+
+  return `
+        <div class="flex items-center space-x-4">
+          ${letterhead.logo ? `<img src="${escapeHtml(letterhead.logo)}" alt="" style="max-height: 64px; max-width: 160px;" />` : ''}
+          <div>
+            <h1 class="text-2xl font-bold text-gray-900">${escapeHtml(letterhead.companyName)}</h1>
+            <div class="text-sm text-gray-600 mt-1">
+              <p>${escapeHtml(letterhead.address)}</p>
+              ${letterhead.postalAddress ? `<p>Postal address: ${escapeHtml(letterhead.postalAddress)}</p>` : ''}
+              ${contact ? `<p>${contact}</p>` : ''}
+              ${letterhead.website ? `<p>Web: ${escapeHtml(letterhead.website)}</p>` : ''}
+              ${registration ? `<p>${escapeHtml(registration)}</p>` : ''}
+            </div>
+          </div>
+        </div>`
+}
+
+function renderBankAccounts(letterhead: Letterhead): string {
+  if (letterhead.bankAccounts.length === 0) return ''
+  return `
+          <div>
+            <h4 class="font-semibold mb-2">Bank Details</h4>
+            <div class="text-sm text-gray-600 space-y-2">
+              ${letterhead.bankAccounts.map(account => `
+                <div>
+                  <p>${escapeHtml(account.bankName)}${account.currency ? ` (${escapeHtml(account.currency)})` : ''}</p>
+                  <p>IBAN: ${escapeHtml(formatIban(account.iban))}</p>
+                  <p>SWIFT: ${escapeHtml(account.swift)}</p>
+                </div>
+              `).join('')}
+            </div>
+          </div>`
+}
+
+function renderTerms(terms: string | null, validUntil: Date): string {
+  const validDays = Math.ceil((validUntil.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))
+  const lines = [`This quote is valid for ${validDays} days from the date of issue.`].concat(
+    terms
+      ? terms.split(/\r?\n/).map(line => line.replace(/^\s*[•*-]\s*/, '').trim()).filter(Boolean)
+      : STANDARD_QUOTE_TERMS
+  )
+  return lines.map(line => `<p>• ${escapeHtml(line)}</p>`).join('\n          ')
+}
+
+/**
+ * Quote document. `terms` are the quote's own; without them the letterhead's
+ * default terms, then the standard ones, are printed.
+ */
 export function generateQuoteHTML(
   inquiry: InquiryWithRelations,
   quoteNumber: string,
-  validUntil: Date
+  validUntil: Date,
+  lines: QuoteDocumentLine[],
+  pricing: QuoteDocumentCurrency,
+  tax: QuoteTax,
+  letterhead: Letterhead,
+  terms: string | null = null
 ): string {
-  const companyInfo = DEFAULT_COMPANY_INFO
-  const subtotal = inquiry.items.reduce((sum, item) => {
-    return sum + (item.costCalculation?.totalCost?.toNumber() || 0)
-  }, 0)
-  
-  const taxRate = 0.18 // 18% VAT
-  const taxAmount = subtotal * taxRate
-  const total = subtotal + taxAmount
+  const money = (amount: number) => formatInCurrency(amount, pricing.currency)
+  const rate = describeQuoteRate(pricing)
+  const subtotal = lines.reduce((sum, line) => sum + line.lineTotal, 0)
+  const hasDiscounts = lines.some(line => line.discount > 0)
 
   return `
-    <div class="max-w-4xl mx-auto bg-white p-8" style="font-family: Arial, sans-serif;">
+    <div class="max-w-4xl mx-auto bg-white p-8">
       <!-- Header -->
       <div class="flex items-start justify-between mb-8 border-b pb-6">
-        <div class="flex items-center space-x-4">
-          <div>
-            <h1 class="text-2xl font-bold text-gray-900">${companyInfo.name}</h1>
-            <div class="text-sm text-gray-600 mt-1">
-              <p>${companyInfo.address}</p>
-              <p>Tel: ${companyInfo.phone} | Email: ${companyInfo.email}</p>
-              <p>Web: ${companyInfo.website}</p>
-            </div>
-          </div>
-        </div>
+        ${renderLetterheadHeader(letterhead)}
         <div class="text-right">
           <h2 class="text-3xl font-bold text-blue-600">QUOTE</h2>
-          <p class="text-lg font-semibold mt-2">#${quoteNumber}</p>
+          <p class="text-lg font-semibold mt-2">#${escapeHtml(quoteNumber)}</p>
           <p class="text-sm text-gray-600">Date: ${formatDate(new Date())}</p>
           <p class="text-sm text-gray-600">Valid Until: ${formatDate(validUntil)}</p>
         </div>
@@ -51,19 +159,19 @@ export function generateQuoteHTML(
         <div>
           <h3 class="text-lg font-semibold mb-3 text-gray-900">Quote To:</h3>
           <div class="text-sm">
-            <p class="font-semibold">${inquiry.customer.name}</p>
-            <p>${inquiry.customer.address || ''}</p>
-            <p>Email: ${inquiry.customer.email}</p>
-            <p>Phone: ${inquiry.customer.phone || ''}</p>
+            <p class="font-semibold">${escapeHtml(inquiry.customer.name)}</p>
+            <p>${escapeHtml(inquiry.customer.address || '')}</p>
+            <p>Email: ${escapeHtml(inquiry.customer.email || '')}</p>
+            <p>Phone: ${escapeHtml(inquiry.customer.phone || '')}</p>
           </div>
         </div>
         <div>
           <h3 class="text-lg font-semibold mb-3 text-gray-900">Project Details:</h3>
           <div class="text-sm">
-            <p><span class="font-medium">Inquiry:</span> ${inquiry.title}</p>
-            <p><span class="font-medium">Description:</span> ${inquiry.description || ''}</p>
+            <p><span class="font-medium">Inquiry:</span> ${escapeHtml(inquiry.title)}</p>
+            <p><span class="font-medium">Description:</span> ${escapeHtml(inquiry.description || '')}</p>
             <p><span class="font-medium">Priority:</span> ${inquiry.priority}</p>
-            <p><span class="font-medium">Sales Representative:</span> ${inquiry.createdBy.name}</p>
+            <p><span class="font-medium">Sales Representative:</span> ${escapeHtml(inquiry.createdBy.name || '')}</p>
           </div>
         </div>
       </div>
@@ -77,34 +185,34 @@ export function generateQuoteHTML(
               <th class="border border-gray-300 px-4 py-3 text-left text-sm font-semibold">Item</th>
               <th class="border border-gray-300 px-4 py-3 text-center text-sm font-semibold">Qty</th>
               <th class="border border-gray-300 px-4 py-3 text-right text-sm font-semibold">Unit Price</th>
+              ${hasDiscounts ? '<th class="border border-gray-300 px-4 py-3 text-right text-sm font-semibold">Discount</th>' : ''}
               <th class="border border-gray-300 px-4 py-3 text-right text-sm font-semibold">Total</th>
             </tr>
           </thead>
           <tbody>
-            ${inquiry.items.map((item, index) => {
-              const unitPrice = item.costCalculation?.totalCost?.toNumber() || 0
-              const itemTotal = unitPrice * (item.quantity || 1)
-              
-              return `
+            ${lines.map((line, index) => `
                 <tr class="${index % 2 === 0 ? 'bg-white' : 'bg-gray-25'}">
                   <td class="border border-gray-300 px-4 py-3">
                     <div>
-                      <p class="font-medium text-sm">${item.name}</p>
-                      ${item.description ? `<p class="text-xs text-gray-600 mt-1">${item.description}</p>` : ''}
+                      <p class="font-medium text-sm">${escapeHtml(line.name)}</p>
+                      ${line.description ? `<p class="text-xs text-gray-600 mt-1">${escapeHtml(line.description)}</p>` : ''}
                     </div>
                   </td>
                   <td class="border border-gray-300 px-4 py-3 text-center text-sm">
-                    ${item.quantity || 1}
+                    ${line.quantity}${line.unit ? ` ${escapeHtml(line.unit)}` : ''}
                   </td>
                   <td class="border border-gray-300 px-4 py-3 text-right text-sm">
-                    ${formatCurrency(unitPrice)}
+                    ${money(line.unitPrice)}
                   </td>
+                  ${hasDiscounts ? `
+                  <td class="border border-gray-300 px-4 py-3 text-right text-sm">
+                    ${line.discount > 0 ? `${(line.discount * 100).toFixed(1)}%` : '-'}
+                  </td>` : ''}
                   <td class="border border-gray-300 px-4 py-3 text-right text-sm font-medium">
-                    ${formatCurrency(itemTotal)}
+                    ${money(line.lineTotal)}
                   </td>
                 </tr>
-              `
-            }).join('')}
+              `).join('')}
           </tbody>
         </table>
       </div>
@@ -115,19 +223,23 @@ export function generateQuoteHTML(
           <div class="bg-gray-50 p-4 rounded-lg">
             <div class="flex justify-between items-center mb-2">
               <span class="text-sm">Subtotal:</span>
-              <span class="text-sm font-medium">${formatCurrency(subtotal)}</span>
+              <span class="text-sm font-medium">${money(subtotal)}</span>
             </div>
             <div class="flex justify-between items-center mb-2">
-              <span class="text-sm">VAT (${(taxRate * 100).toFixed(0)}%):</span>
-              <span class="text-sm font-medium">${formatCurrency(taxAmount)}</span>
+              <span class="text-sm">${escapeHtml(describeQuoteTax(tax))}:</span>
+              <span class="text-sm font-medium">${money(tax.taxAmount)}</span>
             </div>
             <div class="border-t border-gray-300 pt-2 mt-2">
               <div class="flex justify-between items-center">
                 <span class="text-lg font-bold">Total:</span>
-                <span class="text-lg font-bold text-blue-600">${formatCurrency(total)}</span>
+                <span class="text-lg font-bold text-blue-600">${money(tax.grossTotal)}</span>
               </div>
             </div>
           </div>
+          <p class="text-xs text-gray-600 mt-2 text-right">
+            All prices in ${pricing.currency}${rate ? `, converted at ${rate}` : ''}
+          </p>
+          ${tax.taxNote ? `<p class="text-xs text-gray-600 mt-1 text-right">${escapeHtml(tax.taxNote)}</p>` : ''}
         </div>
       </div>
 
@@ -135,38 +247,26 @@ export function generateQuoteHTML(
       <div class="mb-8">
         <h3 class="text-lg font-semibold mb-3 text-gray-900">Terms & Conditions</h3>
         <div class="text-sm text-gray-700 space-y-2">
-          <p>• This quote is valid for ${Math.ceil((validUntil.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))} days from the date of issue.</p>
-          <p>• Prices are subject to change without prior notice.</p>
-          <p>• Payment terms: 50% advance, 50% on delivery.</p>
-          <p>• Delivery time will be confirmed upon order placement.</p>
-          <p>• All prices are exclusive of transportation and installation charges.</p>
-          <p>• This quote does not constitute a contract until formally accepted.</p>
+          ${renderTerms(terms ?? letterhead.defaultTerms, validUntil)}
         </div>
       </div>
 
       <!-- Footer -->
       <div class="border-t pt-6">
         <div class="grid grid-cols-2 gap-8">
-          <div>
-            <h4 class="font-semibold mb-2">Bank Details</h4>
-            <div class="text-sm text-gray-600">
-              <p>Bank Name: Sample Bank</p>
-              <p>Account Number: 1234567890</p>
-              <p>IBAN: TR12 3456 7890 1234 5678 90</p>
-              <p>Swift Code: SAMPLETR</p>
-            </div>
-          </div>
+          ${renderBankAccounts(letterhead) || '<div></div>'}
           <div class="text-right">
             <h4 class="font-semibold mb-2">Contact Information</h4>
             <div class="text-sm text-gray-600">
               <p>For questions about this quote:</p>
-              <p>${inquiry.createdBy.name}</p>
-              <p>${inquiry.createdBy.email}</p>
-              <p>Phone: ${companyInfo.phone}</p>
+              <p>${escapeHtml(inquiry.createdBy.name || '')}</p>
+              <p>${escapeHtml(inquiry.createdBy.email)}</p>
+              ${letterhead.phone ? `<p>Phone: ${escapeHtml(letterhead.phone)}</p>` : ''}
             </div>
           </div>
         </div>
         <div class="text-center text-xs text-gray-500 mt-6">
+          ${letterhead.footerText ? `<p class="mb-1">${escapeHtml(letterhead.footerText)}</p>` : ''}
           <p>Generated on ${formatDate(new Date())} by GS-CMS v05</p>
         </div>
       </div>
@@ -179,18 +279,18 @@ export function generateReportHTML(
   subtitle: string | undefined,
   data: any,
   dateRange: { from: Date; to: Date },
-  filters: Record<string, any>
+  filters: Record<string, any>,
+  letterhead: Letterhead
 ): string {
-  const companyInfo = DEFAULT_COMPANY_INFO
 
   return `
-    <div class="max-w-6xl mx-auto bg-white p-8" style="font-family: Arial, sans-serif;">
+    <div class="max-w-6xl mx-auto bg-white p-8">
       <!-- Header -->
       <div class="text-center mb-8 border-b pb-6">
-        <h1 class="text-3xl font-bold text-gray-900 mb-2">${title}</h1>
-        ${subtitle ? `<p class="text-lg text-gray-600 mb-4">${subtitle}</p>` : ''}
+        <h1 class="text-3xl font-bold text-gray-900 mb-2">${escapeHtml(title)}</h1>
+        ${subtitle ? `<p class="text-lg text-gray-600 mb-4">${escapeHtml(subtitle)}</p>` : ''}
         <div class="text-sm text-gray-500">
-          <p>${companyInfo.name}</p>
+          <p>${escapeHtml(letterhead.companyName)}</p>
           <p>Report Period: ${formatDate(dateRange.from)} - ${formatDate(dateRange.to)}</p>
           <p>Generated on: ${formatDate(new Date())}</p>
         </div>
@@ -203,9 +303,9 @@ export function generateReportHTML(
           <div class="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
             ${Object.entries(filters).map(([key, value]) => `
               <div>
-                <span class="font-medium capitalize">${key.replace(/([A-Z])/g, ' $1')}:</span>
+                <span class="font-medium capitalize">${escapeHtml(key.replace(/([A-Z])/g, ' $1'))}:</span>
                 <span class="text-gray-600">
-                  ${Array.isArray(value) ? value.join(', ') : String(value)}
+                  ${escapeHtml(Array.isArray(value) ? value.join(', ') : String(value))}
                 </span>
               </div>
             `).join('')}
@@ -272,15 +372,15 @@ export function generateReportHTML(
                   </td>
                   <td class="border border-gray-300 px-3 py-2">
                     <div>
-                      <p class="font-medium">${inquiry.title}</p>
+                      <p class="font-medium">${escapeHtml(inquiry.title)}</p>
                       ${inquiry.description ? `
                         <p class="text-xs text-gray-600 mt-1 truncate">
-                          ${inquiry.description.slice(0, 50)}...
+                          ${escapeHtml(inquiry.description.slice(0, 50))}...
                         </p>
                       ` : ''}
                     </div>
                   </td>
-                  <td class="border border-gray-300 px-3 py-2">${inquiry.customer.name}</td>
+                  <td class="border border-gray-300 px-3 py-2">${escapeHtml(inquiry.customer.name)}</td>
                   <td class="border border-gray-300 px-3 py-2 text-center">
                     <span class="px-2 py-1 rounded text-xs font-medium ${
                       inquiry.status === 'COMPLETED' ? 'bg-green-100 text-green-800' :
@@ -305,7 +405,7 @@ export function generateReportHTML(
                   <td class="border border-gray-300 px-3 py-2 text-center">
                     ${inquiry.items.length}
                   </td>
-                  <td class="border border-gray-300 px-3 py-2">${inquiry.createdBy.name}</td>
+                  <td class="border border-gray-300 px-3 py-2">${escapeHtml(inquiry.createdBy.name || '')}</td>
                   <td class="border border-gray-300 px-3 py-2 text-center">
                     ${formatDate(inquiry.createdAt)}
                   </td>
@@ -321,20 +421,21 @@ export function generateReportHTML(
         <div class="grid grid-cols-3 gap-4 mb-4">
           <div>
             <p class="font-medium">Contact Information</p>
-            <p>${companyInfo.phone}</p>
-            <p>${companyInfo.email}</p>
+            <p>${escapeHtml(letterhead.phone ?? '')}</p>
+            <p>${escapeHtml(letterhead.email ?? '')}</p>
           </div>
           <div>
             <p class="font-medium">Address</p>
-            <p>${companyInfo.address}</p>
+            <p>${escapeHtml(letterhead.address)}</p>
           </div>
           <div>
             <p class="font-medium">Website</p>
-            <p>${companyInfo.website}</p>
+            <p>${escapeHtml(letterhead.website ?? '')}</p>
           </div>
         </div>
+        ${letterhead.footerText ? `<p class="mb-1">${escapeHtml(letterhead.footerText)}</p>` : ''}
         <p>This report was automatically generated by GS-CMS v05 on ${formatDate(new Date())}</p>
-        <p class="mt-2">© 2024 ${companyInfo.name}. All rights reserved.</p>
+        <p class="mt-2">© ${new Date().getFullYear()} ${escapeHtml(letterhead.companyName)}. All rights reserved.</p>
       </div>
     </div>
   `
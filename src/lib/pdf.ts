@@ -1,4 +1,5 @@
 import puppeteer, { Browser, Page, PDFOptions } from 'puppeteer'
+import { wrapDocumentHTML } from './pdf-templates'
 
 export interface PDFGenerationOptions {
   format?: 'A4' | 'A3' | 'Letter'
@@ -46,52 +47,25 @@ export class PDFService {
 
     try {
       // Create complete HTML document
-      const fullHtml = html.includes('<!DOCTYPE html>') ? html : `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>PDF Document</title>
-          <script src="https://cdn.tailwindcss.com"></script>
-          <style>
-            @media print {
-              body { -webkit-print-color-adjust: exact; }
-              .page-break { page-break-before: always; }
-              .no-page-break { page-break-inside: avoid; }
-            }
-            body {
-              font-family: Arial, sans-serif;
-              margin: 0;
-              padding: 0;
-              color: #1f2937;
-            }
-            .loading-spinner {
-              border: 2px solid #f3f3f3;
-              border-top: 2px solid #3498db;
-              border-radius: 50%;
-              width: 20px;
-              height: 20px;
-              animation: spin 1s linear infinite;
-              margin: 0 auto;
-            }
-            @keyframes spin {
-              0% { transform: rotate(0deg); }
-              100% { transform: rotate(360deg); }
-            }
-          </style>
-        </head>
-        <body>
-          ${html}
-        </body>
-        </html>
-      `
+      const fullHtml = html.includes('<!DOCTYPE html>') ? html : wrapDocumentHTML(html)
+
+      // Documents are self-contained; anything that still points at the
+      // network is refused rather than waited for
+      await page.setRequestInterception(true)
+      page.on('request', request => {
+        if (request.url().startsWith('data:')) {
+          request.continue()
+        } else {
+          request.abort()
+        }
+      })
 
       // Set page content
-      await page.setContent(fullHtml, { 
-        waitUntil: 'networkidle0',
-        timeout: 30000 
+      await page.setContent(fullHtml, {
+        waitUntil: 'load',
+        timeout: 30000
       })
+      await page.evaluate(async () => { await document.fonts.ready })
 
       // Default PDF options
       const defaultOptions: PDFOptions = {
@@ -128,26 +102,6 @@ export class PDFService {
   }
 }
 
-// Default company information
-export const DEFAULT_COMPANY_INFO = {
-  name: 'GS Manufacturing Solutions',
-  address: '123 Industrial District, Manufacturing Zone, Istanbul, Turkey',
-  phone: '+90 212 555 0123',
-  email: 'info@gsmanufacturing.com',
-  website: 'www.gsmanufacturing.com',
-  logo: '/logo.png' // Should be placed in public folder
-}
-
-// Helper function to generate quote number
-export const generateQuoteNumber = (): string => {
-  const now = new Date()
-  const year = now.getFullYear()
-  const month = String(now.getMonth() + 1).padStart(2, '0')
-  const day = String(now.getDate()).padStart(2, '0')
-  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
-  return `QT-${year}${month}${day}-${random}`
-}
-
 // Helper function to calculate quote validity date
 export const getQuoteValidityDate = (daysValid: number = 30): Date => {
   const date = new Date()
@@ -0,0 +1,350 @@
+import type { ProductionOrderStatus } from '@prisma/client'
+import { db } from '@/lib/db/index'
+import { UserRole } from '@/lib/db/types'
+import { formatQuoteRevision, quoteTotalInMainCurrency } from '@/lib/quote-service'
+import { findProductionOrderTransition } from '@/lib/production-order-workflow'
+import { assertApprovalGranted } from '@/lib/approval-service'
+import { onProductionOrderCreated } from '@/lib/automation/hooks'
+import { nextDocumentNumber } from '@/lib/numbering-service'
+import { AppError, NotFoundError } from '@/types'
+
+/**
+ * Convert an ACCEPTED quote into a production order with one production item
+ * per quoted inquiry item. Quote and inquiry move to CONVERTED in the same
+ * transaction; the notification and PRODUCTION_ORDER_CREATED rules run after
+ * it commits.
+ */
+export async function convertQuoteToProductionOrder(quoteId: string, userId: string) {
+  const quote = await db.quote.findUnique({
+    where: { id: quoteId },
+    include: {
+      inquiry: {
+        include: { customer: true }
+      },
+      lines: {
+        include: { inquiryItem: true },
+        orderBy: { sortOrder: 'asc' }
+      },
+      productionOrder: true
+    }
+  }) as any
+
+  if (!quote) {
+    throw new NotFoundError('Quote')
+  }
+
+  if (quote.productionOrder) {
+    throw new AppError('Production order already exists for this quote', 400)
+  }
+
+  if (quote.status !== 'ACCEPTED') {
+    throw new AppError('Only accepted quotes can be converted to production orders', 400)
+  }
+
+  if (quote.lines.length === 0) {
+    throw new AppError('Quote has no lines to produce', 400)
+  }
+
+  // Acceptance alone is not enough when the quote never cleared its approval
+  await assertApprovalGranted(
+    db,
+    { type: 'QUOTE', id: quote.id, amount: quoteTotalInMainCurrency(quote) },
+    'converted to a production order'
+  )
+
+  // The order is due when the last requested item is due
+  const requestedDates = quote.lines
+    .map((line: any) => line.inquiryItem.requestedDelivery)
+    .filter(Boolean)
+    .map((date: Date) => new Date(date).getTime())
+  const targetDate = requestedDates.length > 0 ? new Date(Math.max(...requestedDates)) : null
+
+  const order = await db.$transaction(async (tx) => {
+    const orderNumber = await nextDocumentNumber(tx, 'PRODUCTION_ORDER')
+
+    const order = await tx.productionOrder.create({
+      data: {
+        orderNumber,
+        title: quote.title,
+        description: quote.description,
+        // Orders are valued in the main currency
+        totalValue: quoteTotalInMainCurrency(quote),
+        targetDate,
+        quoteId: quote.id,
+        status: 'PENDING',
+        items: {
+          create: quote.lines.map((line: any) => ({
+            name: line.inquiryItem.name,
+            description: line.inquiryItem.description,
+            quantity: line.quantity,
+            unit: line.inquiryItem.unit,
+            targetDate: line.inquiryItem.requestedDelivery,
+            inquiryItemId: line.inquiryItemId,
+            status: 'PENDING'
+          }))
+        }
+      },
+      include: {
+        quote: {
+          include: {
+            inquiry: {
+              include: { customer: true }
+            }
+          }
+        },
+        items: true,
+        _count: {
+          select: { items: true }
+        }
+      }
+    })
+
+    await tx.quote.update({
+      where: { id: quote.id },
+      data: { status: 'CONVERTED' }
+    })
+
+    await tx.inquiry.update({
+      where: { id: quote.inquiryId },
+      data: { status: 'CONVERTED' }
+    })
+
+    await tx.auditLog.create({
+      data: {
+        action: 'CREATE',
+        entity: 'PRODUCTION_ORDER',
+        entityId: order.id,
+        userId,
+        inquiryId: quote.inquiryId,
+        oldData: {
+          quoteStatus: quote.status,
+          inquiryStatus: quote.inquiry.status
+        },
+        newData: {
+          orderNumber,
+          itemCount: quote.lines.length,
+          quoteStatus: 'CONVERTED',
+          inquiryStatus: 'CONVERTED'
+        },
+        metadata: {
+          orderNumber,
+          quoteNumber: formatQuoteRevision(quote),
+          customer: quote.inquiry.customer.name,
+          amount: quote.total,
+          currency: quote.currency
+        }
+      }
+    })
+
+    return order
+  })
+
+  // The order exists whether or not the notification goes out
+  try {
+    await db.notification.create({
+      data: {
+        userId,
+        type: 'PRODUCTION_ORDER_CREATED',
+        title: 'Production Order Created',
+        message: `Production order ${order.orderNumber} has been created for ${quote.inquiry.customer.name}`,
+        data: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          relatedId: order.id,
+          relatedType: 'PRODUCTION_ORDER'
+        },
+        isRead: false,
+        readAt: null
+      }
+    })
+  } catch (notificationError) {
+    console.error('Failed to send production order notification:', notificationError)
+  }
+
+  try {
+    await onProductionOrderCreated(order.id, order, userId)
+  } catch (hookError) {
+    console.error('Failed to run production order automation rules:', hookError)
+  }
+
+  return order
+}
+
+/**
+ * Move a production order to `status` following the transition table. Dates,
+ * the hold/cancel reason and the item cascade are written in one transaction;
+ * the sales rep (and managers on completion or cancellation) are notified
+ * after it commits.
+ */
+export async function changeProductionOrderStatus(
+  orderId: string,
+  status: ProductionOrderStatus,
+  userId: string,
+  reason?: string
+) {
+  const order = await db.productionOrder.findUnique({
+    where: { id: orderId },
+    include: {
+      quote: {
+        include: {
+          inquiry: {
+            include: { customer: true }
+          }
+        }
+      }
+    }
+  }) as any
+
+  if (!order) {
+    throw new NotFoundError('Production order')
+  }
+
+  const transition = findProductionOrderTransition(order.status, status)
+  if (!transition) {
+    throw new AppError(`Cannot change production order from ${order.status} to ${status}`, 409)
+  }
+
+  const trimmedReason = reason?.trim() || null
+  if (transition.requiresReason && !trimmedReason) {
+    throw new AppError(`A reason is required to ${transition.action} a production order`, 400)
+  }
+
+  // Orders covered by an approval policy only go into production once
+  // approved; holding or cancelling releases nothing
+  if (status === 'IN_PROGRESS') {
+    await assertApprovalGranted(
+      db,
+      { type: 'PRODUCTION_ORDER', id: order.id, amount: Number(order.totalValue) },
+      'released to production'
+    )
+  }
+
+  const now = new Date()
+  const updateData: any = {
+    status,
+    statusReason: transition.requiresReason ? trimmedReason : null
+  }
+  if (status === 'IN_PROGRESS' && !order.startDate) {
+    updateData.startDate = now
+  }
+  if (status === 'COMPLETED') {
+    updateData.completedDate = now
+  }
+
+  const updatedOrder = await db.$transaction(async (tx) => {
+    // Another status change may have landed since the order was read; only
+    // one of them applies its cascade
+    const { count } = await tx.productionOrder.updateMany!({
+      where: { id: orderId, status: order.status },
+      data: updateData
+    })
+    if (count !== 1) {
+      throw new AppError('The production order status was changed by someone else; reload it and try again', 409)
+    }
+
+    const updatedOrder = await tx.productionOrder.findUnique({
+      where: { id: orderId },
+      include: {
+        quote: {
+          include: {
+            inquiry: {
+              include: { customer: true }
+            }
+          }
+        },
+        _count: {
+          select: { items: true }
+        }
+      }
+    })
+
+    const { count: itemCount } = await tx.productionItem.updateMany!({
+      where: {
+        productionOrderId: orderId,
+        status: { in: transition.cascade.from }
+      },
+      data: {
+        status: transition.cascade.to,
+        ...(transition.cascade.to === 'COMPLETED' && { completedDate: now })
+      }
+    })
+
+    if (transition.cascade.to === 'IN_PROGRESS') {
+      await tx.productionItem.updateMany!({
+        where: { productionOrderId: orderId, status: 'IN_PROGRESS', startDate: null },
+        data: { startDate: now }
+      })
+    }
+
+    await tx.auditLog.create({
+      data: {
+        action: 'UPDATE',
+        entity: 'PRODUCTION_ORDER',
+        entityId: orderId,
+        userId,
+        inquiryId: order.quote.inquiryId,
+        oldData: { status: order.status, statusReason: order.statusReason },
+        newData: { status, statusReason: updateData.statusReason },
+        metadata: {
+          action: transition.action,
+          orderNumber: order.orderNumber,
+          customer: order.quote.inquiry.customer.name,
+          itemsUpdated: itemCount
+        }
+      }
+    })
+
+    return updatedOrder
+  })
+
+  const statusLabel = status.toLowerCase().replace('_', ' ')
+  const notificationData = {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    status,
+    reason: updateData.statusReason,
+    relatedId: order.id,
+    relatedType: 'PRODUCTION_ORDER'
+  }
+
+  // Notify the sales rep who owns the inquiry
+  const notifications: any[] = [{
+    userId: order.quote.inquiry.createdById,
+    type: 'STATUS_UPDATE' as const,
+    title: 'Production Order Status Updated',
+    message: `Order ${order.orderNumber} is now ${statusLabel}`,
+    data: notificationData
+  }]
+
+  if (status === 'COMPLETED' || status === 'CANCELLED') {
+    const managers = await db.user.findMany({
+      where: { role: { in: [UserRole.MANAGER, UserRole.ADMIN, UserRole.SUPERUSER] } }
+    })
+
+    for (const manager of managers) {
+      notifications.push({
+        userId: manager.id,
+        type: 'STATUS_UPDATE' as const,
+        title: `Production Order ${status === 'COMPLETED' ? 'Completed' : 'Cancelled'}`,
+        message: `Order ${order.orderNumber} for ${order.quote.inquiry.customer.name} has been ${statusLabel}` +
+          (updateData.statusReason ? `: ${updateData.statusReason}` : ''),
+        data: {
+          ...notificationData,
+          customerName: order.quote.inquiry.customer.name
+        }
+      })
+    }
+  }
+
+  try {
+    await Promise.all(notifications.map(notification =>
+      db.notification.create({
+        data: { ...notification, isRead: false, readAt: null }
+      })
+    ))
+  } catch (notificationError) {
+    console.error('Failed to send production order notifications:', notificationError)
+  }
+
+  return updatedOrder
+}
@@ -0,0 +1,78 @@
+import type { ProductionOrderStatus, ProductionItemStatus } from '@prisma/client'
+
+export type ProductionOrderAction = 'start' | 'hold' | 'resume' | 'complete' | 'cancel'
+
+export interface ProductionOrderTransition {
+  action: ProductionOrderAction
+  to: ProductionOrderStatus
+  label: string
+  // Hold and cancel must say why, the reason is kept on the order
+  requiresReason: boolean
+  // Items of the order in one of `from` move to `to` together with the order
+  cascade: {
+    from: ProductionItemStatus[]
+    to: ProductionItemStatus
+  }
+}
+
+const start: ProductionOrderTransition = {
+  action: 'start',
+  to: 'IN_PROGRESS',
+  label: 'Start production',
+  requiresReason: false,
+  cascade: { from: ['PENDING'], to: 'IN_PROGRESS' }
+}
+
+const hold: ProductionOrderTransition = {
+  action: 'hold',
+  to: 'ON_HOLD',
+  label: 'Put on hold',
+  requiresReason: true,
+  cascade: { from: ['PENDING', 'IN_PROGRESS'], to: 'ON_HOLD' }
+}
+
+const resume: ProductionOrderTransition = {
+  action: 'resume',
+  to: 'IN_PROGRESS',
+  label: 'Resume production',
+  requiresReason: false,
+  cascade: { from: ['ON_HOLD'], to: 'IN_PROGRESS' }
+}
+
+const complete: ProductionOrderTransition = {
+  action: 'complete',
+  to: 'COMPLETED',
+  label: 'Mark completed',
+  requiresReason: false,
+  cascade: { from: ['PENDING', 'IN_PROGRESS', 'ON_HOLD'], to: 'COMPLETED' }
+}
+
+const cancel: ProductionOrderTransition = {
+  action: 'cancel',
+  to: 'CANCELLED',
+  label: 'Cancel order',
+  requiresReason: true,
+  cascade: { from: ['PENDING', 'IN_PROGRESS', 'ON_HOLD'], to: 'CANCELLED' }
+}
+
+/**
+ * Allowed production order transitions by current status. COMPLETED and
+ * CANCELLED are terminal.
+ */
+export const productionOrderTransitions: Record<ProductionOrderStatus, ProductionOrderTransition[]> = {
+  PENDING: [start, hold, cancel],
+  IN_PROGRESS: [hold, complete, cancel],
+  ON_HOLD: [resume, cancel],
+  COMPLETED: [],
+  CANCELLED: []
+}
+
+/**
+ * Transition from `from` to `to`, or null when the move is not allowed
+ */
+export function findProductionOrderTransition(
+  from: ProductionOrderStatus,
+  to: ProductionOrderStatus
+): ProductionOrderTransition | null {
+  return productionOrderTransitions[from]?.find(transition => transition.to === to) ?? null
+}
@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Signed, expiring tokens for the public quote response page. The token
+// carries the quote id and expiry; the signature stops anyone from guessing
+// or altering links to other quotes.
+
+interface QuoteLinkPayload {
+  quoteId: string
+  expiresAt: number // epoch milliseconds
+}
+
+function getSecret(): string {
+  const secret = process.env.QUOTE_LINK_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('QUOTE_LINK_SECRET is not configured')
+  }
+  return secret
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url')
+}
+
+/**
+ * Create a response token for a quote that stops working at `expiresAt`
+ */
+export function createQuoteResponseToken(quoteId: string, expiresAt: Date): string {
+  const payload: QuoteLinkPayload = { quoteId, expiresAt: expiresAt.getTime() }
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${encodedPayload}.${sign(encodedPayload)}`
+}
+
+/**
+ * Verify a response token. Returns the quote id, or null when the token is
+ * malformed, tampered with or expired.
+ */
+export function verifyQuoteResponseToken(token: string): { quoteId: string } | null {
+  const [encodedPayload, signature] = token.split('.')
+  if (!encodedPayload || !signature) return null
+
+  const expected = Buffer.from(sign(encodedPayload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString()) as QuoteLinkPayload
+    if (typeof payload.quoteId !== 'string' || typeof payload.expiresAt !== 'number') return null
+    if (payload.expiresAt < Date.now()) return null
+    return { quoteId: payload.quoteId }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Absolute URL of the public response page for a token
+ */
+export function getQuoteResponseUrl(token: string, baseUrl?: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || baseUrl || ''
+  return `${appUrl.replace(/\/$/, '')}/quote-response/${token}`
+}
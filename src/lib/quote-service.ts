@@ -0,0 +1,351 @@
+import type { InquiryItem, CostCalculation, Currency, Prisma } from '@prisma/client'
+import type { QuoteLineInput } from '@/lib/validations'
+import { toRateDate } from '@/lib/exchange-rate-parser'
+
+type ItemWithCost = InquiryItem & {
+  costCalculation: CostCalculation | null
+}
+
+type DecimalLike = number | Prisma.Decimal
+
+// Priced line ready to be persisted as a QuoteLine
+export interface PricedQuoteLine {
+  inquiryItemId: string
+  sortOrder: number
+  quantity: number
+  unitCost: number
+  marginOverride: number | null
+  discount: number
+  unitPrice: number
+  lineTotal: number
+}
+
+// Line shape consumed by the quote document templates
+export interface QuoteDocumentLine {
+  name: string
+  description: string | null
+  unit: string | null
+  quantity: number
+  unitPrice: number
+  discount: number
+  lineTotal: number
+}
+
+// Currency a quote document is printed in and the rate it was priced at
+export interface QuoteDocumentCurrency {
+  currency: Currency
+  mainCurrency: Currency
+  exchangeRate: number // Units of currency per 1 mainCurrency
+  exchangeRateDate: Date | string | null
+}
+
+/**
+ * Round a monetary value to two decimals (matches Decimal(12, 2) columns)
+ */
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Items of an inquiry that can be quoted - only approved cost calculations count
+ */
+export function getQuotableItems<T extends ItemWithCost>(items: T[]): T[] {
+  return items.filter(item => item.costCalculation?.isApproved)
+}
+
+/**
+ * Check that the requested items belong to the inquiry, appear once and have
+ * an approved cost calculation. Returns null when the lines can be priced.
+ */
+export function findQuoteLineProblems(
+  items: ItemWithCost[],
+  itemIds: string[]
+): { error: string; items: Array<{ id: string; name?: string }> } | null {
+  const unknownIds = itemIds.filter(id => !items.some(item => item.id === id))
+  if (unknownIds.length > 0) {
+    return {
+      error: 'Quote lines must reference items of the selected inquiry',
+      items: unknownIds.map(id => ({ id }))
+    }
+  }
+
+  const duplicateIds = itemIds.filter((id, index) => itemIds.indexOf(id) !== index)
+  if (duplicateIds.length > 0) {
+    return {
+      error: 'Each inquiry item can only appear once on a quote',
+      items: duplicateIds.map(id => ({ id }))
+    }
+  }
+
+  const missingApprovals = items.filter(item =>
+    itemIds.includes(item.id) && !item.costCalculation?.isApproved
+  )
+  if (itemIds.length === 0 || missingApprovals.length > 0) {
+    return {
+      error: 'Cannot price quote: Some items do not have approved cost calculations',
+      items: missingApprovals.map(item => ({ id: item.id, name: item.name }))
+    }
+  }
+
+  return null
+}
+
+/**
+ * Price a single line: margin on top of the unit cost, discount off the line
+ */
+export function priceQuoteLine(
+  unitCost: number,
+  quantity: number,
+  margin: number,
+  discount: number = 0
+): { unitPrice: number; lineTotal: number } {
+  const unitPrice = roundMoney(unitCost * (1 + margin))
+  const lineTotal = roundMoney(unitPrice * quantity * (1 - discount))
+  return { unitPrice, lineTotal }
+}
+
+/**
+ * Build priced lines from inquiry items. Without explicit line input every
+ * item is quoted at its requested quantity and the quote margin; with line
+ * input only the listed items are quoted, in the order given. Unit costs are
+ * the calculations' totals unless `unitCostOf` converts them, e.g. into the
+ * quote currency.
+ */
+export function buildQuoteLines(
+  items: ItemWithCost[],
+  quoteMargin: number,
+  lineInputs?: QuoteLineInput[],
+  unitCostOf: (calculation: CostCalculation) => number = calculation => Number(calculation.totalCost)
+): PricedQuoteLine[] {
+  const inputs: QuoteLineInput[] = lineInputs ?? items.map(item => ({ inquiryItemId: item.id }))
+
+  return inputs.map((input, index) => {
+    const item = items.find(i => i.id === input.inquiryItemId)
+    if (!item?.costCalculation) {
+      throw new Error(`Inquiry item ${input.inquiryItemId} has no cost calculation`)
+    }
+
+    const unitCost = roundMoney(unitCostOf(item.costCalculation))
+    const quantity = input.quantity ?? item.quantity ?? 1
+    const marginOverride = input.marginOverride ?? null
+    const discount = input.discount ?? 0
+    const { unitPrice, lineTotal } = priceQuoteLine(
+      unitCost,
+      quantity,
+      marginOverride ?? quoteMargin,
+      discount
+    )
+
+    return {
+      inquiryItemId: item.id,
+      sortOrder: index,
+      quantity,
+      unitCost,
+      marginOverride,
+      discount,
+      unitPrice,
+      lineTotal
+    }
+  })
+}
+
+/**
+ * Quote header totals derived from its lines: subtotal is the cost basis,
+ * total is what the customer pays before tax
+ */
+export function summarizeQuoteLines(
+  lines: Array<{ unitCost: DecimalLike; quantity: number; lineTotal: DecimalLike }>
+): { subtotal: number; total: number } {
+  const subtotal = lines.reduce((sum, line) => sum + Number(line.unitCost) * line.quantity, 0)
+  const total = lines.reduce((sum, line) => sum + Number(line.lineTotal), 0)
+  return { subtotal: roundMoney(subtotal), total: roundMoney(total) }
+}
+
+/**
+ * Validity of a new revision: the period the previous revision was offered
+ * for, counted again from `now`
+ */
+export function revisionValidUntil(
+  source: { validUntil: Date | string; sentAt?: Date | string | null; createdAt: Date | string },
+  now: Date = new Date()
+): Date {
+  const offeredAt = new Date(source.sentAt ?? source.createdAt).getTime()
+  const period = Math.max(new Date(source.validUntil).getTime() - offeredAt, 0)
+  return new Date(now.getTime() + period)
+}
+
+/**
+ * Quote total in the main currency, at the rate the quote was priced at;
+ * approval policies and reporting work in the main currency
+ */
+export function quoteTotalInMainCurrency(quote: {
+  total: DecimalLike | string
+  exchangeRate?: DecimalLike | string | null
+}): number {
+  const rate = Number(quote.exchangeRate ?? 1) || 1
+  return roundMoney(Number(quote.total) / rate)
+}
+
+/**
+ * Currency details of a persisted quote for its documents
+ */
+export function toQuoteDocumentCurrency(quote: {
+  currency: Currency
+  mainCurrency: Currency
+  exchangeRate: DecimalLike | string
+  exchangeRateDate: Date | string | null
+}): QuoteDocumentCurrency {
+  return {
+    currency: quote.currency,
+    mainCurrency: quote.mainCurrency,
+    exchangeRate: Number(quote.exchangeRate),
+    exchangeRateDate: quote.exchangeRateDate
+  }
+}
+
+/**
+ * Rate line printed on quote documents, e.g. "1 EUR = 1.955830 BAM (rate of
+ * 2025-01-02)"; null when the quote is in the main currency
+ */
+export function describeQuoteRate(pricing: QuoteDocumentCurrency): string | null {
+  if (pricing.currency === pricing.mainCurrency) return null
+  const rate = `1 ${pricing.mainCurrency} = ${pricing.exchangeRate.toFixed(6)} ${pricing.currency}`
+  return pricing.exchangeRateDate ? `${rate} (rate of ${toRateDate(pricing.exchangeRateDate)})` : rate
+}
+
+/**
+ * Map persisted quote lines (with their inquiry item) to template lines
+ */
+export function toQuoteDocumentLines(
+  lines: Array<{
+    quantity: number
+    unitPrice: DecimalLike
+    discount: DecimalLike
+    lineTotal: DecimalLike
+    inquiryItem: Pick<InquiryItem, 'name' | 'description' | 'unit'>
+  }>
+): QuoteDocumentLine[] {
+  return lines.map(line => ({
+    name: line.inquiryItem.name,
+    description: line.inquiryItem.description,
+    unit: line.inquiryItem.unit,
+    quantity: line.quantity,
+    unitPrice: Number(line.unitPrice),
+    discount: Number(line.discount),
+    lineTotal: Number(line.lineTotal)
+  }))
+}
+
+/**
+ * Display label for a quote revision, e.g. QT-20250101-123-R1
+ */
+export function formatQuoteRevision(quote: { quoteNumber: string; revision: number }): string {
+  return `${quote.quoteNumber}-R${quote.revision}`
+}
+
+type RevisionLine = {
+  inquiryItemId: string
+  quantity: number
+  unitPrice: DecimalLike
+  discount: DecimalLike
+  lineTotal: DecimalLike
+  inquiryItem: Pick<InquiryItem, 'name'>
+}
+
+type RevisionForDiff = {
+  id: string
+  revision: number
+  title: string
+  margin: DecimalLike
+  total: DecimalLike
+  currency: string
+  validUntil: Date
+  terms: string | null
+  lines: RevisionLine[]
+}
+
+export interface QuoteLineDiff {
+  inquiryItemId: string
+  name: string
+  change: 'added' | 'removed' | 'changed' | 'unchanged'
+  from: { quantity: number; unitPrice: number; discount: number; lineTotal: number } | null
+  to: { quantity: number; unitPrice: number; discount: number; lineTotal: number } | null
+  unitPriceDelta: number
+  lineTotalDelta: number
+}
+
+export interface QuoteRevisionDiff {
+  from: { id: string; revision: number }
+  to: { id: string; revision: number }
+  fields: Array<{ field: string; from: string | number | null; to: string | number | null }>
+  lines: QuoteLineDiff[]
+  totalDelta: number
+}
+
+function toLineValues(line: RevisionLine) {
+  return {
+    quantity: line.quantity,
+    unitPrice: Number(line.unitPrice),
+    discount: Number(line.discount),
+    lineTotal: Number(line.lineTotal)
+  }
+}
+
+/**
+ * Compare two revisions of the same quote. Lines are matched by inquiry item;
+ * deltas are `to - from`.
+ */
+export function diffQuoteRevisions(from: RevisionForDiff, to: RevisionForDiff): QuoteRevisionDiff {
+  const headerFields: Array<{ field: string; from: string | number | null; to: string | number | null }> = [
+    { field: 'title', from: from.title, to: to.title },
+    { field: 'margin', from: Number(from.margin), to: Number(to.margin) },
+    { field: 'currency', from: from.currency, to: to.currency },
+    { field: 'validUntil', from: from.validUntil.toISOString(), to: to.validUntil.toISOString() },
+    { field: 'terms', from: from.terms, to: to.terms },
+    { field: 'total', from: Number(from.total), to: Number(to.total) }
+  ]
+
+  const itemIds = [
+    ...from.lines.map(line => line.inquiryItemId),
+    ...to.lines.map(line => line.inquiryItemId).filter(id => !from.lines.some(line => line.inquiryItemId === id))
+  ]
+
+  const lines = itemIds.map((inquiryItemId): QuoteLineDiff => {
+    const fromLine = from.lines.find(line => line.inquiryItemId === inquiryItemId)
+    const toLine = to.lines.find(line => line.inquiryItemId === inquiryItemId)
+    const fromValues = fromLine ? toLineValues(fromLine) : null
+    const toValues = toLine ? toLineValues(toLine) : null
+
+    let change: QuoteLineDiff['change'] = 'unchanged'
+    if (!fromValues) {
+      change = 'added'
+    } else if (!toValues) {
+      change = 'removed'
+    } else if (
+      fromValues.quantity !== toValues.quantity ||
+      fromValues.unitPrice !== toValues.unitPrice ||
+      fromValues.discount !== toValues.discount ||
+      fromValues.lineTotal !== toValues.lineTotal
+    ) {
+      change = 'changed'
+    }
+
+    return {
+      inquiryItemId,
+      name: (toLine ?? fromLine)!.inquiryItem.name,
+      change,
+      from: fromValues,
+      to: toValues,
+      unitPriceDelta: roundMoney((toValues?.unitPrice ?? 0) - (fromValues?.unitPrice ?? 0)),
+      lineTotalDelta: roundMoney((toValues?.lineTotal ?? 0) - (fromValues?.lineTotal ?? 0))
+    }
+  })
+
+  return {
+    from: { id: from.id, revision: from.revision },
+    to: { id: to.id, revision: to.revision },
+    fields: headerFields.filter(field => field.from !== field.to),
+    lines,
+    totalDelta: roundMoney(Number(to.total) - Number(from.total))
+  }
+}
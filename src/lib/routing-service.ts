@@ -0,0 +1,86 @@
+import type { CostRoutingStepInput } from '@/lib/validations'
+import { roundMoney } from '@/lib/quote-service'
+import { AppError } from '@/types'
+
+// Routing step ready to be persisted as a CostRoutingStep
+export interface PricedRoutingStep {
+  sortOrder: number
+  operationId: string
+  operationName: string
+  setupMinutes: number
+  minutesPerPiece: number
+  quantity: number
+  hourlyRate: number
+  lineTotal: number
+}
+
+/**
+ * Cost of a step for its whole batch: setup once plus the time per piece,
+ * charged at the operation's hourly rate
+ */
+export function routingStepTotal(
+  step: { setupMinutes: number; minutesPerPiece: number; quantity: number },
+  hourlyRate: number
+): number {
+  const minutes = step.setupMinutes + step.minutesPerPiece * step.quantity
+  return roundMoney(minutes / 60 * hourlyRate)
+}
+
+/**
+ * Price each step at the current rate of its operation. Inactive operations
+ * still price, so existing routings can be saved again after a rate change.
+ */
+export function priceRoutingSteps(
+  steps: CostRoutingStepInput[],
+  operations: Array<{ id: string; name: string; hourlyRate: number | { toString(): string } }>
+): PricedRoutingStep[] {
+  return steps.map((step, index) => {
+    const operation = operations.find(candidate => candidate.id === step.operationId)
+    if (!operation) {
+      throw new AppError('Routing references an unknown operation', 400, 'UNKNOWN_OPERATION')
+    }
+
+    const hourlyRate = Number(operation.hourlyRate)
+    return {
+      sortOrder: index,
+      operationId: operation.id,
+      operationName: operation.name,
+      setupMinutes: step.setupMinutes,
+      minutesPerPiece: step.minutesPerPiece,
+      quantity: step.quantity,
+      hourlyRate,
+      lineTotal: routingStepTotal(step, hourlyRate)
+    }
+  })
+}
+
+/**
+ * Labor cost per piece: each step's batch cost divided by its quantity.
+ * Cost calculations are per unit, the same basis as QuoteLine.unitCost.
+ */
+export function sumRoutingSteps(
+  steps: Array<{ lineTotal: number | { toString(): string }; quantity: number }>
+): number {
+  return roundMoney(steps.reduce(
+    (sum, step) => sum + Number(step.lineTotal) / step.quantity,
+    0
+  ))
+}
+
+/**
+ * Machine minutes to cut one part from its drawing: the cut length at the
+ * operation's cutting speed plus the time for each pierce
+ */
+export function cuttingMinutesPerPiece(
+  drawing: { cutLength: number | { toString(): string }; pierceCount: number },
+  operation: {
+    cuttingSpeed: number | { toString(): string } | null
+    pierceSeconds?: number | { toString(): string } | null
+  }
+): number | null {
+  const speed = Number(operation.cuttingSpeed)
+  if (!speed) return null
+  const minutes = Number(drawing.cutLength) / speed +
+    drawing.pierceCount * Number(operation.pierceSeconds ?? 0) / 60
+  return Math.round(minutes * 100) / 100
+}
@@ -1,7 +1,7 @@
 import { db } from '@/lib/db/index'
 import { StorageProvider } from '@/lib/db/types'
 import { writeFile, mkdir, unlink, readFile } from 'fs/promises'
-import { join, dirname } from 'path'
+import { join, dirname, resolve, sep } from 'path'
 import { existsSync } from 'fs'
 
 export interface UploadedFile {
@@ -22,6 +22,15 @@ export interface StorageFile {
   text(): Promise<string>
 }
 
+// Hosts UploadThing serves uploaded files from
+const UPLOADTHING_HOSTS = ['utfs.io', 'uploadthing.com']
+const UPLOADTHING_HOST_SUFFIX = '.ufs.sh'
+
+function isUploadThingUrl(url: URL): boolean {
+  return url.protocol === 'https:' &&
+    (UPLOADTHING_HOSTS.includes(url.hostname) || url.hostname.endsWith(UPLOADTHING_HOST_SUFFIX))
+}
+
 class StorageProviderFactory {
   private static instance: StorageProviderFactory
   private settings: any = null
@@ -158,6 +167,29 @@ class StorageProviderFactory {
     // For UploadThing, deletion would be handled by the UploadThing API
   }
 
+  async read(file: { uploadThingKey: string; uploadThingUrl: string }): Promise<Buffer> {
+    // Cloud uploads keep an absolute URL, local ones a key under the storage path
+    if (/^https?:\/\//.test(file.uploadThingUrl)) {
+      const url = new URL(file.uploadThingUrl)
+      if (!isUploadThingUrl(url)) {
+        throw new Error(`Files are not downloaded from ${url.hostname}`)
+      }
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`Failed to download file: ${response.status}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    }
+
+    const settings = await this.getSettings()
+    const basePath = resolve(settings?.localStoragePath || './uploads')
+    const fullPath = resolve(basePath, file.uploadThingKey || '')
+    if (!fullPath.startsWith(basePath + sep) || !existsSync(fullPath)) {
+      throw new Error('File not found in local storage')
+    }
+    return readFile(fullPath)
+  }
+
   async getFileUrl(fileKey: string): Promise<string> {
     const settings = await this.getSettings()
     
@@ -0,0 +1,104 @@
+import { TaxTreatment, type Prisma } from '@prisma/client'
+import { roundMoney } from '@/lib/quote-service'
+
+/**
+ * VAT on quotes. Domestic customers pay the rate of their tax profile, or of
+ * the default one; EU business customers are quoted under the reverse-charge
+ * procedure and exports outside the EU are exempt, both at 0% with the
+ * statutory wording printed on the quote.
+ */
+
+export const taxTreatmentLabels: Record<TaxTreatment, string> = {
+  DOMESTIC: 'Domestic',
+  EU_REVERSE_CHARGE: 'EU reverse charge',
+  EXPORT_EXEMPT: 'Export, VAT exempt'
+}
+
+// Wording required on documents for the zero-rated treatments
+export const statutoryTaxNotes: Record<Exclude<TaxTreatment, 'DOMESTIC'>, string> = {
+  EU_REVERSE_CHARGE:
+    'Reverse charge: VAT to be accounted for by the recipient pursuant to Article 196 of Council Directive 2006/112/EC',
+  EXPORT_EXEMPT:
+    'VAT exempt: export of goods outside the EU pursuant to Article 146 of Council Directive 2006/112/EC'
+}
+
+export interface TaxProfileRate {
+  name: string
+  rate: number
+  note?: string | null
+}
+
+// Tax fields stored with a quote
+export interface QuoteTax {
+  taxTreatment: TaxTreatment
+  taxName: string | null
+  taxRate: number
+  taxAmount: number
+  grossTotal: number
+  taxNote: string | null
+}
+
+/**
+ * Tax on a net quote total. A domestic quote needs the tax profile to apply.
+ */
+export function calculateQuoteTax(
+  net: number,
+  treatment: TaxTreatment,
+  profile: TaxProfileRate | null
+): QuoteTax {
+  if (treatment !== TaxTreatment.DOMESTIC) {
+    return {
+      taxTreatment: treatment,
+      taxName: taxTreatmentLabels[treatment],
+      taxRate: 0,
+      taxAmount: 0,
+      grossTotal: roundMoney(net),
+      taxNote: statutoryTaxNotes[treatment]
+    }
+  }
+
+  if (!profile) {
+    throw new Error('A domestic quote needs a tax profile')
+  }
+  const taxAmount = roundMoney(net * profile.rate)
+  return {
+    taxTreatment: treatment,
+    taxName: profile.name,
+    taxRate: profile.rate,
+    taxAmount,
+    grossTotal: roundMoney(net + taxAmount),
+    taxNote: profile.note || null
+  }
+}
+
+/**
+ * Tax fields of a persisted quote for its documents
+ */
+export function toQuoteTax(quote: {
+  taxTreatment: TaxTreatment
+  taxName: string | null
+  taxRate: number | string | Prisma.Decimal
+  taxAmount: number | string | Prisma.Decimal
+  grossTotal: number | string | Prisma.Decimal
+  taxNote: string | null
+}): QuoteTax {
+  return {
+    taxTreatment: quote.taxTreatment,
+    taxName: quote.taxName,
+    taxRate: Number(quote.taxRate),
+    taxAmount: Number(quote.taxAmount),
+    grossTotal: Number(quote.grossTotal),
+    taxNote: quote.taxNote
+  }
+}
+
+/**
+ * Label of the tax line on quote documents, e.g. "VAT 17%" or "VAT 0% (EU
+ * reverse charge)"
+ */
+export function describeQuoteTax(tax: Pick<QuoteTax, 'taxTreatment' | 'taxRate'>): string {
+  const rate = `VAT ${Number((tax.taxRate * 100).toFixed(2))}%`
+  return tax.taxTreatment === TaxTreatment.DOMESTIC
+    ? rate
+    : `${rate} (${taxTreatmentLabels[tax.taxTreatment]})`
+}
@@ -0,0 +1,44 @@
+import { TaxTreatment } from '@prisma/client'
+import { db } from '@/lib/db/index'
+import { calculateQuoteTax, type QuoteTax, type TaxProfileRate } from '@/lib/tax-rules'
+import { AppError } from '@/types'
+
+/**
+ * Tax profile a domestic customer is taxed at: their own when it is active,
+ * otherwise the default. Null when neither exists.
+ */
+export async function getCustomerTaxProfile(customer: { taxProfileId?: string | null }): Promise<TaxProfileRate | null> {
+  const profile = (customer.taxProfileId
+    ? await db.taxProfile.findFirst({ where: { id: customer.taxProfileId, isActive: true } })
+    : null) ?? await db.taxProfile.findFirst({ where: { isDefault: true, isActive: true } })
+
+  return profile ? { name: profile.name, rate: Number(profile.rate), note: profile.note } : null
+}
+
+/**
+ * Tax on a quote for a customer; a 400 AppError for a domestic customer
+ * when no tax profile applies
+ */
+export async function calculateCustomerQuoteTax(
+  customer: { name: string; taxTreatment: TaxTreatment; taxProfileId?: string | null },
+  net: number
+): Promise<QuoteTax> {
+  const profile = customer.taxTreatment === TaxTreatment.DOMESTIC
+    ? await getCustomerTaxProfile(customer)
+    : null
+
+  if (customer.taxTreatment === TaxTreatment.DOMESTIC && !profile) {
+    throw new AppError(`No tax profile applies to ${customer.name}; set a default tax profile in System Settings`, 400)
+  }
+  return calculateQuoteTax(net, customer.taxTreatment, profile)
+}
+
+/**
+ * Make a profile the default, clearing the flag on all others
+ */
+export async function setDefaultTaxProfile(tx: any, id: string) {
+  await tx.taxProfile.updateMany!({
+    where: { isDefault: true, id: { not: id } },
+    data: { isDefault: false }
+  })
+}
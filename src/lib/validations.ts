@@ -1,5 +1,8 @@
 import { z } from 'zod'
-import { UserRole, Priority, InquiryStatus, ItemStatus, ApprovalStatus, QuoteStatus, Currency } from '@prisma/client'
+import { UserRole, Priority, InquiryStatus, ItemStatus, ApprovalStatus, ApprovalType, Currency, ProductionOrderStatus, MaterialCategory, MaterialForm, MaterialPriceUnit } from '@prisma/client'
+import { collectReferences, FormulaError, parseFormula } from '@/lib/formula'
+import { NumberPatternError, validateNumberPattern } from '@/lib/numbering-rules'
+import { LOGO_DATA_URI, MAX_LOGO_BYTES } from '@/lib/letterhead'
 
 // User Validation Schemas
 export const createUserSchema = z.object({
@@ -98,6 +101,33 @@ export const updateInquiryItemSchema = z.object({
   }),
 })
 
+// Bill of materials line of a cost calculation
+export const costMaterialLineSchema = z.object({
+  material: z.string().min(1, 'Material is required').max(200),
+  grade: z.string().max(100).optional(),
+  dimensions: z.string().max(200).optional(),
+  quantity: z.number().positive('Quantity must be positive'),
+  unit: z.string().min(1, 'Unit is required').max(20),
+  unitPrice: z.number().min(0, 'Unit price must be non-negative'),
+  currency: z.nativeEnum(Currency).default(Currency.EUR),
+  supplier: z.string().max(200).optional(),
+  materialId: z.string().cuid('Invalid material ID').optional(),
+})
+
+// Routing step of a cost calculation; the rate comes from the operation
+export const costRoutingStepSchema = z.object({
+  operationId: z.string().cuid('Invalid operation ID'),
+  setupMinutes: z.number().min(0, 'Setup time must be non-negative'),
+  minutesPerPiece: z.number().min(0, 'Time per piece must be non-negative'),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+}).refine(
+  (data) => data.setupMinutes + data.minutesPerPiece > 0,
+  {
+    message: 'Operation needs setup time or time per piece',
+    path: ['minutesPerPiece'],
+  }
+)
+
 // Cost Calculation Validation Schema
 export const costCalculationSchema = z.object({
   materialCost: z.number().min(0, 'Material cost must be non-negative'),
@@ -112,22 +142,237 @@ export const costCalculationSchema = z.object({
   materialCostOriginal: z.number().optional(),
   laborCostOriginal: z.number().optional(),
   overheadCostOriginal: z.number().optional(),
+  // When present, materialCost is derived from these lines
+  materialLines: z.array(costMaterialLineSchema).optional(),
+  // When present, laborCost is derived from these steps
+  routingSteps: z.array(costRoutingStepSchema).optional(),
+  // When present, all three amounts come from the template's formulas
+  templateId: z.string().cuid('Invalid template ID').optional(),
+  templateInputs: z.record(z.number()).optional(),
 }).refine(
-  (data) => data.materialCost + data.laborCost + data.overheadCost > 0,
+  (data) => data.materialCost + data.laborCost + data.overheadCost > 0 ||
+    (data.materialLines?.length ?? 0) > 0 ||
+    (data.routingSteps?.length ?? 0) > 0 ||
+    !!data.templateId,
   {
     message: 'Total cost must be greater than zero',
     path: ['totalCost'],
   }
+).refine(
+  (data) => !data.templateId || (!data.materialLines?.length && !data.routingSteps?.length),
+  {
+    message: 'A template calculation cannot also have material lines or a routing',
+    path: ['templateId'],
+  }
 )
 
 // Approval Validation Schema
 export const createApprovalSchema = z.object({
-  costCalculationId: z.string().cuid('Invalid cost calculation ID'),
-  status: z.nativeEnum(ApprovalStatus),
+  approvalId: z.string().cuid('Invalid approval ID').optional(),
+  costCalculationId: z.string().cuid('Invalid cost calculation ID').optional(),
+  status: z.enum([ApprovalStatus.APPROVED, ApprovalStatus.REJECTED]),
   comments: z.string().optional(),
+}).refine(
+  (data) => !!data.approvalId || !!data.costCalculationId,
+  {
+    message: 'Either an approval or a cost calculation is required',
+    path: ['approvalId'],
+  }
+)
+
+// Approval Policy Validation Schema
+export const approvalPolicySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  type: z.nativeEnum(ApprovalType).default(ApprovalType.COST_CALCULATION),
+  minAmount: z.number().min(0).default(0),
+  maxAmount: z.number().positive().nullable().optional(),
+  steps: z.array(z.nativeEnum(UserRole)).min(1, 'At least one approval step is required').max(5),
+  isActive: z.boolean().default(true),
+}).refine(
+  (data) => data.maxAmount == null || data.maxAmount > data.minAmount,
+  {
+    message: 'Maximum amount must be greater than the minimum amount',
+    path: ['maxAmount'],
+  }
+)
+
+// Labor Operation Validation Schema
+export const laborOperationSchema = z.object({
+  code: z.string().min(1, 'Code is required').max(30),
+  name: z.string().min(1, 'Name is required').max(100),
+  hourlyRate: z.number().min(0, 'Hourly rate must be non-negative'),
+  defaultSetupMinutes: z.number().int().min(0).default(0),
+  cuttingSpeed: z.number().positive('Cutting speed must be positive').nullable().optional(),
+  pierceSeconds: z.number().min(0, 'Pierce time must be non-negative').nullable().optional(),
+  isActive: z.boolean().default(true),
+})
+
+// Weight Calculator Validation Schema (dimensions in mm, density in kg/m³)
+const weightCommonFields = {
+  length: z.number().positive('Length must be positive'),
+  density: z.number().positive('Density must be positive').default(7850),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1').default(1),
+}
+
+const positiveDimension = z.number().positive('Dimensions must be positive')
+
+export const weightCalculationSchema = z.discriminatedUnion('shape', [
+  z.object({ shape: z.literal('PLATE'), thickness: positiveDimension, width: positiveDimension, ...weightCommonFields }),
+  z.object({ shape: z.literal('ROUND_BAR'), diameter: positiveDimension, ...weightCommonFields }),
+  z.object({ shape: z.literal('RHS'), width: positiveDimension, height: positiveDimension, wallThickness: positiveDimension, ...weightCommonFields }),
+  z.object({ shape: z.literal('PIPE'), outerDiameter: positiveDimension, wallThickness: positiveDimension, ...weightCommonFields }),
+  z.object({ shape: z.literal('ANGLE'), legA: positiveDimension, legB: positiveDimension, thickness: positiveDimension, ...weightCommonFields }),
+  z.object({ shape: z.literal('I_BEAM'), designation: z.string().min(1, 'Profile is required'), ...weightCommonFields }),
+])
+
+// Costing Template Validation Schemas
+export const costingTemplateVariableSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Variable names must be identifiers, e.g. length_mm'),
+  label: z.string().min(1, 'Label is required').max(100),
+  unit: z.string().max(20).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  defaultValue: z.number().optional(),
+}).refine(
+  (data) => data.min === undefined || data.max === undefined || data.min <= data.max,
+  {
+    message: 'Minimum must not exceed maximum',
+    path: ['max'],
+  }
+)
+
+// Overhead formulas may also use the computed material and labor costs
+const OVERHEAD_VARIABLES = ['material', 'labor']
+
+export const costingTemplateSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  productFamily: z.string().min(1, 'Product family is required').max(100),
+  description: z.string().optional(),
+  variables: z.array(costingTemplateVariableSchema).min(1, 'Define at least one variable'),
+  materialFormula: z.string().min(1, 'Material formula is required'),
+  laborFormula: z.string().min(1, 'Labor formula is required'),
+  overheadFormula: z.string().min(1, 'Overhead formula is required'),
+  isActive: z.boolean().default(true),
+}).superRefine((data, ctx) => {
+  const names = data.variables.map(variable => variable.name)
+  if (new Set(names).size !== names.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Variable names must be unique', path: ['variables'] })
+  }
+
+  const formulas = [
+    { field: 'materialFormula', allowed: names },
+    { field: 'laborFormula', allowed: names },
+    { field: 'overheadFormula', allowed: names.concat(OVERHEAD_VARIABLES) },
+  ] as const
+  for (const { field, allowed } of formulas) {
+    try {
+      const unknown = collectReferences(parseFormula(data[field])).variables
+        .filter(name => !allowed.includes(name))
+      if (unknown.length > 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown variables: ${unknown.join(', ')}`, path: [field] })
+      }
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message, path: [field] })
+    }
+  }
+})
+
+// Material Catalog Validation Schema
+export const materialSchema = z.object({
+  code: z.string().min(1, 'Code is required').max(50),
+  name: z.string().min(1, 'Name is required').max(200),
+  category: z.nativeEnum(MaterialCategory),
+  grade: z.string().min(1, 'Grade is required').max(100),
+  form: z.nativeEnum(MaterialForm),
+  dimensions: z.string().max(200).optional().nullable(),
+  density: z.number().positive('Density must be positive').optional().nullable(),
+  priceUnit: z.nativeEnum(MaterialPriceUnit).default(MaterialPriceUnit.KG),
+  price: z.number().min(0, 'Price must be non-negative'),
+  currency: z.nativeEnum(Currency).default(Currency.EUR),
+  // Date the price applies from; defaults to now
+  priceValidFrom: z.string().or(z.date()).optional().transform((val) => {
+    if (!val) return undefined
+    if (val instanceof Date) return val
+    return new Date(val)
+  }).refine(
+    (date) => !date || date.getTime() <= Date.now(),
+    'Price date cannot be in the future'
+  ),
+  supplier: z.string().max(200).optional().nullable(),
+  isActive: z.boolean().default(true),
+})
+
+// Exchange Rate Validation Schema; rates are units of the currency per 1 EUR
+export const exchangeRateSchema = z.object({
+  currency: z.nativeEnum(Currency).refine(
+    (currency) => currency !== Currency.EUR,
+    'The euro is the base currency'
+  ),
+  rate: z.number().positive('Rate must be positive'),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+})
+
+// Tax Profile Validation Schema; rates are fractions, 0.17 for 17%
+export const taxProfileSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  rate: z.number().min(0, 'Rate must be non-negative').max(1, 'Rate cannot exceed 100%'),
+  note: z.string().max(500).optional().nullable(),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+})
+
+// Letterhead Profile Validation Schemas
+export const bankAccountSchema = z.object({
+  bankName: z.string().min(1, 'Bank name is required').max(100),
+  iban: z.string().transform(value => value.replace(/\s+/g, '').toUpperCase())
+    .pipe(z.string().regex(/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/, 'Invalid IBAN')),
+  swift: z.string().transform(value => value.trim().toUpperCase())
+    .pipe(z.string().regex(/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/, 'Invalid SWIFT/BIC code')),
+  currency: z.string().max(3).optional().nullable(),
+})
+
+export const letterheadProfileSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  companyName: z.string().min(1, 'Company name is required').max(200),
+  address: z.string().min(1, 'Address is required').max(500),
+  postalAddress: z.string().max(500).optional().nullable(),
+  phone: z.string().max(50).optional().nullable(),
+  email: z.string().email('Invalid email address').optional().nullable().or(z.literal('')),
+  website: z.string().max(200).optional().nullable(),
+  vatId: z.string().max(50).optional().nullable(),
+  registrationNumber: z.string().max(50).optional().nullable(),
+  bankAccounts: z.array(bankAccountSchema).max(5).default([]),
+  // Base64 takes four characters for every three bytes
+  logo: z.string().regex(LOGO_DATA_URI, 'The logo must be a PNG or JPEG image')
+    .max(Math.ceil(MAX_LOGO_BYTES / 3) * 4 + 30, 'The logo must be at most 512 KB').optional().nullable(),
+  footerText: z.string().max(500).optional().nullable(),
+  defaultTerms: z.string().max(5000).optional().nullable(),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+})
+
+// Numbering Sequence Validation Schema
+export const numberingSequenceSchema = z.object({
+  pattern: z.string().trim().min(1, 'Pattern is required').max(50),
+  resetYearly: z.boolean(),
+}).superRefine((data, ctx) => {
+  try {
+    validateNumberPattern(data.pattern, data.resetYearly)
+  } catch (error) {
+    if (!(error instanceof NumberPatternError)) throw error
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message, path: ['pattern'] })
+  }
 })
 
 // Quote Validation Schemas
+export const quoteLineSchema = z.object({
+  inquiryItemId: z.string().cuid('Invalid inquiry item ID'),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1').optional(),
+  marginOverride: z.number().min(0, 'Margin must be non-negative').max(1, 'Margin cannot exceed 100%').optional().nullable(),
+  discount: z.number().min(0, 'Discount must be non-negative').max(1, 'Discount cannot exceed 100%').optional(),
+})
+
 export const createQuoteSchema = z.object({
   title: z.string().min(5, 'Title must be at least 5 characters'),
   description: z.string().optional(),
@@ -138,6 +383,11 @@ export const createQuoteSchema = z.object({
   }),
   terms: z.string().optional(),
   notes: z.string().optional(),
+  // Defaults to the customer's preferred currency, then the main currency
+  currency: z.nativeEnum(Currency).optional(),
+  // Defaults to the default letterhead profile
+  letterheadProfileId: z.string().optional().nullable(),
+  lines: z.array(quoteLineSchema).min(1, 'At least one line is required').optional(),
 })
 
 export const updateQuoteSchema = z.object({
@@ -152,7 +402,28 @@ export const updateQuoteSchema = z.object({
   }),
   terms: z.string().optional(),
   notes: z.string().optional(),
-  status: z.nativeEnum(QuoteStatus).optional(),
+  currency: z.nativeEnum(Currency).optional(),
+  letterheadProfileId: z.string().optional().nullable(),
+  lines: z.array(quoteLineSchema).min(1, 'At least one line is required').optional(),
+})
+
+// Customer response submitted through the public quote link
+export const quoteResponseSchema = z.object({
+  decision: z.enum(['ACCEPT', 'REJECT']),
+  name: z.string().min(2, 'Name must be at least 2 characters').max(100),
+  reason: z.string().max(2000).optional(),
+}).refine(
+  (data) => data.decision === 'ACCEPT' || !!data.reason?.trim(),
+  {
+    message: 'Please tell us why the quote is rejected',
+    path: ['reason'],
+  }
+)
+
+// Production Order Status Schema
+export const productionOrderStatusSchema = z.object({
+  status: z.nativeEnum(ProductionOrderStatus),
+  reason: z.string().max(2000).optional(),
 })
 
 // Assignment Validation Schema
@@ -287,8 +558,23 @@ export type CreateCustomerInput = z.infer<typeof createCustomerSchema>
 export type UpdateCustomerInput = z.infer<typeof updateCustomerSchema>
 export type CreateInquiryInput = z.infer<typeof createInquirySchema>
 export type UpdateInquiryInput = z.infer<typeof updateInquirySchema>
+export type CostMaterialLineInput = z.infer<typeof costMaterialLineSchema>
 export type CostCalculationInput = z.infer<typeof costCalculationSchema>
 export type CreateQuoteInput = z.infer<typeof createQuoteSchema>
 export type UpdateQuoteInput = z.infer<typeof updateQuoteSchema>
+export type ApprovalPolicyInput = z.infer<typeof approvalPolicySchema>
+export type MaterialInput = z.infer<typeof materialSchema>
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>
+export type TaxProfileInput = z.infer<typeof taxProfileSchema>
+export type NumberingSequenceInput = z.infer<typeof numberingSequenceSchema>
+export type LetterheadProfileInput = z.infer<typeof letterheadProfileSchema>
+export type LaborOperationInput = z.infer<typeof laborOperationSchema>
+export type CostRoutingStepInput = z.infer<typeof costRoutingStepSchema>
+export type WeightCalculationInput = z.infer<typeof weightCalculationSchema>
+export type CostingTemplateInput = z.infer<typeof costingTemplateSchema>
+export type CostingTemplateVariable = z.infer<typeof costingTemplateVariableSchema>
+export type QuoteLineInput = z.infer<typeof quoteLineSchema>
+export type QuoteResponseInput = z.infer<typeof quoteResponseSchema>
+export type ProductionOrderStatusInput = z.infer<typeof productionOrderStatusSchema>
 export type InquiryFiltersInput = z.infer<typeof inquiryFiltersSchema>
 export type ItemFiltersInput = z.infer<typeof itemFiltersSchema>
\ No newline at end of file
@@ -0,0 +1,130 @@
+import ipeTable from '@/data/profiles/ipe.json'
+import heaTable from '@/data/profiles/hea.json'
+import type { WeightCalculationInput } from '@/lib/validations'
+import { AppError } from '@/types'
+
+// Row of a standard profile table; sections in mm, area in cm², mass in kg/m
+export interface StandardProfile {
+  designation: string
+  h: number
+  b: number
+  tw: number
+  tf: number
+  r: number
+  area: number
+  massPerMeter: number
+}
+
+export interface ProfileTable {
+  series: string
+  description: string
+  profiles: StandardProfile[]
+}
+
+export interface WeightResult {
+  shape: WeightCalculationInput['shape']
+  description: string
+  crossSectionArea: number
+  massPerMeter: number
+  weightPerPiece: number
+  totalWeight: number
+  totalLength: number
+  quantity: number
+}
+
+// Tables shipped in src/data/profiles
+export const profileTables: ProfileTable[] = [ipeTable, heaTable]
+
+// Weights match the BOM quantity precision
+function roundWeight(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function normalizeDesignation(designation: string): string {
+  return designation.replace(/\s+/g, '').toUpperCase()
+}
+
+export function findProfile(designation: string): StandardProfile | undefined {
+  const wanted = normalizeDesignation(designation)
+  for (const table of profileTables) {
+    const profile = table.profiles.find(candidate => normalizeDesignation(candidate.designation) === wanted)
+    if (profile) return profile
+  }
+  return undefined
+}
+
+function invalidDimensions(message: string): AppError {
+  return new AppError(message, 400, 'INVALID_DIMENSIONS')
+}
+
+/**
+ * Cross-section area in mm². Hollow and angle sections use sharp corners,
+ * which puts the weight slightly above the rolled section's.
+ */
+export function crossSectionArea(input: WeightCalculationInput): number {
+  switch (input.shape) {
+    case 'PLATE':
+      return input.thickness * input.width
+    case 'ROUND_BAR':
+      return Math.PI / 4 * input.diameter ** 2
+    case 'RHS':
+      if (2 * input.wallThickness >= Math.min(input.width, input.height)) {
+        throw invalidDimensions('Wall thickness is too large for the section')
+      }
+      return 2 * input.wallThickness * (input.width + input.height - 2 * input.wallThickness)
+    case 'PIPE':
+      if (2 * input.wallThickness >= input.outerDiameter) {
+        throw invalidDimensions('Wall thickness is too large for the diameter')
+      }
+      return Math.PI / 4 * (input.outerDiameter ** 2 - (input.outerDiameter - 2 * input.wallThickness) ** 2)
+    case 'ANGLE':
+      if (input.thickness >= Math.min(input.legA, input.legB)) {
+        throw invalidDimensions('Thickness is too large for the legs')
+      }
+      return input.thickness * (input.legA + input.legB - input.thickness)
+    case 'I_BEAM': {
+      const profile = findProfile(input.designation)
+      if (!profile) {
+        throw new AppError(`Unknown profile ${input.designation}`, 400, 'UNKNOWN_PROFILE')
+      }
+      return profile.area * 100
+    }
+  }
+}
+
+function describeSection(input: WeightCalculationInput): string {
+  switch (input.shape) {
+    case 'PLATE':
+      return `PL ${input.thickness}x${input.width}`
+    case 'ROUND_BAR':
+      return `RD ${input.diameter}`
+    case 'RHS':
+      return `${input.width === input.height ? 'SHS' : 'RHS'} ${input.width}x${input.height}x${input.wallThickness}`
+    case 'PIPE':
+      return `PIPE ${input.outerDiameter}x${input.wallThickness}`
+    case 'ANGLE':
+      return `L ${input.legA}x${input.legB}x${input.thickness}`
+    case 'I_BEAM':
+      return findProfile(input.designation)?.designation ?? input.designation
+  }
+}
+
+/**
+ * Weight of a piece of the given shape and length, and of the whole quantity
+ */
+export function calculateWeight(input: WeightCalculationInput): WeightResult {
+  const area = crossSectionArea(input)
+  const massPerMeter = area / 1e6 * input.density
+  const weightPerPiece = massPerMeter * input.length / 1000
+
+  return {
+    shape: input.shape,
+    description: `${describeSection(input)}, L=${input.length} mm`,
+    crossSectionArea: Math.round(area * 100) / 100,
+    massPerMeter: roundWeight(massPerMeter),
+    weightPerPiece: roundWeight(weightPerPiece),
+    totalWeight: roundWeight(weightPerPiece * input.quantity),
+    totalLength: roundWeight(input.length * input.quantity / 1000),
+    quantity: input.quantity
+  }
+}
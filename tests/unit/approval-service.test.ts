@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for Approval Policies and Chains
+ * Tests which policy covers an amount and how a chain's steps are read
+ */
+
+import { describe, test, expect, jest } from '@jest/globals'
+import { Prisma, type ApprovalPolicy, type UserRole } from '@prisma/client'
+import {
+  canActOnApprovalStep,
+  findApprovalPolicy,
+  getApprovalState,
+  getCurrentApprovalStep,
+  getRequiredApprovalSteps,
+  summarizeApproval
+} from '@/lib/approval-service'
+
+jest.mock('@/lib/db/index', () => ({ db: {} }))
+jest.mock('@/lib/automation/hooks', () => ({ onApprovalRequired: async () => undefined }))
+
+const created = new Date('2025-01-01T00:00:00Z')
+
+function policy(id: string, minAmount: number, maxAmount: number | null, steps: UserRole[], changes: Partial<ApprovalPolicy> = {}): ApprovalPolicy {
+  return {
+    id,
+    name: id,
+    type: 'QUOTE',
+    minAmount: new Prisma.Decimal(minAmount),
+    maxAmount: maxAmount === null ? null : new Prisma.Decimal(maxAmount),
+    steps,
+    isActive: true,
+    createdAt: created,
+    updatedAt: created,
+    ...changes
+  }
+}
+
+// Answers findFirst the way the database does for the policy query
+function policyTable(policies: ApprovalPolicy[]) {
+  return {
+    approvalPolicy: {
+      findFirst: async ({ where }: any) => policies
+        .filter(candidate =>
+          candidate.type === where.type &&
+          candidate.isActive === where.isActive &&
+          Number(candidate.minAmount) <= where.minAmount.lte &&
+          (candidate.maxAmount === null || Number(candidate.maxAmount) > where.OR[1].maxAmount.gt)
+        )
+        .sort((a, b) => Number(b.minAmount) - Number(a.minAmount))[0] ?? null
+    }
+  }
+}
+
+const policies = [
+  policy('small', 0, 10000, ['MANAGER']),
+  policy('large', 10000, null, ['MANAGER', 'ADMIN']),
+  policy('retired', 5000, null, ['SUPERUSER'], { isActive: false }),
+  policy('orders', 0, null, ['ADMIN'], { type: 'PRODUCTION_ORDER' })
+]
+
+function step(id: string, stepOrder: number, status: string, approverId: string, requiredRole: UserRole | null = null) {
+  return { id, stepOrder, status, approverId, requiredRole }
+}
+
+describe('Approval Policy Tests', () => {
+  test('ranges include their minimum and exclude their maximum', async () => {
+    const tx = policyTable(policies)
+
+    expect((await findApprovalPolicy(tx, 'QUOTE', 0))?.id).toBe('small')
+    expect((await findApprovalPolicy(tx, 'QUOTE', 9999.99))?.id).toBe('small')
+    expect((await findApprovalPolicy(tx, 'QUOTE', 10000))?.id).toBe('large')
+  })
+
+  test('inactive policies and policies of other types are ignored', async () => {
+    const tx = policyTable(policies)
+
+    expect((await findApprovalPolicy(tx, 'QUOTE', 6000))?.id).toBe('small')
+    expect((await findApprovalPolicy(tx, 'PRODUCTION_ORDER', 6000))?.id).toBe('orders')
+    expect(await findApprovalPolicy(tx, 'COST_CALCULATION', 6000)).toBeNull()
+  })
+
+  test('overlapping ranges resolve to the highest minimum', async () => {
+    const tx = policyTable([...policies, policy('key accounts', 50000, 100000, ['SUPERUSER'])])
+
+    expect((await findApprovalPolicy(tx, 'QUOTE', 60000))?.id).toBe('key accounts')
+    expect((await findApprovalPolicy(tx, 'QUOTE', 100000))?.id).toBe('large')
+  })
+
+  test('cost calculations fall back to a manager without a policy', async () => {
+    const tx = policyTable(policies)
+
+    expect((await getRequiredApprovalSteps(tx, { type: 'COST_CALCULATION', id: 'calc-1', amount: 100 })).roles).toEqual(['MANAGER'])
+    expect((await getRequiredApprovalSteps(tx, { type: 'QUOTE', id: 'quote-1', amount: 20000 })).roles).toEqual(['MANAGER', 'ADMIN'])
+    expect((await getRequiredApprovalSteps(policyTable([]), { type: 'QUOTE', id: 'quote-1', amount: 20000 })).roles).toEqual([])
+  })
+
+  test('lists show whether approval is needed before it is requested', () => {
+    const active = policies.filter(candidate => candidate.isActive && candidate.type === 'QUOTE')
+
+    expect(summarizeApproval(active, 500, [])).toBe('NOT_REQUESTED')
+    expect(summarizeApproval([], 500, [])).toBe('NOT_REQUIRED')
+    expect(summarizeApproval(active, 500, [{ status: 'PENDING' }])).toBe('PENDING')
+  })
+})
+
+describe('Approval Chain Tests', () => {
+  const chain = [
+    step('s1', 1, 'APPROVED', 'manager-1', 'MANAGER'),
+    step('s2', 2, 'PENDING', 'admin-1', 'ADMIN')
+  ]
+
+  test('a chain is approved only when every step is', () => {
+    expect(getApprovalState([])).toBeNull()
+    expect(getApprovalState(chain)).toBe('PENDING')
+    expect(getApprovalState([{ status: 'APPROVED' }, { status: 'APPROVED' }])).toBe('APPROVED')
+    expect(getApprovalState([{ status: 'APPROVED' }, { status: 'REJECTED' }])).toBe('REJECTED')
+  })
+
+  test('the current step is the first pending one after approved steps', () => {
+    expect(getCurrentApprovalStep(chain)?.id).toBe('s2')
+    expect(getCurrentApprovalStep([step('s1', 1, 'REJECTED', 'manager-1'), step('s2', 2, 'PENDING', 'admin-1')])).toBeNull()
+  })
+
+  test('only the routed approver, their role or a superuser acts on the current step', () => {
+    expect(canActOnApprovalStep(chain[1], chain, { id: 'admin-1', role: 'ADMIN' })).toBe(true)
+    expect(canActOnApprovalStep(chain[1], chain, { id: 'admin-2', role: 'ADMIN' })).toBe(true)
+    expect(canActOnApprovalStep(chain[1], chain, { id: 'root', role: 'SUPERUSER' })).toBe(true)
+    expect(canActOnApprovalStep(chain[1], chain, { id: 'sales-1', role: 'SALES' })).toBe(false)
+    expect(canActOnApprovalStep(chain[0], chain, { id: 'manager-1', role: 'MANAGER' })).toBe(false)
+  })
+
+  test('nobody approves two steps of the same chain', () => {
+    expect(canActOnApprovalStep(chain[1], chain, { id: 'manager-1', role: 'SUPERUSER' })).toBe(false)
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Unit Tests for Bill of Materials Pricing
+ * Tests the rates material lines are converted at and the resulting cost
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { getMaterialLineRates, priceMaterialLines, sumMaterialLines } from '@/lib/bom-service'
+
+// Reference rates as imported from the ECB: units of each currency per 1 EUR
+const euroRates = { EUR: 1, BAM: 1.95583, USD: 1.0879 }
+
+describe('Bill of Materials Pricing Tests', () => {
+  test('rates convert one unit of each currency into the main currency', () => {
+    const rates = getMaterialLineRates('BAM', euroRates)
+
+    expect(rates.BAM).toBe(1)
+    expect(rates.EUR).toBeCloseTo(1.95583, 6)
+    expect(rates.USD).toBeCloseTo(1.95583 / 1.0879, 6)
+  })
+
+  test('a euro main currency takes the reference rates inverted', () => {
+    const rates = getMaterialLineRates('EUR', euroRates)
+
+    expect(rates.EUR).toBe(1)
+    expect(rates.BAM).toBeCloseTo(1 / 1.95583, 6)
+  })
+
+  test('without a rate for the main currency only the main currency is priced', () => {
+    expect(getMaterialLineRates('CHF', euroRates)).toEqual({ CHF: 1 })
+  })
+
+  test('material cost is the sum of the converted line totals', () => {
+    const lines = priceMaterialLines([
+      { material: 'S235 sheet', quantity: 120, unit: 'kg', unitPrice: 1.2, currency: 'EUR' },
+      { material: 'Bolts M12', quantity: 40, unit: 'pcs', unitPrice: 0.5, currency: 'BAM' }
+    ], getMaterialLineRates('BAM', euroRates))
+
+    expect(lines.map(line => line.lineTotal)).toEqual([144, 20])
+    expect(sumMaterialLines(lines)).toBe(301.64)
+  })
+
+  test('lines in a currency without a rate are rejected', () => {
+    expect(() => priceMaterialLines(
+      [{ material: 'Paint', quantity: 2, unit: 'l', unitPrice: 14, currency: 'GBP' }],
+      getMaterialLineRates('EUR', euroRates)
+    )).toThrow('No exchange rate configured for GBP')
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Cost Outlier Checks
+ * Tests the statistical checks run on a cost calculation before approval
+ */
+
+import { describe, test, expect, jest } from '@jest/globals'
+import { checkCostOutliers, findCostOutliers, likelyCause, type CostOutlierHistory } from '@/lib/cost-outlier-service'
+
+const findCalculations = jest.fn<(args: any) => Promise<any[]>>()
+
+jest.mock('@/lib/db/index', () => ({
+  db: {
+    costCalculation: { findMany: (args: any) => findCalculations(args) },
+    material: { findMany: async () => [] }
+  }
+}))
+
+const rates = { EUR: 1, BAM: 1.95583 }
+
+// Approved per-unit costs, as stored on cost calculations
+function historyOf(totalCosts: number[]): CostOutlierHistory {
+  const costs = totalCosts.map(totalCost => ({ templateId: null, materialCost: totalCost / 2, laborCost: totalCost / 2, totalCost }))
+  return { similar: costs, sameVp: costs, sameTemplate: [], catalog: [], mainCurrency: 'EUR', rates }
+}
+
+function calculation(totalCost: number) {
+  return { materialCost: totalCost / 2, laborCost: totalCost / 2, totalCost, materialLines: [] }
+}
+
+describe('Cost Outlier Tests', () => {
+  test('items at the same unit cost are not flagged whatever their quantities', async () => {
+    // Approved for batches of ten, priced again for a batch of a thousand
+    findCalculations.mockResolvedValue([10, 10, 12, 8].map((quantity, index) => ({
+      id: `calc-${index}`,
+      materialCost: 50,
+      laborCost: 50,
+      totalCost: 100,
+      calculatedById: 'vp-1',
+      templateId: null,
+      inquiryItem: { name: 'Welded bracket', description: null, unit: 'pcs', quantity }
+    })))
+
+    const flags = await findCostOutliers(
+      { id: 'item-1', name: 'Welded bracket', unit: 'pcs', quantity: 1000 },
+      'vp-1',
+      calculation(100),
+      { mainCurrency: 'EUR', rates }
+    )
+
+    expect(flags).toEqual([])
+  })
+
+  test('a unit cost ten times the history is flagged as a misplaced decimal point', () => {
+    const flags = checkCostOutliers(calculation(1000), historyOf([95, 100, 105, 110]))
+    const unitCostFlags = flags.filter(flag => flag.check === 'UNIT_COST')
+
+    expect(unitCostFlags).toHaveLength(2)
+    expect(unitCostFlags[0].value).toBe(1000)
+    expect(unitCostFlags[0].message).toContain('possibly a misplaced decimal point')
+  })
+
+  test('too little history flags nothing', () => {
+    expect(checkCostOutliers(calculation(1000), historyOf([100, 100]))).toEqual([])
+  })
+
+  test('catalog prices entered in the wrong currency are flagged', () => {
+    const history: CostOutlierHistory = {
+      ...historyOf([]),
+      catalog: [{ id: 'steel', name: 'S235 sheet', currentPrice: 1.95583, currency: 'BAM' }]
+    }
+    const flags = checkCostOutliers({
+      ...calculation(100),
+      materialLines: [{ material: 'S235 sheet', materialId: 'steel', unitPrice: 1.95583, currency: 'EUR' }]
+    }, history)
+
+    expect(flags).toHaveLength(1)
+    expect(flags[0].check).toBe('CATALOG_PRICE')
+    expect(flags[0].message).toContain('possibly an amount in BAM entered as EUR')
+  })
+
+  test('factors without a known cause are left unexplained', () => {
+    expect(likelyCause(3, rates, 'EUR')).toBeNull()
+  })
+})
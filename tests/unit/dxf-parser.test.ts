@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for DXF Analysis
+ * Tests the cutting geometry read from small ASCII DXF drawings
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { analyzeDxf, DxfParseError } from '@/lib/dxf-parser'
+
+type Entity = Array<[number, string | number]>
+
+// ASCII DXF with a HEADER and an ENTITIES section
+function dxf(entities: Entity[], insUnits?: number): string {
+  const pairs: Array<[number, string | number]> = [[0, 'SECTION'], [2, 'HEADER']]
+  if (insUnits !== undefined) pairs.push([9, '$INSUNITS'], [70, insUnits])
+  pairs.push([0, 'ENDSEC'], [0, 'SECTION'], [2, 'ENTITIES'])
+  for (const entity of entities) pairs.push(...entity)
+  pairs.push([0, 'ENDSEC'], [0, 'EOF'])
+  return pairs.map(([code, value]) => `${code}\n${value}`).join('\n')
+}
+
+function rectangle(x: number, y: number, width: number, height: number): Entity {
+  return [
+    [0, 'LWPOLYLINE'], [90, 4], [70, 1],
+    [10, x], [20, y],
+    [10, x + width], [20, y],
+    [10, x + width], [20, y + height],
+    [10, x], [20, y + height]
+  ]
+}
+
+function circle(x: number, y: number, radius: number): Entity {
+  return [[0, 'CIRCLE'], [10, x], [20, y], [40, radius]]
+}
+
+function line(x1: number, y1: number, x2: number, y2: number): Entity {
+  return [[0, 'LINE'], [10, x1], [20, y1], [11, x2], [21, y2]]
+}
+
+describe('DXF Analysis Tests', () => {
+  test('a plate with a hole: area, cut length, pierces and extents', () => {
+    const analysis = analyzeDxf(dxf([rectangle(0, 0, 200, 100), circle(50, 50, 10)], 4))
+
+    expect(analysis.boundingBox).toEqual({ minX: 0, minY: 0, maxX: 200, maxY: 100, width: 200, height: 100 })
+    // The hole is tessellated, so its area is slightly under πr²
+    expect(analysis.netArea).toBeCloseTo(20000 - Math.PI * 100, -1)
+    expect(analysis.cutLength).toBeCloseTo(600 + 2 * Math.PI * 10, 2)
+    expect(analysis.pierceCount).toBe(2)
+    expect(analysis.holeCount).toBe(1)
+    expect(analysis.entityCount).toBe(2)
+    expect(analysis.sourceUnits).toBe('mm')
+    expect(analysis.warnings).toEqual([])
+  })
+
+  test('lines meeting end to end form one contour', () => {
+    const analysis = analyzeDxf(dxf([
+      line(0, 0, 50, 0),
+      line(50, 50, 50, 0),
+      line(50, 50, 0, 50),
+      line(0, 50, 0, 0)
+    ]))
+
+    expect(analysis.netArea).toBe(2500)
+    expect(analysis.cutLength).toBe(200)
+    expect(analysis.pierceCount).toBe(1)
+    expect(analysis.openContourCount).toBe(0)
+  })
+
+  test('bulged polyline segments are measured as arcs', () => {
+    // Two half circles of radius 10
+    const analysis = analyzeDxf(dxf([[
+      [0, 'LWPOLYLINE'], [90, 2], [70, 1],
+      [10, 0], [20, 0], [42, 1],
+      [10, 20], [20, 0], [42, 1]
+    ]]))
+
+    expect(analysis.cutLength).toBeCloseTo(2 * Math.PI * 10, 2)
+    expect(analysis.boundingBox.width).toBeCloseTo(20, 3)
+    expect(analysis.boundingBox.height).toBeCloseTo(20, 3)
+  })
+
+  test('drawings in other units are converted to millimetres', () => {
+    const analysis = analyzeDxf(dxf([rectangle(0, 0, 20, 10)], 5))
+
+    expect(analysis.sourceUnits).toBe('cm')
+    expect(analysis.boundingBox.width).toBe(200)
+    expect(analysis.netArea).toBe(20000)
+    expect(analysis.cutLength).toBe(600)
+  })
+
+  test('open contours still count as pierces and are reported', () => {
+    const analysis = analyzeDxf(dxf([rectangle(0, 0, 100, 100), line(10, 10, 40, 10)]))
+
+    expect(analysis.pierceCount).toBe(2)
+    expect(analysis.openContourCount).toBe(1)
+    expect(analysis.warnings).toContain('1 contours are not closed')
+  })
+
+  test('unreadable drawings are rejected', () => {
+    expect(() => analyzeDxf('AutoCAD Binary DXF\r\n')).toThrow(DxfParseError)
+    expect(() => analyzeDxf('not a drawing')).toThrow('Not a DXF file')
+    expect(() => analyzeDxf(dxf([[[0, 'TEXT'], [1, 'Part 1']]]))).toThrow('No cut geometry found in the drawing')
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for Exchange Rate Files
+ * Tests reading ECB reference rate files in their XML and CSV layouts
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { ExchangeRateParseError, parseExchangeRateFile, parseRateDate, toRateDate } from '@/lib/exchange-rate-parser'
+
+const DAILY_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time='2025-03-14'>
+      <Cube currency='USD' rate='1.0879'/>
+      <Cube currency='JPY' rate='161.67'/>
+      <Cube currency='GBP' rate='0.83950'/>
+      <Cube currency='CHF' rate='0.9610'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`
+
+const DAILY_CSV = `Date, USD, JPY, GBP, CHF,
+14 March 2025, 1.0879, 161.67, 0.83950, 0.9610,
+`
+
+const HISTORY_CSV = `Date,USD,GBP,HRK
+2025-03-14,1.0879,0.83950,N/A
+2022-12-30,1.0666,0.88693,7.5365
+`
+
+describe('Exchange Rate File Tests', () => {
+  test('the daily XML file gives one rate per supported currency', () => {
+    const parsed = parseExchangeRateFile(DAILY_XML)
+
+    expect(parsed.format).toBe('xml')
+    expect(parsed.rates).toEqual([
+      { currency: 'USD', rate: 1.0879, effectiveDate: '2025-03-14' },
+      { currency: 'GBP', rate: 0.8395, effectiveDate: '2025-03-14' },
+      { currency: 'CHF', rate: 0.961, effectiveDate: '2025-03-14' }
+    ])
+    expect(parsed.ignoredCurrencies).toEqual(['JPY'])
+  })
+
+  test('the daily CSV file reads the same as the XML file', () => {
+    const csv = parseExchangeRateFile(DAILY_CSV)
+
+    expect(csv.format).toBe('csv')
+    expect(csv.rates).toEqual(parseExchangeRateFile(DAILY_XML).rates)
+  })
+
+  test('history files skip days without a fixing', () => {
+    const parsed = parseExchangeRateFile(HISTORY_CSV)
+
+    expect(parsed.rates).toHaveLength(5)
+    expect(parsed.rates.filter(rate => rate.currency === 'HRK')).toEqual([
+      { currency: 'HRK', rate: 7.5365, effectiveDate: '2022-12-30' }
+    ])
+  })
+
+  test('semicolon separated files and a byte order mark are accepted', () => {
+    const parsed = parseExchangeRateFile('\uFEFFDate;USD;BAM\n2025-03-14;1.0879;1.95583\n')
+
+    expect(parsed.rates).toEqual([
+      { currency: 'USD', rate: 1.0879, effectiveDate: '2025-03-14' },
+      { currency: 'BAM', rate: 1.95583, effectiveDate: '2025-03-14' }
+    ])
+  })
+
+  test('files without usable rates are rejected', () => {
+    expect(() => parseExchangeRateFile('  ')).toThrow('The file is empty')
+    expect(() => parseExchangeRateFile('Currency,Rate\nUSD,1.08\n')).toThrow('The first column of a rate CSV must be "Date"')
+    expect(() => parseExchangeRateFile('Date,USD\nyesterday,1.08\n')).toThrow('Unreadable date "yesterday" on line 2')
+    expect(() => parseExchangeRateFile('Date,JPY,CNY\n2025-03-14,161.67,7.88\n'))
+      .toThrow('No supported currency in the file (found JPY, CNY)')
+    expect(() => parseExchangeRateFile("<Cube currency='USD' rate='1.08'/>")).toThrow(ExchangeRateParseError)
+  })
+
+  test('dates are read in both ECB spellings', () => {
+    expect(parseRateDate('2025-03-14')).toBe('2025-03-14')
+    expect(parseRateDate('4 March 2025')).toBe('2025-03-04')
+    expect(parseRateDate('4 Mars 2025')).toBeNull()
+    expect(parseRateDate('14.03.2025')).toBeNull()
+    expect(toRateDate(new Date('2025-03-14T23:30:00Z'))).toBe('2025-03-14')
+  })
+})
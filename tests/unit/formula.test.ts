@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for Costing Template Formulas
+ * Tests parsing, evaluation and catalog references of template formulas
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { collectReferences, evaluateFormula, FormulaError, parseFormula, type FormulaScope } from '@/lib/formula'
+
+const scope: FormulaScope = {
+  variables: { length_mm: 2500, width_mm: 400, thickness_mm: 8, pieces: 4 },
+  materials: {
+    S235: { price: 1.2, density: 7850 },
+    PAINT: { price: 14, density: null }
+  },
+  operations: { LASER: 90, WELD: 45 }
+}
+
+function evaluate(source: string): number {
+  return evaluateFormula(parseFormula(source), scope)
+}
+
+describe('Formula Tests', () => {
+  test('arithmetic follows the usual precedence', () => {
+    expect(evaluate('2 + 3 * 4')).toBe(14)
+    expect(evaluate('(2 + 3) * 4')).toBe(20)
+    expect(evaluate('10 - 4 - 3')).toBe(3)
+    expect(evaluate('2 * 3 ^ 2')).toBe(18)
+    expect(evaluate('-pieces + 10')).toBe(6)
+    expect(evaluate('1.5e2 / 3')).toBe(50)
+  })
+
+  test('math functions', () => {
+    expect(evaluate('max(1, pieces, 3)')).toBe(4)
+    expect(evaluate('min(length_mm, width_mm)')).toBe(400)
+    expect(evaluate('round(2 / 3, 2)')).toBe(0.67)
+    expect(evaluate('ceil(length_mm / 1000)')).toBe(3)
+    expect(evaluate('sqrt(abs(-16))')).toBe(4)
+  })
+
+  test('a plate priced from catalog weight and labor rates', () => {
+    const material = evaluate('length_mm * width_mm * thickness_mm / 1e9 * density("S235") * material("S235")')
+    const labor = evaluate('pieces * 0.25 * rate("LASER")')
+
+    expect(material).toBeCloseTo(75.36, 2)
+    expect(labor).toBe(90)
+  })
+
+  test('references list each variable, material and operation once', () => {
+    const references = collectReferences(parseFormula(
+      'length_mm * density("S235") * material("S235") + pieces * rate("WELD") + max(pieces, width_mm)'
+    ))
+
+    expect(references).toEqual({
+      variables: ['length_mm', 'pieces', 'width_mm'],
+      materials: ['S235'],
+      operations: ['WELD']
+    })
+  })
+
+  test('malformed formulas are rejected when parsed', () => {
+    expect(() => parseFormula('2 +')).toThrow('Unexpected end of formula')
+    expect(() => parseFormula('(2 + 3')).toThrow(FormulaError)
+    expect(() => parseFormula('2 3')).toThrow('Unexpected "3"')
+    expect(() => parseFormula('pieces; process.exit()')).toThrow(FormulaError)
+    expect(() => parseFormula('eval(1)')).toThrow('Unknown function eval()')
+    expect(() => parseFormula('material(S235)')).toThrow('material() takes a quoted catalog code')
+    expect(() => parseFormula('sqrt(1, 2)')).toThrow('Wrong number of arguments for sqrt()')
+    expect(() => parseFormula('"S235" + 1')).not.toThrow()
+  })
+
+  test('evaluation fails on missing data and non-finite results', () => {
+    expect(() => evaluate('height_mm * 2')).toThrow('Unknown variable height_mm')
+    expect(() => evaluate('material("S355")')).toThrow('Unknown material S355')
+    expect(() => evaluate('density("PAINT")')).toThrow('Material PAINT has no density')
+    expect(() => evaluate('rate("BEND")')).toThrow('Unknown operation BEND')
+    expect(() => evaluate('pieces / (pieces - 4)')).toThrow('Division by zero')
+    expect(() => evaluate('10 ^ 400')).toThrow('Formula result is not a finite number')
+    expect(() => evaluate('"S235" + 1')).toThrow('Text is only allowed as a catalog code')
+  })
+
+  test('object properties are not variables', () => {
+    expect(() => evaluate('constructor')).toThrow('Unknown variable constructor')
+    expect(() => parseFormula('toString(1)')).toThrow('Unknown function toString()')
+  })
+})
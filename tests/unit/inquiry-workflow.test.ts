@@ -0,0 +1,154 @@
+/**
+ * Unit Tests for the Inquiry Workflow
+ * Tests who may move inquiries and their items between statuses, and when
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import type { InquiryStatus, ItemStatus } from '@prisma/client'
+import {
+  applyAutomaticInquiryTransition,
+  applyAutomaticItemTransition,
+  assertInquiryTransition,
+  assertItemTransition,
+  type InquiryWorkflowSubject
+} from '@/lib/inquiry-workflow'
+import { AppError, AuthorizationError } from '@/types'
+
+const assignedItems: InquiryWorkflowSubject = {
+  items: [
+    { status: 'ASSIGNED', assignedToId: 'vp-1' },
+    { status: 'ASSIGNED', assignedToId: 'vp-2' }
+  ]
+}
+
+function thrownBy(action: () => void): unknown {
+  try {
+    action()
+  } catch (error) {
+    return error
+  }
+  return null
+}
+
+describe('Inquiry Workflow Tests', () => {
+  test('allowed moves pass for the right roles', () => {
+    expect(() => assertInquiryTransition('DRAFT', 'SUBMITTED', 'SALES', assignedItems)).not.toThrow()
+    expect(() => assertInquiryTransition('IN_REVIEW', 'ASSIGNED', 'VPP', assignedItems)).not.toThrow()
+    expect(() => assertInquiryTransition('QUOTED', 'APPROVED', 'MANAGER', assignedItems)).not.toThrow()
+  })
+
+  test('moves outside the workflow are refused with 409', () => {
+    expect(() => assertInquiryTransition('DRAFT', 'QUOTED', 'ADMIN', assignedItems)).toThrow(AppError)
+    const error = thrownBy(() => assertInquiryTransition('APPROVED', 'DRAFT', 'SUPERUSER', assignedItems))
+    expect(error).toBeInstanceOf(AppError)
+    expect((error as AppError).statusCode).toBe(409)
+    expect((error as AppError).message).toBe('Inquiry cannot move from APPROVED to DRAFT')
+  })
+
+  test('roles outside the transition are refused with 403', () => {
+    expect(() => assertInquiryTransition('SUBMITTED', 'IN_REVIEW', 'SALES', assignedItems)).toThrow(AuthorizationError)
+    expect(() => assertItemTransition('COSTED', 'APPROVED', 'VP', {
+      assignedToId: 'vp-1',
+      costCalculation: { isApproved: true }
+    })).toThrow(AuthorizationError)
+  })
+
+  test('preconditions explain why a move cannot happen yet', () => {
+    expect(() => assertInquiryTransition('DRAFT', 'SUBMITTED', 'SALES', { items: [] }))
+      .toThrow('Inquiry cannot move from DRAFT to SUBMITTED: Inquiry has no items')
+    expect(() => assertInquiryTransition('IN_REVIEW', 'ASSIGNED', 'VPP', {
+      items: [{ status: 'PENDING', assignedToId: null }, { status: 'ASSIGNED', assignedToId: 'vp-1' }]
+    })).toThrow('All items must be assigned first')
+    expect(() => assertInquiryTransition('COSTING', 'QUOTED', 'SALES', assignedItems))
+      .toThrow('All items must be COSTED first')
+  })
+
+  test('items need an assignee, a calculation and an approval in turn', () => {
+    expect(() => assertItemTransition('PENDING', 'ASSIGNED', 'VPP', { assignedToId: null, costCalculation: null }))
+      .toThrow('Item has no assignee')
+    expect(() => assertItemTransition('IN_PROGRESS', 'COSTED', 'VP', { assignedToId: 'vp-1', costCalculation: null }))
+      .toThrow('Item has no cost calculation')
+    expect(() => assertItemTransition('COSTED', 'APPROVED', 'MANAGER', { assignedToId: 'vp-1', costCalculation: { isApproved: false } }))
+      .toThrow('Cost calculation is not approved')
+    expect(() => assertItemTransition('COSTED', 'APPROVED', 'MANAGER', { assignedToId: 'vp-1', costCalculation: { isApproved: true } }))
+      .not.toThrow()
+  })
+})
+
+// One inquiry and its items, answering the reads and conditional updates the
+// automatic transitions make
+function workflowTable(status: InquiryStatus, items: Array<{ id: string; status: ItemStatus; isApproved?: boolean }>) {
+  const inquiry = { status }
+  const rows = items.map(item => ({
+    ...item,
+    assignedToId: 'vp-1',
+    costCalculation: item.isApproved === undefined ? null : { isApproved: item.isApproved }
+  }))
+  const tx = {
+    inquiry: {
+      findUnique: async () => ({ status: inquiry.status, items: rows }),
+      updateMany: async ({ where, data }: any) => {
+        if (where.status !== inquiry.status) return { count: 0 }
+        inquiry.status = data.status
+        return { count: 1 }
+      }
+    },
+    inquiryItem: {
+      findUnique: async ({ where }: any) => rows.find(row => row.id === where.id) ?? null,
+      updateMany: async ({ where, data }: any) => {
+        const row = rows.find(candidate => candidate.id === where.id && candidate.status === where.status)
+        if (!row) return { count: 0 }
+        row.status = data.status
+        return { count: 1 }
+      }
+    }
+  }
+  return { tx, inquiry, rows }
+}
+
+describe('Automatic Workflow Tests', () => {
+  test('the inquiry waits until every item is costed', async () => {
+    const { tx, inquiry } = workflowTable('ASSIGNED', [
+      { id: 'a', status: 'COSTED', isApproved: false },
+      { id: 'b', status: 'IN_PROGRESS' }
+    ])
+
+    expect(await applyAutomaticInquiryTransition(tx, 'inquiry-1', 'COSTING')).toBeNull()
+    expect(await applyAutomaticItemTransition(tx, 'b', 'COSTED')).toBe(false)
+    expect(inquiry.status).toBe('ASSIGNED')
+  })
+
+  test('a move that happens is reported for the status hook', async () => {
+    const { tx, inquiry, rows } = workflowTable('ASSIGNED', [
+      { id: 'a', status: 'COSTED', isApproved: false },
+      { id: 'b', status: 'IN_PROGRESS', isApproved: false }
+    ])
+
+    expect(await applyAutomaticItemTransition(tx, 'b', 'COSTED')).toBe(true)
+    expect(await applyAutomaticInquiryTransition(tx, 'inquiry-1', 'COSTING'))
+      .toEqual({ inquiryId: 'inquiry-1', from: 'ASSIGNED', to: 'COSTING' })
+    expect(inquiry.status).toBe('COSTING')
+    expect(rows[1].status).toBe('COSTED')
+  })
+
+  test('moves outside the automatic transitions are not made', async () => {
+    const { tx, inquiry, rows } = workflowTable('QUOTED', [{ id: 'a', status: 'QUOTED', isApproved: true }])
+
+    expect(await applyAutomaticInquiryTransition(tx, 'inquiry-1', 'COSTING')).toBeNull()
+    expect(await applyAutomaticItemTransition(tx, 'a', 'ASSIGNED')).toBe(false)
+    expect(inquiry.status).toBe('QUOTED')
+    expect(rows[0].status).toBe('QUOTED')
+  })
+
+  test('items are approved only with an approved calculation, and rejected back to their assignee', async () => {
+    const { tx, rows } = workflowTable('COSTING', [
+      { id: 'a', status: 'COSTED', isApproved: false },
+      { id: 'b', status: 'COSTED', isApproved: true }
+    ])
+
+    expect(await applyAutomaticItemTransition(tx, 'a', 'APPROVED')).toBe(false)
+    expect(await applyAutomaticItemTransition(tx, 'a', 'ASSIGNED')).toBe(true)
+    expect(await applyAutomaticItemTransition(tx, 'b', 'APPROVED')).toBe(true)
+    expect(rows.map(row => row.status)).toEqual(['ASSIGNED', 'APPROVED'])
+  })
+})
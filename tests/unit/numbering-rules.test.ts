@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for Document Numbering
+ * Tests number patterns for quotes, production orders and inquiries
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  defaultNumberPatterns,
+  formatDocumentNumber,
+  literalPrefix,
+  NumberPatternError,
+  parseDocumentSequence,
+  validateNumberPattern
+} from '@/lib/numbering-rules'
+
+const march2025 = new Date(2025, 2, 14)
+
+describe('Document Numbering Tests', () => {
+  test('placeholders are filled from the date and counter', () => {
+    expect(formatDocumentNumber('Q-{YYYY}-{seq:5}', march2025, 42)).toBe('Q-2025-00042')
+    expect(formatDocumentNumber('PO/{YY}{MM}/{seq:3}', march2025, 7)).toBe('PO/2503/007')
+    expect(formatDocumentNumber('INQ{seq}', march2025, 1234)).toBe('INQ1234')
+    // Counters outgrow their padding rather than wrap
+    expect(formatDocumentNumber('Q-{seq:2}', march2025, 123)).toBe('Q-123')
+  })
+
+  test('the default patterns are valid with a yearly reset', () => {
+    for (const pattern of Object.values(defaultNumberPatterns)) {
+      expect(() => validateNumberPattern(pattern, true)).not.toThrow()
+    }
+  })
+
+  test('patterns need exactly one counter and known placeholders', () => {
+    expect(() => validateNumberPattern('Q-{YYYY}', false)).toThrow('The pattern must contain {seq} exactly once')
+    expect(() => validateNumberPattern('Q-{seq}-{seq}', false)).toThrow(NumberPatternError)
+    expect(() => validateNumberPattern('Q-{DD}-{seq}', false)).toThrow('Unknown placeholder {DD}')
+    expect(() => validateNumberPattern('Q-{seq:13}', false)).toThrow('{seq} can be padded to at most 12 digits')
+  })
+
+  test('a yearly reset needs the year in the number', () => {
+    expect(() => validateNumberPattern('Q-{MM}-{seq:4}', true)).toThrow('A pattern that resets yearly must contain {YYYY} or {YY}')
+    expect(() => validateNumberPattern('Q-{MM}-{seq:4}', false)).not.toThrow()
+    expect(() => validateNumberPattern('Q-{YY}-{seq:4}', true)).not.toThrow()
+  })
+
+  test('counters are read back from existing numbers of the year', () => {
+    expect(parseDocumentSequence('Q-{YYYY}-{seq:5}', 'Q-2025-00042', 2025)).toBe(42)
+    expect(parseDocumentSequence('Q-{YYYY}-{seq:5}', 'Q-2024-00042', 2025)).toBeNull()
+    expect(parseDocumentSequence('Q-{YYYY}-{seq:5}', 'Q-2024-00042', null)).toBe(42)
+    expect(parseDocumentSequence('PO/{YY}{MM}/{seq:3}', 'PO/2511/1200', 2025)).toBe(1200)
+    expect(parseDocumentSequence('Q-{YYYY}-{seq:5}', 'QT-20250101-123', 2025)).toBeNull()
+  })
+
+  test('pattern text is matched literally', () => {
+    expect(parseDocumentSequence('Q.{seq}', 'Q.12', null)).toBe(12)
+    expect(parseDocumentSequence('Q.{seq}', 'QX12', null)).toBeNull()
+  })
+
+  test('the literal prefix is the text before the first placeholder', () => {
+    expect(literalPrefix('Q-{YYYY}-{seq:5}')).toBe('Q-')
+    expect(literalPrefix('{YYYY}/{seq}')).toBe('')
+  })
+})
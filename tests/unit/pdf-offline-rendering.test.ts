@@ -0,0 +1,256 @@
+/**
+ * Regression Tests for Offline PDF Rendering
+ * Renders the quote and report templates with the network disabled and checks
+ * that their styles and fonts come from the document itself
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals'
+import * as fs from 'fs'
+import puppeteer, { Browser } from 'puppeteer'
+import type { CostCalculation, Customer, Inquiry, InquiryItem, User } from '@prisma/client'
+import { generateQuoteHTML, generateReportHTML, wrapDocumentHTML } from '@/lib/pdf-templates'
+import { PDF_DOCUMENT_CSS } from '@/lib/pdf-styles.generated'
+import { DEFAULT_LETTERHEAD } from '@/lib/letterhead'
+import { PDFService } from '@/lib/pdf'
+
+// Names with every Croatian and Bosnian letter outside basic Latin
+const DIACRITICS = 'čćđšž ČĆĐŠŽ'
+
+// Print helpers defined next to the embedded stylesheet
+const PRINT_CLASSES = ['page-break', 'no-page-break']
+
+// Rendering needs the Chrome build puppeteer was installed with
+const describeInBrowser = fs.existsSync(puppeteer.executablePath()) ? describe : describe.skip
+
+const letterhead = {
+  ...DEFAULT_LETTERHEAD,
+  companyName: 'Metaloprerađivačka industrija d.o.o.',
+  address: 'Žitnjak bb, 10000 Zagreb'
+}
+
+type InquiryWithRelations = Inquiry & {
+  customer: Customer
+  items: (InquiryItem & { costCalculation: CostCalculation | null })[]
+  createdBy: User
+}
+
+const created = new Date('2025-03-03T09:00:00Z')
+
+const customer: Customer = {
+  id: 'customer-1',
+  name: 'Čeličana Đurđević d.o.o.',
+  email: 'nabava@celicana.ba',
+  phone: '+387 32 555 010',
+  address: 'Šibenska 12, 72230 Žepče',
+  website: null,
+  contactPerson: null,
+  notes: null,
+  preferredCurrency: 'BAM',
+  taxTreatment: 'DOMESTIC',
+  taxProfileId: null,
+  isActive: true,
+  createdAt: created,
+  updatedAt: created,
+  createdById: 'user-1'
+}
+
+const createdBy: User = {
+  id: 'user-1',
+  email: 'ivana@example.com',
+  name: 'Ivana Ćosić',
+  password: null,
+  role: 'SALES',
+  isActive: true,
+  preferredLanguage: 'hr-HR',
+  createdAt: created,
+  updatedAt: created
+}
+
+const inquiry: InquiryWithRelations = {
+  id: 'inquiry-1',
+  inquiryNumber: 'INQ-2025-00007',
+  title: 'Zavareni nosači',
+  description: 'Nosači od čelika S235, pocinčani, težine do 12 kg',
+  status: 'IN_REVIEW',
+  priority: 'HIGH',
+  deadline: null,
+  totalValue: null,
+  createdAt: created,
+  updatedAt: created,
+  customerId: customer.id,
+  createdById: createdBy.id,
+  assignedToId: null,
+  customer,
+  createdBy,
+  items: []
+}
+
+function renderQuote(): string {
+  return wrapDocumentHTML(generateQuoteHTML(
+    inquiry,
+    'Q-2025-00042',
+    new Date('2025-04-01'),
+    [
+      { name: 'Nosač tip A', description: 'Š-profil', unit: 'kom', quantity: 10, unitPrice: 25, discount: 0, lineTotal: 250 }
+    ],
+    { currency: 'EUR', mainCurrency: 'EUR', exchangeRate: 1, exchangeRateDate: null },
+    { taxTreatment: 'DOMESTIC', taxName: 'PDV', taxRate: 0.17, taxAmount: 42.5, grossTotal: 292.5, taxNote: null },
+    letterhead
+  ))
+}
+
+function renderReport(): string {
+  return wrapDocumentHTML(generateReportHTML(
+    'Izvještaj o upitima',
+    'Mjesečni pregled',
+    { inquiries: [inquiry] },
+    { from: new Date('2025-03-01'), to: new Date('2025-03-31') },
+    {},
+    letterhead
+  ))
+}
+
+describe('Offline PDF Rendering Tests', () => {
+  test('documents reference nothing outside themselves', () => {
+    for (const html of [renderQuote(), renderReport()]) {
+      expect(html).not.toMatch(/<script/i)
+      expect(html).not.toMatch(/<link/i)
+      expect(html).not.toMatch(/(src|href)=["']?https?:/i)
+      expect(html).not.toMatch(/url\(["']?https?:/i)
+    }
+  })
+
+  test('embedded stylesheet covers every class the templates use', () => {
+    const classes = new Set<string>()
+    for (const html of [renderQuote(), renderReport()]) {
+      for (const match of Array.from(html.matchAll(/class="([^"]*)"/g))) {
+        match[1].split(/\s+/).filter(Boolean).forEach(name => classes.add(name))
+      }
+    }
+
+    const missing = Array.from(classes).filter(name =>
+      !PRINT_CLASSES.includes(name) && !PDF_DOCUMENT_CSS.includes(`.${name.replace(/([:/.])/g, '\\$1')}`)
+    )
+    expect(missing).toEqual([])
+  })
+
+  test('names with diacritics are printed as written', () => {
+    const quote = renderQuote()
+    const report = renderReport()
+
+    for (const text of [customer.name, customer.address!, inquiry.title, inquiry.description!, createdBy.name!, letterhead.companyName]) {
+      expect(quote).toContain(text)
+    }
+    expect(report).toContain('Izvještaj o upitima')
+    expect(report).toContain(customer.name)
+    for (const letter of Array.from(DIACRITICS.replace(' ', ''))) {
+      expect(quote + report).toContain(letter)
+    }
+  })
+
+  test('embedded fonts cover Croatian and Bosnian letters', () => {
+    const faces = PDF_DOCUMENT_CSS.match(/@font-face \{[^}]*\}/g) || []
+    const embeddedRanges = faces
+      .filter(face => face.includes('data:font/woff2;base64,'))
+      .map(face => /unicode-range: ([^;]+);/.exec(face)?.[1] ?? '')
+
+    for (const letter of Array.from(DIACRITICS.replace(' ', ''))) {
+      const codePoint = letter.codePointAt(0)!
+      const covered = embeddedRanges.some(ranges => ranges.split(',').some(range => {
+        const [start, end = start] = range.trim().replace(/^U\+/i, '').split('-').map(bound => parseInt(bound, 16))
+        return codePoint >= start && codePoint <= end
+      }))
+      expect({ letter, covered }).toEqual({ letter, covered: true })
+    }
+  })
+
+  describeInBrowser('Rendering with the network disabled', () => {
+    let browser: Browser
+
+    beforeAll(async () => {
+      browser = await puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+      })
+    }, 60000)
+
+    afterAll(async () => {
+      await browser?.close()
+      await PDFService.cleanup()
+    })
+
+    // Renders a document offline; returns what it tried to fetch and how it looks
+    async function renderOffline(html: string, container: string) {
+      const page = await browser.newPage()
+      const networkRequests: string[] = []
+
+      try {
+        await page.setOfflineMode(true)
+        await page.setRequestInterception(true)
+        page.on('request', request => {
+          if (!request.url().startsWith('data:')) {
+            networkRequests.push(request.url())
+          }
+          request.continue()
+        })
+
+        await page.setContent(html, { waitUntil: 'load', timeout: 30000 })
+        await page.evaluate(async () => { await document.fonts.ready })
+
+        const rendered = await page.evaluate((selector, text) => {
+          const element = document.querySelector(selector)!
+          const style = getComputedStyle(element)
+          const table = document.querySelector('table')!
+          const loadedRanges = Array.from(document.fonts)
+            .filter(font => font.family.replace(/["']/g, '') === 'Noto Sans' && font.status === 'loaded')
+            .map(font => font.unicodeRange)
+
+          return {
+            maxWidth: style.maxWidth,
+            fontFamily: getComputedStyle(document.body).fontFamily,
+            borderCollapse: getComputedStyle(table).borderCollapse,
+            loadedRanges,
+            diacriticsAvailable: document.fonts.check('16px "Noto Sans"', text)
+          }
+        }, container, DIACRITICS)
+
+        return { networkRequests, ...rendered }
+      } finally {
+        await page.close()
+      }
+    }
+
+    test('quote renders with its styles and fonts offline', async () => {
+      const rendered = await renderOffline(renderQuote(), '.max-w-4xl')
+
+      expect(rendered.networkRequests).toEqual([])
+      expect(rendered.maxWidth).toBe('896px')
+      expect(rendered.borderCollapse).toBe('collapse')
+      expect(rendered.fontFamily).toMatch(/^"?Noto Sans/)
+      // The Latin Extended face carries the diacritics
+      expect(rendered.loadedRanges.some(range => /U\+100-2BA/i.test(range))).toBe(true)
+      expect(rendered.diacriticsAvailable).toBe(true)
+    }, 60000)
+
+    test('report renders with its styles and fonts offline', async () => {
+      const rendered = await renderOffline(renderReport(), '.max-w-6xl')
+
+      expect(rendered.networkRequests).toEqual([])
+      expect(rendered.maxWidth).toBe('1152px')
+      expect(rendered.borderCollapse).toBe('collapse')
+      expect(rendered.fontFamily).toMatch(/^"?Noto Sans/)
+      expect(rendered.loadedRanges.some(range => /U\+100-2BA/i.test(range))).toBe(true)
+      expect(rendered.diacriticsAvailable).toBe(true)
+    }, 60000)
+
+    test('PDF service produces both documents without waiting on the network', async () => {
+      for (const html of [renderQuote(), renderReport()]) {
+        const started = Date.now()
+        const pdf = await PDFService.generatePDFFromHTML(html)
+
+        expect(pdf.subarray(0, 4).toString()).toBe('%PDF')
+        expect(Date.now() - started).toBeLessThan(20000)
+      }
+    }, 90000)
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Unit Tests for the Production Order Workflow
+ * Tests which status changes a production order allows and what they carry
+ * over to its items
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import type { ProductionOrderStatus } from '@prisma/client'
+import { findProductionOrderTransition, productionOrderTransitions } from '@/lib/production-order-workflow'
+
+describe('Production Order Workflow Tests', () => {
+  test('orders move forward through production', () => {
+    expect(findProductionOrderTransition('PENDING', 'IN_PROGRESS')?.action).toBe('start')
+    expect(findProductionOrderTransition('IN_PROGRESS', 'COMPLETED')?.action).toBe('complete')
+    expect(findProductionOrderTransition('IN_PROGRESS', 'ON_HOLD')?.action).toBe('hold')
+    expect(findProductionOrderTransition('ON_HOLD', 'IN_PROGRESS')?.action).toBe('resume')
+  })
+
+  test('moves the workflow does not define are refused', () => {
+    expect(findProductionOrderTransition('PENDING', 'COMPLETED')).toBeNull()
+    expect(findProductionOrderTransition('ON_HOLD', 'COMPLETED')).toBeNull()
+    expect(findProductionOrderTransition('IN_PROGRESS', 'PENDING')).toBeNull()
+    expect(findProductionOrderTransition('PENDING', 'PENDING')).toBeNull()
+  })
+
+  test('completed and cancelled orders are final', () => {
+    const statuses = Object.keys(productionOrderTransitions) as ProductionOrderStatus[]
+    for (const to of statuses) {
+      expect(findProductionOrderTransition('COMPLETED', to)).toBeNull()
+      expect(findProductionOrderTransition('CANCELLED', to)).toBeNull()
+    }
+  })
+
+  test('holding and cancelling need a reason', () => {
+    expect(findProductionOrderTransition('IN_PROGRESS', 'ON_HOLD')?.requiresReason).toBe(true)
+    expect(findProductionOrderTransition('ON_HOLD', 'CANCELLED')?.requiresReason).toBe(true)
+    expect(findProductionOrderTransition('PENDING', 'IN_PROGRESS')?.requiresReason).toBe(false)
+  })
+
+  test('items follow the order unless already finished', () => {
+    const complete = findProductionOrderTransition('IN_PROGRESS', 'COMPLETED')!
+    const hold = findProductionOrderTransition('PENDING', 'ON_HOLD')!
+
+    expect(complete.cascade).toEqual({ from: ['PENDING', 'IN_PROGRESS', 'ON_HOLD'], to: 'COMPLETED' })
+    expect(hold.cascade.from).not.toContain('COMPLETED')
+    expect(hold.cascade.to).toBe('ON_HOLD')
+  })
+})
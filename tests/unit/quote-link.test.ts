@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for Quote Response Links
+ * Tests the signed, expiring tokens behind the public quote response page
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals'
+import { createQuoteResponseToken, getQuoteResponseUrl, verifyQuoteResponseToken } from '@/lib/quote-link'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Quote Response Link Tests', () => {
+  const originalEnv = { ...process.env }
+
+  beforeAll(() => {
+    process.env.QUOTE_LINK_SECRET = 'test-secret'
+    delete process.env.NEXT_PUBLIC_APP_URL
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  test('a token verifies to the quote it was created for', () => {
+    const token = createQuoteResponseToken('quote-1', new Date(Date.now() + DAY_MS))
+
+    expect(verifyQuoteResponseToken(token)).toEqual({ quoteId: 'quote-1' })
+  })
+
+  test('expired tokens are rejected', () => {
+    const token = createQuoteResponseToken('quote-1', new Date(Date.now() - 1000))
+
+    expect(verifyQuoteResponseToken(token)).toBeNull()
+  })
+
+  test('a token pointed at another quote is rejected', () => {
+    const token = createQuoteResponseToken('quote-1', new Date(Date.now() + DAY_MS))
+    const [, signature] = token.split('.')
+    const otherPayload = Buffer.from(JSON.stringify({ quoteId: 'quote-2', expiresAt: Date.now() + DAY_MS })).toString('base64url')
+
+    expect(verifyQuoteResponseToken(`${otherPayload}.${signature}`)).toBeNull()
+  })
+
+  test('tokens signed with another secret are rejected', () => {
+    const token = createQuoteResponseToken('quote-1', new Date(Date.now() + DAY_MS))
+    process.env.QUOTE_LINK_SECRET = 'rotated-secret'
+    try {
+      expect(verifyQuoteResponseToken(token)).toBeNull()
+    } finally {
+      process.env.QUOTE_LINK_SECRET = 'test-secret'
+    }
+  })
+
+  test('malformed tokens are rejected', () => {
+    for (const token of ['', 'no-signature', '.', 'abc.def', 'a.b.c']) {
+      expect(verifyQuoteResponseToken(token)).toBeNull()
+    }
+  })
+
+  test('response URLs point at the public page', () => {
+    expect(getQuoteResponseUrl('abc.def', 'https://cms.example.com/')).toBe('https://cms.example.com/quote-response/abc.def')
+    expect(getQuoteResponseUrl('abc.def')).toBe('/quote-response/abc.def')
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * Unit Tests for Quote Pricing and Revisions
+ * Tests how quote lines are priced from approved cost calculations and how
+ * revisions of a quote are compared
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { Prisma, type CostCalculation, type InquiryItem } from '@prisma/client'
+import {
+  buildQuoteLines,
+  diffQuoteRevisions,
+  findQuoteLineProblems,
+  priceQuoteLine,
+  revisionValidUntil,
+  summarizeQuoteLines
+} from '@/lib/quote-service'
+
+type ItemWithCost = InquiryItem & { costCalculation: CostCalculation | null }
+type Revision = Parameters<typeof diffQuoteRevisions>[0]
+
+const created = new Date('2025-03-01T08:00:00Z')
+
+function costCalculation(inquiryItemId: string, totalCost: number, isApproved = true): CostCalculation {
+  return {
+    id: `calc-${inquiryItemId}`,
+    materialCost: new Prisma.Decimal(totalCost),
+    laborCost: new Prisma.Decimal(0),
+    overheadCost: new Prisma.Decimal(0),
+    totalCost: new Prisma.Decimal(totalCost),
+    materialCostCurrency: 'EUR',
+    laborCostCurrency: 'EUR',
+    overheadCostCurrency: 'EUR',
+    materialCostOriginal: null,
+    laborCostOriginal: null,
+    overheadCostOriginal: null,
+    materialCostRate: null,
+    laborCostRate: null,
+    overheadCostRate: null,
+    notes: null,
+    isApproved,
+    approvedAt: isApproved ? created : null,
+    revision: 1,
+    createdAt: created,
+    updatedAt: created,
+    templateInputs: null,
+    inquiryItemId,
+    calculatedById: 'vp-1',
+    templateId: null
+  }
+}
+
+function item(id: string, quantity: number, calculation: CostCalculation | null): ItemWithCost {
+  return {
+    id,
+    name: `Item ${id}`,
+    description: null,
+    quantity,
+    unit: 'pcs',
+    status: calculation?.isApproved ? 'APPROVED' : 'COSTED',
+    notes: null,
+    requestedDelivery: null,
+    priceEstimation: null,
+    createdAt: created,
+    updatedAt: created,
+    inquiryId: 'inquiry-1',
+    assignedToId: 'vp-1',
+    costCalculation: calculation
+  }
+}
+
+const items = [
+  item('a', 10, costCalculation('a', 100)),
+  item('b', 2, costCalculation('b', 45.5)),
+  item('c', 1, costCalculation('c', 80, false))
+]
+
+describe('Quote Pricing Tests', () => {
+  test('a line adds the margin to the unit cost and takes the discount off the line', () => {
+    expect(priceQuoteLine(100, 3, 0.25, 0.1)).toEqual({ unitPrice: 125, lineTotal: 337.5 })
+  })
+
+  test('without line input every item is quoted at its requested quantity and the quote margin', () => {
+    const lines = buildQuoteLines(items.slice(0, 2), 0.2)
+
+    expect(lines).toEqual([
+      { inquiryItemId: 'a', sortOrder: 0, quantity: 10, unitCost: 100, marginOverride: null, discount: 0, unitPrice: 120, lineTotal: 1200 },
+      { inquiryItemId: 'b', sortOrder: 1, quantity: 2, unitCost: 45.5, marginOverride: null, discount: 0, unitPrice: 54.6, lineTotal: 109.2 }
+    ])
+  })
+
+  test('line input chooses the items, their order, quantities, margins and discounts', () => {
+    const lines = buildQuoteLines(items, 0.2, [
+      { inquiryItemId: 'b', quantity: 5, discount: 0.05 },
+      { inquiryItemId: 'a', marginOverride: 0.5 }
+    ])
+
+    expect(lines.map(line => line.inquiryItemId)).toEqual(['b', 'a'])
+    expect(lines[0]).toMatchObject({ sortOrder: 0, quantity: 5, unitPrice: 54.6, lineTotal: 259.35 })
+    expect(lines[1]).toMatchObject({ sortOrder: 1, quantity: 10, marginOverride: 0.5, unitPrice: 150, lineTotal: 1500 })
+  })
+
+  test('unit costs can be converted before pricing', () => {
+    const [line] = buildQuoteLines(items, 0, [{ inquiryItemId: 'a' }], calculation => Number(calculation.totalCost) * 1.95583)
+
+    expect(line.unitCost).toBe(195.58)
+    expect(line.unitPrice).toBe(195.58)
+  })
+
+  test('totals are the cost basis and what the customer pays', () => {
+    const lines = buildQuoteLines(items.slice(0, 2), 0.2)
+
+    expect(summarizeQuoteLines(lines)).toEqual({ subtotal: 1091, total: 1309.2 })
+  })
+
+  test('lines must reference approved items of the inquiry, once each', () => {
+    expect(findQuoteLineProblems(items, ['a', 'b'])).toBeNull()
+    expect(findQuoteLineProblems(items, ['a', 'x'])).toEqual({
+      error: 'Quote lines must reference items of the selected inquiry',
+      items: [{ id: 'x' }]
+    })
+    expect(findQuoteLineProblems(items, ['a', 'a'])?.items).toEqual([{ id: 'a' }])
+    expect(findQuoteLineProblems(items, ['a', 'c'])?.items).toEqual([{ id: 'c', name: 'Item c' }])
+    expect(findQuoteLineProblems(items, [])).not.toBeNull()
+  })
+})
+
+function revision(number: number, lines: Array<[string, number, number]>, changes: Partial<Revision> = {}): Revision {
+  const quoteLines = lines.map(([inquiryItemId, quantity, unitPrice]) => ({
+    inquiryItemId,
+    quantity,
+    unitPrice: new Prisma.Decimal(unitPrice),
+    discount: new Prisma.Decimal(0),
+    lineTotal: new Prisma.Decimal(quantity * unitPrice),
+    inquiryItem: { name: `Item ${inquiryItemId}` }
+  }))
+  return {
+    id: `quote-r${number}`,
+    revision: number,
+    title: 'Welded brackets',
+    margin: new Prisma.Decimal(0.2),
+    total: new Prisma.Decimal(quoteLines.reduce((sum, line) => sum + Number(line.lineTotal), 0)),
+    currency: 'EUR',
+    validUntil: new Date('2025-04-30T00:00:00Z'),
+    terms: null,
+    lines: quoteLines,
+    ...changes
+  }
+}
+
+describe('Quote Revision Tests', () => {
+  test('lines are matched by inquiry item and deltas run from the older revision', () => {
+    const diff = diffQuoteRevisions(
+      revision(0, [['a', 10, 120], ['b', 2, 54.6], ['c', 1, 30]]),
+      revision(1, [['a', 10, 115], ['c', 1, 30], ['d', 4, 12.5]])
+    )
+
+    expect(diff.from).toEqual({ id: 'quote-r0', revision: 0 })
+    expect(diff.to).toEqual({ id: 'quote-r1', revision: 1 })
+    expect(diff.lines.map(line => [line.inquiryItemId, line.change])).toEqual([
+      ['a', 'changed'],
+      ['b', 'removed'],
+      ['c', 'unchanged'],
+      ['d', 'added']
+    ])
+    expect(diff.lines[0]).toMatchObject({ unitPriceDelta: -5, lineTotalDelta: -50 })
+    expect(diff.lines[1]).toMatchObject({ name: 'Item b', to: null, lineTotalDelta: -109.2 })
+    expect(diff.lines[3]).toMatchObject({ from: null, unitPriceDelta: 12.5, lineTotalDelta: 50 })
+    expect(diff.totalDelta).toBe(-109.2)
+  })
+
+  test('only header fields that differ are listed', () => {
+    const diff = diffQuoteRevisions(
+      revision(0, [['a', 1, 100]]),
+      revision(1, [['a', 1, 100]], { title: 'Welded brackets, galvanized', terms: 'Net 30' })
+    )
+
+    expect(diff.fields).toEqual([
+      { field: 'title', from: 'Welded brackets', to: 'Welded brackets, galvanized' },
+      { field: 'terms', from: null, to: 'Net 30' }
+    ])
+    expect(diff.totalDelta).toBe(0)
+  })
+
+  test('a new revision is offered for the same period from today', () => {
+    const now = new Date('2025-06-10T09:00:00Z')
+
+    expect(revisionValidUntil({
+      validUntil: '2025-04-30T00:00:00Z',
+      sentAt: new Date('2025-03-31T00:00:00Z'),
+      createdAt: created
+    }, now)).toEqual(new Date('2025-07-10T09:00:00Z'))
+    expect(revisionValidUntil({ validUntil: '2025-03-15T08:00:00Z', sentAt: null, createdAt: created }, now))
+      .toEqual(new Date('2025-06-24T09:00:00Z'))
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for Quote Tax Rules
+ * Tests VAT on quotes for domestic, EU reverse-charge and export customers
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { Prisma } from '@prisma/client'
+import { calculateQuoteTax, describeQuoteTax, statutoryTaxNotes, toQuoteTax } from '@/lib/tax-rules'
+
+const pdv = { name: 'PDV 17%', rate: 0.17, note: null }
+
+describe('Quote Tax Tests', () => {
+  test('domestic quotes pay the rate of their tax profile', () => {
+    expect(calculateQuoteTax(1234.56, 'DOMESTIC', pdv)).toEqual({
+      taxTreatment: 'DOMESTIC',
+      taxName: 'PDV 17%',
+      taxRate: 0.17,
+      taxAmount: 209.88,
+      grossTotal: 1444.44,
+      taxNote: null
+    })
+  })
+
+  test('the profile note is printed with a domestic quote', () => {
+    const tax = calculateQuoteTax(100, 'DOMESTIC', { name: 'PDV 0%', rate: 0, note: 'Exempt under Article 25' })
+
+    expect(tax.taxAmount).toBe(0)
+    expect(tax.taxNote).toBe('Exempt under Article 25')
+  })
+
+  test('a domestic quote cannot be taxed without a profile', () => {
+    expect(() => calculateQuoteTax(100, 'DOMESTIC', null)).toThrow('A domestic quote needs a tax profile')
+  })
+
+  test('reverse-charge and export quotes are zero-rated with the statutory wording', () => {
+    for (const treatment of ['EU_REVERSE_CHARGE', 'EXPORT_EXEMPT'] as const) {
+      const tax = calculateQuoteTax(1000, treatment, pdv)
+
+      expect(tax.taxRate).toBe(0)
+      expect(tax.taxAmount).toBe(0)
+      expect(tax.grossTotal).toBe(1000)
+      expect(tax.taxNote).toBe(statutoryTaxNotes[treatment])
+    }
+  })
+
+  test('tax line labels', () => {
+    expect(describeQuoteTax({ taxTreatment: 'DOMESTIC', taxRate: 0.17 })).toBe('VAT 17%')
+    expect(describeQuoteTax({ taxTreatment: 'DOMESTIC', taxRate: 0.055 })).toBe('VAT 5.5%')
+    expect(describeQuoteTax({ taxTreatment: 'EU_REVERSE_CHARGE', taxRate: 0 })).toBe('VAT 0% (EU reverse charge)')
+  })
+
+  test('stored tax fields come back as numbers', () => {
+    expect(toQuoteTax({
+      taxTreatment: 'DOMESTIC',
+      taxName: 'PDV 17%',
+      taxRate: new Prisma.Decimal('0.1700'),
+      taxAmount: new Prisma.Decimal('209.88'),
+      grossTotal: '1444.44',
+      taxNote: null
+    })).toEqual({ taxTreatment: 'DOMESTIC', taxName: 'PDV 17%', taxRate: 0.17, taxAmount: 209.88, grossTotal: 1444.44, taxNote: null })
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for the Metal Weight Calculator
+ * Tests cross sections, weights and the standard profile lookup
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { calculateWeight, crossSectionArea, findProfile } from '@/lib/weight-service'
+import { AppError } from '@/types'
+
+const common = { density: 7850, quantity: 1 }
+
+describe('Weight Calculator Tests', () => {
+  test('a plate weighs its volume times the density', () => {
+    const result = calculateWeight({ shape: 'PLATE', thickness: 10, width: 1000, length: 2000, density: 7850, quantity: 3 })
+
+    expect(result).toEqual({
+      shape: 'PLATE',
+      description: 'PL 10x1000, L=2000 mm',
+      crossSectionArea: 10000,
+      massPerMeter: 78.5,
+      weightPerPiece: 157,
+      totalWeight: 471,
+      totalLength: 6,
+      quantity: 3
+    })
+  })
+
+  test('hollow, round and angle sections', () => {
+    expect(crossSectionArea({ shape: 'ROUND_BAR', diameter: 20, length: 1000, ...common })).toBeCloseTo(314.16, 2)
+    expect(crossSectionArea({ shape: 'PIPE', outerDiameter: 60.3, wallThickness: 4, length: 1000, ...common })).toBeCloseTo(707.49, 2)
+    expect(crossSectionArea({ shape: 'RHS', width: 100, height: 50, wallThickness: 5, length: 1000, ...common })).toBe(1400)
+    expect(crossSectionArea({ shape: 'ANGLE', legA: 50, legB: 50, thickness: 5, length: 1000, ...common })).toBe(475)
+  })
+
+  test('square hollow sections are described as SHS', () => {
+    expect(calculateWeight({ shape: 'RHS', width: 80, height: 80, wallThickness: 4, length: 500, ...common }).description)
+      .toBe('SHS 80x80x4, L=500 mm')
+  })
+
+  test('I-beams take their area from the profile table', () => {
+    const result = calculateWeight({ shape: 'I_BEAM', designation: 'ipe200', length: 6000, ...common })
+
+    expect(result.description).toBe('IPE 200, L=6000 mm')
+    expect(result.crossSectionArea).toBe(2850)
+    expect(result.massPerMeter).toBe(22.373)
+    expect(result.weightPerPiece).toBe(134.235)
+  })
+
+  test('profiles are found regardless of spacing and case', () => {
+    expect(findProfile('HEA 200')?.designation).toBe('HEA 200')
+    expect(findProfile(' hea200 ')?.designation).toBe('HEA 200')
+    expect(findProfile('UPN 200')).toBeUndefined()
+  })
+
+  test('impossible sections and unknown profiles are rejected', () => {
+    expect(() => crossSectionArea({ shape: 'RHS', width: 40, height: 20, wallThickness: 10, length: 1000, ...common }))
+      .toThrow('Wall thickness is too large for the section')
+    expect(() => crossSectionArea({ shape: 'PIPE', outerDiameter: 20, wallThickness: 10, length: 1000, ...common }))
+      .toThrow('Wall thickness is too large for the diameter')
+    expect(() => crossSectionArea({ shape: 'ANGLE', legA: 30, legB: 50, thickness: 30, length: 1000, ...common }))
+      .toThrow(AppError)
+    expect(() => calculateWeight({ shape: 'I_BEAM', designation: 'IPE 999', length: 1000, ...common }))
+      .toThrow('Unknown profile IPE 999')
+  })
+})